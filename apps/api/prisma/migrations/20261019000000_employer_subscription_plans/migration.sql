@@ -0,0 +1,102 @@
+-- Subscription plans replace the per-employer max_vacancies / max_recruiters columns.
+CREATE TABLE IF NOT EXISTS subscription_plans (
+    id UUID NOT NULL DEFAULT uuid_generate_v7(),
+    code VARCHAR(50) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    max_open_vacancies INTEGER,
+    max_recruiters INTEGER,
+    monthly_cv_views INTEGER,
+    max_featured_vacancies INTEGER,
+    is_default BOOLEAN NOT NULL DEFAULT false,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP(6) NOT NULL,
+
+    CONSTRAINT subscription_plans_pkey PRIMARY KEY (id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS subscription_plans_code_key ON subscription_plans (code);
+
+ALTER TABLE employers
+    ADD COLUMN IF NOT EXISTS plan_id UUID,
+    ADD COLUMN IF NOT EXISTS plan_assigned_at TIMESTAMP(6);
+CREATE INDEX IF NOT EXISTS employers_plan_id_idx ON employers (plan_id);
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'employers_plan_id_fkey') THEN
+        ALTER TABLE employers ADD CONSTRAINT employers_plan_id_fkey
+            FOREIGN KEY (plan_id) REFERENCES subscription_plans (id) ON DELETE RESTRICT ON UPDATE CASCADE;
+    END IF;
+END $$;
+
+-- Move the existing limits onto plans before dropping the columns. The column defaults (50 vacancies,
+-- 10 recruiters) become the default plan unless one exists, and employers whose limits match the default
+-- plan keep falling back to it. Every other distinct pair gets its own plan, assigned to the employers
+-- that had it.
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'employers' AND column_name = 'max_vacancies'
+    ) THEN
+        INSERT INTO subscription_plans (code, name, max_open_vacancies, max_recruiters, max_featured_vacancies, is_default, updated_at)
+        SELECT 'DEFAULT', 'Default', 50, 10, 0, true, CURRENT_TIMESTAMP
+        WHERE NOT EXISTS (SELECT 1 FROM subscription_plans WHERE is_default)
+        ON CONFLICT (code) DO NOTHING;
+
+        INSERT INTO subscription_plans (code, name, description, max_open_vacancies, max_recruiters, max_featured_vacancies, updated_at)
+        SELECT DISTINCT
+            'LEGACY_' || max_vacancies || '_' || max_recruiters,
+            'Legacy ' || max_vacancies || '/' || max_recruiters,
+            'Limits the employers had before subscription plans',
+            max_vacancies,
+            max_recruiters,
+            0,
+            CURRENT_TIMESTAMP
+        FROM employers
+        WHERE plan_id IS NULL
+          AND NOT EXISTS (
+              SELECT 1 FROM subscription_plans d
+              WHERE d.is_default
+                AND d.max_open_vacancies IS NOT DISTINCT FROM employers.max_vacancies
+                AND d.max_recruiters IS NOT DISTINCT FROM employers.max_recruiters
+          )
+        ON CONFLICT (code) DO NOTHING;
+
+        UPDATE employers e
+        SET plan_id = p.id,
+            plan_assigned_at = CURRENT_TIMESTAMP
+        FROM subscription_plans p
+        WHERE e.plan_id IS NULL
+          AND NOT p.is_default
+          AND p.code = 'LEGACY_' || e.max_vacancies || '_' || e.max_recruiters;
+    END IF;
+END $$;
+
+ALTER TABLE employers
+    DROP COLUMN IF EXISTS max_vacancies,
+    DROP COLUMN IF EXISTS max_recruiters;
+
+-- CV views counted against the monthly quota.
+CREATE TABLE IF NOT EXISTS employer_cv_views (
+    id UUID NOT NULL DEFAULT uuid_generate_v7(),
+    employer_id UUID NOT NULL,
+    worker_id UUID NOT NULL,
+    period_start DATE NOT NULL,
+    viewed_by UUID NOT NULL,
+    first_viewed_at TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT employer_cv_views_pkey PRIMARY KEY (id),
+    CONSTRAINT employer_cv_views_employer_id_fkey
+        FOREIGN KEY (employer_id) REFERENCES employers (id) ON DELETE CASCADE ON UPDATE CASCADE
+);
+CREATE UNIQUE INDEX IF NOT EXISTS employer_cv_views_employer_id_worker_id_period_start_key
+    ON employer_cv_views (employer_id, worker_id, period_start);
+CREATE INDEX IF NOT EXISTS employer_cv_views_employer_id_period_start_idx
+    ON employer_cv_views (employer_id, period_start);
+
+-- Featured postings.
+ALTER TABLE vacancies
+    ADD COLUMN IF NOT EXISTS is_featured BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS featured_at TIMESTAMP(6);
+CREATE INDEX IF NOT EXISTS vacancies_employer_id_is_featured_idx ON vacancies (employer_id, is_featured);
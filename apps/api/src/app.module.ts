@@ -9,11 +9,19 @@ import { IdentityModule } from './modules/identity/identity.module';
 import { WorkerModule } from './modules/worker/worker.module';
 import { EmployerModule } from './modules/employer/employer.module';
 import { VacancyModule } from './modules/vacancy/vacancy.module';
+import { AnalyticsModule } from './modules/analytics/analytics.module';
+import { SubscriptionModule } from './modules/subscription/subscription.module';
 import { ApplicationModule } from './modules/application/application.module';
 import { InterviewModule } from './modules/interview/interview.module';
 import { GovIntegrationModule } from './modules/gov-integration/gov-integration.module';
 import { MatchingModule } from './modules/matching/matching.module';
+import { SkillTaxonomyModule } from './modules/skill-taxonomy/skill-taxonomy.module';
+import { AuditModule } from './modules/audit/audit.module';
+import { NotificationModule } from './modules/notification/notification.module';
+import { GovSimulatorModule } from './modules/gov-simulator/gov-simulator.module';
 import { ShutdownModule } from './common/shutdown/shutdown.module';
+import { EventsModule } from './common/events/events.module';
+import { SchedulerModule } from './common/scheduler/scheduler.module';
 import { APP_GUARD } from '@nestjs/core';
 import { RateLimitGuard } from './common/guards/rate-limit.guard';
 import { EventLoopMonitorService } from './common/monitoring/event-loop-monitor.service';
@@ -30,11 +38,19 @@ import { EventLoopMonitorService } from './common/monitoring/event-loop-monitor.
     WorkerModule,
     EmployerModule,
     VacancyModule,
+    AnalyticsModule,
+    SubscriptionModule,
     ApplicationModule,
     InterviewModule,
     GovIntegrationModule,
+    GovSimulatorModule.register(),
     MatchingModule,
+    SkillTaxonomyModule,
+    AuditModule,
+    NotificationModule,
     ShutdownModule,
+    EventsModule,
+    SchedulerModule,
   ],
   providers: [
     {
@@ -0,0 +1,34 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { EventEmitter } from 'events';
+import { DomainEventName, DomainEventPayloads } from './domain-events';
+
+type DomainEventHandler<E extends DomainEventName> = (payload: DomainEventPayloads[E]) => Promise<void> | void;
+
+@Injectable()
+export class DomainEventBus implements OnModuleDestroy {
+  private readonly logger = new Logger(DomainEventBus.name);
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(50);
+  }
+
+  // Handlers run asynchronously; a failing subscriber must never surface as an error to the publisher.
+  publish<E extends DomainEventName>(event: E, payload: DomainEventPayloads[E]): void {
+    this.emitter.emit(event, payload);
+  }
+
+  subscribe<E extends DomainEventName>(event: E, handler: DomainEventHandler<E>): void {
+    this.emitter.on(event, (payload: DomainEventPayloads[E]) => {
+      Promise.resolve()
+        .then(() => handler(payload))
+        .catch((error: any) => {
+          this.logger.error(`Handler for ${event} failed: ${error?.message || error}`);
+        });
+    });
+  }
+
+  onModuleDestroy() {
+    this.emitter.removeAllListeners();
+  }
+}
@@ -0,0 +1,72 @@
+export const DomainEvents = {
+  WORKER_SKILLS_CHANGED: 'worker.skills.changed',
+  WORKER_EDUCATION_CHANGED: 'worker.education.changed',
+  WORKER_EXPERIENCE_CHANGED: 'worker.experience.changed',
+  WORKER_PREFERENCES_CHANGED: 'worker.preferences.changed',
+  VACANCY_PUBLISHED: 'vacancy.published',
+  VACANCY_UPDATED: 'vacancy.updated',
+  VACANCY_CLOSED: 'vacancy.closed',
+  VACANCY_EXPIRED: 'vacancy.expired',
+  VACANCY_MODERATED: 'vacancy.moderated',
+  APPLICATION_AUTO_REJECTED: 'application.auto_rejected',
+  GOV_VERIFICATION_FINISHED: 'gov.verification.finished',
+  GOV_VERIFICATION_EXPIRED: 'gov.verification.expired',
+} as const;
+
+export type DomainEventName = (typeof DomainEvents)[keyof typeof DomainEvents];
+
+export interface WorkerChangedEvent {
+  workerId: string;
+}
+
+export interface VacancyChangedEvent {
+  vacancyId: string;
+  employerId: string;
+  status: string;
+}
+
+export interface VacancyModeratedEvent {
+  vacancyId: string;
+  employerId: string;
+  employerUserId: string;
+  jobTitle: string;
+  decision: 'APPROVED' | 'REJECTED' | 'CHANGES_REQUESTED';
+  notes?: string;
+}
+
+export interface ApplicationAutoRejectedEvent {
+  applicationId: string;
+  userId: string;
+  vacancyId: string;
+  jobTitle: string;
+  reason: string;
+}
+
+export interface GovVerificationFinishedEvent {
+  verificationId: string;
+  userId: string;
+  verificationType: string;
+  status: 'COMPLETED' | 'FAILED';
+  verified: boolean;
+}
+
+export interface GovVerificationExpiredEvent {
+  userId: string;
+  verificationType: string;
+  reverificationQueued: boolean;
+}
+
+export interface DomainEventPayloads {
+  [DomainEvents.WORKER_SKILLS_CHANGED]: WorkerChangedEvent;
+  [DomainEvents.WORKER_EDUCATION_CHANGED]: WorkerChangedEvent;
+  [DomainEvents.WORKER_EXPERIENCE_CHANGED]: WorkerChangedEvent;
+  [DomainEvents.WORKER_PREFERENCES_CHANGED]: WorkerChangedEvent;
+  [DomainEvents.VACANCY_PUBLISHED]: VacancyChangedEvent;
+  [DomainEvents.VACANCY_UPDATED]: VacancyChangedEvent;
+  [DomainEvents.VACANCY_CLOSED]: VacancyChangedEvent;
+  [DomainEvents.VACANCY_EXPIRED]: VacancyChangedEvent;
+  [DomainEvents.VACANCY_MODERATED]: VacancyModeratedEvent;
+  [DomainEvents.APPLICATION_AUTO_REJECTED]: ApplicationAutoRejectedEvent;
+  [DomainEvents.GOV_VERIFICATION_FINISHED]: GovVerificationFinishedEvent;
+  [DomainEvents.GOV_VERIFICATION_EXPIRED]: GovVerificationExpiredEvent;
+}
@@ -0,0 +1,9 @@
+import { Module, Global } from '@nestjs/common';
+import { DomainEventBus } from './domain-event-bus.service';
+
+@Global()
+@Module({
+  providers: [DomainEventBus],
+  exports: [DomainEventBus],
+})
+export class EventsModule { }
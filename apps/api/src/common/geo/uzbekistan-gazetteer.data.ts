@@ -0,0 +1,136 @@
+export type GazetteerPlaceType = 'REGION' | 'CITY' | 'DISTRICT';
+
+export interface GazetteerPlace {
+  code: string;
+  type: GazetteerPlaceType;
+  name: string;
+  regionCode: string;
+  parentCode?: string;
+  latitude: number;
+  longitude: number;
+  variants: string[];
+}
+
+// Canonical names use the official Uzbek Latin spelling. Uzbek Cyrillic spellings do not need to be listed:
+// lookups transliterate Cyrillic input first, so only Russian and English forms appear as variants.
+// Region coordinates are those of the administrative centre.
+export const UZBEKISTAN_GAZETTEER: GazetteerPlace[] = [
+  // Regions
+  {
+    code: 'UZ-TK', type: 'REGION', name: 'Toshkent shahri', regionCode: 'UZ-TK', latitude: 41.2995, longitude: 69.2401,
+    variants: ['Toshkent shahri', 'Tashkent city', 'город Ташкент', 'г. Ташкент'],
+  },
+  {
+    code: 'UZ-TO', type: 'REGION', name: 'Toshkent viloyati', regionCode: 'UZ-TO', latitude: 41.0428, longitude: 69.3584,
+    variants: ['Toshkent viloyati', 'Tashkent region', 'Tashkent oblast', 'Ташкентская область'],
+  },
+  {
+    code: 'UZ-AN', type: 'REGION', name: 'Andijon viloyati', regionCode: 'UZ-AN', latitude: 40.7821, longitude: 72.3442,
+    variants: ['Andijon viloyati', 'Andijan region', 'Andijan oblast', 'Андижанская область'],
+  },
+  {
+    code: 'UZ-FA', type: 'REGION', name: "Farg'ona viloyati", regionCode: 'UZ-FA', latitude: 40.3864, longitude: 71.7864,
+    variants: ["Farg'ona viloyati", 'Fergana region', 'Fergana oblast', 'Ферганская область'],
+  },
+  {
+    code: 'UZ-NG', type: 'REGION', name: 'Namangan viloyati', regionCode: 'UZ-NG', latitude: 40.9983, longitude: 71.6726,
+    variants: ['Namangan viloyati', 'Namangan region', 'Namangan oblast', 'Наманганская область'],
+  },
+  {
+    code: 'UZ-SA', type: 'REGION', name: 'Samarqand viloyati', regionCode: 'UZ-SA', latitude: 39.6542, longitude: 66.9597,
+    variants: ['Samarqand viloyati', 'Samarkand region', 'Samarkand oblast', 'Самаркандская область'],
+  },
+  {
+    code: 'UZ-BU', type: 'REGION', name: 'Buxoro viloyati', regionCode: 'UZ-BU', latitude: 39.7747, longitude: 64.4286,
+    variants: ['Buxoro viloyati', 'Bukhara region', 'Bukhara oblast', 'Бухарская область'],
+  },
+  {
+    code: 'UZ-NW', type: 'REGION', name: 'Navoiy viloyati', regionCode: 'UZ-NW', latitude: 40.0844, longitude: 65.3792,
+    variants: ['Navoiy viloyati', 'Navoi region', 'Navoiy region', 'Navoi oblast', 'Навоийская область'],
+  },
+  {
+    code: 'UZ-QA', type: 'REGION', name: 'Qashqadaryo viloyati', regionCode: 'UZ-QA', latitude: 38.8606, longitude: 65.7891,
+    variants: ['Qashqadaryo viloyati', 'Kashkadarya region', 'Kashkadarya oblast', 'Кашкадарьинская область'],
+  },
+  {
+    code: 'UZ-SU', type: 'REGION', name: 'Surxondaryo viloyati', regionCode: 'UZ-SU', latitude: 37.2242, longitude: 67.2783,
+    variants: ['Surxondaryo viloyati', 'Surkhandarya region', 'Surkhandarya oblast', 'Сурхандарьинская область'],
+  },
+  {
+    code: 'UZ-JI', type: 'REGION', name: 'Jizzax viloyati', regionCode: 'UZ-JI', latitude: 40.1158, longitude: 67.8422,
+    variants: ['Jizzax viloyati', 'Jizzakh region', 'Jizzakh oblast', 'Джизакская область'],
+  },
+  {
+    code: 'UZ-SI', type: 'REGION', name: 'Sirdaryo viloyati', regionCode: 'UZ-SI', latitude: 40.4897, longitude: 68.7842,
+    variants: ['Sirdaryo viloyati', 'Syrdarya region', 'Syrdarya oblast', 'Сырдарьинская область'],
+  },
+  {
+    code: 'UZ-XO', type: 'REGION', name: 'Xorazm viloyati', regionCode: 'UZ-XO', latitude: 41.55, longitude: 60.6333,
+    variants: ['Xorazm viloyati', 'Khorezm region', 'Khorezm oblast', 'Хорезмская область'],
+  },
+  {
+    code: 'UZ-QR', type: 'REGION', name: "Qoraqalpog'iston Respublikasi", regionCode: 'UZ-QR', latitude: 42.46, longitude: 59.61,
+    variants: [
+      "Qoraqalpog'iston Respublikasi", "Qoraqalpog'iston", 'Karakalpakstan', 'Republic of Karakalpakstan',
+      'Каракалпакстан', 'Республика Каракалпакстан',
+    ],
+  },
+
+  // Cities
+  { code: 'UZ-TK:TASHKENT', type: 'CITY', name: 'Toshkent', regionCode: 'UZ-TK', latitude: 41.2995, longitude: 69.2401, variants: ['Toshkent', 'Tashkent', 'Ташкент'] },
+  { code: 'UZ-TO:NURAFSHON', type: 'CITY', name: 'Nurafshon', regionCode: 'UZ-TO', latitude: 41.0428, longitude: 69.3584, variants: ['Nurafshon', 'Nurafshan', 'Нурафшан', 'Toytepa', 'Тойтепа'] },
+  { code: 'UZ-TO:CHIRCHIQ', type: 'CITY', name: 'Chirchiq', regionCode: 'UZ-TO', latitude: 41.4689, longitude: 69.5822, variants: ['Chirchiq', 'Chirchik', 'Чирчик'] },
+  { code: 'UZ-TO:ANGREN', type: 'CITY', name: 'Angren', regionCode: 'UZ-TO', latitude: 41.0167, longitude: 70.1436, variants: ['Angren', 'Ангрен'] },
+  { code: 'UZ-TO:OLMALIQ', type: 'CITY', name: 'Olmaliq', regionCode: 'UZ-TO', latitude: 40.8444, longitude: 69.5983, variants: ['Olmaliq', 'Almalyk', 'Алмалык'] },
+  { code: 'UZ-TO:BEKOBOD', type: 'CITY', name: 'Bekobod', regionCode: 'UZ-TO', latitude: 40.2208, longitude: 69.2694, variants: ['Bekobod', 'Bekabad', 'Бекабад'] },
+  { code: 'UZ-TO:YANGIYOL', type: 'CITY', name: "Yangiyo'l", regionCode: 'UZ-TO', latitude: 41.1122, longitude: 69.0472, variants: ["Yangiyo'l", 'Yangiyul', 'Янгиюль'] },
+  { code: 'UZ-TO:OHANGARON', type: 'CITY', name: 'Ohangaron', regionCode: 'UZ-TO', latitude: 40.9064, longitude: 69.6383, variants: ['Ohangaron', 'Akhangaran', 'Ахангаран'] },
+  { code: 'UZ-AN:ANDIJON', type: 'CITY', name: 'Andijon', regionCode: 'UZ-AN', latitude: 40.7821, longitude: 72.3442, variants: ['Andijon', 'Andijan', 'Андижан'] },
+  { code: 'UZ-AN:ASAKA', type: 'CITY', name: 'Asaka', regionCode: 'UZ-AN', latitude: 40.6415, longitude: 72.2387, variants: ['Asaka', 'Асака'] },
+  { code: 'UZ-AN:XONOBOD', type: 'CITY', name: 'Xonobod', regionCode: 'UZ-AN', latitude: 40.8028, longitude: 73.0003, variants: ['Xonobod', 'Khanabad', 'Ханабад'] },
+  { code: 'UZ-FA:FARGONA', type: 'CITY', name: "Farg'ona", regionCode: 'UZ-FA', latitude: 40.3864, longitude: 71.7864, variants: ["Farg'ona", 'Fergana', 'Ferghana', 'Фергана'] },
+  { code: 'UZ-FA:QOQON', type: 'CITY', name: "Qo'qon", regionCode: 'UZ-FA', latitude: 40.5286, longitude: 70.9425, variants: ["Qo'qon", 'Kokand', 'Коканд'] },
+  { code: 'UZ-FA:MARGILON', type: 'CITY', name: "Marg'ilon", regionCode: 'UZ-FA', latitude: 40.4711, longitude: 71.7247, variants: ["Marg'ilon", 'Margilan', 'Маргилан'] },
+  { code: 'UZ-FA:QUVASOY', type: 'CITY', name: 'Quvasoy', regionCode: 'UZ-FA', latitude: 40.297, longitude: 71.98, variants: ['Quvasoy', 'Kuvasay', 'Кувасай'] },
+  { code: 'UZ-NG:NAMANGAN', type: 'CITY', name: 'Namangan', regionCode: 'UZ-NG', latitude: 40.9983, longitude: 71.6726, variants: ['Namangan', 'Наманган'] },
+  { code: 'UZ-NG:CHUST', type: 'CITY', name: 'Chust', regionCode: 'UZ-NG', latitude: 41.0033, longitude: 71.2372, variants: ['Chust', 'Чуст'] },
+  { code: 'UZ-SA:SAMARQAND', type: 'CITY', name: 'Samarqand', regionCode: 'UZ-SA', latitude: 39.6542, longitude: 66.9597, variants: ['Samarqand', 'Samarkand', 'Самарканд'] },
+  { code: 'UZ-SA:KATTAQORGON', type: 'CITY', name: "Kattaqo'rg'on", regionCode: 'UZ-SA', latitude: 39.8989, longitude: 66.2561, variants: ["Kattaqo'rg'on", 'Kattakurgan', 'Каттакурган'] },
+  { code: 'UZ-SA:URGUT', type: 'CITY', name: 'Urgut', regionCode: 'UZ-SA', latitude: 39.4022, longitude: 67.2431, variants: ['Urgut', 'Ургут'] },
+  { code: 'UZ-BU:BUXORO', type: 'CITY', name: 'Buxoro', regionCode: 'UZ-BU', latitude: 39.7747, longitude: 64.4286, variants: ['Buxoro', 'Bukhara', 'Бухара'] },
+  { code: 'UZ-BU:KOGON', type: 'CITY', name: 'Kogon', regionCode: 'UZ-BU', latitude: 39.7222, longitude: 64.5517, variants: ['Kogon', 'Kagan', 'Каган'] },
+  { code: 'UZ-BU:GIJDUVON', type: 'CITY', name: "G'ijduvon", regionCode: 'UZ-BU', latitude: 40.1, longitude: 64.6833, variants: ["G'ijduvon", 'Gijduvan', 'Гиждуван'] },
+  { code: 'UZ-NW:NAVOIY', type: 'CITY', name: 'Navoiy', regionCode: 'UZ-NW', latitude: 40.0844, longitude: 65.3792, variants: ['Navoiy', 'Navoi', 'Навои'] },
+  { code: 'UZ-NW:ZARAFSHON', type: 'CITY', name: 'Zarafshon', regionCode: 'UZ-NW', latitude: 41.5744, longitude: 64.1894, variants: ['Zarafshon', 'Zarafshan', 'Зарафшан'] },
+  { code: 'UZ-NW:UCHQUDUQ', type: 'CITY', name: 'Uchquduq', regionCode: 'UZ-NW', latitude: 42.1567, longitude: 63.5556, variants: ['Uchquduq', 'Uchkuduk', 'Учкудук'] },
+  { code: 'UZ-QA:QARSHI', type: 'CITY', name: 'Qarshi', regionCode: 'UZ-QA', latitude: 38.8606, longitude: 65.7891, variants: ['Qarshi', 'Karshi', 'Карши'] },
+  { code: 'UZ-QA:SHAHRISABZ', type: 'CITY', name: 'Shahrisabz', regionCode: 'UZ-QA', latitude: 39.0578, longitude: 66.8342, variants: ['Shahrisabz', 'Shakhrisabz', 'Шахрисабз'] },
+  { code: 'UZ-QA:KITOB', type: 'CITY', name: 'Kitob', regionCode: 'UZ-QA', latitude: 39.12, longitude: 66.8833, variants: ['Kitob', 'Kitab', 'Китаб'] },
+  { code: 'UZ-SU:TERMIZ', type: 'CITY', name: 'Termiz', regionCode: 'UZ-SU', latitude: 37.2242, longitude: 67.2783, variants: ['Termiz', 'Termez', 'Термез'] },
+  { code: 'UZ-SU:DENOV', type: 'CITY', name: 'Denov', regionCode: 'UZ-SU', latitude: 38.2667, longitude: 67.9, variants: ['Denov', 'Denau', 'Денау'] },
+  { code: 'UZ-JI:JIZZAX', type: 'CITY', name: 'Jizzax', regionCode: 'UZ-JI', latitude: 40.1158, longitude: 67.8422, variants: ['Jizzax', 'Jizzakh', 'Djizak', 'Джизак'] },
+  { code: 'UZ-JI:GALLAOROL', type: 'CITY', name: "G'allaorol", regionCode: 'UZ-JI', latitude: 40.0236, longitude: 67.5964, variants: ["G'allaorol", 'Gallyaaral', 'Галляарал'] },
+  { code: 'UZ-SI:GULISTON', type: 'CITY', name: 'Guliston', regionCode: 'UZ-SI', latitude: 40.4897, longitude: 68.7842, variants: ['Guliston', 'Gulistan', 'Гулистан'] },
+  { code: 'UZ-SI:YANGIYER', type: 'CITY', name: 'Yangiyer', regionCode: 'UZ-SI', latitude: 40.275, longitude: 68.8225, variants: ['Yangiyer', 'Янгиер'] },
+  { code: 'UZ-SI:SHIRIN', type: 'CITY', name: 'Shirin', regionCode: 'UZ-SI', latitude: 40.227, longitude: 69.1, variants: ['Shirin', 'Ширин'] },
+  { code: 'UZ-XO:URGANCH', type: 'CITY', name: 'Urganch', regionCode: 'UZ-XO', latitude: 41.55, longitude: 60.6333, variants: ['Urganch', 'Urgench', 'Ургенч'] },
+  { code: 'UZ-XO:XIVA', type: 'CITY', name: 'Xiva', regionCode: 'UZ-XO', latitude: 41.3783, longitude: 60.3639, variants: ['Xiva', 'Khiva', 'Хива'] },
+  { code: 'UZ-QR:NUKUS', type: 'CITY', name: 'Nukus', regionCode: 'UZ-QR', latitude: 42.46, longitude: 59.61, variants: ['Nukus', 'Нукус'] },
+  { code: 'UZ-QR:XOJAYLI', type: 'CITY', name: "Xo'jayli", regionCode: 'UZ-QR', latitude: 42.4047, longitude: 59.4519, variants: ["Xo'jayli", 'Khodjeyli', 'Ходжейли'] },
+  { code: 'UZ-QR:BERUNIY', type: 'CITY', name: 'Beruniy', regionCode: 'UZ-QR', latitude: 41.6911, longitude: 60.7525, variants: ['Beruniy', 'Beruni', 'Беруни'] },
+  { code: 'UZ-QR:MOYNOQ', type: 'CITY', name: "Mo'ynoq", regionCode: 'UZ-QR', latitude: 43.7683, longitude: 59.0214, variants: ["Mo'ynoq", 'Muynak', 'Муйнак'] },
+
+  // Tashkent city districts
+  { code: 'UZ-TK:YUNUSOBOD', type: 'DISTRICT', parentCode: 'UZ-TK:TASHKENT', name: 'Yunusobod tumani', regionCode: 'UZ-TK', latitude: 41.3644, longitude: 69.2867, variants: ['Yunusobod', 'Yunusabad', 'Юнусабад'] },
+  { code: 'UZ-TK:CHILONZOR', type: 'DISTRICT', parentCode: 'UZ-TK:TASHKENT', name: 'Chilonzor tumani', regionCode: 'UZ-TK', latitude: 41.2756, longitude: 69.2036, variants: ['Chilonzor', 'Chilanzar', 'Чиланзар'] },
+  { code: 'UZ-TK:MIRZOULUGBEK', type: 'DISTRICT', parentCode: 'UZ-TK:TASHKENT', name: "Mirzo Ulug'bek tumani", regionCode: 'UZ-TK', latitude: 41.3256, longitude: 69.3364, variants: ["Mirzo Ulug'bek", 'Mirzo Ulugbek', 'Мирзо-Улугбек', 'Мирзо Улугбек'] },
+  { code: 'UZ-TK:YAKKASAROY', type: 'DISTRICT', parentCode: 'UZ-TK:TASHKENT', name: 'Yakkasaroy tumani', regionCode: 'UZ-TK', latitude: 41.2858, longitude: 69.255, variants: ['Yakkasaroy', 'Yakkasaray', 'Яккасарай'] },
+  { code: 'UZ-TK:SHAYXONTOHUR', type: 'DISTRICT', parentCode: 'UZ-TK:TASHKENT', name: 'Shayxontohur tumani', regionCode: 'UZ-TK', latitude: 41.3264, longitude: 69.2283, variants: ['Shayxontohur', 'Shaykhantakhur', 'Шайхантахур'] },
+  { code: 'UZ-TK:OLMAZOR', type: 'DISTRICT', parentCode: 'UZ-TK:TASHKENT', name: 'Olmazor tumani', regionCode: 'UZ-TK', latitude: 41.3489, longitude: 69.2108, variants: ['Olmazor', 'Almazar', 'Алмазар'] },
+  { code: 'UZ-TK:SERGELI', type: 'DISTRICT', parentCode: 'UZ-TK:TASHKENT', name: 'Sergeli tumani', regionCode: 'UZ-TK', latitude: 41.2269, longitude: 69.2194, variants: ['Sergeli', 'Сергели'] },
+  { code: 'UZ-TK:UCHTEPA', type: 'DISTRICT', parentCode: 'UZ-TK:TASHKENT', name: 'Uchtepa tumani', regionCode: 'UZ-TK', latitude: 41.2892, longitude: 69.1742, variants: ['Uchtepa', 'Учтепа'] },
+  { code: 'UZ-TK:MIROBOD', type: 'DISTRICT', parentCode: 'UZ-TK:TASHKENT', name: 'Mirobod tumani', regionCode: 'UZ-TK', latitude: 41.2931, longitude: 69.2869, variants: ['Mirobod', 'Mirabad', 'Мирабад'] },
+  { code: 'UZ-TK:YASHNOBOD', type: 'DISTRICT', parentCode: 'UZ-TK:TASHKENT', name: 'Yashnobod tumani', regionCode: 'UZ-TK', latitude: 41.2886, longitude: 69.3414, variants: ['Yashnobod', 'Yashnabad', 'Яшнабад'] },
+  { code: 'UZ-TK:BEKTEMIR', type: 'DISTRICT', parentCode: 'UZ-TK:TASHKENT', name: 'Bektemir tumani', regionCode: 'UZ-TK', latitude: 41.2094, longitude: 69.3344, variants: ['Bektemir', 'Бектемир'] },
+  { code: 'UZ-TK:YANGIHAYOT', type: 'DISTRICT', parentCode: 'UZ-TK:TASHKENT', name: 'Yangihayot tumani', regionCode: 'UZ-TK', latitude: 41.195, longitude: 69.175, variants: ['Yangihayot', 'Yangikhayot', 'Янгихаёт'] },
+];
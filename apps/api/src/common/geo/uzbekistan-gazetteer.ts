@@ -0,0 +1,164 @@
+import { GazetteerPlace, GazetteerPlaceType, UZBEKISTAN_GAZETTEER } from './uzbekistan-gazetteer.data';
+
+export { GazetteerPlace, GazetteerPlaceType } from './uzbekistan-gazetteer.data';
+
+const EARTH_RADIUS_KM = 6371;
+
+// Uzbek Cyrillic (including ў, қ, ғ, ҳ) and Russian letters to the official Uzbek Latin alphabet.
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'yo', ж: 'j', з: 'z', и: 'i', й: 'y',
+  к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ф: 'f',
+  х: 'x', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'sh', ъ: '', ы: 'i', ь: '', э: 'e', ю: 'yu', я: 'ya',
+  ў: "o'", қ: 'q', ғ: "g'", ҳ: 'h',
+};
+
+// Administrative words ignored by the loose lookup, so "Samarqand sh." or "г. Самарканд" still resolve.
+const ADMINISTRATIVE_WORDS = new Set([
+  'shahri', 'shahar', 'sh', 'city', 'gorod', 'g', 'viloyati', 'viloyat', 'region', 'oblast', 'oblasti',
+  'vil', 'province', 'tumani', 'tuman', 'district', 'rayon', 'raion', 'respublikasi', 'respublika', 'republic', 'of',
+]);
+
+export interface ResolvePlaceOptions {
+  types?: GazetteerPlaceType[];
+  regionCode?: string | null;
+}
+
+export interface NormalizedLocation {
+  city: string;
+  state: string;
+  placeCode: string | null;
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+interface GazetteerIndex {
+  byCode: Map<string, GazetteerPlace>;
+  exact: Map<string, GazetteerPlace[]>;
+  loose: Map<string, GazetteerPlace[]>;
+}
+
+let index: GazetteerIndex | null = null;
+
+export function transliterateCyrillic(text: string): string {
+  let result = '';
+  for (const char of text) {
+    const lower = char.toLowerCase();
+    result += lower in CYRILLIC_TO_LATIN ? CYRILLIC_TO_LATIN[lower] : char;
+  }
+  return result;
+}
+
+/**
+ * Lookup key for a place name: transliterated to Latin, lowercased, with apostrophes and punctuation removed.
+ */
+export function normalizePlaceKey(text: string): string {
+  return transliterateCyrillic(text)
+    .toLowerCase()
+    .replace(/['ʻʼ‘’`´]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function looseKey(key: string): string {
+  return key
+    .split(' ')
+    .filter(word => word && !ADMINISTRATIVE_WORDS.has(word))
+    .join(' ');
+}
+
+function getIndex(): GazetteerIndex {
+  if (index) return index;
+
+  const built: GazetteerIndex = { byCode: new Map(), exact: new Map(), loose: new Map() };
+  const add = (map: Map<string, GazetteerPlace[]>, key: string, place: GazetteerPlace) => {
+    if (!key) return;
+    const entries = map.get(key) || [];
+    if (!entries.includes(place)) entries.push(place);
+    map.set(key, entries);
+  };
+
+  for (const place of UZBEKISTAN_GAZETTEER) {
+    built.byCode.set(place.code, place);
+    for (const variant of [place.name, ...place.variants]) {
+      const key = normalizePlaceKey(variant);
+      add(built.exact, key, place);
+      add(built.loose, looseKey(key), place);
+    }
+  }
+
+  index = built;
+  return built;
+}
+
+export function findPlaceByCode(code: string | null | undefined): GazetteerPlace | null {
+  if (!code) return null;
+  return getIndex().byCode.get(code) || null;
+}
+
+/**
+ * Resolves a free-text place name in any supported spelling. Exact variant matches win over matches
+ * that ignore administrative words; ties are broken by the region hint, then by the order of `types`.
+ */
+export function resolvePlace(name: string | null | undefined, options: ResolvePlaceOptions = {}): GazetteerPlace | null {
+  if (!name || !name.trim()) return null;
+
+  const byCode = findPlaceByCode(name.trim().toUpperCase());
+  if (byCode && (!options.types || options.types.includes(byCode.type))) return byCode;
+
+  const { exact, loose } = getIndex();
+  const key = normalizePlaceKey(name);
+  const accept = (place: GazetteerPlace) => !options.types || options.types.includes(place.type);
+
+  let candidates = (exact.get(key) || []).filter(accept);
+  if (candidates.length === 0) {
+    candidates = (loose.get(looseKey(key)) || []).filter(accept);
+  }
+  if (candidates.length === 0) return null;
+
+  const rank = (place: GazetteerPlace) =>
+    (options.regionCode && place.regionCode === options.regionCode ? 0 : 10) +
+    (options.types ? options.types.indexOf(place.type) : 0);
+
+  return [...candidates].sort((a, b) => rank(a) - rank(b))[0];
+}
+
+/**
+ * Maps a city/state pair to canonical gazetteer names. Names that cannot be resolved are kept as given,
+ * trimmed, so addresses outside the gazetteer are stored unchanged.
+ */
+export function normalizeLocation(city: string | null | undefined, state: string | null | undefined): NormalizedLocation {
+  const region = resolvePlace(state, { types: ['REGION'] });
+  const place = resolvePlace(city, { types: ['CITY', 'DISTRICT'], regionCode: region?.regionCode });
+  const cityPlace = place?.parentCode ? findPlaceByCode(place.parentCode) : place;
+  // The resolved city is more specific than the state, so its region wins when the two disagree.
+  const resolvedRegion = place ? findPlaceByCode(place.regionCode) : region;
+
+  return {
+    city: cityPlace?.name ?? city?.trim() ?? '',
+    state: resolvedRegion?.name ?? state?.trim() ?? '',
+    placeCode: place?.code ?? resolvedRegion?.code ?? null,
+  };
+}
+
+export function haversineKm(from: GeoPoint, to: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * The most specific gazetteer place for a stored location, preferring an already normalized place code.
+ */
+export function locatePlace(
+  city: string | null | undefined,
+  state: string | null | undefined,
+  placeCode?: string | null,
+): GazetteerPlace | null {
+  return findPlaceByCode(placeCode) ?? findPlaceByCode(normalizeLocation(city, state).placeCode);
+}
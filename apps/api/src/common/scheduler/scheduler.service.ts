@@ -0,0 +1,156 @@
+import { Injectable, Logger, OnApplicationShutdown } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { RedisService } from '../../redis/redis.service';
+
+const LOCK_PREFIX = 'scheduler:lock:';
+const STATUS_PREFIX = 'scheduler:status:';
+const STATUS_TTL = 7 * 24 * 60 * 60;
+const DEFAULT_LOCK_TTL = 300;
+// A job whose last start is older than this many intervals is reported as overdue.
+const OVERDUE_INTERVALS = 3;
+
+const RELEASE_LOCK_SCRIPT = `
+  if redis.call("get", KEYS[1]) == ARGV[1] then
+    return redis.call("del", KEYS[1])
+  end
+  return 0
+`;
+
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  // Must outlast a single run; the lock is released as soon as the run ends.
+  lockTtlSeconds?: number;
+  // Resolves to counters that are kept in the job's last-run status.
+  run: () => Promise<Record<string, number> | void>;
+}
+
+export interface ScheduledJobStatus {
+  name: string;
+  status: 'NEVER_RUN' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'INTERRUPTED';
+  intervalMs: number;
+  instance?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+  result?: Record<string, number>;
+  error?: string;
+  overdue: boolean;
+}
+
+interface StoredJobStatus extends Omit<ScheduledJobStatus, 'intervalMs' | 'overdue'> {
+  runId: string;
+}
+
+/**
+ * Runs registered jobs on fixed intervals. Every API instance schedules every job, and a Redis lock per job makes
+ * sure only one of them runs it at a time. The outcome of the last run is kept in Redis for /health/internal.
+ */
+@Injectable()
+export class SchedulerService implements OnApplicationShutdown {
+  private readonly logger = new Logger(SchedulerService.name);
+  private readonly instance = `${hostname()}:${process.pid}`;
+  private readonly jobs = new Map<string, ScheduledJob>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly running = new Map<string, Promise<void>>();
+  private isClosing = false;
+
+  constructor(private readonly redisService: RedisService) {}
+
+  register(job: ScheduledJob): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Scheduled job ${job.name} is already registered`);
+    }
+    this.jobs.set(job.name, job);
+    this.timers.set(job.name, setInterval(() => this.tick(job), job.intervalMs));
+    this.logger.log(`Scheduled job ${job.name} every ${Math.round(job.intervalMs / 1000)}s`);
+  }
+
+  async getStatuses(): Promise<ScheduledJobStatus[]> {
+    const jobs = Array.from(this.jobs.values());
+    if (jobs.length === 0) return [];
+
+    const redis = this.redisService.getClient();
+    const [statuses, lockOwners] = await Promise.all([
+      redis.mget(...jobs.map(job => STATUS_PREFIX + job.name)),
+      redis.mget(...jobs.map(job => LOCK_PREFIX + job.name)),
+    ]);
+
+    return jobs.map((job, index) => {
+      const raw = statuses[index];
+      if (!raw) {
+        return { name: job.name, status: 'NEVER_RUN', intervalMs: job.intervalMs, overdue: false };
+      }
+
+      const { runId, ...status } = JSON.parse(raw) as StoredJobStatus;
+      // The instance running the job stopped before it could record the outcome.
+      if (status.status === 'RUNNING' && lockOwners[index] !== runId) {
+        status.status = 'INTERRUPTED';
+      }
+      return {
+        ...status,
+        intervalMs: job.intervalMs,
+        overdue: Date.now() - Date.parse(status.startedAt!) > job.intervalMs * OVERDUE_INTERVALS,
+      };
+    });
+  }
+
+  async onApplicationShutdown(signal?: string) {
+    this.isClosing = true;
+    for (const timer of this.timers.values()) {
+      clearInterval(timer);
+    }
+    this.logger.log(`Scheduler shutting down (signal: ${signal}), waiting for ${this.running.size} job(s)`);
+    await Promise.allSettled(Array.from(this.running.values()));
+  }
+
+  private tick(job: ScheduledJob): void {
+    if (this.isClosing || this.running.has(job.name)) return;
+
+    const run = this.execute(job)
+      .catch((error: any) => {
+        this.logger.error(`Scheduled job ${job.name} could not run: ${error.message}`);
+      })
+      .finally(() => this.running.delete(job.name));
+    this.running.set(job.name, run);
+  }
+
+  private async execute(job: ScheduledJob): Promise<void> {
+    const redis = this.redisService.getClient();
+    const lockKey = LOCK_PREFIX + job.name;
+    const runId = randomUUID();
+
+    const acquired = await redis.set(lockKey, runId, 'EX', job.lockTtlSeconds ?? DEFAULT_LOCK_TTL, 'NX');
+    if (!acquired) return;
+
+    const startedAt = new Date();
+    const status: StoredJobStatus = {
+      name: job.name,
+      runId,
+      status: 'RUNNING',
+      instance: this.instance,
+      startedAt: startedAt.toISOString(),
+    };
+
+    try {
+      await this.saveStatus(status);
+      const result = await job.run();
+      status.status = 'SUCCEEDED';
+      status.result = result || undefined;
+    } catch (error: any) {
+      this.logger.error(`Scheduled job ${job.name} failed: ${error.message}`, error.stack);
+      status.status = 'FAILED';
+      status.error = error.message;
+    } finally {
+      status.finishedAt = new Date().toISOString();
+      status.durationMs = Date.now() - startedAt.getTime();
+      await this.saveStatus(status).catch(() => undefined);
+      await redis.eval(RELEASE_LOCK_SCRIPT, 1, lockKey, runId).catch(() => undefined);
+    }
+  }
+
+  private async saveStatus(status: StoredJobStatus): Promise<void> {
+    await this.redisService.getClient().set(STATUS_PREFIX + status.name, JSON.stringify(status), 'EX', STATUS_TTL);
+  }
+}
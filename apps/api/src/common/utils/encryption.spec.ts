@@ -0,0 +1,66 @@
+import { decryptData, encryptData, getActiveKeyId, getEncryptionKeyId, reEncryptData } from './encryption';
+
+const DEFAULT_SECRET = 'a'.repeat(32);
+const ROTATED_SECRET = 'b'.repeat(32);
+
+describe('encryption', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env, ENCRYPTION_KEY: DEFAULT_SECRET, ENCRYPTION_KEYS: `k2:${ROTATED_SECRET}` };
+    delete process.env.ENCRYPTION_KEY_ID;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('round-trips objects and strings', () => {
+    const payload = { pinfl: '12345678901234', nested: { ok: true } };
+
+    expect(decryptData(encryptData(payload))).toEqual(payload);
+    expect(decryptData(encryptData('plain text'))).toBe('plain text');
+  });
+
+  it('prefixes ciphertext with the active key id', () => {
+    expect(getActiveKeyId()).toBe('default');
+    expect(getEncryptionKeyId(encryptData('x'))).toBe('default');
+
+    process.env.ENCRYPTION_KEY_ID = 'k2';
+    expect(getEncryptionKeyId(encryptData('x'))).toBe('k2');
+  });
+
+  it('treats unprefixed ciphertext as the default key', () => {
+    const legacy = encryptData({ a: 1 }).replace(/^default:/, '');
+
+    expect(getEncryptionKeyId(legacy)).toBe('default');
+    expect(decryptData(legacy)).toEqual({ a: 1 });
+  });
+
+  it('re-encrypts onto the active key', () => {
+    const old = encryptData({ a: 1 });
+    process.env.ENCRYPTION_KEY_ID = 'k2';
+
+    const rotated = reEncryptData(old);
+
+    expect(getEncryptionKeyId(rotated)).toBe('k2');
+    expect(decryptData(rotated)).toEqual({ a: 1 });
+    expect(reEncryptData(rotated)).toBe(rotated);
+  });
+
+  it('fails for keys that are not configured', () => {
+    const encrypted = encryptData('x');
+    delete process.env.ENCRYPTION_KEY;
+
+    expect(() => decryptData(encrypted)).toThrow('Encryption key default is not configured');
+  });
+
+  it('rejects tampered ciphertext', () => {
+    const encrypted = encryptData('secret');
+    const [keyId, body] = encrypted.split(':');
+    const bytes = Buffer.from(body, 'base64');
+    bytes[bytes.length - 1] ^= 0xff;
+
+    expect(() => decryptData(`${keyId}:${bytes.toString('base64')}`)).toThrow();
+  });
+});
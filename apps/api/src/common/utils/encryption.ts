@@ -6,19 +6,45 @@ const IV_LENGTH = 12;
 const AUTH_TAG_LENGTH = 16;
 const SALT_LENGTH = 32;
 
+const DEFAULT_KEY_ID = 'default';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
 const logger = new Logger('Encryption');
 
-function getKey(salt: Buffer): Buffer {
-  const encryptionKey = process.env.ENCRYPTION_KEY;
-  
+/**
+ * ENCRYPTION_KEY is the `default` key. Further keys come from ENCRYPTION_KEYS as `id:secret` pairs separated by
+ * commas, and ENCRYPTION_KEY_ID selects the one new data is encrypted with.
+ */
+function getKeyRing(): Map<string, string> {
+  const keys = new Map<string, string>();
+  if (process.env.ENCRYPTION_KEY) {
+    keys.set(DEFAULT_KEY_ID, process.env.ENCRYPTION_KEY);
+  }
+
+  for (const entry of (process.env.ENCRYPTION_KEYS || '').split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) continue;
+    keys.set(entry.substring(0, separator).trim(), entry.substring(separator + 1).trim());
+  }
+
+  return keys;
+}
+
+export function getActiveKeyId(): string {
+  return process.env.ENCRYPTION_KEY_ID || DEFAULT_KEY_ID;
+}
+
+function getKey(salt: Buffer, keyId: string): Buffer {
+  const encryptionKey = getKeyRing().get(keyId);
+
   if (!encryptionKey) {
-    throw new Error('ENCRYPTION_KEY environment variable is required but not set');
+    throw new Error(`Encryption key ${keyId} is not configured`);
   }
-  
+
   if (encryptionKey.length < 32) {
-    throw new Error('ENCRYPTION_KEY must be at least 32 characters long');
+    throw new Error(`Encryption key ${keyId} must be at least 32 characters long`);
   }
-  
+
   return scryptSync(encryptionKey, salt, 32);
 }
 
@@ -34,51 +60,95 @@ export function validateEncryptionKey(): boolean {
     logger.error('ENCRYPTION_KEY must be at least 32 characters long');
     return false;
   }
+
+  const keys = getKeyRing();
+  for (const [keyId, secret] of keys) {
+    if (!KEY_ID_PATTERN.test(keyId)) {
+      logger.error(`Encryption key ID ${keyId} may only contain letters, digits, "_" and "-"`);
+      return false;
+    }
+    if (secret.length < 32) {
+      logger.error(`Encryption key ${keyId} must be at least 32 characters long`);
+      return false;
+    }
+  }
+
+  if (!keys.has(getActiveKeyId())) {
+    logger.error(`ENCRYPTION_KEY_ID ${getActiveKeyId()} does not match a configured key`);
+    return false;
+  }
   
   logger.log('Encryption key validation passed');
   return true;
 }
 
-export function encryptData(data: any): string {
+/**
+ * Encrypted values are `<keyId>:<base64>`. Values without a prefix were written before key rotation and use
+ * the default key.
+ */
+export function getEncryptionKeyId(encryptedData: string): string {
+  const separator = encryptedData.indexOf(':');
+  return separator > 0 ? encryptedData.substring(0, separator) : DEFAULT_KEY_ID;
+}
+
+function encryptText(text: string, keyId: string): string {
   const salt = randomBytes(SALT_LENGTH);
   const iv = randomBytes(IV_LENGTH);
-  const key = getKey(salt);
+  const key = getKey(salt, keyId);
 
   const cipher = createCipheriv(ALGORITHM, key, iv);
-  
-  const jsonData = typeof data === 'string' ? data : JSON.stringify(data);
   const encrypted = Buffer.concat([
-    cipher.update(jsonData, 'utf8'),
+    cipher.update(text, 'utf8'),
     cipher.final(),
   ]);
 
   const authTag = cipher.getAuthTag();
 
-  return Buffer.concat([salt, iv, authTag, encrypted]).toString('base64');
+  return `${keyId}:${Buffer.concat([salt, iv, authTag, encrypted]).toString('base64')}`;
 }
 
-export function decryptData(encryptedData: string): any {
-  const buffer = Buffer.from(encryptedData, 'base64');
+function decryptText(encryptedData: string): string {
+  const separator = encryptedData.indexOf(':');
+  const buffer = Buffer.from(separator > 0 ? encryptedData.substring(separator + 1) : encryptedData, 'base64');
 
   const salt = buffer.subarray(0, SALT_LENGTH);
   const iv = buffer.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
   const authTag = buffer.subarray(SALT_LENGTH + IV_LENGTH, SALT_LENGTH + IV_LENGTH + AUTH_TAG_LENGTH);
   const encrypted = buffer.subarray(SALT_LENGTH + IV_LENGTH + AUTH_TAG_LENGTH);
 
-  const key = getKey(salt);
+  const key = getKey(salt, getEncryptionKeyId(encryptedData));
   const decipher = createDecipheriv(ALGORITHM, key, iv);
   decipher.setAuthTag(authTag);
 
-  const decrypted = Buffer.concat([
+  return Buffer.concat([
     decipher.update(encrypted),
     decipher.final(),
-  ]);
+  ]).toString('utf8');
+}
+
+export function encryptData(data: any): string {
+  return encryptText(typeof data === 'string' ? data : JSON.stringify(data), getActiveKeyId());
+}
+
+export function decryptData(encryptedData: string): any {
+  const decrypted = decryptText(encryptedData);
 
   try {
-    return JSON.parse(decrypted.toString('utf8'));
+    return JSON.parse(decrypted);
   } catch {
-    return decrypted.toString('utf8');
+    return decrypted;
+  }
+}
+
+/**
+ * Re-encrypts a value under the active key. Values already on the active key are returned unchanged.
+ */
+export function reEncryptData(encryptedData: string): string {
+  const activeKeyId = getActiveKeyId();
+  if (encryptedData.indexOf(':') > 0 && getEncryptionKeyId(encryptedData) === activeKeyId) {
+    return encryptedData;
   }
+  return encryptText(decryptText(encryptedData), activeKeyId);
 }
 
 export function hashData(data: string): string {
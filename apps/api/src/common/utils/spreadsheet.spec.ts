@@ -0,0 +1,116 @@
+import { deflateRawSync } from 'zlib';
+import { MAX_XLSX_ENTRY_SIZE, SpreadsheetParseError, parseCsv, parseXlsx } from './spreadsheet';
+
+interface ZipEntry {
+  name: string;
+  content: string | Buffer;
+  // Raw bytes to store instead of deflating `content`, and the uncompressed size to declare for them.
+  stored?: Buffer;
+  declaredSize?: number;
+}
+
+// Builds a deflated ZIP archive with just the fields the reader looks at.
+function zip(entries: ZipEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const raw = Buffer.isBuffer(entry.content) ? entry.content : Buffer.from(entry.content);
+    const data = entry.stored ?? deflateRawSync(raw);
+    const size = entry.declaredSize ?? raw.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(8, 10);
+    header.writeUInt32LE(data.length, 20);
+    header.writeUInt32LE(size, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(offset, 42);
+    central.push(header, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+function workbook(sheetData: string, extra: ZipEntry[] = []): Buffer {
+  return zip([
+    { name: 'xl/worksheets/sheet1.xml', content: `<worksheet><sheetData>${sheetData}</sheetData></worksheet>` },
+    ...extra,
+  ]);
+}
+
+describe('parseCsv', () => {
+  it('detects the delimiter and handles quotes, BOM and CRLF', () => {
+    expect(parseCsv('\uFEFFjobTitle;salaryMin\r\n"Driver; city";"4 000"\r\n"Say ""hi""";\r\n')).toEqual([
+      ['jobTitle', 'salaryMin'],
+      ['Driver; city', '4 000'],
+      ['Say "hi"'],
+    ]);
+  });
+
+  it('rejects unterminated quotes', () => {
+    expect(() => parseCsv('a,"b\n')).toThrow(SpreadsheetParseError);
+  });
+});
+
+describe('parseXlsx', () => {
+  it('reads shared, inline, boolean and numeric cells', () => {
+    const buffer = workbook(
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>Tom &amp; Co &#x1F69A;</t></is></c></row>'
+        + '<row r="3"><c r="A3" t="b"><v>1</v></c><c r="B3"><v>4000000</v></c></row>',
+      [{ name: 'xl/sharedStrings.xml', content: '<sst><si><t>Driver</t></si></sst>' }],
+    );
+
+    expect(parseXlsx(buffer)).toEqual([
+      ['Driver', '', 'Tom & Co \u{1F69A}'],
+      [],
+      ['true', '4000000'],
+    ]);
+  });
+
+  it('rejects files that are not ZIP archives', () => {
+    expect(() => parseXlsx(Buffer.from('not a workbook at all, just some text'))).toThrow(SpreadsheetParseError);
+  });
+
+  it('rejects entries that declare a size over the limit', () => {
+    const buffer = workbook('', [{ name: 'xl/sharedStrings.xml', content: '<sst/>', declaredSize: MAX_XLSX_ENTRY_SIZE + 1 }]);
+    expect(() => parseXlsx(buffer)).toThrow(new SpreadsheetParseError('XLSX entry xl/sharedStrings.xml is too large'));
+  });
+
+  it('stops inflating entries that unpack past the limit despite a small declared size', () => {
+    const bomb = Buffer.alloc(MAX_XLSX_ENTRY_SIZE + 1, 0x20);
+    const buffer = workbook('', [{ name: 'xl/sharedStrings.xml', content: bomb, declaredSize: 100 }]);
+
+    expect(() => parseXlsx(buffer)).toThrow(new SpreadsheetParseError('XLSX entry xl/sharedStrings.xml is too large'));
+  });
+
+  it('reports corrupt deflate streams as parse errors', () => {
+    const buffer = workbook('', [{ name: 'xl/sharedStrings.xml', content: '', stored: Buffer.from([0xff, 0xff, 0xff, 0xff]) }]);
+    expect(() => parseXlsx(buffer)).toThrow(new SpreadsheetParseError('Corrupt XLSX entry xl/sharedStrings.xml'));
+  });
+
+  it('reports character references outside Unicode as parse errors', () => {
+    const buffer = workbook('<row r="1"><c r="A1" t="inlineStr"><is><t>&#x110000;</t></is></c></row>');
+    expect(() => parseXlsx(buffer)).toThrow(SpreadsheetParseError);
+  });
+});
@@ -0,0 +1,267 @@
+import { inflateRawSync } from 'zlib';
+
+/**
+ * Minimal readers for uploaded CSV and XLSX files. Both return the cells of the first sheet as strings, row by
+ * row; empty trailing cells are dropped. Only what bulk imports need is supported: no formulas are evaluated
+ * (their cached value is read), and ZIP64 or encrypted workbooks are rejected.
+ */
+
+export class SpreadsheetParseError extends Error {}
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+
+// Upper bound on one unpacked workbook part. Deflate reaches about 1:1000 on repetitive XML, so the upload
+// size limit alone does not bound memory.
+export const MAX_XLSX_ENTRY_SIZE = 8 * 1024 * 1024;
+
+export function parseCsv(content: string): string[][] {
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new SpreadsheetParseError('Unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.map(trimTrailingEmpty);
+}
+
+export function parseXlsx(buffer: Buffer): string[][] {
+  const files = readZipEntries(buffer);
+  const read = (name: string) => {
+    const entry = files.get(name);
+    return entry ? entry() : undefined;
+  };
+
+  const sheetPath = resolveFirstSheetPath(read('xl/workbook.xml'), read('xl/_rels/workbook.xml.rels'));
+  const sheet = read(sheetPath);
+  if (!sheet) {
+    throw new SpreadsheetParseError('Workbook has no worksheet');
+  }
+
+  const sharedStrings = parseSharedStrings(read('xl/sharedStrings.xml'));
+  const rows: string[][] = [];
+
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g)) {
+    const rowNumber = Number(attribute(rowMatch[1], 'r')) || rows.length + 1;
+    const cells: string[] = [];
+
+    for (const cellMatch of rowMatch[2].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] ?? '';
+      const reference = attribute(attributes, 'r');
+      const column = reference ? columnIndex(reference) : cells.length;
+
+      let value: string;
+      switch (attribute(attributes, 't')) {
+        case 's':
+          value = sharedStrings[Number(elementText(body, 'v'))] ?? '';
+          break;
+        case 'inlineStr':
+          value = textRuns(body);
+          break;
+        case 'b':
+          value = elementText(body, 'v') === '1' ? 'true' : 'false';
+          break;
+        default:
+          value = decodeXml(elementText(body, 'v'));
+      }
+
+      while (cells.length < column) cells.push('');
+      cells[column] = value;
+    }
+
+    // Rows missing from the sheet XML are empty rows in the workbook.
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows.push(trimTrailingEmpty(cells));
+  }
+
+  return rows;
+}
+
+/**
+ * Converts an Excel serial date (days since 1899-12-30) to an ISO date string.
+ */
+export function excelSerialToIsoDate(serial: number): string {
+  return new Date(Math.round((serial - 25569) * 86400 * 1000)).toISOString();
+}
+
+function detectDelimiter(text: string): string {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length ? candidate : best,
+  );
+}
+
+function trimTrailingEmpty(cells: string[]): string[] {
+  let end = cells.length;
+  while (end > 0 && cells[end - 1].trim() === '') end--;
+  return cells.slice(0, end);
+}
+
+function readZipEntries(buffer: Buffer): Map<string, () => string> {
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new SpreadsheetParseError('File is not a valid XLSX workbook');
+  }
+
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new SpreadsheetParseError('ZIP64 workbooks are not supported');
+  }
+
+  const entries = new Map<string, () => string>();
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_ENTRY) {
+      throw new SpreadsheetParseError('Corrupt XLSX central directory');
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    entries.set(name, () => {
+      if (flags & 0x1) {
+        throw new SpreadsheetParseError('Encrypted workbooks are not supported');
+      }
+      if (uncompressedSize > MAX_XLSX_ENTRY_SIZE) {
+        throw new SpreadsheetParseError(`XLSX entry ${name} is too large`);
+      }
+      if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_FILE_HEADER) {
+        throw new SpreadsheetParseError(`Corrupt XLSX entry ${name}`);
+      }
+      const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return data.toString('utf8');
+      if (method === 8) return inflateEntry(name, data);
+      throw new SpreadsheetParseError(`Unsupported compression in XLSX entry ${name}`);
+    });
+  }
+  return entries;
+}
+
+// The declared size can be forged, so the output is capped while inflating as well.
+function inflateEntry(name: string, data: Buffer): string {
+  try {
+    return inflateRawSync(data, { maxOutputLength: MAX_XLSX_ENTRY_SIZE }).toString('utf8');
+  } catch (error: any) {
+    if (error?.code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new SpreadsheetParseError(`XLSX entry ${name} is too large`);
+    }
+    throw new SpreadsheetParseError(`Corrupt XLSX entry ${name}`);
+  }
+}
+
+function resolveFirstSheetPath(workbook?: string, relationships?: string): string {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const sheet = workbook?.match(/<sheet\b[^>]*>/);
+  const relationshipId = sheet && attribute(sheet[0], 'r:id');
+  if (!relationshipId || !relationships) return fallback;
+
+  for (const match of relationships.matchAll(/<Relationship\b[^>]*>/g)) {
+    if (attribute(match[0], 'Id') === relationshipId) {
+      const target = attribute(match[0], 'Target');
+      if (!target) return fallback;
+      return target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+    }
+  }
+  return fallback;
+}
+
+function parseSharedStrings(xml?: string): string[] {
+  if (!xml) return [];
+  return Array.from(xml.matchAll(/<si>([\s\S]*?)<\/si>/g), match => textRuns(match[1]));
+}
+
+// Concatenates the <t> runs of a rich text value, skipping phonetic hints.
+function textRuns(xml: string): string {
+  const withoutPhonetic = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  return Array.from(withoutPhonetic.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join('');
+}
+
+function elementText(xml: string, tag: string): string {
+  const match = xml.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`));
+  return match ? match[1] : '';
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? 'A';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default: {
+        const codePoint = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        if (codePoint > 0x10ffff) {
+          throw new SpreadsheetParseError(`Invalid character reference &${entity};`);
+        }
+        return String.fromCodePoint(codePoint);
+      }
+    }
+  });
+}
@@ -0,0 +1,79 @@
+import { buildOtpauthUrl, currentTotpStep, generateTotpCode, generateTotpSecret, verifyTotpCode } from './totp';
+
+// Base32 of the ASCII secret "12345678901234567890" used by the RFC 6238 SHA-1 test vectors.
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+// RFC 6238 appendix B, truncated to the last six digits.
+const RFC_VECTORS: [number, string][] = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+];
+
+describe('generateTotpCode', () => {
+  it.each(RFC_VECTORS)('matches the RFC 6238 code at %p seconds', (seconds, code) => {
+    expect(generateTotpCode(RFC_SECRET, currentTotpStep(seconds * 1000))).toBe(code);
+  });
+
+  it('accepts lowercase and padded secrets', () => {
+    const step = currentTotpStep(59_000);
+    expect(generateTotpCode(`${RFC_SECRET.toLowerCase()}====`, step)).toBe('287082');
+  });
+
+  it('rejects secrets that are not base32', () => {
+    expect(() => generateTotpCode('NOT-BASE32!', 1)).toThrow('Invalid base32 character in TOTP secret');
+  });
+});
+
+describe('verifyTotpCode', () => {
+  const now = 1111111111 * 1000;
+  const step = currentTotpStep(now);
+
+  it('returns the step of a current code', () => {
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step), 1, now)).toBe(step);
+  });
+
+  it('accepts codes within the window', () => {
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 1), 1, now)).toBe(step - 1);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step + 1), 1, now)).toBe(step + 1);
+  });
+
+  it('rejects codes outside the window', () => {
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 2), 1, now)).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 1), 0, now)).toBeNull();
+  });
+
+  it('rejects malformed codes', () => {
+    expect(verifyTotpCode(RFC_SECRET, '12345', 1, now)).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, '12345a', 1, now)).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, ' 050471', 1, now)).toBeNull();
+  });
+});
+
+describe('generateTotpSecret', () => {
+  it('returns a 160-bit base32 secret', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+});
+
+describe('buildOtpauthUrl', () => {
+  it('encodes the label and the parameters authenticator apps expect', () => {
+    const url = new URL(buildOtpauthUrl('ABC', 'admin@example.com', 'Ish Bor'));
+
+    expect(url.protocol).toBe('otpauth:');
+    expect(url.host).toBe('totp');
+    expect(decodeURIComponent(url.pathname)).toBe('/Ish Bor:admin@example.com');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      secret: 'ABC',
+      issuer: 'Ish Bor',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+  });
+});
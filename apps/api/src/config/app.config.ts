@@ -8,6 +8,7 @@ export default registerAs('app', () => ({
   isTest: process.env.NODE_ENV === 'test',
   apiPrefix: process.env.API_PREFIX || 'api',
   requestIdHeader: process.env.REQUEST_ID_HEADER || 'x-request-id',
+  publicUrl: process.env.APP_PUBLIC_URL || 'http://localhost:3000',
   corsOrigins: process.env.CORS_ORIGINS?.split(',') || ['http://localhost:3000'],
   rateLimitWindowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000', 10),
   rateLimitMaxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
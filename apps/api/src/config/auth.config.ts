@@ -28,4 +28,20 @@ export default registerAs('auth', () => ({
     reuseDetection: true,
     rotateOnRefresh: true,
   },
+  tokens: {
+    passwordResetTtlMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '30', 10),
+    emailVerificationTtlHours: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '48', 10),
+    phoneVerificationTtlMinutes: parseInt(process.env.PHONE_VERIFICATION_TTL_MINUTES || '10', 10),
+    maxCodeAttempts: parseInt(process.env.PHONE_VERIFICATION_MAX_ATTEMPTS || '5', 10),
+    // A new token of the same type is not sent while the previous one is younger than this
+    resendIntervalSeconds: parseInt(process.env.AUTH_TOKEN_RESEND_INTERVAL_SECONDS || '60', 10),
+  },
+  mfa: {
+    issuer: process.env.MFA_ISSUER || 'Worker Platform',
+    requiredRoles: (process.env.MFA_REQUIRED_ROLES || 'ADMIN').split(',').map(role => role.trim()).filter(Boolean),
+    challengeTtlSeconds: parseInt(process.env.MFA_CHALLENGE_TTL_SECONDS || '300', 10),
+    maxAttempts: parseInt(process.env.MFA_MAX_ATTEMPTS || '5', 10),
+    smsResendIntervalSeconds: parseInt(process.env.MFA_SMS_RESEND_INTERVAL_SECONDS || '60', 10),
+    recoveryCodeCount: parseInt(process.env.MFA_RECOVERY_CODE_COUNT || '10', 10),
+  },
 }));
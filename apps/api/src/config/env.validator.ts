@@ -30,6 +30,20 @@ export function validateEnvironmentVariables(): void {
         invalidVariables.push('ENCRYPTION_KEY must be at least 32 characters long.');
     }
 
+    // Rotated keys: ENCRYPTION_KEYS=id:secret,... with ENCRYPTION_KEY_ID naming the active one
+    const rotatedKeys = (process.env.ENCRYPTION_KEYS || '').split(',').filter(entry => entry.trim());
+    for (const entry of rotatedKeys) {
+        const [keyId, ...secret] = entry.split(':');
+        if (!/^[A-Za-z0-9_-]{1,32}$/.test(keyId.trim()) || secret.join(':').trim().length < 32) {
+            invalidVariables.push(`ENCRYPTION_KEYS entry "${keyId.trim()}" must be "id:secret" with a secret of at least 32 characters.`);
+        }
+    }
+
+    const activeKeyId = process.env.ENCRYPTION_KEY_ID;
+    if (activeKeyId && activeKeyId !== 'default' && !rotatedKeys.some(entry => entry.split(':')[0].trim() === activeKeyId)) {
+        invalidVariables.push(`ENCRYPTION_KEY_ID "${activeKeyId}" is not listed in ENCRYPTION_KEYS.`);
+    }
+
     // If anything failed, log strictly and terminate
     if (missingVariables.length > 0 || invalidVariables.length > 0) {
         logger.error('CRITICAL: Environment validation failed!');
@@ -5,6 +5,7 @@ import { PrismaHealthIndicator } from './indicators/prisma.health-indicator';
 import { RedisHealthIndicator } from './indicators/redis.health-indicator';
 import { GovHealthIndicator } from './indicators/gov.health-indicator';
 import { MatchingHealthIndicator } from './indicators/matching.health-indicator';
+import { SchedulerHealthIndicator } from './indicators/scheduler.health-indicator';
 
 import { GovIntegrationModule } from '../modules/gov-integration/gov-integration.module';
 
@@ -21,7 +22,8 @@ import { MatchingModule } from '../modules/matching/matching.module';
     PrismaHealthIndicator,
     RedisHealthIndicator,
     GovHealthIndicator,
-    MatchingHealthIndicator
+    MatchingHealthIndicator,
+    SchedulerHealthIndicator,
   ],
 })
 export class HealthModule { }
@@ -6,6 +6,7 @@ import { PrismaHealthIndicator } from './indicators/prisma.health-indicator';
 import { RedisHealthIndicator } from './indicators/redis.health-indicator';
 import { GovHealthIndicator } from './indicators/gov.health-indicator';
 import { MatchingHealthIndicator } from './indicators/matching.health-indicator';
+import { SchedulerHealthIndicator } from './indicators/scheduler.health-indicator';
 import { ShutdownService } from '../common/shutdown/shutdown.service';
 
 export interface GlobalHealthStatus {
@@ -35,8 +36,9 @@ export class HealthService {
         redis: RedisHealthIndicator,
         gov: GovHealthIndicator,
         matching: MatchingHealthIndicator,
+        scheduler: SchedulerHealthIndicator,
     ) {
-        this.indicators = [prisma, redis, gov, matching];
+        this.indicators = [prisma, redis, gov, matching, scheduler];
         this.appVersion = this.loadAppVersion();
     }
 
@@ -12,16 +12,12 @@ export class GovHealthIndicator implements IHealthIndicator {
         const startTime = Date.now();
 
         try {
-            const circuitBreakerStatus = this.govService.getCircuitBreakerStatus();
+            const circuitBreakerStatus = await this.govService.getCircuitBreakerStatus();
             const responseTime = Date.now() - startTime;
 
-            let hasOpenBreakers = false;
-            for (const apiType in circuitBreakerStatus) {
-                if (circuitBreakerStatus[apiType].isOpen) {
-                    hasOpenBreakers = true;
-                    break;
-                }
-            }
+            const hasOpenBreakers = circuitBreakerStatus.some(
+                breaker => breaker.state !== 'CLOSED' && breaker.state !== 'FORCED_CLOSED',
+            );
 
             // Gov integration failures shouldn't take down our app entirely, just mark as degraded
             return {
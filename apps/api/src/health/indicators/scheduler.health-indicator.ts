@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { IHealthIndicator, HealthCheckResult } from '../interfaces/health-indicator.interface';
+import { SchedulerService } from '../../common/scheduler/scheduler.service';
+
+@Injectable()
+export class SchedulerHealthIndicator implements IHealthIndicator {
+  constructor(private readonly scheduler: SchedulerService) { }
+
+  async check(): Promise<HealthCheckResult> {
+    const startTime = Date.now();
+
+    try {
+      const jobs = await this.scheduler.getStatuses();
+      const responseTime = Date.now() - startTime;
+
+      // Scheduled jobs only do housekeeping, so a failing job degrades the instance but never takes it out.
+      const isDegraded = jobs.some(job => job.status === 'FAILED' || job.status === 'INTERRUPTED' || job.overdue);
+
+      return {
+        name: 'scheduler',
+        status: isDegraded ? 'degraded' : 'healthy',
+        responseTime,
+        metadata: { jobs },
+      };
+    } catch (error) {
+      const responseTime = Date.now() - startTime;
+      return {
+        name: 'scheduler',
+        status: 'degraded',
+        responseTime,
+        metadata: { error: String(error) },
+      };
+    }
+  }
+}
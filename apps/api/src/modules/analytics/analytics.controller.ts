@@ -0,0 +1,40 @@
+import { Controller, Get, Query, UseGuards, Req } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeaders } from '@nestjs/swagger';
+import { AnalyticsService } from './analytics.service';
+import { EmployerAnalyticsQueryDto, EmployerAnalyticsResponseDto } from './dto/analytics.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Request } from 'express';
+
+interface RequestWithUser extends Request {
+  user: {
+    id: string;
+    email: string;
+    role: string;
+    sessionId: string;
+    familyId: string;
+  };
+}
+
+@ApiTags('Employer Analytics')
+@Controller('api/v1/employers')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+@ApiHeaders([{ name: 'authorization', description: 'Bearer token' }])
+export class AnalyticsController {
+  constructor(private readonly analyticsService: AnalyticsService) {}
+
+  @Get('me/analytics')
+  @RequirePermissions('employer_analytics:read')
+  @ApiOperation({ summary: 'Hiring funnel, time-to-hire, source breakdown and trends for own vacancies' })
+  @ApiResponse({ status: 200, description: 'Analytics retrieved successfully', type: EmployerAnalyticsResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid date range' })
+  async getMyAnalytics(@Query() dto: EmployerAnalyticsQueryDto, @Req() req: RequestWithUser) {
+    return this.analyticsService.getEmployerAnalytics(req.user.id, dto, this.extractIp(req));
+  }
+
+  private extractIp(req: RequestWithUser): string {
+    return req.ip || req.socket.remoteAddress || 'unknown';
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AnalyticsController } from './analytics.controller';
+import { AnalyticsService } from './analytics.service';
+import { AnalyticsRepository } from './analytics.repository';
+import { AuthModule } from '../auth/auth.module';
+import { EmployerModule } from '../employer/employer.module';
+
+@Module({
+  imports: [AuthModule, EmployerModule],
+  controllers: [AnalyticsController],
+  providers: [AnalyticsService, AnalyticsRepository],
+})
+export class AnalyticsModule {}
@@ -0,0 +1,213 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, TrafficSource, VacancyStatus } from '@prisma/client';
+import { PrismaService } from '../../database/prisma/prisma.service';
+
+export type TrendGranularity = 'day' | 'week' | 'month';
+
+export interface AnalyticsScope {
+  employerId: string;
+  vacancyId?: string;
+  // Inclusive start and exclusive end, both at 00:00 UTC.
+  from: Date;
+  to: Date;
+}
+
+export interface FunnelRow {
+  vacancyId: string;
+  source: TrafficSource;
+  applications: number;
+  shortlisted: number;
+  interviewed: number;
+  hired: number;
+}
+
+export interface ViewRow {
+  vacancyId: string;
+  source: TrafficSource;
+  views: number;
+}
+
+// vacancyId is null on the row that covers all vacancies.
+export interface TimeToHireRow {
+  vacancyId: string | null;
+  hires: number;
+  averageDays: number | null;
+  medianDays: number | null;
+  averageDaysFromPublish: number | null;
+}
+
+export interface TrendRow {
+  period: Date;
+  views: number;
+  applications: number;
+  hires: number;
+}
+
+/**
+ * Aggregates for the employer analytics dashboard. Raw SQL, because the funnel stage of an application is
+ * derived from its status history, its current status and its interview together.
+ */
+@Injectable()
+export class AnalyticsRepository {
+  constructor(private readonly prisma: PrismaService) { }
+
+  async findVacancies(scope: AnalyticsScope) {
+    return this.prisma.vacancy.findMany({
+      where: {
+        employerId: scope.employerId,
+        deletedAt: null,
+        status: { not: VacancyStatus.DRAFT },
+        ...(scope.vacancyId && { id: scope.vacancyId }),
+      },
+      select: { id: true, jobTitle: true, status: true, publishedAt: true, vacancyCount: true },
+      orderBy: { publishedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Applications submitted in the range, counted at every stage they reached.
+   */
+  async getFunnel(scope: AnalyticsScope): Promise<FunnelRow[]> {
+    return this.prisma.$queryRaw<FunnelRow[]>`
+      WITH stages AS (${this.applicationStages(scope)})
+      SELECT
+        vacancy_id AS "vacancyId",
+        source,
+        COUNT(*)::int AS applications,
+        COUNT(*) FILTER (WHERE stage >= 1)::int AS shortlisted,
+        COUNT(*) FILTER (WHERE stage >= 2)::int AS interviewed,
+        COUNT(*) FILTER (WHERE stage >= 3)::int AS hired
+      FROM stages
+      WHERE applied_at >= ${this.timestamp(scope.from)} AND applied_at < ${this.timestamp(scope.to)}
+      GROUP BY vacancy_id, source
+    `;
+  }
+
+  async getViews(scope: AnalyticsScope): Promise<ViewRow[]> {
+    return this.prisma.$queryRaw<ViewRow[]>`
+      SELECT s.vacancy_id AS "vacancyId", s.source, SUM(s.views)::int AS views
+      FROM vacancy_view_stats s
+      JOIN vacancies v ON v.id = s.vacancy_id
+      WHERE ${this.vacancyScope(scope)} AND s.day >= ${this.date(scope.from)} AND s.day < ${this.date(scope.to)}
+      GROUP BY s.vacancy_id, s.source
+    `;
+  }
+
+  /**
+   * Hires made in the range, per vacancy and overall.
+   */
+  async getTimeToHire(scope: AnalyticsScope): Promise<TimeToHireRow[]> {
+    return this.prisma.$queryRaw<TimeToHireRow[]>`
+      WITH stages AS (${this.applicationStages(scope)}),
+      hires AS (
+        SELECT
+          vacancy_id,
+          EXTRACT(EPOCH FROM (hired_at - applied_at))::float8 / 86400 AS days,
+          EXTRACT(EPOCH FROM (hired_at - published_at))::float8 / 86400 AS days_from_publish
+        FROM stages
+        WHERE hired_at >= ${this.timestamp(scope.from)} AND hired_at < ${this.timestamp(scope.to)}
+      )
+      SELECT
+        vacancy_id AS "vacancyId",
+        COUNT(*)::int AS hires,
+        AVG(days) AS "averageDays",
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY days) AS "medianDays",
+        AVG(days_from_publish) AS "averageDaysFromPublish"
+      FROM hires
+      GROUP BY GROUPING SETS ((vacancy_id), ())
+    `;
+  }
+
+  async getTrends(scope: AnalyticsScope, granularity: TrendGranularity): Promise<TrendRow[]> {
+    const step = `1 ${granularity}`;
+    return this.prisma.$queryRaw<TrendRow[]>`
+      WITH stages AS (${this.applicationStages(scope)}),
+      periods AS (
+        SELECT generate_series(
+          date_trunc(${granularity}, ${this.timestamp(scope.from)}),
+          ${this.timestamp(scope.to)} - interval '1 day',
+          CAST(${step} AS interval)
+        ) AS period
+      ),
+      period_views AS (
+        SELECT date_trunc(${granularity}, s.day::timestamp) AS period, SUM(s.views)::int AS views
+        FROM vacancy_view_stats s
+        JOIN vacancies v ON v.id = s.vacancy_id
+        WHERE ${this.vacancyScope(scope)} AND s.day >= ${this.date(scope.from)} AND s.day < ${this.date(scope.to)}
+        GROUP BY 1
+      ),
+      period_applications AS (
+        SELECT date_trunc(${granularity}, applied_at) AS period, COUNT(*)::int AS applications
+        FROM stages
+        WHERE applied_at >= ${this.timestamp(scope.from)} AND applied_at < ${this.timestamp(scope.to)}
+        GROUP BY 1
+      ),
+      period_hires AS (
+        SELECT date_trunc(${granularity}, hired_at) AS period, COUNT(*)::int AS hires
+        FROM stages
+        WHERE hired_at >= ${this.timestamp(scope.from)} AND hired_at < ${this.timestamp(scope.to)}
+        GROUP BY 1
+      )
+      SELECT
+        p.period,
+        COALESCE(period_views.views, 0) AS views,
+        COALESCE(period_applications.applications, 0) AS applications,
+        COALESCE(period_hires.hires, 0) AS hires
+      FROM periods p
+      LEFT JOIN period_views USING (period)
+      LEFT JOIN period_applications USING (period)
+      LEFT JOIN period_hires USING (period)
+      ORDER BY p.period
+    `;
+  }
+
+  /**
+   * One row per application of the scoped vacancies with the furthest funnel stage it reached
+   * (1 shortlisted, 2 interview, 3 hired) and when it was hired. Hires recorded through an interview outcome
+   * have no status history entry, so the interview and the current status are taken into account too.
+   */
+  private applicationStages(scope: AnalyticsScope): Prisma.Sql {
+    return Prisma.sql`
+      SELECT
+        a.id,
+        a.vacancy_id,
+        a.source,
+        a.applied_at,
+        COALESCE(v.published_at, v.created_at) AS published_at,
+        GREATEST(
+          COALESCE(MAX(CASE h.status WHEN 'SHORTLISTED' THEN 1 WHEN 'INTERVIEW_INVITED' THEN 2 WHEN 'HIRED' THEN 3 END), 0),
+          CASE a.status WHEN 'SHORTLISTED' THEN 1 WHEN 'INTERVIEW_INVITED' THEN 2 WHEN 'HIRED' THEN 3 ELSE 0 END,
+          CASE WHEN i.id IS NOT NULL THEN 2 ELSE 0 END
+        ) AS stage,
+        COALESCE(
+          MIN(h.changed_at) FILTER (WHERE h.status = 'HIRED'),
+          CASE WHEN a.status = 'HIRED' THEN COALESCE(i.completed_at, a.updated_at) END
+        ) AS hired_at
+      FROM applications a
+      JOIN vacancies v ON v.id = a.vacancy_id
+      LEFT JOIN interviews i ON i.application_id = a.id AND i.deleted_at IS NULL
+      LEFT JOIN application_status_history h ON h.application_id = a.id
+      WHERE ${this.vacancyScope(scope)} AND a.deleted_at IS NULL
+      GROUP BY a.id, v.id, i.id
+    `;
+  }
+
+  private timestamp(value: Date): Prisma.Sql {
+    return Prisma.sql`CAST(${value.toISOString()} AS timestamp)`;
+  }
+
+  private date(value: Date): Prisma.Sql {
+    return Prisma.sql`CAST(${value.toISOString().slice(0, 10)} AS date)`;
+  }
+
+  private vacancyScope(scope: AnalyticsScope): Prisma.Sql {
+    const conditions = [
+      Prisma.sql`v.employer_id = CAST(${scope.employerId} AS uuid)`,
+      Prisma.sql`v.deleted_at IS NULL`,
+    ];
+    if (scope.vacancyId) {
+      conditions.push(Prisma.sql`v.id = CAST(${scope.vacancyId} AS uuid)`);
+    }
+    return Prisma.join(conditions, ' AND ');
+  }
+}
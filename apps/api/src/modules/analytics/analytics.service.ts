@@ -0,0 +1,197 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { TrafficSource } from '@prisma/client';
+import { EmployerRepository } from '../employer/employer.repository';
+import { AuditService } from '../auth/audit.service';
+import { AnalyticsRepository, AnalyticsScope, TimeToHireRow } from './analytics.repository';
+import {
+  EmployerAnalyticsQueryDto,
+  EmployerAnalyticsResponseDto,
+  FunnelConversionDto,
+  FunnelDto,
+  TimeToHireDto,
+} from './dto/analytics.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+@Injectable()
+export class AnalyticsService {
+  constructor(
+    private readonly analyticsRepository: AnalyticsRepository,
+    private readonly employerRepository: EmployerRepository,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async getEmployerAnalytics(
+    employerUserId: string,
+    dto: EmployerAnalyticsQueryDto,
+    ipAddress: string,
+  ): Promise<EmployerAnalyticsResponseDto> {
+    const employer = await this.employerRepository.findEmployerByUserId(employerUserId);
+    if (!employer) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'EMPLOYER_NOT_FOUND', message: 'Employer profile not found' },
+      });
+    }
+
+    const { from, to } = this.resolveRange(dto);
+    const granularity = dto.granularity || 'day';
+    const range = { from: this.formatDate(from), to: this.formatDate(new Date(to.getTime() - DAY_MS)), granularity };
+    const scope: AnalyticsScope = { employerId: employer.id, vacancyId: dto.vacancyId, from, to };
+
+    const [vacancies, funnelRows, viewRows, timeToHireRows, trendRows] = await Promise.all([
+      this.analyticsRepository.findVacancies(scope),
+      this.analyticsRepository.getFunnel(scope),
+      this.analyticsRepository.getViews(scope),
+      this.analyticsRepository.getTimeToHire(scope),
+      this.analyticsRepository.getTrends(scope, granularity),
+    ]);
+
+    if (dto.vacancyId && vacancies.length === 0) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'VACANCY_NOT_FOUND', message: 'Vacancy not found' },
+      });
+    }
+
+    const funnels = new Map<string, FunnelDto>();
+    const sources = new Map<TrafficSource, { views: number; applications: number; hired: number }>(
+      Object.values(TrafficSource).map(source => [source, { views: 0, applications: 0, hired: 0 }]),
+    );
+    const funnelFor = (vacancyId: string) => {
+      let funnel = funnels.get(vacancyId);
+      if (!funnel) {
+        funnel = this.emptyFunnel();
+        funnels.set(vacancyId, funnel);
+      }
+      return funnel;
+    };
+
+    for (const row of viewRows) {
+      funnelFor(row.vacancyId).views += row.views;
+      sources.get(row.source)!.views += row.views;
+    }
+    for (const row of funnelRows) {
+      const funnel = funnelFor(row.vacancyId);
+      funnel.applications += row.applications;
+      funnel.shortlisted += row.shortlisted;
+      funnel.interviewed += row.interviewed;
+      funnel.hired += row.hired;
+
+      const source = sources.get(row.source)!;
+      source.applications += row.applications;
+      source.hired += row.hired;
+    }
+
+    const timeToHire = new Map(timeToHireRows.map(row => [row.vacancyId, this.toTimeToHire(row)]));
+    const totals = this.emptyFunnel();
+    for (const funnel of funnels.values()) {
+      totals.views += funnel.views;
+      totals.applications += funnel.applications;
+      totals.shortlisted += funnel.shortlisted;
+      totals.interviewed += funnel.interviewed;
+      totals.hired += funnel.hired;
+    }
+
+    await this.auditService.log('EMPLOYER_ANALYTICS_VIEWED', {
+      userId: employerUserId,
+      ipAddress,
+      details: { employerId: employer.id, vacancyId: dto.vacancyId, ...range },
+    });
+
+    return {
+      range,
+      funnel: totals,
+      conversion: this.toConversion(totals),
+      timeToHire: timeToHire.get(null) ?? this.emptyTimeToHire(),
+      sources: Array.from(sources.entries()).map(([source, counts]) => ({ source, ...counts })),
+      trends: trendRows.map(row => ({
+        period: this.formatDate(row.period),
+        views: row.views,
+        applications: row.applications,
+        hires: row.hires,
+      })),
+      vacancies: vacancies.map(vacancy => {
+        const funnel = funnels.get(vacancy.id) ?? this.emptyFunnel();
+        return {
+          vacancyId: vacancy.id,
+          jobTitle: vacancy.jobTitle,
+          status: vacancy.status,
+          publishedAt: vacancy.publishedAt ?? undefined,
+          vacancyCount: vacancy.vacancyCount,
+          funnel,
+          conversion: this.toConversion(funnel),
+          timeToHire: timeToHire.get(vacancy.id) ?? this.emptyTimeToHire(),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Turns the inclusive YYYY-MM-DD range into [from, to) at UTC midnight.
+   */
+  private resolveRange(dto: EmployerAnalyticsQueryDto): { from: Date; to: Date } {
+    const lastDay = dto.to ? this.parseDay(dto.to) : this.parseDay(this.formatDate(new Date()));
+    const from = dto.from
+      ? this.parseDay(dto.from)
+      : lastDay && new Date(lastDay.getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+    const to = lastDay && new Date(lastDay.getTime() + DAY_MS);
+
+    const days = from && to ? (to.getTime() - from.getTime()) / DAY_MS : 0;
+    if (!from || !to || days < 1 || days > MAX_RANGE_DAYS) {
+      throw new BadRequestException({
+        success: false,
+        error: {
+          code: 'INVALID_DATE_RANGE',
+          message: `from must be a valid date on or before to, and the range at most ${MAX_RANGE_DAYS} days`,
+        },
+      });
+    }
+
+    return { from, to };
+  }
+
+  // Null for dates such as 2026-02-30, which Date would otherwise roll over into the next month.
+  private parseDay(value: string): Date | null {
+    const date = new Date(`${value}T00:00:00.000Z`);
+    return !isNaN(date.getTime()) && this.formatDate(date) === value ? date : null;
+  }
+
+  private toConversion(funnel: FunnelDto): FunnelConversionDto {
+    return {
+      viewToApplication: this.rate(funnel.applications, funnel.views),
+      applicationToShortlist: this.rate(funnel.shortlisted, funnel.applications),
+      shortlistToInterview: this.rate(funnel.interviewed, funnel.shortlisted),
+      interviewToHire: this.rate(funnel.hired, funnel.interviewed),
+      applicationToHire: this.rate(funnel.hired, funnel.applications),
+    };
+  }
+
+  private rate(count: number, total: number): number | null {
+    return total > 0 ? Math.round((count / total) * 10000) / 10000 : null;
+  }
+
+  private toTimeToHire(row: TimeToHireRow): TimeToHireDto {
+    const round = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+    return {
+      hires: row.hires,
+      averageDays: round(row.averageDays),
+      medianDays: round(row.medianDays),
+      averageDaysFromPublish: round(row.averageDaysFromPublish),
+    };
+  }
+
+  private emptyFunnel(): FunnelDto {
+    return { views: 0, applications: 0, shortlisted: 0, interviewed: 0, hired: 0 };
+  }
+
+  private emptyTimeToHire(): TimeToHireDto {
+    return { hires: 0, averageDays: null, medianDays: null, averageDaysFromPublish: null };
+  }
+
+  private formatDate(value: Date): string {
+    return value.toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,153 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsIn, IsUUID, Matches } from 'class-validator';
+import { TrafficSource, VacancyStatus } from '@prisma/client';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export class EmployerAnalyticsQueryDto {
+  @ApiPropertyOptional({ example: '2026-01-01', description: 'First day of the range (UTC); defaults to 30 days before to' })
+  @IsOptional()
+  @Matches(ISO_DATE, { message: 'from must be a date in YYYY-MM-DD format' })
+  from?: string;
+
+  @ApiPropertyOptional({ example: '2026-01-31', description: 'Last day of the range, inclusive (UTC); defaults to today' })
+  @IsOptional()
+  @Matches(ISO_DATE, { message: 'to must be a date in YYYY-MM-DD format' })
+  to?: string;
+
+  @ApiPropertyOptional({ enum: ['day', 'week', 'month'], default: 'day' })
+  @IsOptional()
+  @IsIn(['day', 'week', 'month'])
+  granularity?: 'day' | 'week' | 'month' = 'day';
+
+  @ApiPropertyOptional({ description: 'Limit the dashboard to one vacancy' })
+  @IsOptional()
+  @IsUUID()
+  vacancyId?: string;
+}
+
+export class FunnelDto {
+  @ApiProperty()
+  views: number;
+
+  @ApiProperty()
+  applications: number;
+
+  @ApiProperty()
+  shortlisted: number;
+
+  @ApiProperty()
+  interviewed: number;
+
+  @ApiProperty()
+  hired: number;
+}
+
+// Each rate is the share of the previous stage that reached the next one; null when the previous stage is empty.
+export class FunnelConversionDto {
+  @ApiPropertyOptional({ nullable: true })
+  viewToApplication: number | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  applicationToShortlist: number | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  shortlistToInterview: number | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  interviewToHire: number | null;
+
+  @ApiPropertyOptional({ nullable: true, description: 'Hires per application' })
+  applicationToHire: number | null;
+}
+
+export class TimeToHireDto {
+  @ApiProperty({ description: 'Hires made in the range' })
+  hires: number;
+
+  @ApiPropertyOptional({ nullable: true, description: 'Days from application to hire' })
+  averageDays: number | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  medianDays: number | null;
+
+  @ApiPropertyOptional({ nullable: true, description: 'Days from publishing the vacancy to the hire' })
+  averageDaysFromPublish: number | null;
+}
+
+export class VacancyAnalyticsDto {
+  @ApiProperty()
+  vacancyId: string;
+
+  @ApiProperty()
+  jobTitle: string;
+
+  @ApiProperty({ enum: VacancyStatus })
+  status: VacancyStatus;
+
+  @ApiPropertyOptional()
+  publishedAt?: Date;
+
+  @ApiProperty()
+  vacancyCount: number;
+
+  @ApiProperty({ type: FunnelDto })
+  funnel: FunnelDto;
+
+  @ApiProperty({ type: FunnelConversionDto })
+  conversion: FunnelConversionDto;
+
+  @ApiProperty({ type: TimeToHireDto })
+  timeToHire: TimeToHireDto;
+}
+
+export class SourceBreakdownDto {
+  @ApiProperty({ enum: TrafficSource })
+  source: TrafficSource;
+
+  @ApiProperty()
+  views: number;
+
+  @ApiProperty()
+  applications: number;
+
+  @ApiProperty()
+  hired: number;
+}
+
+export class TrendPointDto {
+  @ApiProperty({ example: '2026-01-05', description: 'First day of the period' })
+  period: string;
+
+  @ApiProperty()
+  views: number;
+
+  @ApiProperty()
+  applications: number;
+
+  @ApiProperty()
+  hires: number;
+}
+
+export class EmployerAnalyticsResponseDto {
+  @ApiProperty()
+  range: { from: string; to: string; granularity: 'day' | 'week' | 'month' };
+
+  @ApiProperty({ type: FunnelDto })
+  funnel: FunnelDto;
+
+  @ApiProperty({ type: FunnelConversionDto })
+  conversion: FunnelConversionDto;
+
+  @ApiProperty({ type: TimeToHireDto })
+  timeToHire: TimeToHireDto;
+
+  @ApiProperty({ type: [SourceBreakdownDto] })
+  sources: SourceBreakdownDto[];
+
+  @ApiProperty({ type: [TrendPointDto] })
+  trends: TrendPointDto[];
+
+  @ApiProperty({ type: [VacancyAnalyticsDto] })
+  vacancies: VacancyAnalyticsDto[];
+}
@@ -16,6 +16,7 @@ import {
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeaders, ApiParam } from '@nestjs/swagger';
 import { ApplicationService } from './application.service';
 import {
+  ApplyOptionsDto,
   ApplyToVacancyDto,
   ListApplicationsDto,
   ListVacancyApplicationsDto,
@@ -23,6 +24,8 @@ import {
   WithdrawApplicationDto,
 } from './dto/application.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
 import { RateLimit } from '../../common/decorators/rate-limit.decorator';
 import { Request } from 'express';
 
@@ -38,13 +41,14 @@ interface RequestWithUser extends Request {
 
 @ApiTags('Application')
 @Controller('api/v1')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
 @ApiHeaders([{ name: 'authorization', description: 'Bearer token' }])
 export class ApplicationController {
   constructor(private readonly applicationService: ApplicationService) { }
 
   @Post('vacancies/:vacancyId/apply')
+  @RequirePermissions('application:create')
   @HttpCode(HttpStatus.CREATED)
   @RateLimit(10, 60)
   @ApiOperation({ summary: 'Apply to a vacancy' })
@@ -52,16 +56,18 @@ export class ApplicationController {
   @ApiResponse({ status: 201, description: 'Application submitted successfully' })
   async applyToVacancy(
     @Param('vacancyId', ParseUUIDPipe) vacancyId: string,
+    @Body() dto: ApplyOptionsDto,
     @Req() req: RequestWithUser,
   ) {
     return this.applicationService.applyToVacancy(
       req.user.id,
-      { vacancyId },
+      { vacancyId, source: dto.source },
       this.extractIp(req),
     );
   }
 
   @Get('applications/me')
+  @RequirePermissions('application:read_own')
   @ApiOperation({ summary: 'List own applications' })
   @ApiResponse({ status: 200, description: 'Applications list retrieved successfully' })
   async listMyApplications(@Query() dto: ListApplicationsDto, @Req() req: RequestWithUser) {
@@ -69,6 +75,7 @@ export class ApplicationController {
   }
 
   @Get('applications/me/:applicationId')
+  @RequirePermissions('application:read_own')
   @ApiOperation({ summary: 'Get own application by ID' })
   @ApiParam({ name: 'applicationId', description: 'Application UUID' })
   @ApiResponse({ status: 200, description: 'Application retrieved successfully' })
@@ -80,6 +87,7 @@ export class ApplicationController {
   }
 
   @Post('applications/me/:applicationId/withdraw')
+  @RequirePermissions('application:withdraw')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Withdraw own application' })
   @ApiParam({ name: 'applicationId', description: 'Application UUID' })
@@ -93,6 +101,7 @@ export class ApplicationController {
   }
 
   @Get('vacancies/:vacancyId/applications')
+  @RequirePermissions('application:review')
   @ApiOperation({ summary: 'List applications for a vacancy (employer)' })
   @ApiParam({ name: 'vacancyId', description: 'Vacancy UUID' })
   @ApiResponse({ status: 200, description: 'Applications list retrieved successfully' })
@@ -105,6 +114,7 @@ export class ApplicationController {
   }
 
   @Put('applications/:applicationId/status')
+  @RequirePermissions('application:review')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Update application status (employer)' })
   @ApiParam({ name: 'applicationId', description: 'Application UUID' })
@@ -1,6 +1,6 @@
 import { Injectable, ConflictException } from '@nestjs/common';
 import { PrismaService } from '../../database/prisma/prisma.service';
-import { Prisma, Application, ApplicationStatus, VacancyStatus } from '@prisma/client';
+import { Prisma, Application, ApplicationStatus, TrafficSource, VacancyStatus } from '@prisma/client';
 
 interface PaginatedResult<T> {
   items: T[];
@@ -140,6 +140,7 @@ export class ApplicationRepository {
     vacancyId: string,
     userId: string,
     cvSnapshotId: string,
+    source: TrafficSource = TrafficSource.DIRECT,
   ): Promise<Application> {
     try {
       return await this.prisma.$transaction(async (tx) => {
@@ -166,6 +167,7 @@ export class ApplicationRepository {
             userId,
             cvSnapshotId,
             status: ApplicationStatus.PENDING_REVIEW,
+            source,
           },
         });
 
@@ -105,6 +105,7 @@ export class ApplicationService {
         dto.vacancyId,
         workerUserId,
         cvSnapshot.id,
+        dto.source,
       );
     } catch (error: any) {
       if (error.message === 'DUPLICATE_APPLICATION') {
@@ -120,6 +121,7 @@ export class ApplicationService {
       userId: workerUserId,
       targetUserId: workerUserId,
       ipAddress,
+      after: this.sanitizeApplication(application),
       details: {
         applicationId: application.id,
         vacancyId: dto.vacancyId,
@@ -224,6 +226,9 @@ export class ApplicationService {
     await this.auditService.log('APPLICATION_WITHDRAWN', {
       userId: workerUserId,
       ipAddress,
+      before: { status: application.status },
+      after: { status: withdrawn.status },
+      reason: dto.reason,
       details: { applicationId, vacancyId: application.vacancyId, reason: dto.reason },
     });
 
@@ -316,6 +321,9 @@ export class ApplicationService {
       userId: employerUserId,
       targetUserId: application.userId,
       ipAddress,
+      before: { status: application.status },
+      after: { status: updated.status, employerNotes: dto.employerNotes },
+      reason: dto.reason,
       details: {
         applicationId,
         vacancyId: application.vacancyId,
@@ -339,6 +347,7 @@ export class ApplicationService {
       cvSnapshotId: application.cvSnapshotId,
       currentVersion: application.currentVersion,
       status: application.status,
+      source: application.source,
       employerNotes: application.employerNotes,
       appliedAt: application.appliedAt,
       reviewedAt: application.reviewedAt,
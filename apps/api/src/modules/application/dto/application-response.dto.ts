@@ -1,5 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { ApplicationStatus } from '@prisma/client';
+import { ApplicationStatus, TrafficSource } from '@prisma/client';
 
 export class ApplicationResponseDto {
   @ApiProperty()
@@ -20,6 +20,9 @@ export class ApplicationResponseDto {
   @ApiProperty({ enum: ApplicationStatus })
   status: ApplicationStatus;
 
+  @ApiProperty({ enum: TrafficSource })
+  source: TrafficSource;
+
   @ApiPropertyOptional()
   employerNotes?: string;
 
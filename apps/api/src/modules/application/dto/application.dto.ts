@@ -1,12 +1,24 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { IsString, IsOptional, IsEnum, IsNumber, Min, Max, IsBoolean, IsUUID, IsArray, ValidateNested } from 'class-validator';
 import { Type } from 'class-transformer';
-import { ApplicationStatus } from '@prisma/client';
+import { ApplicationStatus, TrafficSource } from '@prisma/client';
 
 export class ApplyToVacancyDto {
   @ApiProperty()
   @IsUUID()
   vacancyId: string;
+
+  @ApiPropertyOptional({ enum: TrafficSource, default: TrafficSource.DIRECT })
+  @IsOptional()
+  @IsEnum(TrafficSource)
+  source?: TrafficSource;
+}
+
+export class ApplyOptionsDto {
+  @ApiPropertyOptional({ enum: TrafficSource, description: 'Where the worker found the vacancy', default: TrafficSource.DIRECT })
+  @IsOptional()
+  @IsEnum(TrafficSource)
+  source?: TrafficSource;
 }
 
 export class ListApplicationsDto {
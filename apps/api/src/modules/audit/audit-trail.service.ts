@@ -0,0 +1,347 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { isIP } from 'net';
+import { AccessType, AuditLog, AuditResult, HashVerificationStatus, IntegrityHash } from '@prisma/client';
+import { AuditRepository, AuditLogFilter } from './audit.repository';
+import { AuditService } from '../auth/audit.service';
+import { AUDIT_CHAIN_GRACE_MS, computeAuditRecordHash } from './audit-chain';
+import { AuditLogFilterDto, ListAuditLogsDto, ExportAuditLogsDto, VerifyAuditChainDto } from './dto/audit.dto';
+import {
+  AuditLogResponseDto,
+  AuditLogListResponseDto,
+  AuditChainIssueDto,
+  AuditChainVerificationResponseDto,
+} from './dto/audit-response.dto';
+
+const VERIFY_BATCH_SIZE = 500;
+const MAX_REPORTED_ISSUES = 100;
+const EXPORT_BATCH_SIZE = 1000;
+const MAX_EXPORT_ROWS = 50_000;
+const NON_FILTER_FIELDS = new Set(['accessReason', 'page', 'pageSize', 'format']);
+
+const CSV_COLUMNS = [
+  'id', 'eventId', 'timestamp', 'actorUserId', 'actorRole', 'ipAddress', 'userAgent', 'action',
+  'resourceType', 'resourceId', 'result', 'reason', 'correlationId', 'sessionId', 'beforeState',
+  'afterState', 'recordVersion', 'recordHash',
+];
+
+export interface AuditExport {
+  fileName: string;
+  contentType: string;
+  chunks: AsyncIterable<string>;
+}
+
+@Injectable()
+export class AuditTrailService {
+  constructor(
+    private readonly auditRepository: AuditRepository,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Every returned entry gets an AuditAccessLog row carrying the caller's stated reason.
+   */
+  async listAuditLogs(
+    userId: string,
+    dto: ListAuditLogsDto,
+    ipAddress?: string,
+  ): Promise<AuditLogListResponseDto> {
+    const filter = this.toFilter(dto);
+
+    const result = await this.auditRepository.listAuditLogs({
+      ...filter,
+      page: Math.max(1, dto.page || 1),
+      pageSize: Math.min(dto.pageSize || 20, 100),
+    });
+
+    const auditLogIds = result.items.map(a => a.id);
+    await this.auditRepository.recordAccess(
+      auditLogIds, userId, dto.accessReason, AccessType.QUERY, this.toInetAddress(ipAddress),
+    );
+
+    await this.auditService.log('AUDIT_TRAIL_QUERIED', {
+      userId,
+      ipAddress,
+      resourceType: 'AUDIT_LOG',
+      reason: dto.accessReason,
+      details: { filters: this.describeFilter(dto), resultCount: result.items.length, totalCount: result.totalCount },
+    });
+
+    const links = await this.auditRepository.findChainEntriesForAuditLogs(auditLogIds);
+    const linkByAuditLogId = new Map(links.map(l => [l.entityId, l]));
+
+    return {
+      items: result.items.map(a => this.mapAuditLogToResponse(a, linkByAuditLogId.get(a.id))),
+      totalCount: result.totalCount,
+      page: result.page,
+      pageSize: result.pageSize,
+      totalPages: result.totalPages,
+    };
+  }
+
+  /**
+   * Validates the request up front and returns the file as lazily generated chunks. Entries are read
+   * in batches and each batch is recorded in AuditAccessLog as an EXPORT before it is written out.
+   */
+  async exportAuditLogs(
+    userId: string,
+    dto: ExportAuditLogsDto,
+    ipAddress?: string,
+  ): Promise<AuditExport> {
+    const filter = this.toFilter(dto);
+    const format = dto.format || 'csv';
+
+    await this.auditService.log('AUDIT_TRAIL_EXPORTED', {
+      userId,
+      ipAddress,
+      resourceType: 'AUDIT_LOG',
+      reason: dto.accessReason,
+      details: { filters: this.describeFilter(dto), format, maxRows: MAX_EXPORT_ROWS },
+    });
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return {
+      fileName: `audit-log-${stamp}.${format}`,
+      contentType: format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+      chunks: this.generateExport(userId, filter, format, dto.accessReason, this.toInetAddress(ipAddress)),
+    };
+  }
+
+  private async *generateExport(
+    userId: string,
+    filter: AuditLogFilter,
+    format: 'csv' | 'ndjson',
+    accessReason: string,
+    ipAddress?: string,
+  ): AsyncGenerator<string> {
+    if (format === 'csv') {
+      yield CSV_COLUMNS.join(',') + '\n';
+    }
+
+    let exported = 0;
+    let afterId: string | undefined;
+    while (exported < MAX_EXPORT_ROWS) {
+      const take = Math.min(EXPORT_BATCH_SIZE, MAX_EXPORT_ROWS - exported);
+      const batch = await this.auditRepository.findAuditLogBatch(filter, take, afterId);
+      if (batch.length === 0) break;
+
+      const auditLogIds = batch.map(a => a.id);
+      await this.auditRepository.recordAccess(auditLogIds, userId, accessReason, AccessType.EXPORT, ipAddress);
+
+      const links = await this.auditRepository.findChainEntriesForAuditLogs(auditLogIds);
+      const linkByAuditLogId = new Map(links.map(l => [l.entityId, l]));
+
+      const lines = batch.map(a => {
+        const entry = this.mapAuditLogToResponse(a, linkByAuditLogId.get(a.id));
+        return format === 'csv' ? this.toCsvRow(entry) : JSON.stringify(entry);
+      });
+      yield lines.join('\n') + '\n';
+
+      exported += batch.length;
+      afterId = batch[batch.length - 1].id;
+      if (batch.length < take) break;
+    }
+  }
+
+  /**
+   * Walks the chain entries created in the range in version order. Each entry's hash is recomputed
+   * from the stored audit row and its link is compared with the preceding entry, including the one
+   * just before the range. Entries are marked VERIFIED or MISMATCH.
+   */
+  async verifyChain(
+    userId: string,
+    dto: VerifyAuditChainDto,
+    ipAddress?: string,
+  ): Promise<AuditChainVerificationResponseDto> {
+    const from = new Date(dto.from);
+    const to = new Date(dto.to);
+    this.assertRange(from, to);
+
+    const issues: AuditChainIssueDto[] = [];
+    let issueCount = 0;
+    let checkedCount = 0;
+    let verifiedCount = 0;
+    let firstVersion: number | undefined;
+    let lastVersion: number | undefined;
+    let previous: IntegrityHash | null | undefined;
+    let afterVersion = 0;
+
+    const report = (entry: IntegrityHash, issue: string) => {
+      issueCount++;
+      if (issues.length < MAX_REPORTED_ISSUES) {
+        issues.push({ recordVersion: entry.recordVersion, auditLogId: entry.entityId, issue });
+      }
+    };
+
+    while (true) {
+      const entries = await this.auditRepository.findChainEntries(from, to, afterVersion, VERIFY_BATCH_SIZE);
+      if (entries.length === 0) break;
+
+      if (previous === undefined) {
+        firstVersion = entries[0].recordVersion;
+        previous = firstVersion > 1
+          ? await this.auditRepository.findChainEntryByVersion(firstVersion - 1)
+          : null;
+      }
+
+      const auditLogs = await this.auditRepository.findAuditLogsByIds(entries.map(e => e.entityId));
+      const auditLogById = new Map(auditLogs.map(a => [a.id, a]));
+      const verifiedIds: string[] = [];
+      const mismatchIds: string[] = [];
+
+      for (const entry of entries) {
+        const entryIssues: string[] = [];
+        const expectedVersion = previous ? previous.recordVersion + 1 : 1;
+
+        if (entry.recordVersion !== expectedVersion) {
+          entryIssues.push('VERSION_GAP');
+        }
+        if (entry.previousHash !== (previous?.recordHash ?? null)) {
+          entryIssues.push('LINK_MISMATCH');
+        }
+
+        const auditLog = auditLogById.get(entry.entityId);
+        if (!auditLog) {
+          entryIssues.push('RECORD_MISSING');
+        } else if (computeAuditRecordHash(auditLog, entry.previousHash) !== entry.recordHash) {
+          entryIssues.push('HASH_MISMATCH');
+        }
+
+        entryIssues.forEach(issue => report(entry, issue));
+        (entryIssues.length === 0 ? verifiedIds : mismatchIds).push(entry.id);
+        previous = entry;
+      }
+
+      const verifiedAt = new Date();
+      await this.auditRepository.markChainEntries(verifiedIds, HashVerificationStatus.VERIFIED, verifiedAt);
+      await this.auditRepository.markChainEntries(mismatchIds, HashVerificationStatus.MISMATCH, verifiedAt);
+
+      checkedCount += entries.length;
+      verifiedCount += verifiedIds.length;
+      lastVersion = entries[entries.length - 1].recordVersion;
+      afterVersion = lastVersion;
+    }
+
+    const linkCutoff = new Date(Math.min(to.getTime(), Date.now() - AUDIT_CHAIN_GRACE_MS));
+    const unchainedCount = linkCutoff >= from
+      ? await this.auditRepository.countUnchainedAuditLogs(from, linkCutoff)
+      : 0;
+    const valid = issueCount === 0 && unchainedCount === 0;
+
+    await this.auditService.log('AUDIT_CHAIN_VERIFIED', {
+      userId,
+      ipAddress,
+      resourceType: 'AUDIT_LOG',
+      result: valid ? AuditResult.SUCCESS : AuditResult.FAILURE,
+      details: {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        checkedCount,
+        issueCount,
+        unchainedCount,
+      },
+    });
+
+    return {
+      from,
+      to,
+      valid,
+      checkedCount,
+      verifiedCount,
+      mismatchCount: checkedCount - verifiedCount,
+      unchainedCount,
+      firstVersion,
+      lastVersion,
+      issues,
+    };
+  }
+
+  private toFilter(dto: AuditLogFilterDto): AuditLogFilter {
+    const from = dto.from ? new Date(dto.from) : undefined;
+    const to = dto.to ? new Date(dto.to) : undefined;
+    this.assertRange(from, to);
+
+    return {
+      actorUserId: dto.actorUserId,
+      action: dto.action,
+      resourceType: dto.resourceType,
+      resourceId: dto.resourceId,
+      result: dto.result,
+      correlationId: dto.correlationId,
+      from,
+      to,
+    };
+  }
+
+  private describeFilter(dto: AuditLogFilterDto): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(dto)
+        .filter(([key, value]) => value !== undefined && !NON_FILTER_FIELDS.has(key))
+        .map(([key, value]) => [key, String(value)]),
+    );
+  }
+
+  private toCsvRow(entry: AuditLogResponseDto): string {
+    const values: Record<string, unknown> = {
+      ...entry,
+      timestamp: entry.timestamp.toISOString(),
+      beforeState: entry.beforeState ? JSON.stringify(entry.beforeState) : undefined,
+      afterState: entry.afterState ? JSON.stringify(entry.afterState) : undefined,
+      recordVersion: entry.chain?.recordVersion,
+      recordHash: entry.chain?.recordHash,
+    };
+    return CSV_COLUMNS.map(column => this.escapeCsv(values[column])).join(',');
+  }
+
+  // Quotes fields as needed and defuses values a spreadsheet would evaluate as a formula.
+  private escapeCsv(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    let text = String(value);
+    if (/^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private toInetAddress(ip?: string): string | undefined {
+    return ip && isIP(ip) ? ip : undefined;
+  }
+
+  private assertRange(from?: Date, to?: Date): void {
+    if (from && to && from > to) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'INVALID_DATE_RANGE', message: '"from" must not be after "to"' },
+      });
+    }
+  }
+
+  private mapAuditLogToResponse(auditLog: AuditLog, link?: IntegrityHash): AuditLogResponseDto {
+    return {
+      id: auditLog.id,
+      eventId: auditLog.eventId,
+      timestamp: auditLog.timestamp,
+      actorUserId: auditLog.actorUserId || undefined,
+      actorRole: auditLog.actorRole,
+      ipAddress: auditLog.ipAddress || undefined,
+      userAgent: auditLog.userAgent || undefined,
+      action: auditLog.action,
+      resourceType: auditLog.resourceType,
+      resourceId: auditLog.resourceId || undefined,
+      beforeState: (auditLog.beforeState as Record<string, any>) || undefined,
+      afterState: (auditLog.afterState as Record<string, any>) || undefined,
+      result: auditLog.result,
+      reason: auditLog.reason || undefined,
+      correlationId: auditLog.correlationId || undefined,
+      sessionId: auditLog.sessionId || undefined,
+      chain: link
+        ? {
+          recordVersion: link.recordVersion,
+          recordHash: link.recordHash,
+          previousHash: link.previousHash || undefined,
+          verificationStatus: link.verificationStatus,
+          verifiedAt: link.verifiedAt || undefined,
+        }
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  UseGuards,
+  Req,
+  HttpCode,
+  HttpStatus,
+  StreamableFile,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeaders } from '@nestjs/swagger';
+import { AuditTrailService } from './audit-trail.service';
+import { ListAuditLogsDto, ExportAuditLogsDto, VerifyAuditChainDto } from './dto/audit.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Request } from 'express';
+import { Readable } from 'stream';
+
+interface RequestWithUser extends Request {
+  user: {
+    id: string;
+    email: string;
+    role: string;
+    sessionId: string;
+    familyId: string;
+  };
+}
+
+@ApiTags('Audit')
+@Controller('api/v1/admin/audit')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+@ApiHeaders([{ name: 'authorization', description: 'Bearer token' }])
+export class AuditController {
+  constructor(private readonly auditTrailService: AuditTrailService) {}
+
+  @Get()
+  @RequirePermissions('audit:read')
+  @ApiOperation({ summary: 'Query the audit trail; an access reason is required and recorded' })
+  @ApiResponse({ status: 200, description: 'Audit entries retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Missing access reason or invalid filters' })
+  async listAuditLogs(@Query() dto: ListAuditLogsDto, @Req() req: RequestWithUser) {
+    return this.auditTrailService.listAuditLogs(req.user.id, dto, this.extractIp(req));
+  }
+
+  @Get('export')
+  @RequirePermissions('audit:export')
+  @ApiOperation({ summary: 'Export the filtered audit trail as CSV or NDJSON' })
+  @ApiResponse({ status: 200, description: 'Export file' })
+  @ApiResponse({ status: 400, description: 'Missing access reason or invalid filters' })
+  async exportAuditLogs(@Query() dto: ExportAuditLogsDto, @Req() req: RequestWithUser) {
+    const file = await this.auditTrailService.exportAuditLogs(req.user.id, dto, this.extractIp(req));
+    return new StreamableFile(Readable.from(file.chunks), {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.fileName}"`,
+    });
+  }
+
+  @Post('verify')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('audit:verify')
+  @ApiOperation({ summary: 'Verify the integrity of the audit hash chain for a time range' })
+  @ApiResponse({ status: 200, description: 'Verification report' })
+  @ApiResponse({ status: 400, description: 'Invalid date range' })
+  async verifyChain(@Body() dto: VerifyAuditChainDto, @Req() req: RequestWithUser) {
+    return this.auditTrailService.verifyChain(req.user.id, dto, this.extractIp(req));
+  }
+
+  private extractIp(req: Request): string {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (forwarded) {
+      return (forwarded as string).split(',')[0].trim();
+    }
+    return req.headers['x-real-ip'] as string || req.ip || 'unknown';
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AuditController } from './audit.controller';
+import { AuditTrailService } from './audit-trail.service';
+import { AuditRepository } from './audit.repository';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [AuditController],
+  providers: [AuditTrailService, AuditRepository],
+})
+export class AuditModule {}
@@ -0,0 +1,165 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma/prisma.service';
+import { AccessType, AuditLog, AuditResult, HashVerificationStatus, IntegrityHash, Prisma } from '@prisma/client';
+import { AUDIT_CHAIN_ENTITY_TYPE } from './audit-chain';
+
+const MAX_PAGESIZE = 100;
+
+export interface AuditLogFilter {
+  actorUserId?: string;
+  action?: string;
+  resourceType?: string;
+  resourceId?: string;
+  result?: AuditResult;
+  from?: Date;
+  to?: Date;
+  correlationId?: string;
+}
+
+export interface AuditLogListParams extends AuditLogFilter {
+  page: number;
+  pageSize: number;
+}
+
+interface PaginatedResult<T> {
+  items: T[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+@Injectable()
+export class AuditRepository {
+  constructor(private readonly prisma: PrismaService) { }
+
+  async listAuditLogs(params: AuditLogListParams): Promise<PaginatedResult<AuditLog>> {
+    const { page, pageSize } = params;
+    const enforcedPageSize = Math.min(pageSize, MAX_PAGESIZE);
+    const where = this.buildWhere(params);
+
+    const [items, totalCount] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where,
+        orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * enforcedPageSize,
+        take: enforcedPageSize,
+      }),
+      this.prisma.auditLog.count({ where }),
+    ]);
+
+    return {
+      items,
+      totalCount,
+      page,
+      pageSize: enforcedPageSize,
+      totalPages: Math.ceil(totalCount / enforcedPageSize),
+    };
+  }
+
+  /**
+   * Keyset-paginated scan in the same order as the list endpoint, used for exports.
+   */
+  async findAuditLogBatch(filter: AuditLogFilter, take: number, afterId?: string): Promise<AuditLog[]> {
+    return this.prisma.auditLog.findMany({
+      where: this.buildWhere(filter),
+      orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+      take,
+      ...(afterId ? { cursor: { id: afterId }, skip: 1 } : {}),
+    });
+  }
+
+  async recordAccess(
+    auditLogIds: string[],
+    accessorUserId: string,
+    accessReason: string,
+    accessType: AccessType,
+    ipAddress?: string,
+  ): Promise<void> {
+    if (auditLogIds.length === 0) return;
+    await this.prisma.auditAccessLog.createMany({
+      data: auditLogIds.map(auditLogId => ({
+        auditLogId,
+        accessorUserId,
+        accessReason,
+        accessType,
+        ipAddress,
+      })),
+    });
+  }
+
+  async findAuditLogsByIds(ids: string[]): Promise<AuditLog[]> {
+    if (ids.length === 0) return [];
+    return this.prisma.auditLog.findMany({
+      where: { id: { in: ids } },
+    });
+  }
+
+  async findChainEntriesForAuditLogs(auditLogIds: string[]): Promise<IntegrityHash[]> {
+    if (auditLogIds.length === 0) return [];
+    return this.prisma.integrityHash.findMany({
+      where: { entityType: AUDIT_CHAIN_ENTITY_TYPE, entityId: { in: auditLogIds } },
+    });
+  }
+
+  /**
+   * Chain entries created within the range, in chain order, starting after `afterVersion`.
+   */
+  async findChainEntries(from: Date, to: Date, afterVersion: number, take: number): Promise<IntegrityHash[]> {
+    return this.prisma.integrityHash.findMany({
+      where: {
+        entityType: AUDIT_CHAIN_ENTITY_TYPE,
+        createdAt: { gte: from, lte: to },
+        recordVersion: { gt: afterVersion },
+      },
+      orderBy: { recordVersion: 'asc' },
+      take,
+    });
+  }
+
+  async findChainEntryByVersion(recordVersion: number): Promise<IntegrityHash | null> {
+    return this.prisma.integrityHash.findFirst({
+      where: { entityType: AUDIT_CHAIN_ENTITY_TYPE, recordVersion },
+    });
+  }
+
+  /**
+   * Audit entries in the range that were never linked into the chain. Pass `to` no later than the grace
+   * cutoff, since the newest entries are linked in the background.
+   */
+  async countUnchainedAuditLogs(from: Date, to: Date): Promise<number> {
+    const rows = await this.prisma.$queryRaw<{ count: bigint }[]>`
+      SELECT COUNT(*)::bigint AS count
+      FROM audit_logs a
+      LEFT JOIN integrity_hashes h ON h.entity_type = ${AUDIT_CHAIN_ENTITY_TYPE} AND h.entity_id = a.id
+      WHERE a.timestamp >= ${from} AND a.timestamp <= ${to} AND h.id IS NULL
+    `;
+    return Number(rows[0]?.count ?? 0);
+  }
+
+  async markChainEntries(ids: string[], status: HashVerificationStatus, verifiedAt: Date): Promise<void> {
+    if (ids.length === 0) return;
+    await this.prisma.integrityHash.updateMany({
+      where: { id: { in: ids } },
+      data: { verificationStatus: status, verifiedAt },
+    });
+  }
+
+  private buildWhere(filter: AuditLogFilter): Prisma.AuditLogWhereInput {
+    const { actorUserId, action, resourceType, resourceId, result, from, to, correlationId } = filter;
+
+    const where: Prisma.AuditLogWhereInput = {};
+    if (actorUserId) where.actorUserId = actorUserId;
+    if (action) where.action = action;
+    if (resourceType) where.resourceType = resourceType;
+    if (resourceId) where.resourceId = resourceId;
+    if (result) where.result = result;
+    if (correlationId) where.correlationId = correlationId;
+    if (from || to) {
+      where.timestamp = {};
+      if (from) where.timestamp.gte = from;
+      if (to) where.timestamp.lte = to;
+    }
+    return where;
+  }
+}
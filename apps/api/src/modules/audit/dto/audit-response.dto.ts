@@ -0,0 +1,132 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AuditResult, HashVerificationStatus } from '@prisma/client';
+
+export class AuditChainLinkResponseDto {
+  @ApiProperty()
+  recordVersion: number;
+
+  @ApiProperty()
+  recordHash: string;
+
+  @ApiPropertyOptional()
+  previousHash?: string;
+
+  @ApiProperty({ enum: HashVerificationStatus })
+  verificationStatus: HashVerificationStatus;
+
+  @ApiPropertyOptional()
+  verifiedAt?: Date;
+}
+
+export class AuditLogResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  eventId: string;
+
+  @ApiProperty()
+  timestamp: Date;
+
+  @ApiPropertyOptional()
+  actorUserId?: string;
+
+  @ApiProperty()
+  actorRole: string;
+
+  @ApiPropertyOptional()
+  ipAddress?: string;
+
+  @ApiPropertyOptional()
+  userAgent?: string;
+
+  @ApiProperty()
+  action: string;
+
+  @ApiProperty()
+  resourceType: string;
+
+  @ApiPropertyOptional()
+  resourceId?: string;
+
+  @ApiPropertyOptional({ description: 'Changed fields before the action' })
+  beforeState?: Record<string, any>;
+
+  @ApiPropertyOptional({ description: 'Changed fields after the action' })
+  afterState?: Record<string, any>;
+
+  @ApiProperty({ enum: AuditResult })
+  result: AuditResult;
+
+  @ApiPropertyOptional()
+  reason?: string;
+
+  @ApiPropertyOptional()
+  correlationId?: string;
+
+  @ApiPropertyOptional()
+  sessionId?: string;
+
+  @ApiPropertyOptional({ type: AuditChainLinkResponseDto, description: 'Absent when the entry is not chained' })
+  chain?: AuditChainLinkResponseDto;
+}
+
+export class AuditLogListResponseDto {
+  @ApiProperty({ type: [AuditLogResponseDto] })
+  items: AuditLogResponseDto[];
+
+  @ApiProperty()
+  totalCount: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  pageSize: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
+
+export class AuditChainIssueDto {
+  @ApiProperty()
+  recordVersion: number;
+
+  @ApiProperty()
+  auditLogId: string;
+
+  @ApiProperty({ enum: ['HASH_MISMATCH', 'LINK_MISMATCH', 'VERSION_GAP', 'RECORD_MISSING'] })
+  issue: string;
+}
+
+export class AuditChainVerificationResponseDto {
+  @ApiProperty()
+  from: Date;
+
+  @ApiProperty()
+  to: Date;
+
+  @ApiProperty({ description: 'True when every entry in the range is intact and correctly linked' })
+  valid: boolean;
+
+  @ApiProperty()
+  checkedCount: number;
+
+  @ApiProperty()
+  verifiedCount: number;
+
+  @ApiProperty()
+  mismatchCount: number;
+
+  @ApiProperty({ description: 'Audit entries in the range with no chain link, not counting the last few minutes still being linked' })
+  unchainedCount: number;
+
+  @ApiPropertyOptional()
+  firstVersion?: number;
+
+  @ApiPropertyOptional()
+  lastVersion?: number;
+
+  @ApiProperty({ type: [AuditChainIssueDto], description: 'First issues found, capped at 100' })
+  issues: AuditChainIssueDto[];
+}
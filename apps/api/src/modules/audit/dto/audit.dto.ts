@@ -0,0 +1,88 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, IsOptional, IsEnum, IsUUID, IsNumber, Min, Max, IsDateString, MaxLength, MinLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import { AuditResult } from '@prisma/client';
+
+export class AuditLogFilterDto {
+  @ApiProperty({ description: 'Why the audit trail is being accessed; recorded against every entry returned' })
+  @IsString()
+  @MinLength(10)
+  @MaxLength(1000)
+  accessReason: string;
+
+  @ApiPropertyOptional({ description: 'Acting user UUID' })
+  @IsOptional()
+  @IsUUID()
+  actorUserId?: string;
+
+  @ApiPropertyOptional({ example: 'VACANCY_UPDATED' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  action?: string;
+
+  @ApiPropertyOptional({ example: 'VACANCY' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  resourceType?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  resourceId?: string;
+
+  @ApiPropertyOptional({ enum: AuditResult })
+  @IsOptional()
+  @IsEnum(AuditResult)
+  result?: AuditResult;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({ description: 'X-Request-ID of the originating request' })
+  @IsOptional()
+  @IsUUID()
+  correlationId?: string;
+}
+
+export class ListAuditLogsDto extends AuditLogFilterDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  pageSize?: number = 20;
+}
+
+export class ExportAuditLogsDto extends AuditLogFilterDto {
+  @ApiPropertyOptional({ enum: ['csv', 'ndjson'], default: 'csv' })
+  @IsOptional()
+  @IsEnum(['csv', 'ndjson'])
+  format?: 'csv' | 'ndjson' = 'csv';
+}
+
+export class VerifyAuditChainDto {
+  @ApiProperty({ description: 'Start of the range (inclusive)' })
+  @IsDateString()
+  from: string;
+
+  @ApiProperty({ description: 'End of the range (inclusive)' })
+  @IsDateString()
+  to: string;
+}
@@ -0,0 +1,36 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { SchedulerService } from '../../common/scheduler/scheduler.service';
+import { AuditService } from './audit.service';
+
+const LINK_INTERVAL = 5 * 1000;
+// Linking stops after this many batches and picks up the rest on the next run.
+const MAX_BATCHES_PER_RUN = 20;
+
+/**
+ * Links new audit entries into the hash chain. The scheduler's lock makes this the single writer of the chain.
+ */
+@Injectable()
+export class AuditChainJobs implements OnModuleInit {
+  constructor(
+    private readonly scheduler: SchedulerService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  onModuleInit() {
+    this.scheduler.register({
+      name: 'audit-chain-link',
+      intervalMs: LINK_INTERVAL,
+      run: () => this.linkPending(),
+    });
+  }
+
+  async linkPending(): Promise<Record<string, number>> {
+    let linked = 0;
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+      const count = await this.auditService.linkPendingEntries();
+      linked += count;
+      if (count === 0) break;
+    }
+    return { linked };
+  }
+}
@@ -1,6 +1,22 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { isIP } from 'net';
 import { PrismaService } from '../../database/prisma/prisma.service';
-import { Prisma } from '@prisma/client';
+import { AuditResult, Prisma } from '@prisma/client';
+import { correlationIdStorage } from '../../common/interceptors/logging.interceptor';
+import {
+  AUDIT_CHAIN_ENTITY_TYPE,
+  AUDIT_CHAIN_HASH_ALGORITHM,
+  AUDIT_CHAIN_LOCK_KEY,
+  computeAuditRecordHash,
+  diffStates,
+  toJsonValue,
+} from '../audit/audit-chain';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SYSTEM_ACTOR_ROLE = 'SYSTEM';
+const CHAIN_BATCH_SIZE = 500;
+const CHAIN_TRANSACTION_TIMEOUT = 30_000;
 
 interface AuditContext {
   userId?: string;
@@ -12,10 +28,19 @@ interface AuditContext {
   familyId?: string;
   oldFamilyId?: string;
   details?: Record<string, any>;
+  actorRole?: string;
+  resourceType?: string;
+  resourceId?: string;
+  before?: unknown;
+  after?: unknown;
+  result?: AuditResult;
+  reason?: string;
 }
 
 @Injectable()
 export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
   constructor(private readonly prisma: PrismaService) {}
 
   async log(eventType: string, context: AuditContext): Promise<void> {
@@ -38,8 +63,138 @@ export class AuditService {
         },
       });
     } catch (error) {
-      console.error('Failed to log security event:', error);
+      this.logger.error(`Failed to log security event ${eventType}: ${error.message}`);
+    }
+
+    try {
+      await this.appendAuditLog(eventType, context);
+    } catch (error) {
+      this.logger.error(`Failed to append audit log ${eventType}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Writes the structured audit entry. Linking it into the hash chain happens in linkPendingEntries, off the
+   * request path, so audited requests never wait on each other.
+   */
+  private async appendAuditLog(eventType: string, context: AuditContext): Promise<void> {
+    const hasStates = context.before !== undefined || context.after !== undefined;
+    const diff = hasStates
+      ? diffStates(context.before, context.after)
+      : { before: null, after: toJsonValue(context.details ?? null) as Record<string, unknown> | null };
+    const actor = await this.resolveActor(context);
+    const correlationId = correlationIdStorage.getStore();
+
+    await this.prisma.auditLog.create({
+      data: {
+        eventId: randomUUID(),
+        actorUserId: actor.userId,
+        actorRole: actor.role,
+        ipAddress: this.toInetAddress(context.ipAddress),
+        userAgent: context.userAgent?.substring(0, 500),
+        action: eventType,
+        resourceType: context.resourceType ?? this.deriveResourceType(eventType),
+        resourceId: this.resolveResourceId(context),
+        beforeState: diff.before === null ? Prisma.DbNull : diff.before as Prisma.JsonObject,
+        afterState: diff.after === null ? Prisma.DbNull : diff.after as Prisma.JsonObject,
+        result: context.result ?? this.inferResult(eventType),
+        reason: context.reason,
+        correlationId: correlationId && UUID_PATTERN.test(correlationId) ? correlationId : undefined,
+        sessionId: context.sessionId && UUID_PATTERN.test(context.sessionId) ? context.sessionId : undefined,
+      },
+    });
+  }
+
+  /**
+   * Links audit entries that are not in the hash chain yet, oldest first. Only one linker runs at a time, so
+   * versions stay sequential; returns how many entries were linked.
+   */
+  async linkPendingEntries(batchSize = CHAIN_BATCH_SIZE): Promise<number> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_KEY})`;
+
+      const pending = await tx.$queryRaw<{ id: string }[]>`
+        SELECT a.id
+        FROM audit_logs a
+        LEFT JOIN integrity_hashes h ON h.entity_type = ${AUDIT_CHAIN_ENTITY_TYPE} AND h.entity_id = a.id
+        WHERE h.id IS NULL
+        ORDER BY a.timestamp ASC, a.id ASC
+        LIMIT ${batchSize}
+      `;
+      if (pending.length === 0) return 0;
+
+      const auditLogs = await tx.auditLog.findMany({ where: { id: { in: pending.map(p => p.id) } } });
+      const auditLogById = new Map(auditLogs.map(a => [a.id, a]));
+
+      const previous = await tx.integrityHash.findFirst({
+        where: { entityType: AUDIT_CHAIN_ENTITY_TYPE },
+        orderBy: { recordVersion: 'desc' },
+      });
+
+      let previousHash = previous?.recordHash ?? null;
+      let recordVersion = previous?.recordVersion ?? 0;
+      const links: Prisma.IntegrityHashCreateManyInput[] = [];
+      for (const { id } of pending) {
+        const auditLog = auditLogById.get(id);
+        if (!auditLog) continue;
+
+        const recordHash = computeAuditRecordHash(auditLog, previousHash);
+        recordVersion++;
+        links.push({
+          entityType: AUDIT_CHAIN_ENTITY_TYPE,
+          entityId: auditLog.id,
+          recordHash,
+          previousHash,
+          hashAlgorithm: AUDIT_CHAIN_HASH_ALGORITHM,
+          recordVersion,
+        });
+        previousHash = recordHash;
+      }
+
+      await tx.integrityHash.createMany({ data: links });
+      return links.length;
+    }, { timeout: CHAIN_TRANSACTION_TIMEOUT });
+  }
+
+  private async resolveActor(context: AuditContext): Promise<{ userId?: string; role: string }> {
+    if (!context.userId || !UUID_PATTERN.test(context.userId)) {
+      return { role: context.actorRole ?? SYSTEM_ACTOR_ROLE };
     }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: context.userId },
+      select: { id: true, role: true },
+    });
+    return { userId: user?.id, role: context.actorRole ?? user?.role ?? SYSTEM_ACTOR_ROLE };
+  }
+
+  private resolveResourceId(context: AuditContext): string | undefined {
+    const candidates = [
+      context.resourceId,
+      ...Object.entries(context.details || {})
+        .filter(([key]) => key.endsWith('Id'))
+        .map(([, value]) => value),
+      context.targetUserId,
+    ];
+    return candidates.find((value): value is string => typeof value === 'string' && UUID_PATTERN.test(value));
+  }
+
+  // WORKER_EDUCATION_CREATED -> WORKER_EDUCATION
+  private deriveResourceType(eventType: string): string {
+    const parts = eventType.split('_');
+    return parts.length > 1 ? parts.slice(0, -1).join('_') : eventType;
+  }
+
+  private inferResult(eventType: string): AuditResult {
+    if (/DENIED|FORBIDDEN|BLOCKED|LOCKED/.test(eventType)) return AuditResult.DENIED;
+    if (/FAIL|INVALID|REUSE_DETECTED/.test(eventType)) return AuditResult.FAILURE;
+    return AuditResult.SUCCESS;
+  }
+
+  // audit_logs.ip_address is INET, so placeholders such as 'unknown' are dropped instead of failing the insert.
+  private toInetAddress(ip?: string): string | undefined {
+    const parsed = ip ? this.parseIpAddress(ip) : undefined;
+    return parsed && isIP(parsed) ? parsed : undefined;
   }
 
   private parseIpAddress(ip: string): string | undefined {
@@ -0,0 +1,33 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { SchedulerService } from '../../common/scheduler/scheduler.service';
+import { AuthRepository } from './auth.repository';
+
+const CLEANUP_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Purges expired sessions, failed login attempts, single-use tokens and MFA challenges.
+ */
+@Injectable()
+export class AuthCleanupJobs implements OnModuleInit {
+  constructor(
+    private readonly scheduler: SchedulerService,
+    private readonly authRepository: AuthRepository,
+  ) {}
+
+  onModuleInit() {
+    this.scheduler.register({
+      name: 'auth-cleanup',
+      intervalMs: CLEANUP_INTERVAL,
+      run: () => this.purgeExpired(),
+    });
+  }
+
+  async purgeExpired(): Promise<Record<string, number>> {
+    return {
+      sessions: await this.authRepository.deleteExpiredSessions(),
+      failedLoginAttempts: await this.authRepository.cleanupExpiredFailedAttempts(),
+      authTokens: await this.authRepository.deleteExpiredAuthTokens(),
+      mfaChallenges: await this.authRepository.deleteExpiredMfaChallenges(),
+    };
+  }
+}
@@ -2,6 +2,9 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
+  Param,
+  ParseUUIDPipe,
   Body,
   UseGuards,
   Req,
@@ -11,7 +14,28 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeaders } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
-import { RegisterDto, LoginDto, RefreshTokenDto, LogoutDto, VerifyGovDto } from './dto/auth.dto';
+import { SessionsService } from './sessions.service';
+import {
+  RegisterDto,
+  LoginDto,
+  RefreshTokenDto,
+  LogoutDto,
+  VerifyGovDto,
+  MfaTokenDto,
+  VerifyMfaDto,
+  StartMfaEnrollmentDto,
+  ConfirmMfaEnrollmentDto,
+  SetupMfaDto,
+  ConfirmMfaSetupDto,
+  MfaPasswordDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  ChangePasswordDto,
+  ResendEmailVerificationDto,
+  VerifyEmailDto,
+  VerifyPhoneDto,
+  TrustDeviceDto,
+} from './dto/auth.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { Request } from 'express';
 import { RateLimit } from '../../common/decorators/rate-limit.decorator';
@@ -30,7 +54,10 @@ interface RequestWithUser extends Request {
 @ApiTags('Authentication')
 @Controller('api/v1/auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) { }
+  constructor(
+    private readonly authService: AuthService,
+    private readonly sessionsService: SessionsService,
+  ) { }
 
   @Post('register')
   @ApiOperation({ summary: 'Register a new user (requires gov verification)' })
@@ -45,7 +72,7 @@ export class AuthController {
   @HttpCode(HttpStatus.OK)
   @RateLimit(5, 60)
   @ApiOperation({ summary: 'Login with email and password' })
-  @ApiResponse({ status: 200, description: 'Login successful' })
+  @ApiResponse({ status: 200, description: 'Login successful, or an MFA token when a second factor is required' })
   @ApiResponse({ status: 401, description: 'Invalid credentials' })
   @ApiResponse({ status: 403, description: 'Account locked or suspended' })
   async login(@Body() dto: LoginDto, @Req() req: Request) {
@@ -53,6 +80,52 @@ export class AuthController {
     return this.authService.login(dto, deviceInfo);
   }
 
+  @Post('mfa/sms')
+  @HttpCode(HttpStatus.OK)
+  @RateLimit(3, 60)
+  @ApiOperation({ summary: 'Send an SMS code for a pending MFA login' })
+  @ApiResponse({ status: 200, description: 'Code sent' })
+  @ApiResponse({ status: 401, description: 'Invalid or expired MFA token' })
+  @ApiResponse({ status: 429, description: 'A code was sent too recently' })
+  async sendMfaSmsCode(@Body() dto: MfaTokenDto, @Req() req: Request) {
+    const deviceInfo = this.extractDeviceInfo(req);
+    return this.authService.sendMfaSmsCode(dto, deviceInfo);
+  }
+
+  @Post('mfa/verify')
+  @HttpCode(HttpStatus.OK)
+  @RateLimit(5, 60)
+  @ApiOperation({ summary: 'Complete login with a TOTP, SMS or recovery code' })
+  @ApiResponse({ status: 200, description: 'Login successful' })
+  @ApiResponse({ status: 401, description: 'Invalid code or MFA token' })
+  @ApiResponse({ status: 403, description: 'MFA enrollment required, or account locked' })
+  async verifyMfa(@Body() dto: VerifyMfaDto, @Req() req: Request) {
+    const deviceInfo = this.extractDeviceInfo(req, undefined, dto.userAgent);
+    return this.authService.verifyMfa(dto, deviceInfo);
+  }
+
+  @Post('mfa/enrollment/start')
+  @HttpCode(HttpStatus.OK)
+  @RateLimit(5, 60)
+  @ApiOperation({ summary: 'Start the mandatory MFA setup of a pending login' })
+  @ApiResponse({ status: 200, description: 'TOTP secret issued or SMS code sent' })
+  @ApiResponse({ status: 401, description: 'Invalid or expired MFA token' })
+  async startMfaEnrollment(@Body() dto: StartMfaEnrollmentDto, @Req() req: Request) {
+    const deviceInfo = this.extractDeviceInfo(req);
+    return this.authService.startMfaEnrollment(dto, deviceInfo);
+  }
+
+  @Post('mfa/enrollment/confirm')
+  @HttpCode(HttpStatus.OK)
+  @RateLimit(5, 60)
+  @ApiOperation({ summary: 'Confirm the mandatory MFA setup and complete the login' })
+  @ApiResponse({ status: 200, description: 'MFA enabled; session tokens and recovery codes returned' })
+  @ApiResponse({ status: 401, description: 'Invalid code or MFA token' })
+  async confirmMfaEnrollment(@Body() dto: ConfirmMfaEnrollmentDto, @Req() req: Request) {
+    const deviceInfo = this.extractDeviceInfo(req, undefined, dto.userAgent);
+    return this.authService.confirmMfaEnrollment(dto, deviceInfo);
+  }
+
   @Post('refresh')
   @HttpCode(HttpStatus.OK)
   @RateLimit(10, 60)
@@ -87,12 +160,219 @@ export class AuthController {
     return this.authService.validateUser(req.user.id);
   }
 
+  @Get('mfa')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Two-factor authentication status of the current user' })
+  @ApiResponse({ status: 200, description: 'MFA status' })
+  async getMfaStatus(@Req() req: RequestWithUser) {
+    return this.authService.getMfaStatus(req.user.id);
+  }
+
+  @Post('mfa/setup')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @RateLimit(5, 60)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Start TOTP or SMS two-factor setup' })
+  @ApiResponse({ status: 200, description: 'TOTP secret issued or SMS code sent' })
+  @ApiResponse({ status: 409, description: 'MFA already enabled' })
+  async setupMfa(@Body() dto: SetupMfaDto, @Req() req: RequestWithUser) {
+    return this.authService.setupMfa(req.user.id, dto.method, this.extractDeviceInfo(req));
+  }
+
+  @Post('mfa/setup/confirm')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @RateLimit(5, 60)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Confirm two-factor setup with a code and receive recovery codes' })
+  @ApiResponse({ status: 200, description: 'MFA enabled' })
+  @ApiResponse({ status: 400, description: 'Invalid code or setup not started' })
+  async confirmMfaSetup(@Body() dto: ConfirmMfaSetupDto, @Req() req: RequestWithUser) {
+    return this.authService.confirmMfaSetup(req.user.id, dto.code, this.extractDeviceInfo(req));
+  }
+
+  @Post('mfa/recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @RateLimit(3, 60)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Replace all recovery codes' })
+  @ApiResponse({ status: 200, description: 'New recovery codes' })
+  @ApiResponse({ status: 401, description: 'Invalid password' })
+  async regenerateMfaRecoveryCodes(@Body() dto: MfaPasswordDto, @Req() req: RequestWithUser) {
+    return this.authService.regenerateMfaRecoveryCodes(req.user.id, dto, this.extractDeviceInfo(req));
+  }
+
+  @Post('mfa/disable')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @RateLimit(3, 60)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Turn off two-factor authentication' })
+  @ApiResponse({ status: 200, description: 'MFA disabled' })
+  @ApiResponse({ status: 401, description: 'Invalid password' })
+  @ApiResponse({ status: 403, description: 'MFA is mandatory for the account role' })
+  async disableMfa(@Body() dto: MfaPasswordDto, @Req() req: RequestWithUser) {
+    return this.authService.disableMfa(req.user.id, dto, this.extractDeviceInfo(req));
+  }
+
+  @Post('password/forgot')
+  @HttpCode(HttpStatus.OK)
+  @RateLimit(3, 60)
+  @ApiOperation({ summary: 'Request a password reset link by email' })
+  @ApiResponse({ status: 200, description: 'Generic confirmation, whether or not the email is registered' })
+  async requestPasswordReset(@Body() dto: ForgotPasswordDto, @Req() req: Request) {
+    return this.authService.requestPasswordReset(dto, this.extractDeviceInfo(req));
+  }
+
+  @Post('password/reset')
+  @HttpCode(HttpStatus.OK)
+  @RateLimit(5, 60)
+  @ApiOperation({ summary: 'Set a new password with a reset token and sign out all sessions' })
+  @ApiResponse({ status: 200, description: 'Password reset' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired token' })
+  async resetPassword(@Body() dto: ResetPasswordDto, @Req() req: Request) {
+    return this.authService.resetPassword(dto, this.extractDeviceInfo(req));
+  }
+
+  @Post('password/change')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @RateLimit(5, 60)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Change the password and sign out other sessions' })
+  @ApiResponse({ status: 200, description: 'Password changed' })
+  @ApiResponse({ status: 400, description: 'New password matches the current one' })
+  @ApiResponse({ status: 401, description: 'Invalid current password' })
+  async changePassword(@Body() dto: ChangePasswordDto, @Req() req: RequestWithUser) {
+    return this.authService.changePassword(req.user.id, req.user.familyId, dto, this.extractDeviceInfo(req));
+  }
+
+  @Post('email/verification/resend')
+  @HttpCode(HttpStatus.OK)
+  @RateLimit(3, 60)
+  @ApiOperation({ summary: 'Send a new email verification link' })
+  @ApiResponse({ status: 200, description: 'Generic confirmation, whether or not the email is registered' })
+  async resendEmailVerification(@Body() dto: ResendEmailVerificationDto, @Req() req: Request) {
+    return this.authService.resendEmailVerification(dto, this.extractDeviceInfo(req));
+  }
+
+  @Post('email/verify')
+  @HttpCode(HttpStatus.OK)
+  @RateLimit(10, 60)
+  @ApiOperation({ summary: 'Confirm the email address with a verification token' })
+  @ApiResponse({ status: 200, description: 'Email verified' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired token' })
+  async verifyEmail(@Body() dto: VerifyEmailDto, @Req() req: Request) {
+    return this.authService.verifyEmail(dto, this.extractDeviceInfo(req));
+  }
+
+  @Post('phone/verification')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @RateLimit(3, 60)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Send a verification code to the phone number on the account' })
+  @ApiResponse({ status: 200, description: 'Code sent' })
+  @ApiResponse({ status: 400, description: 'No phone number on the account' })
+  @ApiResponse({ status: 409, description: 'Phone number already verified' })
+  @ApiResponse({ status: 429, description: 'A code was sent recently' })
+  async sendPhoneVerification(@Req() req: RequestWithUser) {
+    return this.authService.sendPhoneVerification(req.user.id, this.extractDeviceInfo(req));
+  }
+
+  @Post('phone/verify')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @RateLimit(5, 60)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Confirm the phone number with the SMS code' })
+  @ApiResponse({ status: 200, description: 'Phone number verified' })
+  @ApiResponse({ status: 400, description: 'Invalid, expired or exhausted code' })
+  async verifyPhone(@Body() dto: VerifyPhoneDto, @Req() req: RequestWithUser) {
+    return this.authService.verifyPhone(req.user.id, dto, this.extractDeviceInfo(req));
+  }
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List your active sessions' })
+  @ApiResponse({ status: 200, description: 'Active sessions with device, IP and last use' })
+  async listSessions(@Req() req: RequestWithUser) {
+    return this.sessionsService.listSessions(this.currentSession(req));
+  }
+
+  @Post('sessions/revoke-others')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @RateLimit(5, 60)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Sign out every session except the current one' })
+  @ApiResponse({ status: 200, description: 'Other sessions revoked' })
+  async revokeOtherSessions(@Req() req: RequestWithUser) {
+    return this.sessionsService.revokeOtherSessions(this.currentSession(req), this.extractDeviceInfo(req));
+  }
+
+  @Post('sessions/:sessionId/revoke')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @RateLimit(10, 60)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Sign out one of your sessions' })
+  @ApiResponse({ status: 200, description: 'Session revoked' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revokeSession(@Param('sessionId', ParseUUIDPipe) sessionId: string, @Req() req: RequestWithUser) {
+    return this.sessionsService.revokeSession(this.currentSession(req), sessionId, this.extractDeviceInfo(req));
+  }
+
+  @Get('devices/trusted')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List your trusted devices' })
+  @ApiResponse({ status: 200, description: 'Trusted devices' })
+  async listTrustedDevices(@Req() req: RequestWithUser) {
+    return this.sessionsService.listTrustedDevices(req.user.id);
+  }
+
+  @Post('devices/trusted')
+  @UseGuards(JwtAuthGuard)
+  @RateLimit(10, 60)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Trust the device of the current session' })
+  @ApiResponse({ status: 201, description: 'Device trusted' })
+  @ApiResponse({ status: 400, description: 'The current session has no device fingerprint' })
+  async trustCurrentDevice(@Body() dto: TrustDeviceDto, @Req() req: RequestWithUser) {
+    return this.sessionsService.trustCurrentDevice(this.currentSession(req), dto.label, this.extractDeviceInfo(req));
+  }
+
+  @Delete('devices/trusted/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Stop trusting a device' })
+  @ApiResponse({ status: 200, description: 'Trusted device removed' })
+  @ApiResponse({ status: 404, description: 'Trusted device not found' })
+  async removeTrustedDevice(@Param('id', ParseUUIDPipe) id: string, @Req() req: RequestWithUser) {
+    return this.sessionsService.removeTrustedDevice(req.user.id, id, this.extractDeviceInfo(req));
+  }
+
   @Post('gov/verify')
-  @ApiOperation({ summary: 'Verify user identity through government API (stub)' })
-  @ApiResponse({ status: 200, description: 'Verification initiated' })
-  @ApiResponse({ status: 400, description: 'Invalid verification data' })
-  async verifyGovIdentity(@Body() dto: VerifyGovDto) {
-    return this.authService.verifyGovIdentity(dto);
+  @HttpCode(HttpStatus.OK)
+  @RateLimit(3, 60)
+  @ApiOperation({ summary: 'Verify identity through the government API and activate the account' })
+  @ApiResponse({ status: 200, description: 'Identity verified, profile created and account activated' })
+  @ApiResponse({ status: 400, description: 'Missing details or data does not match the government record' })
+  @ApiResponse({ status: 401, description: 'Invalid credentials' })
+  @ApiResponse({ status: 409, description: 'Account already verified or identity linked to another account' })
+  @ApiResponse({ status: 503, description: 'Government API unavailable' })
+  async verifyGovIdentity(@Body() dto: VerifyGovDto, @Req() req: Request) {
+    const deviceInfo = this.extractDeviceInfo(req, dto.deviceFingerprint, dto.userAgent);
+    return this.authService.verifyGovIdentity(dto, deviceInfo);
+  }
+
+  private currentSession(req: RequestWithUser) {
+    return { userId: req.user.id, familyId: req.user.familyId };
   }
 
   private extractDeviceInfo(
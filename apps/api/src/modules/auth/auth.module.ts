@@ -1,4 +1,4 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
@@ -8,7 +8,17 @@ import { AuthRepository } from './auth.repository';
 import { AuditService } from './audit.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from './guards/optional-jwt-auth.guard';
 import { RolesGuard } from './guards/roles.guard';
+import { PermissionsGuard } from './guards/permissions.guard';
+import { PermissionsService } from './permissions.service';
+import { MfaService } from './mfa.service';
+import { SessionsService } from './sessions.service';
+import { AuthCleanupJobs } from './auth-cleanup.jobs';
+import { AuditChainJobs } from './audit-chain.jobs';
+import { GovIntegrationModule } from '../gov-integration/gov-integration.module';
+import { SmsModule } from '../sms/sms.module';
+import { MailModule } from '../mail/mail.module';
 
 @Module({
   imports: [
@@ -23,9 +33,12 @@ import { RolesGuard } from './guards/roles.guard';
         },
       }),
     }),
+    forwardRef(() => GovIntegrationModule),
+    SmsModule,
+    MailModule,
   ],
   controllers: [AuthController],
-  providers: [AuthService, AuthRepository, AuditService, JwtStrategy, JwtAuthGuard, RolesGuard],
-  exports: [AuthService, JwtAuthGuard, RolesGuard, AuditService],
+  providers: [AuthService, AuthRepository, AuditService, MfaService, SessionsService, AuthCleanupJobs, AuditChainJobs, JwtStrategy, JwtAuthGuard, OptionalJwtAuthGuard, RolesGuard, PermissionsService, PermissionsGuard],
+  exports: [AuthService, JwtAuthGuard, OptionalJwtAuthGuard, RolesGuard, AuditService, PermissionsService, PermissionsGuard],
 })
 export class AuthModule {}
@@ -1,10 +1,39 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../database/prisma/prisma.service';
-import { Prisma, User, UserStatus, UserRole, Session, FailedLoginAttempt, SecurityEvent } from '@prisma/client';
+import {
+  Prisma,
+  User,
+  UserStatus,
+  UserRole,
+  Session,
+  FailedLoginAttempt,
+  SecurityEvent,
+  WorkerProfile,
+  Employer,
+  EmployerStatus,
+  MfaChallenge,
+  MfaChallengePurpose,
+  MfaMethod,
+  AuthToken,
+  AuthTokenType,
+  TrustedDevice,
+} from '@prisma/client';
 import * as crypto from 'crypto';
 
-export type AuthUser = Pick<User, 'id' | 'email' | 'passwordHash' | 'status' | 'role' | 'lockedUntil'>;
-export type MinimalAuthUser = Pick<User, 'id' | 'email' | 'status' | 'role' | 'phone' | 'verifiedAt'>;
+export type AuthUser = Pick<
+  User,
+  | 'id' | 'email' | 'passwordHash' | 'status' | 'role' | 'lockedUntil' | 'phone' | 'verifiedAt' | 'mfaMethod'
+  | 'emailVerifiedAt'
+>;
+export type MinimalAuthUser = Pick<
+  User,
+  'id' | 'email' | 'status' | 'role' | 'phone' | 'verifiedAt' | 'emailVerifiedAt' | 'phoneVerifiedAt'
+>;
+export type MfaUser = Pick<
+  User,
+  | 'id' | 'email' | 'passwordHash' | 'phone' | 'status' | 'role' | 'verifiedAt' | 'lockedUntil'
+  | 'mfaMethod' | 'mfaSecret' | 'mfaTotpLastStep' | 'mfaEnabledAt'
+>;
 
 @Injectable()
 export class AuthRepository {
@@ -20,6 +49,30 @@ export class AuthRepository {
         status: true,
         role: true,
         lockedUntil: true,
+        phone: true,
+        verifiedAt: true,
+        mfaMethod: true,
+        emailVerifiedAt: true,
+      },
+    });
+  }
+
+  async findMfaUser(id: string): Promise<MfaUser | null> {
+    return this.prisma.user.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        email: true,
+        passwordHash: true,
+        phone: true,
+        status: true,
+        role: true,
+        verifiedAt: true,
+        lockedUntil: true,
+        mfaMethod: true,
+        mfaSecret: true,
+        mfaTotpLastStep: true,
+        mfaEnabledAt: true,
       },
     });
   }
@@ -34,6 +87,8 @@ export class AuthRepository {
         role: true,
         phone: true,
         verifiedAt: true,
+        emailVerifiedAt: true,
+        phoneVerifiedAt: true,
       },
     });
   }
@@ -106,6 +161,314 @@ export class AuthRepository {
     });
   }
 
+  async findWorkerProfileOwnerByNationalId(nationalId: string): Promise<string | null> {
+    const profile = await this.prisma.workerProfile.findUnique({
+      where: { nationalId },
+      select: { userId: true },
+    });
+    return profile?.userId ?? null;
+  }
+
+  async findEmployerOwnerByRegistration(businessRegNo: string, taxId: string): Promise<string | null> {
+    const employer = await this.prisma.employer.findFirst({
+      where: { OR: [{ businessRegNo }, { taxId }] },
+      select: { userId: true },
+    });
+    return employer?.userId ?? null;
+  }
+
+  /**
+   * Creates (or refreshes, on a repeated attempt) the worker profile and activates the account.
+   * Runs inside the transaction that records the gov verification.
+   */
+  async onboardWorker(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    profile: Pick<WorkerProfile, 'nationalId' | 'fullName' | 'dateOfBirth' | 'gender'> & {
+      permanentAddress: Prisma.InputJsonValue;
+      currentAddress?: Prisma.InputJsonValue;
+    },
+  ): Promise<void> {
+    await tx.workerProfile.upsert({
+      where: { userId },
+      create: { userId, ...profile },
+      update: profile,
+    });
+    await this.activateUser(tx, userId);
+  }
+
+  async onboardEmployer(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    employer: Pick<Employer, 'businessRegNo' | 'taxId' | 'companyName' | 'legalName' | 'industry' | 'companySize'> & {
+      headquartersAddress: Prisma.InputJsonValue;
+      website?: string;
+      description?: string;
+    },
+  ): Promise<void> {
+    const verified = { verifiedAt: new Date(), status: EmployerStatus.ACTIVE };
+    await tx.employer.upsert({
+      where: { userId },
+      create: { userId, ...employer, ...verified },
+      update: { ...employer, ...verified },
+    });
+    await this.activateUser(tx, userId);
+  }
+
+  async createMfaChallenge(data: {
+    userId: string;
+    purpose: MfaChallengePurpose;
+    method?: MfaMethod;
+    deviceFingerprint?: string;
+    ipAddress?: string;
+    expiresAt: Date;
+  }): Promise<MfaChallenge> {
+    return this.prisma.mfaChallenge.create({
+      data: {
+        userId: data.userId,
+        purpose: data.purpose,
+        method: data.method,
+        deviceFingerprint: data.deviceFingerprint,
+        ipAddress: data.ipAddress ? this.parseIpAddress(data.ipAddress) : undefined,
+        expiresAt: data.expiresAt,
+      },
+    });
+  }
+
+  async findMfaChallenge(id: string): Promise<MfaChallenge | null> {
+    return this.prisma.mfaChallenge.findUnique({ where: { id } });
+  }
+
+  async findOpenEnrollmentChallenge(userId: string): Promise<MfaChallenge | null> {
+    return this.prisma.mfaChallenge.findFirst({
+      where: {
+        userId,
+        purpose: MfaChallengePurpose.ENROLLMENT,
+        consumedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async updateMfaChallenge(
+    id: string,
+    data: { method?: MfaMethod; pendingSecret?: string | null; codeHash?: string | null; codeSentAt?: Date | null },
+  ): Promise<MfaChallenge> {
+    return this.prisma.mfaChallenge.update({
+      where: { id },
+      data,
+    });
+  }
+
+  async incrementMfaChallengeAttempts(id: string): Promise<number> {
+    const challenge = await this.prisma.mfaChallenge.update({
+      where: { id },
+      data: { attempts: { increment: 1 } },
+      select: { attempts: true },
+    });
+    return challenge.attempts;
+  }
+
+  /**
+   * Marks the challenge used; false when it was already consumed, so each challenge completes at most once.
+   */
+  async consumeMfaChallenge(id: string): Promise<boolean> {
+    const result = await this.prisma.mfaChallenge.updateMany({
+      where: { id, consumedAt: null },
+      data: { consumedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Records the TOTP step as used; false when this or a later step was already accepted.
+   */
+  async recordTotpStep(userId: string, step: number): Promise<boolean> {
+    const result = await this.prisma.user.updateMany({
+      where: { id: userId, OR: [{ mfaTotpLastStep: null }, { mfaTotpLastStep: { lt: step } }] },
+      data: { mfaTotpLastStep: step },
+    });
+    return result.count > 0;
+  }
+
+  async enableMfa(
+    userId: string,
+    challengeId: string,
+    data: { method: MfaMethod; secret: string | null; totpStep: number | null },
+    recoveryCodeHashes: string[],
+  ): Promise<boolean> {
+    return this.prisma.$transaction(async (tx) => {
+      const consumed = await tx.mfaChallenge.updateMany({
+        where: { id: challengeId, consumedAt: null },
+        data: { consumedAt: new Date() },
+      });
+      if (consumed.count === 0) return false;
+
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          mfaMethod: data.method,
+          mfaSecret: data.secret,
+          mfaTotpLastStep: data.totpStep,
+          mfaEnabledAt: new Date(),
+        },
+      });
+      await this.replaceRecoveryCodesInTx(tx, userId, recoveryCodeHashes);
+      return true;
+    });
+  }
+
+  async disableMfa(userId: string): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: userId },
+        data: { mfaMethod: null, mfaSecret: null, mfaTotpLastStep: null, mfaEnabledAt: null },
+      });
+      await tx.mfaRecoveryCode.deleteMany({ where: { userId } });
+      await tx.mfaChallenge.updateMany({
+        where: { userId, consumedAt: null },
+        data: { consumedAt: new Date() },
+      });
+    });
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await this.prisma.$transaction(tx => this.replaceRecoveryCodesInTx(tx, userId, codeHashes));
+  }
+
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await this.prisma.mfaRecoveryCode.updateMany({
+      where: { userId, codeHash, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: string): Promise<number> {
+    return this.prisma.mfaRecoveryCode.count({
+      where: { userId, usedAt: null },
+    });
+  }
+
+  /**
+   * Stores a new token and invalidates the user's unused tokens of the same type, so only the latest link or
+   * code works.
+   */
+  async issueAuthToken(data: {
+    userId: string;
+    type: AuthTokenType;
+    tokenHash: string;
+    target?: string;
+    ipAddress?: string;
+    expiresAt: Date;
+  }): Promise<AuthToken> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.authToken.updateMany({
+        where: { userId: data.userId, type: data.type, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      return tx.authToken.create({
+        data: {
+          userId: data.userId,
+          type: data.type,
+          tokenHash: data.tokenHash,
+          target: data.target,
+          ipAddress: data.ipAddress ? this.parseIpAddress(data.ipAddress) : undefined,
+          expiresAt: data.expiresAt,
+        },
+      });
+    });
+  }
+
+  async findActiveAuthToken(type: AuthTokenType, tokenHash: string): Promise<AuthToken | null> {
+    return this.prisma.authToken.findFirst({
+      where: { type, tokenHash, usedAt: null, expiresAt: { gt: new Date() } },
+    });
+  }
+
+  async findLatestAuthToken(userId: string, type: AuthTokenType): Promise<AuthToken | null> {
+    return this.prisma.authToken.findFirst({
+      where: { userId, type },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async incrementAuthTokenAttempts(id: string): Promise<number> {
+    const token = await this.prisma.authToken.update({
+      where: { id },
+      data: { attempts: { increment: 1 } },
+      select: { attempts: true },
+    });
+    return token.attempts;
+  }
+
+  async consumeAuthToken(id: string): Promise<boolean> {
+    const result = await this.prisma.authToken.updateMany({
+      where: { id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Sets the new password, clears any lockout and revokes every session family. Null when the token was
+   * already used.
+   */
+  async resetPassword(userId: string, tokenId: string, passwordHash: string): Promise<{ sessionsRevoked: number } | null> {
+    return this.prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const consumed = await tx.authToken.updateMany({
+        where: { id: tokenId, usedAt: null },
+        data: { usedAt: now },
+      });
+      if (consumed.count === 0) return null;
+
+      await tx.authToken.updateMany({
+        where: { userId, type: AuthTokenType.PASSWORD_RESET, usedAt: null },
+        data: { usedAt: now },
+      });
+      await tx.user.update({
+        where: { id: userId },
+        data: { passwordHash, failedLoginAttempts: 0, lockedUntil: null },
+      });
+      await tx.failedLoginAttempt.deleteMany({ where: { userId } });
+      const revoked = await tx.session.updateMany({
+        where: { userId, isRevoked: false },
+        data: { isRevoked: true, revokedAt: now },
+      });
+
+      return { sessionsRevoked: revoked.count };
+    });
+  }
+
+  async updatePassword(userId: string, passwordHash: string): Promise<void> {
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { passwordHash },
+    });
+  }
+
+  /**
+   * Marks the email or phone verified if it still matches the token target. False when the token was already
+   * used or the contact has changed since it was sent.
+   */
+  async confirmContact(userId: string, tokenId: string, channel: 'EMAIL' | 'PHONE', target: string): Promise<boolean> {
+    return this.prisma.$transaction(async (tx) => {
+      const consumed = await tx.authToken.updateMany({
+        where: { id: tokenId, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      if (consumed.count === 0) return false;
+
+      const updated = await tx.user.updateMany({
+        where: channel === 'EMAIL' ? { id: userId, email: target } : { id: userId, phone: target },
+        data: channel === 'EMAIL' ? { emailVerifiedAt: new Date() } : { phoneVerifiedAt: new Date() },
+      });
+      return updated.count > 0;
+    });
+  }
+
   async createSession(data: {
     userId: string;
     familyId: string;
@@ -303,17 +666,84 @@ export class AuthRepository {
     return count;
   }
 
+  async findUserSession(userId: string, sessionId: string): Promise<Session | null> {
+    return this.prisma.session.findFirst({
+      where: { id: sessionId, userId, deletedAt: null },
+    });
+  }
+
+  // Only writes when the stored value is older than `staleAfterMs`, so busy clients do not update on every request.
+  async touchSession(accessTokenJti: string, staleAfterMs: number): Promise<void> {
+    const now = new Date();
+    await this.prisma.session.updateMany({
+      where: { accessTokenJti, lastUsedAt: { lt: new Date(now.getTime() - staleAfterMs) } },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  async hasSuccessfulLogin(userId: string, deviceFingerprint?: string): Promise<boolean> {
+    const event = await this.prisma.securityEvent.findFirst({
+      where: { userId, eventType: 'LOGIN_SUCCESS', deviceFingerprint },
+      select: { id: true },
+    });
+    return !!event;
+  }
+
+  async findTrustedDevices(userId: string): Promise<TrustedDevice[]> {
+    return this.prisma.trustedDevice.findMany({
+      where: { userId },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+  }
+
+  async findTrustedDevice(userId: string, deviceFingerprint: string): Promise<TrustedDevice | null> {
+    return this.prisma.trustedDevice.findUnique({
+      where: { userId_deviceFingerprint: { userId, deviceFingerprint } },
+    });
+  }
+
+  async upsertTrustedDevice(data: {
+    userId: string;
+    deviceFingerprint: string;
+    label?: string;
+    userAgent?: string;
+    ipAddress?: string;
+  }): Promise<TrustedDevice> {
+    const details = {
+      label: data.label,
+      userAgent: data.userAgent,
+      ipAddress: data.ipAddress ? this.parseIpAddress(data.ipAddress) : undefined,
+      lastSeenAt: new Date(),
+    };
+    return this.prisma.trustedDevice.upsert({
+      where: { userId_deviceFingerprint: { userId: data.userId, deviceFingerprint: data.deviceFingerprint } },
+      create: { userId: data.userId, deviceFingerprint: data.deviceFingerprint, ...details },
+      update: details,
+    });
+  }
+
+  async touchTrustedDevice(id: string): Promise<void> {
+    await this.prisma.trustedDevice.update({
+      where: { id },
+      data: { lastSeenAt: new Date() },
+    });
+  }
+
+  async deleteTrustedDevice(userId: string, id: string): Promise<TrustedDevice | null> {
+    const device = await this.prisma.trustedDevice.findFirst({ where: { id, userId } });
+    if (!device) return null;
+
+    await this.prisma.trustedDevice.delete({ where: { id } });
+    return device;
+  }
+
+  /**
+   * Hard-deletes sessions whose refresh token can no longer be used. Revoked sessions are kept until then, because
+   * refresh token reuse detection looks them up.
+   */
   async deleteExpiredSessions(): Promise<number> {
-    const result = await this.prisma.session.updateMany({
-      where: {
-        OR: [
-          { expiresAt: { lt: new Date() } },
-          { deletedAt: { not: null } },
-        ],
-      },
-      data: {
-        deletedAt: new Date(),
-      },
+    const result = await this.prisma.session.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
     });
     return result.count;
   }
@@ -359,6 +789,20 @@ export class AuthRepository {
     return result.count;
   }
 
+  async deleteExpiredAuthTokens(): Promise<number> {
+    const result = await this.prisma.authToken.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+    return result.count;
+  }
+
+  async deleteExpiredMfaChallenges(): Promise<number> {
+    const result = await this.prisma.mfaChallenge.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+    return result.count;
+  }
+
   async findUserRoles(userId: string): Promise<{ role: { name: string; level: number } }[]> {
     return this.prisma.userRoleRelation.findMany({
       where: { userId },
@@ -378,6 +822,20 @@ export class AuthRepository {
     return user?.role || null;
   }
 
+  async findPermissionsForUser(userId: string, roleName: string): Promise<{ resource: string; action: string }[]> {
+    return this.prisma.permission.findMany({
+      where: {
+        role: {
+          OR: [
+            { name: roleName },
+            { userRoles: { some: { userId } } },
+          ],
+        },
+      },
+      select: { resource: true, action: true },
+    });
+  }
+
   hashToken(token: string): string {
     return crypto.createHash('sha256').update(token).digest('hex');
   }
@@ -389,4 +847,22 @@ export class AuthRepository {
       return ip;
     }
   }
+
+  private async replaceRecoveryCodesInTx(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    codeHashes: string[],
+  ): Promise<void> {
+    await tx.mfaRecoveryCode.deleteMany({ where: { userId } });
+    await tx.mfaRecoveryCode.createMany({
+      data: codeHashes.map(codeHash => ({ userId, codeHash })),
+    });
+  }
+
+  private async activateUser(tx: Prisma.TransactionClient, userId: string): Promise<void> {
+    await tx.user.update({
+      where: { id: userId },
+      data: { status: UserStatus.ACTIVE, verifiedAt: new Date() },
+    });
+  }
 }
@@ -1,12 +1,48 @@
-import { Injectable, UnauthorizedException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import {
+  Inject,
+  Injectable,
+  Logger,
+  HttpException,
+  HttpStatus,
+  UnauthorizedException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
-import { UserStatus, UserRole } from '@prisma/client';
+import { UserStatus, UserRole, Gender, AuthTokenType, MfaChallengePurpose, MfaMethod, VerificationQueue } from '@prisma/client';
 import * as argon2 from 'argon2';
-import { randomUUID } from 'crypto';
-import { AuthRepository } from './auth.repository';
+import { randomBytes, randomInt, randomUUID, timingSafeEqual } from 'crypto';
+import { AuthRepository, AuthUser, MfaUser } from './auth.repository';
 import { AuditService } from './audit.service';
-import { RegisterDto, LoginDto, RefreshTokenDto, LogoutDto, VerifyGovDto } from './dto/auth.dto';
+import { MfaFactor, MfaService } from './mfa.service';
+import { SessionsService } from './sessions.service';
+import {
+  RegisterDto,
+  LoginDto,
+  RefreshTokenDto,
+  LogoutDto,
+  VerifyGovDto,
+  GovWorkerIdentityDto,
+  GovEmployerIdentityDto,
+  MfaTokenDto,
+  VerifyMfaDto,
+  StartMfaEnrollmentDto,
+  ConfirmMfaEnrollmentDto,
+  MfaPasswordDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  ChangePasswordDto,
+  ResendEmailVerificationDto,
+  VerifyEmailDto,
+  VerifyPhoneDto,
+} from './dto/auth.dto';
+import { GovIntegrationService } from '../gov-integration/gov-integration.service';
+import { sameGovIdentifier } from '../gov-integration/gov-verification.constants';
+import { MAIL_TRANSPORT, MailMessage, MailTransport } from '../mail/mail.transport';
+import { SMS_PROVIDER, SmsProvider, maskPhoneNumber } from '../sms/sms.provider';
 
 interface TokenPayload {
   sub: string;
@@ -24,11 +60,18 @@ interface DeviceInfo {
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     private readonly authRepository: AuthRepository,
     private readonly auditService: AuditService,
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
+    private readonly govIntegrationService: GovIntegrationService,
+    private readonly mfaService: MfaService,
+    private readonly sessionsService: SessionsService,
+    @Inject(MAIL_TRANSPORT) private readonly mailTransport: MailTransport,
+    @Inject(SMS_PROVIDER) private readonly smsProvider: SmsProvider,
   ) { }
 
   async register(dto: RegisterDto, deviceInfo: DeviceInfo) {
@@ -60,6 +103,13 @@ export class AuthService {
       details: { role: dto.role },
     });
 
+    try {
+      await this.sendEmailVerification(user, deviceInfo);
+    } catch (error: any) {
+      // The user can request the link again, so a mail outage does not fail registration.
+      this.logger.warn(`Could not send email verification to user ${user.id}: ${error.message}`);
+    }
+
     return {
       message: 'Registration successful. Government verification required.',
       userId: user.id,
@@ -122,11 +172,16 @@ export class AuthService {
       });
     }
 
-    await this.authRepository.resetFailedLoginAttempts(user.id);
-    await this.authRepository.updateLastLogin(user.id);
-
     const deviceFingerprint = dto.deviceFingerprint || deviceInfo.fingerprint;
     const authResponse = await this.createAuthResponse(user, deviceFingerprint, deviceInfo);
+    if ('mfaRequired' in authResponse) {
+      // Failed attempts are only reset once the second factor passes, so MFA guesses still count towards lockout.
+      return authResponse;
+    }
+
+    await this.authRepository.resetFailedLoginAttempts(user.id);
+    await this.authRepository.updateLastLogin(user.id);
+    await this.sessionsService.checkLoginDevice(user, authResponse, deviceFingerprint, deviceInfo);
 
     await this.auditService.log('LOGIN_SUCCESS', {
       userId: user.id,
@@ -305,15 +360,406 @@ export class AuthService {
     };
   }
 
-  async verifyGovIdentity(dto: VerifyGovDto) {
+  /**
+   * Always answers the same way so the endpoint cannot be used to discover registered emails.
+   */
+  async requestPasswordReset(dto: ForgotPasswordDto, deviceInfo: DeviceInfo) {
+    const response = { message: 'If an account exists for this email, a password reset link has been sent.' };
+
+    const user = await this.authRepository.findUserByEmail(dto.email);
+    if (!user) {
+      await this.auditService.log('PASSWORD_RESET_REQUESTED_USER_NOT_FOUND', {
+        ipAddress: deviceInfo.ipAddress,
+        userAgent: deviceInfo.userAgent,
+        deviceFingerprint: deviceInfo.fingerprint,
+        details: { email: dto.email },
+      });
+      return response;
+    }
+
+    if (user.status === UserStatus.DEACTIVATED || await this.wasTokenRecentlyIssued(user.id, AuthTokenType.PASSWORD_RESET)) {
+      return response;
+    }
+
+    const ttlMinutes = this.configService.get<number>('auth.tokens.passwordResetTtlMinutes') || 30;
+    const token = await this.issueLinkToken(user.id, AuthTokenType.PASSWORD_RESET, user.email, ttlMinutes * 60, deviceInfo);
+
+    let mailError: string | undefined;
+    try {
+      await this.sendMail({
+        to: user.email,
+        subject: 'Reset your password',
+        text: [
+          'We received a request to reset your password.',
+          `Open this link within ${ttlMinutes} minutes to choose a new one: ${this.buildPublicLink('/reset-password', token)}`,
+          'If you did not request this, you can ignore this email.',
+        ].join('\n\n'),
+      });
+    } catch (error: any) {
+      // Answering with an error only when the email exists would reveal which addresses have accounts.
+      mailError = error.message;
+      this.logger.warn(`Could not send password reset email to user ${user.id}: ${error.message}`);
+    }
+
+    await this.auditService.log(mailError ? 'PASSWORD_RESET_EMAIL_FAILED' : 'PASSWORD_RESET_REQUESTED', {
+      userId: user.id,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: deviceInfo.fingerprint,
+      details: mailError ? { error: mailError } : undefined,
+    });
+
+    return response;
+  }
+
+  /**
+   * Sets a new password from a reset link. Clears any lockout and revokes every session family of the user.
+   */
+  async resetPassword(dto: ResetPasswordDto, deviceInfo: DeviceInfo) {
+    const token = await this.authRepository.findActiveAuthToken(
+      AuthTokenType.PASSWORD_RESET,
+      this.authRepository.hashToken(dto.token),
+    );
+    const user = token ? await this.mfaService.findUser(token.userId) : null;
+    if (!token || !user) {
+      this.throwInvalidToken();
+    }
+
+    this.validateAccountStatus(user.status);
+
+    const passwordHash = await this.hashPassword(dto.newPassword);
+    const result = await this.authRepository.resetPassword(user.id, token.id, passwordHash);
+    if (!result) {
+      this.throwInvalidToken();
+    }
+
+    await this.auditService.log('PASSWORD_RESET_COMPLETED', {
+      userId: user.id,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: deviceInfo.fingerprint,
+      details: { sessionsRevoked: result.sessionsRevoked, lockoutCleared: !!user.lockedUntil },
+    });
+
+    await this.sendPasswordChangedNotice(user.email);
+
     return {
-      message: 'Government verification stub: In production, this would connect to government API',
-      status: 'PENDING',
-      userId: dto.userId || 'to-be-created',
-      nextSteps: 'Submit identity documents for verification',
+      message: 'Password has been reset. Please log in with your new password.',
+      sessionsRevoked: result.sessionsRevoked,
     };
   }
 
+  /**
+   * Keeps the current session family and signs out everywhere else.
+   */
+  async changePassword(userId: string, familyId: string, dto: ChangePasswordDto, deviceInfo: DeviceInfo) {
+    const user = await this.findMfaUserWithPassword(userId, dto.currentPassword, deviceInfo);
+
+    if (await this.verifyPassword(dto.newPassword, user.passwordHash)) {
+      throw new BadRequestException({
+        success: false,
+        error: {
+          code: 'PASSWORD_UNCHANGED',
+          message: 'New password must be different from the current password',
+        },
+      });
+    }
+
+    await this.authRepository.updatePassword(userId, await this.hashPassword(dto.newPassword));
+    const sessionsRevoked = await this.authRepository.deleteOtherUserSessions(userId, familyId);
+
+    await this.auditService.log('PASSWORD_CHANGED', {
+      userId,
+      familyId,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: deviceInfo.fingerprint,
+      details: { sessionsRevoked },
+    });
+
+    await this.sendPasswordChangedNotice(user.email);
+
+    return { message: 'Password changed. Other sessions have been signed out.', sessionsRevoked };
+  }
+
+  async resendEmailVerification(dto: ResendEmailVerificationDto, deviceInfo: DeviceInfo) {
+    const response = { message: 'If this email needs verification, a new link has been sent.' };
+
+    const user = await this.authRepository.findUserByEmail(dto.email);
+    if (
+      user
+      && !user.emailVerifiedAt
+      && user.status !== UserStatus.DEACTIVATED
+      && !(await this.wasTokenRecentlyIssued(user.id, AuthTokenType.EMAIL_VERIFICATION))
+    ) {
+      await this.sendEmailVerification(user, deviceInfo);
+    }
+
+    return response;
+  }
+
+  async verifyEmail(dto: VerifyEmailDto, deviceInfo: DeviceInfo) {
+    const token = await this.authRepository.findActiveAuthToken(
+      AuthTokenType.EMAIL_VERIFICATION,
+      this.authRepository.hashToken(dto.token),
+    );
+    if (!token || !token.target || !(await this.authRepository.confirmContact(token.userId, token.id, 'EMAIL', token.target))) {
+      this.throwInvalidToken();
+    }
+
+    await this.auditService.log('EMAIL_VERIFIED', {
+      userId: token.userId,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: deviceInfo.fingerprint,
+      details: { email: token.target },
+    });
+
+    return { message: 'Email address verified.' };
+  }
+
+  async sendPhoneVerification(userId: string, deviceInfo: DeviceInfo) {
+    const user = await this.authRepository.findUserById(userId);
+    if (!user?.phone) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'PHONE_NUMBER_REQUIRED', message: 'Add a phone number before verifying it' },
+      });
+    }
+    if (user.phoneVerifiedAt) {
+      throw new ConflictException({
+        success: false,
+        error: { code: 'PHONE_ALREADY_VERIFIED', message: 'Phone number is already verified' },
+      });
+    }
+    if (await this.wasTokenRecentlyIssued(userId, AuthTokenType.PHONE_VERIFICATION)) {
+      throw new HttpException({
+        success: false,
+        error: { code: 'VERIFICATION_RATE_LIMITED', message: 'A code was sent recently. Please wait before requesting another' },
+      }, HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    const expiresIn = (this.configService.get<number>('auth.tokens.phoneVerificationTtlMinutes') || 10) * 60;
+    const code = String(randomInt(0, 1_000_000)).padStart(6, '0');
+    await this.authRepository.issueAuthToken({
+      userId,
+      type: AuthTokenType.PHONE_VERIFICATION,
+      tokenHash: this.authRepository.hashToken(code),
+      target: user.phone,
+      ipAddress: deviceInfo.ipAddress,
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+    });
+
+    try {
+      await this.smsProvider.send({
+        to: user.phone,
+        body: `Your phone verification code is ${code}. It expires in ${expiresIn / 60} minutes.`,
+      });
+    } catch {
+      throw new ServiceUnavailableException({
+        success: false,
+        error: { code: 'SMS_DELIVERY_FAILED', message: 'Could not send the SMS code. Please try again' },
+      });
+    }
+
+    const sentTo = maskPhoneNumber(user.phone);
+    await this.auditService.log('PHONE_VERIFICATION_SENT', {
+      userId,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: deviceInfo.fingerprint,
+      details: { sentTo, provider: this.smsProvider.name },
+    });
+
+    return { sentTo, expiresIn };
+  }
+
+  async verifyPhone(userId: string, dto: VerifyPhoneDto, deviceInfo: DeviceInfo) {
+    const token = await this.authRepository.findLatestAuthToken(userId, AuthTokenType.PHONE_VERIFICATION);
+    if (!token || token.usedAt || token.expiresAt <= new Date() || !token.target) {
+      this.throwInvalidToken();
+    }
+
+    const maxAttempts = this.configService.get<number>('auth.tokens.maxCodeAttempts') || 5;
+    if (await this.authRepository.incrementAuthTokenAttempts(token.id) > maxAttempts) {
+      await this.authRepository.consumeAuthToken(token.id);
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'TOO_MANY_ATTEMPTS', message: 'Too many incorrect codes. Request a new code' },
+      });
+    }
+
+    const matches = timingSafeEqual(Buffer.from(token.tokenHash), Buffer.from(this.authRepository.hashToken(dto.code)));
+    if (!matches) {
+      await this.auditService.log('PHONE_VERIFICATION_FAILED', {
+        userId,
+        ipAddress: deviceInfo.ipAddress,
+        userAgent: deviceInfo.userAgent,
+        deviceFingerprint: deviceInfo.fingerprint,
+      });
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'INVALID_VERIFICATION_CODE', message: 'Invalid verification code' },
+      });
+    }
+
+    if (!(await this.authRepository.confirmContact(userId, token.id, 'PHONE', token.target))) {
+      this.throwInvalidToken();
+    }
+
+    await this.auditService.log('PHONE_VERIFIED', {
+      userId,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: deviceInfo.fingerprint,
+      details: { sentTo: maskPhoneNumber(token.target) },
+    });
+
+    return { message: 'Phone number verified.' };
+  }
+
+  async sendMfaSmsCode(dto: MfaTokenDto, deviceInfo: DeviceInfo) {
+    const { user, challenge } = await this.mfaService.resolvePendingToken(dto.mfaToken, MfaChallengePurpose.LOGIN);
+    this.validateMfaUser(user);
+    return this.mfaService.sendLoginCode(user, challenge, deviceInfo);
+  }
+
+  /**
+   * Second step of login: the MFA token from login plus a valid factor yields the session tokens.
+   */
+  async verifyMfa(dto: VerifyMfaDto, deviceInfo: DeviceInfo) {
+    const { user, challenge } = await this.mfaService.resolvePendingToken(dto.mfaToken, MfaChallengePurpose.LOGIN);
+    this.validateMfaUser(user);
+
+    const verified = await this.mfaService.verifyLoginFactor(user, challenge, dto.method, dto.code, deviceInfo);
+    if (!verified) {
+      await this.handleFailedLogin(user.id, deviceInfo, 'invalid_mfa_code');
+      this.throwInvalidMfaCode();
+    }
+
+    return this.completeMfaLogin(user, dto.method, challenge.deviceFingerprint || deviceInfo.fingerprint, deviceInfo);
+  }
+
+  async startMfaEnrollment(dto: StartMfaEnrollmentDto, deviceInfo: DeviceInfo) {
+    const { user, challenge } = await this.mfaService.resolvePendingToken(dto.mfaToken, MfaChallengePurpose.ENROLLMENT);
+    this.validateMfaUser(user);
+    return this.mfaService.startEnrollment(user, challenge, dto.method, deviceInfo);
+  }
+
+  /**
+   * Completes a login that was held back because the role requires MFA: enables the factor, then issues tokens.
+   */
+  async confirmMfaEnrollment(dto: ConfirmMfaEnrollmentDto, deviceInfo: DeviceInfo) {
+    const { user, challenge } = await this.mfaService.resolvePendingToken(dto.mfaToken, MfaChallengePurpose.ENROLLMENT);
+    this.validateMfaUser(user);
+
+    const recoveryCodes = await this.mfaService.confirmEnrollment(user, challenge, dto.code, deviceInfo);
+    if (!recoveryCodes) {
+      await this.handleFailedLogin(user.id, deviceInfo, 'invalid_mfa_code');
+      this.throwInvalidMfaCode();
+    }
+
+    const authResponse = await this.completeMfaLogin(
+      { ...user, mfaMethod: challenge.method },
+      challenge.method as MfaMethod,
+      challenge.deviceFingerprint || deviceInfo.fingerprint,
+      deviceInfo,
+    );
+    return { ...authResponse, recoveryCodes };
+  }
+
+  async getMfaStatus(userId: string) {
+    return this.mfaService.getStatus(userId);
+  }
+
+  async setupMfa(userId: string, method: MfaMethod, deviceInfo: DeviceInfo) {
+    return this.mfaService.beginEnrollment(userId, method, deviceInfo);
+  }
+
+  async confirmMfaSetup(userId: string, code: string, deviceInfo: DeviceInfo) {
+    const { user, challenge } = await this.mfaService.findEnrollmentChallenge(userId);
+    const recoveryCodes = await this.mfaService.confirmEnrollment(user, challenge, code, deviceInfo);
+    if (!recoveryCodes) {
+      // Not a 401: the bearer token is still valid, only the code is wrong.
+      throw new BadRequestException({
+        success: false,
+        error: {
+          code: 'INVALID_MFA_CODE',
+          message: 'Invalid verification code',
+        },
+      });
+    }
+    return { recoveryCodes };
+  }
+
+  async regenerateMfaRecoveryCodes(userId: string, dto: MfaPasswordDto, deviceInfo: DeviceInfo) {
+    const user = await this.findMfaUserWithPassword(userId, dto.password, deviceInfo);
+    return { recoveryCodes: await this.mfaService.regenerateRecoveryCodes(user, deviceInfo) };
+  }
+
+  async disableMfa(userId: string, dto: MfaPasswordDto, deviceInfo: DeviceInfo) {
+    const user = await this.findMfaUserWithPassword(userId, dto.password, deviceInfo);
+    await this.mfaService.disable(user, deviceInfo);
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  /**
+   * Onboards a PENDING_VERIFICATION account: credentials prove ownership (the account cannot use
+   * bearer tokens yet), the gov registry confirms the submitted details, and the worker profile or
+   * employer record is created and the account activated together with the verification result.
+   */
+  async verifyGovIdentity(dto: VerifyGovDto, deviceInfo: DeviceInfo) {
+    const user = await this.authRepository.findUserByEmail(dto.email);
+    if (!user || !(await this.verifyPassword(dto.password, user.passwordHash))) {
+      if (user) await this.handleFailedLogin(user.id, deviceInfo);
+      throw new UnauthorizedException({
+        success: false,
+        error: {
+          code: 'INVALID_CREDENTIALS',
+          message: 'Invalid email or password',
+        },
+      });
+    }
+
+    this.validateAccountStatus(user.status);
+
+    if (user.lockedUntil && user.lockedUntil > new Date()) {
+      throw new ForbiddenException({
+        success: false,
+        error: {
+          code: 'ACCOUNT_LOCKED',
+          message: 'Account is locked. Try again later',
+          lockedUntil: user.lockedUntil.toISOString(),
+        },
+      });
+    }
+
+    if (user.status !== UserStatus.PENDING_VERIFICATION) {
+      throw new ConflictException({
+        success: false,
+        error: {
+          code: 'ACCOUNT_ALREADY_VERIFIED',
+          message: 'Account has already been verified',
+        },
+      });
+    }
+
+    if (user.role === UserRole.WORKER) {
+      return this.onboardWorker(user, dto.worker, deviceInfo);
+    }
+    if (user.role === UserRole.EMPLOYER) {
+      return this.onboardEmployer(user, dto.employer, deviceInfo);
+    }
+
+    throw new BadRequestException({
+      success: false,
+      error: {
+        code: 'GOV_ONBOARDING_NOT_SUPPORTED',
+        message: 'Government onboarding is only available for worker and employer accounts',
+      },
+    });
+  }
+
   async validateUser(userId: string) {
     const user = await this.authRepository.findUserById(userId);
     if (!user) {
@@ -335,6 +781,8 @@ export class AuthService {
       role: user.role,
       status: user.status,
       verifiedAt: user.verifiedAt,
+      emailVerifiedAt: user.emailVerifiedAt,
+      phoneVerifiedAt: user.phoneVerifiedAt,
     };
   }
 
@@ -364,8 +812,7 @@ export class AuthService {
     }
   }
 
-  private generateAccessToken(user: any, familyId: string): string {
-    const jti = randomUUID();
+  private generateAccessToken(user: any, familyId: string, jti: string = randomUUID()): string {
     const payload: TokenPayload = {
       sub: user.id,
       role: user.role,
@@ -390,11 +837,34 @@ export class AuthService {
     });
   }
 
-  private async createAuthResponse(user: any, deviceFingerprint: string, deviceInfo: DeviceInfo) {
+  /**
+   * Session tokens, or an MFA pending token when the account needs a second factor that has not been verified
+   * in this login (`mfaVerifiedWith` unset).
+   */
+  private async createAuthResponse(
+    user: any,
+    deviceFingerprint: string,
+    deviceInfo: DeviceInfo,
+    mfaVerifiedWith?: MfaFactor,
+  ) {
+    if (!mfaVerifiedWith && this.mfaService.isRequired(user)) {
+      const pending = await this.mfaService.createPendingResponse(user, deviceFingerprint, deviceInfo);
+
+      await this.auditService.log('LOGIN_MFA_REQUIRED', {
+        userId: user.id,
+        ipAddress: deviceInfo.ipAddress,
+        userAgent: deviceInfo.userAgent,
+        deviceFingerprint,
+        details: { enrollmentRequired: pending.enrollmentRequired },
+      });
+
+      return pending;
+    }
+
     const familyId = randomUUID();
     const accessTokenJti = randomUUID();
 
-    const accessToken = this.generateAccessToken(user, familyId);
+    const accessToken = this.generateAccessToken(user, familyId, accessTokenJti);
     const refreshToken = this.generateRefreshToken(user.id, familyId);
 
     const refreshTokenHash = this.authRepository.hashToken(refreshToken);
@@ -419,6 +889,7 @@ export class AuthService {
       tokenType: 'Bearer',
       sessionId: accessTokenJti,
       familyId,
+      mfaVerified: !!mfaVerifiedWith,
       user: {
         id: user.id,
         email: user.email,
@@ -430,7 +901,11 @@ export class AuthService {
     };
   }
 
-  private async handleFailedLogin(userId: string, deviceInfo: DeviceInfo): Promise<void> {
+  private async handleFailedLogin(
+    userId: string,
+    deviceInfo: DeviceInfo,
+    reason: 'invalid_password' | 'invalid_mfa_code' = 'invalid_password',
+  ): Promise<void> {
     const user = await this.authRepository.incrementFailedLoginAttempts(userId);
     const maxAttempts = this.configService.get<number>('auth.bruteForce.maxAttempts') || 5;
     const baseLockDuration = this.configService.get<number>('auth.bruteForce.baseLockDurationMs') || 300000;
@@ -446,7 +921,7 @@ export class AuthService {
       userId,
       ipAddress: deviceInfo.ipAddress,
       userAgent: deviceInfo.userAgent,
-      reason: 'invalid_password',
+      reason,
       expiresAt: failedLoginTrackingWindow,
     });
 
@@ -455,7 +930,7 @@ export class AuthService {
       ipAddress: deviceInfo.ipAddress,
       userAgent: deviceInfo.userAgent,
       deviceFingerprint: deviceInfo.fingerprint,
-      details: { attemptNumber: totalAttempts, maxAttempts },
+      details: { attemptNumber: totalAttempts, maxAttempts, reason },
     });
 
     if (totalAttempts >= maxAttempts) {
@@ -478,6 +953,360 @@ export class AuthService {
     }
   }
 
+  private async onboardWorker(user: AuthUser, details: GovWorkerIdentityDto | undefined, deviceInfo: DeviceInfo) {
+    if (!details) {
+      throw new BadRequestException({
+        success: false,
+        error: {
+          code: 'WORKER_DETAILS_REQUIRED',
+          message: 'Identity document details are required for worker accounts',
+        },
+      });
+    }
+
+    const nationalIdOwner = await this.authRepository.findWorkerProfileOwnerByNationalId(details.pinfl);
+    if (nationalIdOwner && nationalIdOwner !== user.id) {
+      throw new ConflictException({
+        success: false,
+        error: {
+          code: 'NATIONAL_ID_ALREADY_REGISTERED',
+          message: 'This PINFL is already linked to another account',
+        },
+      });
+    }
+
+    const { job, result } = await this.govIntegrationService.verifyImmediately('WORKER_IDENTITY', user.id, {
+      pinfl: details.pinfl,
+      documentNumber: details.documentNumber,
+      documentType: details.documentType,
+      firstName: details.firstName,
+      lastName: details.lastName,
+      birthDate: details.birthDate,
+    }, deviceInfo.ipAddress);
+
+    let mismatch: { code: string; message: string } | null = null;
+    if (result?.verified !== true) {
+      mismatch = { code: 'GOV_IDENTITY_NOT_VERIFIED', message: 'The identity document could not be verified' };
+    } else if (!sameGovIdentifier(result.workerId, details.pinfl)) {
+      mismatch = { code: 'GOV_IDENTITY_MISMATCH', message: 'The government record belongs to a different PINFL' };
+    } else if (result.birthDate && !this.isSameDate(result.birthDate, details.birthDate)) {
+      mismatch = { code: 'GOV_BIRTH_DATE_MISMATCH', message: 'Date of birth does not match the government record' };
+    } else if (result.fullName && !this.nameMatches(result.fullName, [details.firstName, details.lastName])) {
+      mismatch = { code: 'GOV_NAME_MISMATCH', message: 'Name does not match the government record' };
+    }
+
+    if (mismatch) {
+      await this.rejectOnboarding(user.id, job, result, mismatch, deviceInfo);
+    }
+
+    const gender = Object.values(Gender).includes(result.gender) ? result.gender as Gender : details.gender;
+    const govAddress = typeof result.address === 'string' ? { fullAddress: result.address } : result.address;
+
+    await this.govIntegrationService.completeVerification(job, result, true, (tx) =>
+      this.authRepository.onboardWorker(tx, user.id, {
+        nationalId: details.pinfl,
+        fullName: result.fullName || `${details.firstName} ${details.lastName}`,
+        dateOfBirth: new Date(result.birthDate || details.birthDate),
+        gender,
+        permanentAddress: { ...details.permanentAddress, ...govAddress },
+        currentAddress: details.currentAddress,
+      }),
+    );
+
+    return this.completeOnboarding(user.id, 'WORKER', job.id, deviceInfo);
+  }
+
+  private async onboardEmployer(user: AuthUser, details: GovEmployerIdentityDto | undefined, deviceInfo: DeviceInfo) {
+    if (!details) {
+      throw new BadRequestException({
+        success: false,
+        error: {
+          code: 'EMPLOYER_DETAILS_REQUIRED',
+          message: 'Business registration details are required for employer accounts',
+        },
+      });
+    }
+
+    const registrationOwner = await this.authRepository.findEmployerOwnerByRegistration(details.businessRegNo, details.taxId);
+    if (registrationOwner && registrationOwner !== user.id) {
+      throw new ConflictException({
+        success: false,
+        error: {
+          code: 'BUSINESS_ALREADY_REGISTERED',
+          message: 'This business registration or tax ID is already linked to another account',
+        },
+      });
+    }
+
+    const { job, result } = await this.govIntegrationService.verifyImmediately('EMPLOYER', user.id, {
+      businessRegNo: details.businessRegNo,
+      companyName: details.companyName,
+      taxId: details.taxId,
+    }, deviceInfo.ipAddress);
+
+    let mismatch: { code: string; message: string } | null = null;
+    if (result?.verified !== true) {
+      mismatch = { code: 'GOV_BUSINESS_NOT_VERIFIED', message: 'The business registration could not be verified' };
+    } else if (!sameGovIdentifier(result.employerId, details.businessRegNo)) {
+      mismatch = { code: 'GOV_BUSINESS_MISMATCH', message: 'The government record belongs to a different business' };
+    } else if (result.companyName && !this.nameMatches(result.companyName, [details.companyName])) {
+      mismatch = { code: 'GOV_COMPANY_NAME_MISMATCH', message: 'Company name does not match the government registry' };
+    } else if (result.status && String(result.status).toUpperCase() !== 'ACTIVE') {
+      mismatch = { code: 'GOV_BUSINESS_INACTIVE', message: 'The business is not active in the government registry' };
+    }
+
+    if (mismatch) {
+      await this.rejectOnboarding(user.id, job, result, mismatch, deviceInfo);
+    }
+
+    await this.govIntegrationService.completeVerification(job, result, true, (tx) =>
+      this.authRepository.onboardEmployer(tx, user.id, {
+        businessRegNo: details.businessRegNo,
+        taxId: details.taxId,
+        companyName: details.companyName,
+        legalName: details.legalName || result.companyName || details.companyName,
+        industry: details.industry,
+        companySize: details.companySize,
+        headquartersAddress: details.headquartersAddress,
+        website: details.website,
+        description: details.description,
+      }),
+    );
+
+    return this.completeOnboarding(user.id, 'EMPLOYER', job.id, deviceInfo);
+  }
+
+  private async rejectOnboarding(
+    userId: string,
+    job: VerificationQueue,
+    result: any,
+    mismatch: { code: string; message: string },
+    deviceInfo: DeviceInfo,
+  ): Promise<never> {
+    await this.govIntegrationService.completeVerification(job, result, false);
+
+    await this.auditService.log('GOV_ONBOARDING_REJECTED', {
+      userId,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: deviceInfo.fingerprint,
+      resourceType: 'USER',
+      resourceId: userId,
+      reason: mismatch.code,
+      details: { verificationId: job.id, code: mismatch.code },
+    });
+
+    throw new BadRequestException({
+      success: false,
+      error: mismatch,
+    });
+  }
+
+  private async completeOnboarding(
+    userId: string,
+    profileType: 'WORKER' | 'EMPLOYER',
+    verificationId: string,
+    deviceInfo: DeviceInfo,
+  ) {
+    await this.auditService.log('GOV_ONBOARDING_COMPLETED', {
+      userId,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: deviceInfo.fingerprint,
+      resourceType: 'USER',
+      resourceId: userId,
+      before: { status: UserStatus.PENDING_VERIFICATION },
+      after: { status: UserStatus.ACTIVE },
+      details: { profileType, verificationId },
+    });
+
+    return {
+      message: 'Government verification successful. Your account is now active.',
+      status: 'VERIFIED' as const,
+      userId,
+      profileType,
+      verificationId,
+      nextSteps: 'Log in to continue',
+    };
+  }
+
+  private async completeMfaLogin(
+    user: Pick<MfaUser, 'id' | 'email' | 'phone' | 'role' | 'status' | 'verifiedAt' | 'mfaMethod'>,
+    method: MfaFactor,
+    deviceFingerprint: string,
+    deviceInfo: DeviceInfo,
+  ) {
+    await this.authRepository.resetFailedLoginAttempts(user.id);
+    await this.authRepository.updateLastLogin(user.id);
+
+    const authResponse = await this.createAuthResponse(user, deviceFingerprint, deviceInfo, method);
+    if ('mfaRequired' in authResponse) {
+      throw new Error('Session tokens expected after MFA verification');
+    }
+
+    await this.sessionsService.checkLoginDevice(user, authResponse, deviceFingerprint, deviceInfo);
+
+    await this.auditService.log('LOGIN_SUCCESS', {
+      userId: user.id,
+      sessionId: authResponse.sessionId,
+      familyId: authResponse.familyId,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint,
+      details: { mfaMethod: method },
+    });
+
+    return authResponse;
+  }
+
+  private validateMfaUser(user: MfaUser): void {
+    this.validateAccountStatus(user.status);
+
+    if (user.lockedUntil && user.lockedUntil > new Date()) {
+      throw new ForbiddenException({
+        success: false,
+        error: {
+          code: 'ACCOUNT_LOCKED',
+          message: 'Account is locked. Try again later',
+          lockedUntil: user.lockedUntil.toISOString(),
+        },
+      });
+    }
+  }
+
+  private async findMfaUserWithPassword(userId: string, password: string, deviceInfo: DeviceInfo): Promise<MfaUser> {
+    const user = await this.mfaService.findUser(userId);
+    if (!(await this.verifyPassword(password, user.passwordHash))) {
+      await this.handleFailedLogin(user.id, deviceInfo);
+      throw new UnauthorizedException({
+        success: false,
+        error: {
+          code: 'INVALID_CREDENTIALS',
+          message: 'Invalid password',
+        },
+      });
+    }
+    return user;
+  }
+
+  private async sendEmailVerification(user: { id: string; email: string }, deviceInfo: DeviceInfo): Promise<void> {
+    const ttlHours = this.configService.get<number>('auth.tokens.emailVerificationTtlHours') || 48;
+    const token = await this.issueLinkToken(user.id, AuthTokenType.EMAIL_VERIFICATION, user.email, ttlHours * 3600, deviceInfo);
+
+    await this.sendMail({
+      to: user.email,
+      subject: 'Confirm your email address',
+      text: [
+        `Confirm your email address within ${ttlHours} hours: ${this.buildPublicLink('/verify-email', token)}`,
+        'If you did not create an account, you can ignore this email.',
+      ].join('\n\n'),
+    });
+
+    await this.auditService.log('EMAIL_VERIFICATION_SENT', {
+      userId: user.id,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: deviceInfo.fingerprint,
+    });
+  }
+
+  // Only the hash is stored; the raw token exists only in the link sent to the user.
+  private async issueLinkToken(
+    userId: string,
+    type: AuthTokenType,
+    target: string,
+    ttlSeconds: number,
+    deviceInfo: DeviceInfo,
+  ): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+    await this.authRepository.issueAuthToken({
+      userId,
+      type,
+      tokenHash: this.authRepository.hashToken(token),
+      target,
+      ipAddress: deviceInfo.ipAddress,
+      expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+    });
+    return token;
+  }
+
+  private async wasTokenRecentlyIssued(userId: string, type: AuthTokenType): Promise<boolean> {
+    const interval = (this.configService.get<number>('auth.tokens.resendIntervalSeconds') || 60) * 1000;
+    const latest = await this.authRepository.findLatestAuthToken(userId, type);
+    return !!latest && Date.now() - latest.createdAt.getTime() < interval;
+  }
+
+  private buildPublicLink(path: string, token: string): string {
+    const baseUrl = (this.configService.get<string>('app.publicUrl') || 'http://localhost:3000').replace(/\/+$/, '');
+    return `${baseUrl}${path}?token=${encodeURIComponent(token)}`;
+  }
+
+  private async sendPasswordChangedNotice(email: string): Promise<void> {
+    try {
+      await this.sendMail({
+        to: email,
+        subject: 'Your password was changed',
+        text: 'The password for your account was just changed. If this was not you, reset your password immediately and contact support.',
+      });
+    } catch (error: any) {
+      this.logger.warn(`Could not send password change notice: ${error.message}`);
+    }
+  }
+
+  private async sendMail(message: MailMessage): Promise<void> {
+    try {
+      await this.mailTransport.send(message);
+    } catch (error: any) {
+      this.logger.error(`Mail transport ${this.mailTransport.name} failed: ${error.message}`);
+      throw new ServiceUnavailableException({
+        success: false,
+        error: { code: 'MAIL_DELIVERY_FAILED', message: 'Could not send the email. Please try again later' },
+      });
+    }
+  }
+
+  private throwInvalidToken(): never {
+    throw new BadRequestException({
+      success: false,
+      error: {
+        code: 'INVALID_OR_EXPIRED_TOKEN',
+        message: 'This link or code is invalid or has expired',
+      },
+    });
+  }
+
+  private throwInvalidMfaCode(): never {
+    throw new UnauthorizedException({
+      success: false,
+      error: {
+        code: 'INVALID_MFA_CODE',
+        message: 'Invalid verification code',
+      },
+    });
+  }
+
+  private isSameDate(a: string, b: string): boolean {
+    const left = new Date(a);
+    const right = new Date(b);
+    if (isNaN(left.getTime()) || isNaN(right.getTime())) return false;
+    return left.toISOString().slice(0, 10) === right.toISOString().slice(0, 10);
+  }
+
+  // Every submitted name part must appear in the registry name; case, diacritics, apostrophes and word order are ignored.
+  private nameMatches(registryName: string, submittedParts: string[]): boolean {
+    const tokens = (value: string) => value
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/['`\u2018\u2019\u02bb\u02bc]/g, '')
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean);
+
+    const registryTokens = new Set(tokens(registryName));
+    const submittedTokens = submittedParts.flatMap(tokens);
+    return submittedTokens.length > 0 && submittedTokens.every(token => registryTokens.has(token));
+  }
+
   private validateAccountStatus(status: UserStatus): void {
     if (status === UserStatus.SUSPENDED) {
       throw new ForbiddenException({
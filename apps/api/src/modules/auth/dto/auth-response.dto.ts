@@ -1,5 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { UserRole, UserStatus } from '@prisma/client';
+import { MfaMethod, UserRole, UserStatus } from '@prisma/client';
 
 export class AuthResponseDto {
   @ApiProperty()
@@ -42,6 +42,152 @@ export class UserResponseDto {
 
   @ApiPropertyOptional()
   verifiedAt?: Date;
+
+  @ApiPropertyOptional()
+  emailVerifiedAt?: Date;
+
+  @ApiPropertyOptional()
+  phoneVerifiedAt?: Date;
+}
+
+export class MfaPendingResponseDto {
+  @ApiProperty({ description: 'Login is not complete until a second factor is verified' })
+  mfaRequired: true;
+
+  @ApiProperty({ description: 'The account must set up MFA before it can log in' })
+  enrollmentRequired: boolean;
+
+  @ApiProperty({ description: 'Short-lived token for the MFA endpoints; it does not grant API access' })
+  mfaToken: string;
+
+  @ApiProperty()
+  expiresIn: number;
+
+  @ApiProperty({ enum: ['TOTP', 'SMS', 'RECOVERY_CODE'], isArray: true })
+  methods: string[];
+
+  @ApiProperty()
+  user: { id: string; email: string; role: UserRole };
+}
+
+export class MfaEnrollmentStepResponseDto {
+  @ApiProperty({ enum: MfaMethod })
+  method: MfaMethod;
+
+  @ApiPropertyOptional({ description: 'Base32 TOTP secret for manual entry' })
+  secret?: string;
+
+  @ApiPropertyOptional({ description: 'otpauth:// URI for authenticator app QR codes' })
+  otpauthUrl?: string;
+
+  @ApiPropertyOptional({ description: 'Masked phone number the SMS code was sent to' })
+  sentTo?: string;
+
+  @ApiProperty()
+  expiresIn: number;
+}
+
+export class MfaRecoveryCodesResponseDto {
+  @ApiProperty({ description: 'Single-use recovery codes; shown only once', isArray: true })
+  recoveryCodes: string[];
+}
+
+export class MfaStatusResponseDto {
+  @ApiProperty()
+  enabled: boolean;
+
+  @ApiPropertyOptional({ enum: MfaMethod })
+  method?: MfaMethod;
+
+  @ApiPropertyOptional()
+  enabledAt?: Date;
+
+  @ApiProperty({ description: 'MFA is mandatory for the account role' })
+  required: boolean;
+
+  @ApiProperty()
+  recoveryCodesRemaining: number;
+}
+
+export class MessageResponseDto {
+  @ApiProperty()
+  message: string;
+
+  @ApiPropertyOptional({ description: 'Sessions revoked by the change' })
+  sessionsRevoked?: number;
+}
+
+export class CodeSentResponseDto {
+  @ApiProperty({ description: 'Masked phone number the code was sent to' })
+  sentTo: string;
+
+  @ApiProperty()
+  expiresIn: number;
+}
+
+export class UserSessionResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  familyId: string;
+
+  @ApiPropertyOptional()
+  deviceFingerprint?: string;
+
+  @ApiPropertyOptional()
+  ipAddress?: string;
+
+  @ApiPropertyOptional()
+  userAgent?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  lastUsedAt: Date;
+
+  @ApiProperty()
+  expiresAt: Date;
+
+  @ApiProperty({ description: 'Session making this request' })
+  current: boolean;
+
+  @ApiProperty()
+  trustedDevice: boolean;
+}
+
+export class UserSessionListResponseDto {
+  @ApiProperty({ type: [UserSessionResponseDto] })
+  sessions: UserSessionResponseDto[];
+}
+
+export class TrustedDeviceResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  deviceFingerprint: string;
+
+  @ApiPropertyOptional()
+  label?: string;
+
+  @ApiPropertyOptional()
+  userAgent?: string;
+
+  @ApiPropertyOptional()
+  ipAddress?: string;
+
+  @ApiProperty()
+  lastSeenAt: Date;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class TrustedDeviceListResponseDto {
+  @ApiProperty({ type: [TrustedDeviceResponseDto] })
+  devices: TrustedDeviceResponseDto[];
 }
 
 export class TokenRefreshResponseDto {
@@ -79,10 +225,16 @@ export class GovVerificationResponseDto {
   message: string;
 
   @ApiProperty()
-  status: 'PENDING' | 'VERIFIED' | 'REJECTED';
+  status: 'VERIFIED';
 
-  @ApiPropertyOptional()
-  userId?: string;
+  @ApiProperty()
+  userId: string;
+
+  @ApiProperty({ enum: ['WORKER', 'EMPLOYER'] })
+  profileType: 'WORKER' | 'EMPLOYER';
+
+  @ApiProperty({ description: 'Verification job recording the gov response' })
+  verificationId: string;
 
   @ApiPropertyOptional()
   nextSteps?: string;
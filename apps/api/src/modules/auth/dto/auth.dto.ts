@@ -1,6 +1,19 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsEmail, IsString, MinLength, MaxLength, IsOptional, IsEnum, IsUUID, IsDateString } from 'class-validator';
-import { UserRole } from '@prisma/client';
+import {
+  IsEmail,
+  IsString,
+  MinLength,
+  MaxLength,
+  IsOptional,
+  IsEnum,
+  IsUUID,
+  IsDateString,
+  IsObject,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { CompanySize, Gender, MfaMethod, UserRole } from '@prisma/client';
 
 export class RegisterDto {
   @ApiProperty({ example: 'user@example.com' })
@@ -87,21 +100,248 @@ export class LogoutDto {
   logoutScope?: 'ALL' | 'CURRENT' | 'OTHERS';
 }
 
-export class VerifyGovDto {
+export class ForgotPasswordDto {
+  @ApiProperty({ example: 'user@example.com' })
+  @IsEmail()
+  email: string;
+}
+
+export class ResetPasswordDto {
+  @ApiProperty({ description: 'Token from the password reset link' })
+  @IsString()
+  @MaxLength(200)
+  token: string;
+
+  @ApiProperty({ example: 'NewSecureP@ss123' })
+  @IsString()
+  @MinLength(8)
+  @MaxLength(100)
+  newPassword: string;
+}
+
+export class ChangePasswordDto {
   @ApiProperty()
   @IsString()
-  nationalId: string;
+  currentPassword: string;
+
+  @ApiProperty({ example: 'NewSecureP@ss123' })
+  @IsString()
+  @MinLength(8)
+  @MaxLength(100)
+  newPassword: string;
+}
+
+export class ResendEmailVerificationDto {
+  @ApiProperty({ example: 'user@example.com' })
+  @IsEmail()
+  email: string;
+}
+
+export class VerifyEmailDto {
+  @ApiProperty({ description: 'Token from the verification link' })
+  @IsString()
+  @MaxLength(200)
+  token: string;
+}
+
+export class VerifyPhoneDto {
+  @ApiProperty({ example: '123456' })
+  @Matches(/^\d{6}$/)
+  code: string;
+}
+
+export class TrustDeviceDto {
+  @ApiPropertyOptional({ example: 'Work laptop' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+}
+
+export class MfaTokenDto {
+  @ApiProperty({ description: 'MFA token returned by login' })
+  @IsString()
+  @MaxLength(2000)
+  mfaToken: string;
+}
+
+export class VerifyMfaDto extends MfaTokenDto {
+  @ApiProperty({ enum: ['TOTP', 'SMS', 'RECOVERY_CODE'] })
+  @IsEnum(['TOTP', 'SMS', 'RECOVERY_CODE'])
+  method: 'TOTP' | 'SMS' | 'RECOVERY_CODE';
+
+  @ApiProperty({ example: '123456' })
+  @IsString()
+  @MaxLength(20)
+  code: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  userAgent?: string;
+}
+
+export class StartMfaEnrollmentDto extends MfaTokenDto {
+  @ApiProperty({ enum: MfaMethod })
+  @IsEnum(MfaMethod)
+  method: MfaMethod;
+}
+
+export class ConfirmMfaEnrollmentDto extends MfaTokenDto {
+  @ApiProperty({ example: '123456' })
+  @IsString()
+  @MaxLength(20)
+  code: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  userAgent?: string;
+}
+
+export class SetupMfaDto {
+  @ApiProperty({ enum: MfaMethod })
+  @IsEnum(MfaMethod)
+  method: MfaMethod;
+}
+
+export class ConfirmMfaSetupDto {
+  @ApiProperty({ example: '123456' })
+  @IsString()
+  @MaxLength(20)
+  code: string;
+}
+
+export class MfaPasswordDto {
+  @ApiProperty({ description: 'Current password, required to change two-factor settings' })
+  @IsString()
+  password: string;
+}
+
+export class GovWorkerIdentityDto {
+  @ApiProperty({ description: '14-digit personal identification number (PINFL)' })
+  @Matches(/^\d{14}$/)
+  pinfl: string;
 
   @ApiProperty()
   @IsString()
-  fullName: string;
+  @MaxLength(50)
+  documentNumber: string;
+
+  @ApiProperty({ example: 'PASSPORT' })
+  @IsString()
+  @MaxLength(50)
+  documentType: string;
+
+  @ApiProperty()
+  @IsString()
+  @MaxLength(100)
+  firstName: string;
+
+  @ApiProperty()
+  @IsString()
+  @MaxLength(100)
+  lastName: string;
 
   @ApiProperty()
   @IsDateString()
-  dateOfBirth: string;
+  birthDate: string;
+
+  @ApiProperty({ enum: Gender, description: 'Used when the gov record does not include gender' })
+  @IsEnum(Gender)
+  gender: Gender;
+
+  @ApiPropertyOptional({ description: 'Structured permanent address; merged with the gov address' })
+  @IsOptional()
+  @IsObject()
+  permanentAddress?: Record<string, any>;
 
   @ApiPropertyOptional()
   @IsOptional()
-  @IsUUID()
-  userId?: string;
+  @IsObject()
+  currentAddress?: Record<string, any>;
+}
+
+export class GovEmployerIdentityDto {
+  @ApiProperty()
+  @IsString()
+  @MaxLength(50)
+  businessRegNo: string;
+
+  @ApiProperty()
+  @IsString()
+  @MaxLength(50)
+  taxId: string;
+
+  @ApiProperty()
+  @IsString()
+  @MaxLength(255)
+  companyName: string;
+
+  @ApiPropertyOptional({ description: 'Defaults to the registered company name' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  legalName?: string;
+
+  @ApiProperty()
+  @IsString()
+  @MaxLength(100)
+  industry: string;
+
+  @ApiProperty({ enum: CompanySize })
+  @IsEnum(CompanySize)
+  companySize: CompanySize;
+
+  @ApiProperty()
+  @IsObject()
+  headquartersAddress: Record<string, any>;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  website?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
+
+export class VerifyGovDto {
+  @ApiProperty({ example: 'user@example.com' })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty()
+  @IsString()
+  @MaxLength(100)
+  password: string;
+
+  @ApiPropertyOptional({ type: GovWorkerIdentityDto, description: 'Required for WORKER accounts' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GovWorkerIdentityDto)
+  worker?: GovWorkerIdentityDto;
+
+  @ApiPropertyOptional({ type: GovEmployerIdentityDto, description: 'Required for EMPLOYER accounts' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GovEmployerIdentityDto)
+  employer?: GovEmployerIdentityDto;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  deviceFingerprint?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  userAgent?: string;
 }
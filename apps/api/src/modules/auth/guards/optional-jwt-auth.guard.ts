@@ -0,0 +1,13 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * For public endpoints that behave differently for signed-in users. Requests without a valid token pass through
+ * with no user attached.
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+  handleRequest(_err: any, user: any) {
+    return user || undefined;
+  }
+}
@@ -0,0 +1,39 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { PermissionsService } from '../permissions.service';
+
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private permissionsService: PermissionsService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requiredPermissions = this.reflector.getAllAndOverride<string[]>(PERMISSIONS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!requiredPermissions || requiredPermissions.length === 0) {
+      return true;
+    }
+
+    const { user } = context.switchToHttp().getRequest();
+
+    if (!user) {
+      return false;
+    }
+
+    const missing = await this.permissionsService.findMissingPermissions(user.id, user.role, requiredPermissions);
+    if (missing.length > 0) {
+      throw new ForbiddenException({
+        success: false,
+        error: { code: 'INSUFFICIENT_PERMISSIONS', message: `Missing permissions: ${missing.join(', ')}` },
+      });
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,556 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { MfaChallenge, MfaChallengePurpose, MfaMethod, UserRole } from '@prisma/client';
+import { randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { AuthRepository, MfaUser } from './auth.repository';
+import { AuditService } from './audit.service';
+import { SMS_PROVIDER, SmsProvider, maskPhoneNumber } from '../sms/sms.provider';
+import { decryptData, encryptData } from '../../common/utils/encryption';
+import { buildOtpauthUrl, generateTotpSecret, verifyTotpCode } from '../../common/utils/totp';
+
+export type MfaFactor = MfaMethod | 'RECOVERY_CODE';
+
+interface MfaTokenPayload {
+  sub: string;
+  challengeId: string;
+  type: 'mfa';
+}
+
+interface DeviceInfo {
+  fingerprint: string;
+  userAgent: string;
+  ipAddress: string;
+}
+
+export interface MfaPendingResponse {
+  mfaRequired: true;
+  enrollmentRequired: boolean;
+  mfaToken: string;
+  expiresIn: number;
+  methods: MfaFactor[];
+  user: { id: string; email: string; role: UserRole };
+}
+
+export interface MfaEnrollmentStep {
+  method: MfaMethod;
+  secret?: string;
+  otpauthUrl?: string;
+  sentTo?: string;
+  expiresIn: number;
+}
+
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * Second factors for login: TOTP, SMS codes to User.phone and single-use recovery codes. Login and enrollment
+ * both run against an MfaChallenge row, referenced by a short-lived MFA token until the factor is proven.
+ */
+@Injectable()
+export class MfaService {
+  constructor(
+    private readonly authRepository: AuthRepository,
+    private readonly auditService: AuditService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    @Inject(SMS_PROVIDER) private readonly smsProvider: SmsProvider,
+  ) {}
+
+  isRequired(user: { role: UserRole; mfaMethod: MfaMethod | null }): boolean {
+    return !!user.mfaMethod || this.isRequiredForRole(user.role);
+  }
+
+  isRequiredForRole(role: UserRole): boolean {
+    const requiredRoles = this.configService.get<string[]>('auth.mfa.requiredRoles') || [UserRole.ADMIN];
+    return requiredRoles.includes(role);
+  }
+
+  /**
+   * Issues the MFA token returned by login in place of session tokens. Users without MFA whose role requires
+   * it get an enrollment challenge and must enroll before the login completes.
+   */
+  async createPendingResponse(
+    user: { id: string; email: string; role: UserRole; phone: string | null; mfaMethod: MfaMethod | null },
+    deviceFingerprint: string,
+    deviceInfo: DeviceInfo,
+  ): Promise<MfaPendingResponse> {
+    const ttl = this.getChallengeTtl();
+    const purpose = user.mfaMethod ? MfaChallengePurpose.LOGIN : MfaChallengePurpose.ENROLLMENT;
+
+    const challenge = await this.authRepository.createMfaChallenge({
+      userId: user.id,
+      purpose,
+      method: user.mfaMethod ?? undefined,
+      deviceFingerprint,
+      ipAddress: deviceInfo.ipAddress,
+      expiresAt: new Date(Date.now() + ttl * 1000),
+    });
+
+    const payload: MfaTokenPayload = { sub: user.id, challengeId: challenge.id, type: 'mfa' };
+    const mfaToken = this.jwtService.sign(payload, { expiresIn: ttl });
+
+    await this.auditService.log('MFA_CHALLENGE_ISSUED', {
+      userId: user.id,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint,
+      details: { challengeId: challenge.id, purpose, method: user.mfaMethod },
+    });
+
+    const methods: MfaFactor[] = user.mfaMethod
+      ? [user.mfaMethod, 'RECOVERY_CODE']
+      : [MfaMethod.TOTP, ...(user.phone ? [MfaMethod.SMS] : [])];
+
+    return {
+      mfaRequired: true,
+      enrollmentRequired: purpose === MfaChallengePurpose.ENROLLMENT,
+      mfaToken,
+      expiresIn: ttl,
+      methods,
+      user: { id: user.id, email: user.email, role: user.role },
+    };
+  }
+
+  async resolvePendingToken(
+    mfaToken: string,
+    purpose: MfaChallengePurpose,
+  ): Promise<{ user: MfaUser; challenge: MfaChallenge }> {
+    let payload: MfaTokenPayload | null = null;
+    try {
+      payload = this.jwtService.verify<MfaTokenPayload>(mfaToken);
+    } catch {
+      payload = null;
+    }
+
+    const challenge = payload?.type === 'mfa' ? await this.authRepository.findMfaChallenge(payload.challengeId) : null;
+    const user = challenge && challenge.userId === payload?.sub
+      ? await this.authRepository.findMfaUser(challenge.userId)
+      : null;
+
+    if (!payload || !challenge || !user || challenge.consumedAt || challenge.expiresAt <= new Date()) {
+      throw new UnauthorizedException({
+        success: false,
+        error: {
+          code: 'MFA_TOKEN_INVALID',
+          message: 'MFA session is invalid or has expired. Please login again',
+        },
+      });
+    }
+
+    if (challenge.purpose !== purpose) {
+      throw purpose === MfaChallengePurpose.LOGIN
+        ? new ForbiddenException({
+          success: false,
+          error: { code: 'MFA_ENROLLMENT_REQUIRED', message: 'Set up two-factor authentication to continue' },
+        })
+        : new ConflictException({
+          success: false,
+          error: { code: 'MFA_ALREADY_ENABLED', message: 'Two-factor authentication is already enabled' },
+        });
+    }
+
+    return { user, challenge };
+  }
+
+  async sendLoginCode(user: MfaUser, challenge: MfaChallenge, deviceInfo: DeviceInfo) {
+    // Only the enrolled factor may be used, so a TOTP account cannot be downgraded to SMS.
+    if (user.mfaMethod !== MfaMethod.SMS) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'MFA_METHOD_NOT_ENROLLED', message: 'SMS codes are not enabled for this account' },
+      });
+    }
+    return this.sendSmsCode(user, challenge, deviceInfo);
+  }
+
+  /**
+   * False when the code is wrong; callers decide how a failure counts against the account.
+   */
+  async verifyLoginFactor(
+    user: MfaUser,
+    challenge: MfaChallenge,
+    method: MfaFactor,
+    code: string,
+    deviceInfo: DeviceInfo,
+  ): Promise<boolean> {
+    await this.registerAttempt(user.id, challenge, deviceInfo);
+
+    let verified = false;
+    if (method === 'RECOVERY_CODE') {
+      verified = await this.authRepository.useRecoveryCode(user.id, this.hashRecoveryCode(code));
+    } else if (method !== user.mfaMethod) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'MFA_METHOD_NOT_ENROLLED', message: `${method} is not enabled for this account` },
+      });
+    } else if (method === MfaMethod.TOTP) {
+      const step = user.mfaSecret ? verifyTotpCode(decryptData(user.mfaSecret), code) : null;
+      verified = step !== null && await this.authRepository.recordTotpStep(user.id, step);
+    } else {
+      verified = this.matchesSmsCode(challenge, code);
+    }
+
+    if (!verified) {
+      await this.auditService.log('MFA_VERIFICATION_FAILED', {
+        userId: user.id,
+        ipAddress: deviceInfo.ipAddress,
+        userAgent: deviceInfo.userAgent,
+        deviceFingerprint: deviceInfo.fingerprint,
+        details: { challengeId: challenge.id, method, attempt: challenge.attempts + 1 },
+      });
+      return false;
+    }
+
+    await this.consumeChallenge(challenge.id);
+
+    await this.auditService.log('MFA_VERIFIED', {
+      userId: user.id,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: deviceInfo.fingerprint,
+      details: { challengeId: challenge.id, method },
+    });
+
+    if (method === 'RECOVERY_CODE') {
+      const remaining = await this.authRepository.countUnusedRecoveryCodes(user.id);
+      await this.auditService.log('MFA_RECOVERY_CODE_USED', {
+        userId: user.id,
+        ipAddress: deviceInfo.ipAddress,
+        details: { remaining },
+      });
+    }
+
+    return true;
+  }
+
+  async getStatus(userId: string) {
+    const user = await this.findUser(userId);
+    return {
+      enabled: !!user.mfaMethod,
+      method: user.mfaMethod,
+      enabledAt: user.mfaEnabledAt,
+      required: this.isRequiredForRole(user.role),
+      recoveryCodesRemaining: user.mfaMethod ? await this.authRepository.countUnusedRecoveryCodes(userId) : 0,
+    };
+  }
+
+  /**
+   * Enrollment for a signed-in user; the challenge is found again by confirmEnrollment.
+   */
+  async beginEnrollment(userId: string, method: MfaMethod, deviceInfo: DeviceInfo): Promise<MfaEnrollmentStep> {
+    const user = await this.findUser(userId);
+    if (user.mfaMethod) {
+      throw new ConflictException({
+        success: false,
+        error: { code: 'MFA_ALREADY_ENABLED', message: 'Two-factor authentication is already enabled' },
+      });
+    }
+
+    const challenge = await this.authRepository.createMfaChallenge({
+      userId,
+      purpose: MfaChallengePurpose.ENROLLMENT,
+      deviceFingerprint: deviceInfo.fingerprint,
+      ipAddress: deviceInfo.ipAddress,
+      expiresAt: new Date(Date.now() + this.getChallengeTtl() * 1000),
+    });
+    return this.startEnrollment(user, challenge, method, deviceInfo);
+  }
+
+  async findEnrollmentChallenge(userId: string): Promise<{ user: MfaUser; challenge: MfaChallenge }> {
+    const user = await this.findUser(userId);
+    const challenge = await this.authRepository.findOpenEnrollmentChallenge(userId);
+    if (!challenge) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'MFA_ENROLLMENT_NOT_STARTED', message: 'Start two-factor setup before confirming it' },
+      });
+    }
+    return { user, challenge };
+  }
+
+  async startEnrollment(
+    user: MfaUser,
+    challenge: MfaChallenge,
+    method: MfaMethod,
+    deviceInfo: DeviceInfo,
+  ): Promise<MfaEnrollmentStep> {
+    const expiresIn = Math.max(0, Math.floor((challenge.expiresAt.getTime() - Date.now()) / 1000));
+
+    let step: MfaEnrollmentStep;
+    if (method === MfaMethod.TOTP) {
+      const secret = generateTotpSecret();
+      await this.authRepository.updateMfaChallenge(challenge.id, {
+        method,
+        pendingSecret: encryptData(secret),
+        codeHash: null,
+        codeSentAt: null,
+      });
+      const issuer = this.configService.get<string>('auth.mfa.issuer') || 'Worker Platform';
+      step = { method, secret, otpauthUrl: buildOtpauthUrl(secret, user.email, issuer), expiresIn };
+    } else {
+      const sent = await this.sendSmsCode(user, { ...challenge, method }, deviceInfo);
+      step = { method, sentTo: sent.sentTo, expiresIn };
+    }
+
+    await this.auditService.log('MFA_ENROLLMENT_STARTED', {
+      userId: user.id,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: deviceInfo.fingerprint,
+      details: { challengeId: challenge.id, method },
+    });
+
+    return step;
+  }
+
+  /**
+   * Enables MFA once the code proves the factor works and returns the new recovery codes, or null when the
+   * code is wrong.
+   */
+  async confirmEnrollment(
+    user: MfaUser,
+    challenge: MfaChallenge,
+    code: string,
+    deviceInfo: DeviceInfo,
+  ): Promise<string[] | null> {
+    if (!challenge.method) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'MFA_ENROLLMENT_NOT_STARTED', message: 'Choose a two-factor method before confirming it' },
+      });
+    }
+
+    await this.registerAttempt(user.id, challenge, deviceInfo);
+
+    let secret: string | null = null;
+    let totpStep: number | null = null;
+    if (challenge.method === MfaMethod.TOTP) {
+      secret = challenge.pendingSecret ? decryptData(challenge.pendingSecret) : null;
+      totpStep = secret ? verifyTotpCode(secret, code) : null;
+    }
+    const verified = challenge.method === MfaMethod.TOTP ? totpStep !== null : this.matchesSmsCode(challenge, code);
+
+    if (!verified) {
+      await this.auditService.log('MFA_VERIFICATION_FAILED', {
+        userId: user.id,
+        ipAddress: deviceInfo.ipAddress,
+        userAgent: deviceInfo.userAgent,
+        deviceFingerprint: deviceInfo.fingerprint,
+        details: { challengeId: challenge.id, method: challenge.method, purpose: challenge.purpose },
+      });
+      return null;
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    const enabled = await this.authRepository.enableMfa(
+      user.id,
+      challenge.id,
+      { method: challenge.method, secret: secret ? encryptData(secret) : null, totpStep },
+      recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode)),
+    );
+    if (!enabled) {
+      this.throwChallengeUsed();
+    }
+
+    await this.auditService.log('MFA_ENABLED', {
+      userId: user.id,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: deviceInfo.fingerprint,
+      resourceType: 'USER',
+      resourceId: user.id,
+      before: { mfaMethod: null },
+      after: { mfaMethod: challenge.method },
+      details: { challengeId: challenge.id, method: challenge.method },
+    });
+
+    return recoveryCodes;
+  }
+
+  async regenerateRecoveryCodes(user: MfaUser, deviceInfo: DeviceInfo): Promise<string[]> {
+    this.assertEnabled(user);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.authRepository.replaceRecoveryCodes(
+      user.id,
+      recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode)),
+    );
+
+    await this.auditService.log('MFA_RECOVERY_CODES_REGENERATED', {
+      userId: user.id,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: deviceInfo.fingerprint,
+      details: { count: recoveryCodes.length },
+    });
+
+    return recoveryCodes;
+  }
+
+  async disable(user: MfaUser, deviceInfo: DeviceInfo): Promise<void> {
+    this.assertEnabled(user);
+    if (this.isRequiredForRole(user.role)) {
+      throw new ForbiddenException({
+        success: false,
+        error: { code: 'MFA_REQUIRED_FOR_ROLE', message: `Two-factor authentication is mandatory for ${user.role} accounts` },
+      });
+    }
+
+    await this.authRepository.disableMfa(user.id);
+
+    await this.auditService.log('MFA_DISABLED', {
+      userId: user.id,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: deviceInfo.fingerprint,
+      resourceType: 'USER',
+      resourceId: user.id,
+      before: { mfaMethod: user.mfaMethod },
+      after: { mfaMethod: null },
+    });
+  }
+
+  async findUser(userId: string): Promise<MfaUser> {
+    const user = await this.authRepository.findMfaUser(userId);
+    if (!user) {
+      throw new UnauthorizedException({
+        success: false,
+        error: {
+          code: 'USER_NOT_FOUND',
+          message: 'User not found',
+        },
+      });
+    }
+    return user;
+  }
+
+  private async sendSmsCode(user: MfaUser, challenge: MfaChallenge, deviceInfo: DeviceInfo) {
+    if (!user.phone) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'PHONE_NUMBER_REQUIRED', message: 'A phone number is required for SMS codes' },
+      });
+    }
+
+    const resendInterval = (this.configService.get<number>('auth.mfa.smsResendIntervalSeconds') || 60) * 1000;
+    if (challenge.codeSentAt && Date.now() - challenge.codeSentAt.getTime() < resendInterval) {
+      throw new HttpException({
+        success: false,
+        error: { code: 'MFA_SMS_RATE_LIMITED', message: 'A code was sent recently. Please wait before requesting another' },
+      }, HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    const code = String(randomInt(0, 1_000_000)).padStart(6, '0');
+    const expiresIn = Math.max(0, Math.floor((challenge.expiresAt.getTime() - Date.now()) / 1000));
+    try {
+      await this.smsProvider.send({
+        to: user.phone,
+        body: `Your verification code is ${code}. It expires in ${Math.ceil(expiresIn / 60)} minutes.`,
+      });
+    } catch {
+      throw new ServiceUnavailableException({
+        success: false,
+        error: { code: 'SMS_DELIVERY_FAILED', message: 'Could not send the SMS code. Please try again' },
+      });
+    }
+
+    await this.authRepository.updateMfaChallenge(challenge.id, {
+      method: challenge.method ?? MfaMethod.SMS,
+      codeHash: this.authRepository.hashToken(code),
+      codeSentAt: new Date(),
+    });
+
+    const sentTo = maskPhoneNumber(user.phone);
+    await this.auditService.log('MFA_SMS_CODE_SENT', {
+      userId: user.id,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: deviceInfo.fingerprint,
+      details: { challengeId: challenge.id, purpose: challenge.purpose, sentTo, provider: this.smsProvider.name },
+    });
+
+    return { sentTo, expiresIn };
+  }
+
+  /**
+   * Counts the attempt against the challenge; once the limit is reached the challenge is burnt and the user
+   * has to start over from login.
+   */
+  private async registerAttempt(userId: string, challenge: MfaChallenge, deviceInfo: DeviceInfo): Promise<void> {
+    const maxAttempts = this.configService.get<number>('auth.mfa.maxAttempts') || 5;
+    const attempts = await this.authRepository.incrementMfaChallengeAttempts(challenge.id);
+    if (attempts <= maxAttempts) return;
+
+    await this.authRepository.consumeMfaChallenge(challenge.id);
+    await this.auditService.log('MFA_CHALLENGE_LOCKED', {
+      userId,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: deviceInfo.fingerprint,
+      details: { challengeId: challenge.id, attempts: maxAttempts },
+    });
+
+    throw new UnauthorizedException({
+      success: false,
+      error: { code: 'MFA_TOO_MANY_ATTEMPTS', message: 'Too many incorrect codes. Please login again' },
+    });
+  }
+
+  private async consumeChallenge(challengeId: string): Promise<void> {
+    if (!(await this.authRepository.consumeMfaChallenge(challengeId))) {
+      this.throwChallengeUsed();
+    }
+  }
+
+  private throwChallengeUsed(): never {
+    throw new UnauthorizedException({
+      success: false,
+      error: {
+        code: 'MFA_TOKEN_INVALID',
+        message: 'MFA session is invalid or has expired. Please login again',
+      },
+    });
+  }
+
+  private assertEnabled(user: MfaUser): void {
+    if (!user.mfaMethod) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'MFA_NOT_ENABLED', message: 'Two-factor authentication is not enabled' },
+      });
+    }
+  }
+
+  private matchesSmsCode(challenge: MfaChallenge, code: string): boolean {
+    if (!challenge.codeHash || !/^\d{6}$/.test(code)) return false;
+    return timingSafeEqual(Buffer.from(challenge.codeHash), Buffer.from(this.authRepository.hashToken(code)));
+  }
+
+  private generateRecoveryCodes(): string[] {
+    const count = this.configService.get<number>('auth.mfa.recoveryCodeCount') || 10;
+    return Array.from({ length: count }, () => {
+      const chars = Array.from(randomBytes(10), byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+      return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+    });
+  }
+
+  // Users may type recovery codes in lower case or without the dash.
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    return this.authRepository.hashToken(`${normalized.slice(0, 5)}-${normalized.slice(5)}`);
+  }
+
+  private getChallengeTtl(): number {
+    return this.configService.get<number>('auth.mfa.challengeTtlSeconds') || 300;
+  }
+}
@@ -0,0 +1,140 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AuthRepository } from './auth.repository';
+import { RedisService } from '../../redis/redis.service';
+
+const CACHE_TTL_SECONDS = 300;
+const CACHE_VERSION_KEY = 'permissions:version';
+
+// Permissions every user of a built-in role holds regardless of the Permission table, so the
+// platform works before any role is configured. Rows for a Role with the same name add to these.
+export const BUILT_IN_ROLE_PERMISSIONS: Record<string, string[]> = {
+  WORKER: [
+    'worker_profile:read',
+    'worker_profile:update',
+    'match:read_own',
+    'application:create',
+    'application:read_own',
+    'application:withdraw',
+    'interview:read_own',
+    'interview:respond',
+    'gov:verify_worker',
+    'gov:verify_education',
+    'gov:read_own',
+    'notification:read_own',
+  ],
+  EMPLOYER: [
+    'employer_profile:read',
+    'employer_profile:update',
+    'employer_branch:manage',
+    'employer_recruiter:manage',
+    'vacancy:read',
+    'vacancy:create',
+    'vacancy:update',
+    'vacancy:publish',
+    'vacancy:close',
+    'vacancy:delete',
+    'employer_analytics:read',
+    'application:review',
+    'interview:manage',
+    'match:read_vacancy',
+    'worker_cv:read',
+    'gov:verify_employer',
+    'gov:read_own',
+    'notification:read_own',
+  ],
+  ADMIN: [
+    'user:read',
+    'user:manage',
+    'session:manage',
+    'scoring_profile:manage',
+    'skill_taxonomy:manage',
+    'vacancy:moderate',
+    'plan:manage',
+    'gov:verify_worker',
+    'gov:verify_employer',
+    'gov:verify_education',
+    'gov:manage',
+    'gov:read_own',
+    'audit:read',
+    'audit:export',
+    'audit:verify',
+    'notification:read_own',
+  ],
+};
+
+// SUPER_ADMIN is granted every permission.
+const SUPERUSER_ROLE = 'SUPER_ADMIN';
+
+@Injectable()
+export class PermissionsService {
+  private readonly logger = new Logger(PermissionsService.name);
+
+  constructor(
+    private readonly authRepository: AuthRepository,
+    private readonly redisService: RedisService,
+  ) {}
+
+  async getEffectivePermissions(userId: string, role: string): Promise<string[]> {
+    if (role === SUPERUSER_ROLE) {
+      return ['*'];
+    }
+
+    const cacheKey = await this.cacheKey(userId, role);
+    if (cacheKey) {
+      try {
+        const cached = await this.redisService.get(cacheKey);
+        if (cached) {
+          return JSON.parse(cached);
+        }
+      } catch (error) {
+        this.logger.warn(`Permission cache read failed: ${error.message}`);
+      }
+    }
+
+    const assigned = await this.authRepository.findPermissionsForUser(userId, role);
+    const permissions = [...new Set([
+      ...(BUILT_IN_ROLE_PERMISSIONS[role] || []),
+      ...assigned.map(p => `${p.resource}:${p.action}`),
+    ])].sort();
+
+    if (cacheKey) {
+      try {
+        await this.redisService.set(cacheKey, JSON.stringify(permissions), CACHE_TTL_SECONDS);
+      } catch (error) {
+        this.logger.warn(`Permission cache write failed: ${error.message}`);
+      }
+    }
+
+    return permissions;
+  }
+
+  async findMissingPermissions(userId: string, role: string, required: string[]): Promise<string[]> {
+    if (role === SUPERUSER_ROLE) {
+      return [];
+    }
+
+    const granted = new Set(await this.getEffectivePermissions(userId, role));
+    return required.filter(permission => !granted.has(permission));
+  }
+
+  /**
+   * Drops every cached permission set by moving to a new cache version; stale entries expire on their own.
+   */
+  async invalidateAll(): Promise<void> {
+    try {
+      await this.redisService.getClient().incr(CACHE_VERSION_KEY);
+    } catch (error) {
+      this.logger.error(`Permission cache invalidation failed: ${error.message}`);
+    }
+  }
+
+  private async cacheKey(userId: string, role: string): Promise<string | null> {
+    try {
+      const version = (await this.redisService.get(CACHE_VERSION_KEY)) || '0';
+      return `permissions:${version}:${userId}:${role}`;
+    } catch (error) {
+      this.logger.warn(`Permission cache unavailable: ${error.message}`);
+      return null;
+    }
+  }
+}
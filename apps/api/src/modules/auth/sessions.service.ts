@@ -0,0 +1,218 @@
+import { BadRequestException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Session, TrustedDevice } from '@prisma/client';
+import { AuthRepository } from './auth.repository';
+import { AuditService } from './audit.service';
+import { MAIL_TRANSPORT, MailTransport } from '../mail/mail.transport';
+
+interface DeviceInfo {
+  fingerprint: string;
+  userAgent: string;
+  ipAddress: string;
+}
+
+export interface CurrentSession {
+  userId: string;
+  familyId: string;
+}
+
+/**
+ * Self-service view of a user's own sessions and trusted devices, plus the new-device login alert. A session is
+ * a refresh token family, so revoking one signs that device out completely.
+ */
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+
+  constructor(
+    private readonly authRepository: AuthRepository,
+    private readonly auditService: AuditService,
+    @Inject(MAIL_TRANSPORT) private readonly mailTransport: MailTransport,
+  ) {}
+
+  async listSessions(current: CurrentSession) {
+    const [sessions, trustedDevices] = await Promise.all([
+      this.authRepository.findSessionsByUserId(current.userId),
+      this.authRepository.findTrustedDevices(current.userId),
+    ]);
+    const trusted = new Set(trustedDevices.map(device => device.deviceFingerprint));
+
+    return {
+      sessions: sessions.map(session => ({
+        ...this.toSessionResponse(session),
+        current: session.familyId === current.familyId,
+        trustedDevice: !!session.deviceFingerprint && trusted.has(session.deviceFingerprint),
+      })),
+    };
+  }
+
+  async revokeSession(current: CurrentSession, sessionId: string, deviceInfo: DeviceInfo) {
+    const session = await this.authRepository.findUserSession(current.userId, sessionId);
+    if (!session) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'SESSION_NOT_FOUND', message: 'Session not found' },
+      });
+    }
+
+    const sessionsRevoked = await this.authRepository.revokeFamily(session.familyId);
+
+    await this.auditService.log('SESSION_REVOKED_BY_USER', {
+      userId: current.userId,
+      sessionId: session.id,
+      familyId: session.familyId,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: deviceInfo.fingerprint,
+      details: { sessionsRevoked, currentSession: session.familyId === current.familyId },
+    });
+
+    return { message: 'Session revoked', sessionId: session.id, sessionsRevoked };
+  }
+
+  async revokeOtherSessions(current: CurrentSession, deviceInfo: DeviceInfo) {
+    const sessionsRevoked = await this.authRepository.deleteOtherUserSessions(current.userId, current.familyId);
+
+    await this.auditService.log('LOGOUT_OTHERS', {
+      userId: current.userId,
+      familyId: current.familyId,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: deviceInfo.fingerprint,
+      details: { sessionsTerminated: sessionsRevoked },
+    });
+
+    return { message: 'All other sessions revoked', sessionsRevoked };
+  }
+
+  async listTrustedDevices(userId: string) {
+    const devices = await this.authRepository.findTrustedDevices(userId);
+    return { devices: devices.map(device => this.toTrustedDeviceResponse(device)) };
+  }
+
+  /**
+   * Trusts the device of the calling session, identified by the fingerprint recorded when it logged in.
+   */
+  async trustCurrentDevice(current: CurrentSession, label: string | undefined, deviceInfo: DeviceInfo) {
+    const [session] = await this.authRepository.findSessionsByFamilyId(current.familyId);
+    if (!session?.deviceFingerprint) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'DEVICE_FINGERPRINT_MISSING', message: 'The current session has no device fingerprint' },
+      });
+    }
+
+    const device = await this.authRepository.upsertTrustedDevice({
+      userId: current.userId,
+      deviceFingerprint: session.deviceFingerprint,
+      label,
+      userAgent: session.userAgent ?? deviceInfo.userAgent,
+      ipAddress: deviceInfo.ipAddress,
+    });
+
+    await this.auditService.log('DEVICE_TRUSTED', {
+      userId: current.userId,
+      familyId: current.familyId,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: session.deviceFingerprint,
+      resourceType: 'TRUSTED_DEVICE',
+      resourceId: device.id,
+      details: { label },
+    });
+
+    return this.toTrustedDeviceResponse(device);
+  }
+
+  async removeTrustedDevice(userId: string, id: string, deviceInfo: DeviceInfo) {
+    const device = await this.authRepository.deleteTrustedDevice(userId, id);
+    if (!device) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'TRUSTED_DEVICE_NOT_FOUND', message: 'Trusted device not found' },
+      });
+    }
+
+    await this.auditService.log('DEVICE_UNTRUSTED', {
+      userId,
+      ipAddress: deviceInfo.ipAddress,
+      userAgent: deviceInfo.userAgent,
+      deviceFingerprint: device.deviceFingerprint,
+      resourceType: 'TRUSTED_DEVICE',
+      resourceId: device.id,
+    });
+
+    return { message: 'Trusted device removed' };
+  }
+
+  /**
+   * Called before LOGIN_SUCCESS is recorded. A device is new when it is not trusted and no earlier successful
+   * login carried its fingerprint; the first login of an account is not alerted on.
+   */
+  async checkLoginDevice(
+    user: { id: string; email: string },
+    session: { sessionId: string; familyId: string },
+    deviceFingerprint: string,
+    deviceInfo: DeviceInfo,
+  ): Promise<void> {
+    try {
+      const trustedDevice = await this.authRepository.findTrustedDevice(user.id, deviceFingerprint);
+      if (trustedDevice) {
+        await this.authRepository.touchTrustedDevice(trustedDevice.id);
+        return;
+      }
+
+      const [seenBefore, loggedInBefore] = await Promise.all([
+        this.authRepository.hasSuccessfulLogin(user.id, deviceFingerprint),
+        this.authRepository.hasSuccessfulLogin(user.id),
+      ]);
+      if (seenBefore || !loggedInBefore) return;
+
+      await this.auditService.log('NEW_DEVICE_LOGIN', {
+        userId: user.id,
+        sessionId: session.sessionId,
+        familyId: session.familyId,
+        ipAddress: deviceInfo.ipAddress,
+        userAgent: deviceInfo.userAgent,
+        deviceFingerprint,
+      });
+
+      await this.mailTransport.send({
+        to: user.email,
+        subject: 'New sign-in to your account',
+        text: [
+          'Your account was just signed in to from a device we have not seen before.',
+          `Time: ${new Date().toISOString()}\nIP address: ${deviceInfo.ipAddress}\nDevice: ${deviceInfo.userAgent}`,
+          'If this was you, no action is needed. If not, revoke the session from your active sessions list and change your password.',
+        ].join('\n\n'),
+      });
+    } catch (error: any) {
+      // The alert is best effort and must never block the login itself.
+      this.logger.warn(`New device check failed for user ${user.id}: ${error.message}`);
+    }
+  }
+
+  private toSessionResponse(session: Session) {
+    return {
+      id: session.id,
+      familyId: session.familyId,
+      deviceFingerprint: session.deviceFingerprint,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+    };
+  }
+
+  private toTrustedDeviceResponse(device: TrustedDevice) {
+    return {
+      id: device.id,
+      deviceFingerprint: device.deviceFingerprint,
+      label: device.label,
+      userAgent: device.userAgent,
+      ipAddress: device.ipAddress,
+      lastSeenAt: device.lastSeenAt,
+      createdAt: device.createdAt,
+    };
+  }
+}
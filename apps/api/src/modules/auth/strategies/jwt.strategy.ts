@@ -5,6 +5,9 @@ import { ConfigService } from '@nestjs/config';
 import { AuthRepository } from '../auth.repository';
 import { UserStatus } from '@prisma/client';
 
+// How stale sessions.last_used_at may get before an authenticated request refreshes it.
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
 interface JwtPayload {
   sub: string;
   role: string;
@@ -101,6 +104,8 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
       });
     }
 
+    await this.authRepository.touchSession(payload.sessionId, SESSION_TOUCH_INTERVAL_MS);
+
     return {
       id: user.id,
       email: user.email,
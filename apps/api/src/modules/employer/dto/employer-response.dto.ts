@@ -41,11 +41,11 @@ export class EmployerProfileResponseDto {
   @ApiProperty({ enum: EmployerStatus })
   status: EmployerStatus;
 
-  @ApiProperty()
-  maxVacancies: number;
+  @ApiPropertyOptional({ description: 'Subscription plan; the default plan applies when empty. Quotas are reported by the usage endpoint' })
+  planId?: string;
 
-  @ApiProperty()
-  maxRecruiters: number;
+  @ApiPropertyOptional()
+  planAssignedAt?: Date;
 
   @ApiProperty()
   createdAt: Date;
@@ -90,6 +90,9 @@ export class BranchResponseDto {
   @ApiProperty()
   country: string;
 
+  @ApiPropertyOptional({ description: 'Gazetteer code of the normalized location' })
+  placeCode?: string;
+
   @ApiPropertyOptional()
   postalCode?: string;
 
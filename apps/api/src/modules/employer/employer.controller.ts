@@ -25,6 +25,8 @@ import {
   ListRecruitersDto,
 } from './dto/employer.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
 import { Request } from 'express';
 
 interface RequestWithUser extends Request {
@@ -39,13 +41,14 @@ interface RequestWithUser extends Request {
 
 @ApiTags('Employer')
 @Controller('api/v1/employers')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
 @ApiHeaders([{ name: 'authorization', description: 'Bearer token' }])
 export class EmployerController {
   constructor(private readonly employerService: EmployerService) {}
 
   @Get('me/profile')
+  @RequirePermissions('employer_profile:read')
   @ApiOperation({ summary: 'Get own employer profile' })
   @ApiResponse({ status: 200, description: 'Profile retrieved successfully' })
   async getMyProfile(@Req() req: RequestWithUser) {
@@ -53,6 +56,7 @@ export class EmployerController {
   }
 
   @Put('me/profile')
+  @RequirePermissions('employer_profile:update')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Update own employer profile' })
   @ApiResponse({ status: 200, description: 'Profile updated successfully' })
@@ -61,6 +65,7 @@ export class EmployerController {
   }
 
   @Get('me/compliance')
+  @RequirePermissions('employer_profile:read')
   @ApiOperation({ summary: 'Check employer compliance status' })
   @ApiResponse({ status: 200, description: 'Compliance check result' })
   async checkCompliance(@Req() req: RequestWithUser) {
@@ -68,6 +73,7 @@ export class EmployerController {
   }
 
   @Get('me/branches')
+  @RequirePermissions('employer_branch:manage')
   @ApiOperation({ summary: 'List own branches' })
   @ApiResponse({ status: 200, description: 'Branches list retrieved successfully' })
   async listMyBranches(@Query() dto: ListBranchesDto, @Req() req: RequestWithUser) {
@@ -75,6 +81,7 @@ export class EmployerController {
   }
 
   @Post('me/branches')
+  @RequirePermissions('employer_branch:manage')
   @ApiOperation({ summary: 'Create a new branch' })
   @ApiResponse({ status: 201, description: 'Branch created successfully' })
   async createMyBranch(@Body() dto: CreateBranchDto, @Req() req: RequestWithUser) {
@@ -82,6 +89,7 @@ export class EmployerController {
   }
 
   @Put('me/branches/:id')
+  @RequirePermissions('employer_branch:manage')
   @ApiOperation({ summary: 'Update a branch' })
   @ApiResponse({ status: 200, description: 'Branch updated successfully' })
   async updateMyBranch(
@@ -93,6 +101,7 @@ export class EmployerController {
   }
 
   @Delete('me/branches/:id')
+  @RequirePermissions('employer_branch:manage')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Delete a branch' })
   @ApiResponse({ status: 200, description: 'Branch deleted successfully' })
@@ -101,6 +110,7 @@ export class EmployerController {
   }
 
   @Get('me/recruiters')
+  @RequirePermissions('employer_recruiter:manage')
   @ApiOperation({ summary: 'List own recruiters' })
   @ApiResponse({ status: 200, description: 'Recruiters list retrieved successfully' })
   async listMyRecruiters(@Query() dto: ListRecruitersDto, @Req() req: RequestWithUser) {
@@ -108,6 +118,7 @@ export class EmployerController {
   }
 
   @Post('me/recruiters')
+  @RequirePermissions('employer_recruiter:manage')
   @ApiOperation({ summary: 'Create a new recruiter' })
   @ApiResponse({ status: 201, description: 'Recruiter created successfully' })
   async createMyRecruiter(@Body() dto: CreateRecruiterDto, @Req() req: RequestWithUser) {
@@ -115,6 +126,7 @@ export class EmployerController {
   }
 
   @Put('me/recruiters/:id')
+  @RequirePermissions('employer_recruiter:manage')
   @ApiOperation({ summary: 'Update a recruiter' })
   @ApiResponse({ status: 200, description: 'Recruiter updated successfully' })
   async updateMyRecruiter(
@@ -126,6 +138,7 @@ export class EmployerController {
   }
 
   @Delete('me/recruiters/:id')
+  @RequirePermissions('employer_recruiter:manage')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Delete a recruiter' })
   @ApiResponse({ status: 200, description: 'Recruiter deleted successfully' })
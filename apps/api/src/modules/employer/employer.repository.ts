@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../database/prisma/prisma.service';
 import { Prisma, Employer, EmployerBranch, Recruiter, EmployerStatus, BranchStatus, RecruiterStatus } from '@prisma/client';
+import { hasQuota, lockPlanLimits } from '../subscription/plan-quota';
 
 interface PaginatedResult<T> {
   items: T[];
@@ -27,6 +28,23 @@ export class EmployerRepository {
     });
   }
 
+  /**
+   * Employer a user acts for: their own employer profile, else the employer they are an active recruiter of.
+   */
+  async findEmployerIdForUser(userId: string): Promise<string | null> {
+    const employer = await this.prisma.employer.findUnique({
+      where: { userId },
+      select: { id: true, deletedAt: true },
+    });
+    if (employer && !employer.deletedAt) return employer.id;
+
+    const recruiter = await this.prisma.recruiter.findFirst({
+      where: { userId, status: RecruiterStatus.ACTIVE, deletedAt: null },
+      select: { employerId: true },
+    });
+    return recruiter?.employerId ?? null;
+  }
+
   async findEmployerById(employerId: string): Promise<Employer | null> {
     return this.prisma.employer.findUnique({
       where: { id: employerId, deletedAt: null },
@@ -109,6 +127,7 @@ export class EmployerRepository {
       city: string;
       state: string;
       country: string;
+      placeCode?: string | null;
       postalCode?: string;
       phone?: string;
       isHq?: boolean;
@@ -130,6 +149,7 @@ export class EmployerRepository {
           city: data.city,
           state: data.state,
           country: data.country,
+          placeCode: data.placeCode,
           postalCode: data.postalCode,
           phone: data.phone,
           isHq: data.isHq || false,
@@ -147,6 +167,7 @@ export class EmployerRepository {
       city?: string;
       state?: string;
       country?: string;
+      placeCode?: string | null;
       postalCode?: string;
       phone?: string;
       status?: BranchStatus;
@@ -167,6 +188,7 @@ export class EmployerRepository {
       if (data.city !== undefined) updateData.city = data.city;
       if (data.state !== undefined) updateData.state = data.state;
       if (data.country !== undefined) updateData.country = data.country;
+      if (data.placeCode !== undefined) updateData.placeCode = data.placeCode;
       if (data.postalCode !== undefined) updateData.postalCode = data.postalCode;
       if (data.phone !== undefined) updateData.phone = data.phone;
       if (data.status !== undefined) updateData.status = data.status;
@@ -192,14 +214,6 @@ export class EmployerRepository {
     });
   }
 
-  async countMaxRecruiters(employerId: string): Promise<number> {
-    const employer = await this.prisma.employer.findUnique({
-      where: { id: employerId },
-      select: { maxRecruiters: true },
-    });
-    return employer?.maxRecruiters || 0;
-  }
-
   async listRecruiters(
     employerId: string,
     page: number,
@@ -257,14 +271,11 @@ export class EmployerRepository {
     },
   ): Promise<Recruiter> {
     return this.prisma.$transaction(async (tx) => {
-      const [currentCount, employer] = await Promise.all([
-        tx.recruiter.count({ where: { employerId, deletedAt: null } }),
-        tx.employer.findUnique({ where: { id: employerId }, select: { maxRecruiters: true } }),
-      ]);
-
-      const maxRecruiters = employer?.maxRecruiters || 0;
-      if (currentCount >= maxRecruiters) {
-        throw new Error(`MAX_RECRUITERS_REACHED: Maximum recruiters limit (${maxRecruiters}) reached`);
+      const limits = await lockPlanLimits(tx, employerId);
+      const currentCount = await tx.recruiter.count({ where: { employerId, deletedAt: null } });
+
+      if (!hasQuota(limits.maxRecruiters, currentCount)) {
+        throw new Error(`MAX_RECRUITERS_REACHED: The ${limits.name} plan allows ${limits.maxRecruiters} recruiters`);
       }
 
       const existingRecruiter = await tx.recruiter.findUnique({
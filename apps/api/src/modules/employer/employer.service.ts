@@ -1,6 +1,7 @@
 import { Injectable, ForbiddenException, NotFoundException, BadRequestException } from '@nestjs/common';
 import { AuditService } from '../auth/audit.service';
 import { EmployerRepository } from './employer.repository';
+import { normalizeLocation } from '../../common/geo/uzbekistan-gazetteer';
 import {
   UpdateEmployerProfileDto,
   CreateBranchDto,
@@ -10,7 +11,7 @@ import {
   UpdateRecruiterDto,
   ListRecruitersDto,
 } from './dto/employer.dto';
-import { BranchStatus, RecruiterStatus } from '@prisma/client';
+import { BranchStatus, EmployerStatus, RecruiterStatus } from '@prisma/client';
 
 @Injectable()
 export class EmployerService {
@@ -80,6 +81,8 @@ export class EmployerService {
       userId: employerUserId,
       targetUserId: employerUserId,
       ipAddress,
+      before: { website: employer.website, description: employer.description },
+      after: { website: updated.website, description: updated.description },
       details: {
         employerId: employer.id,
         changes,
@@ -118,6 +121,22 @@ export class EmployerService {
     }
   }
 
+  /**
+   * Suspended and deactivated employers cannot manage vacancies. Unverified employers can, but everything they
+   * publish goes through moderation, so the caller gets the verification state back.
+   */
+  async verifyCanManageVacancies(employerUserId: string): Promise<{ verified: boolean }> {
+    const employer = await this.employerRepository.findEmployerByUserId(employerUserId);
+    if (!employer || employer.status === EmployerStatus.SUSPENDED || employer.status === EmployerStatus.DEACTIVATED) {
+      throw new ForbiddenException({
+        success: false,
+        error: { code: 'NOT_COMPLIANT', message: employer ? 'Employer is suspended or deactivated' : 'Employer not found' },
+      });
+    }
+
+    return { verified: employer.status === EmployerStatus.ACTIVE && employer.verifiedAt !== null };
+  }
+
   async listBranches(
     employerUserId: string,
     dto: ListBranchesDto,
@@ -166,12 +185,15 @@ export class EmployerService {
       });
     }
 
+    const location = normalizeLocation(dto.city, dto.state);
+
     const branch = await this.employerRepository.createBranchInTransaction(employer.id, {
       branchName: dto.branchName,
       address: dto.address,
-      city: dto.city,
-      state: dto.state,
+      city: location.city,
+      state: location.state,
       country: dto.country,
+      placeCode: location.placeCode,
       postalCode: dto.postalCode,
       phone: dto.phone,
       isHq: dto.isHq,
@@ -180,6 +202,8 @@ export class EmployerService {
     await this.auditService.log('EMPLOYER_BRANCH_CREATED', {
       userId: employerUserId,
       ipAddress,
+      resourceId: branch.id,
+      after: this.sanitizeBranch(branch),
       details: { employerId: employer.id, branchId: branch.id, branchName: dto.branchName },
     });
 
@@ -211,11 +235,16 @@ export class EmployerService {
     const changes: Record<string, { from: any; to: any }> = {};
     const updateData: any = {};
 
-    const allowedFields = ['branchName', 'address', 'city', 'state', 'country', 'postalCode', 'phone', 'status', 'isHq'];
+    const requested: Record<string, any> = { ...dto };
+    if (dto.city !== undefined || dto.state !== undefined) {
+      Object.assign(requested, normalizeLocation(dto.city ?? branch.city, dto.state ?? branch.state));
+    }
+
+    const allowedFields = ['branchName', 'address', 'city', 'state', 'country', 'placeCode', 'postalCode', 'phone', 'status', 'isHq'];
     for (const field of allowedFields) {
-      if ((dto as any)[field] !== undefined) {
+      if (requested[field] !== undefined) {
         const oldValue = (branch as any)[field];
-        const newValue = (dto as any)[field];
+        const newValue = requested[field];
         if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
           changes[field] = { from: oldValue, to: newValue };
           updateData[field] = newValue;
@@ -232,6 +261,9 @@ export class EmployerService {
     await this.auditService.log('EMPLOYER_BRANCH_UPDATED', {
       userId: employerUserId,
       ipAddress,
+      resourceId: branchId,
+      before: this.sanitizeBranch(branch),
+      after: this.sanitizeBranch(updated),
       details: { employerId: employer.id, branchId, changes },
     });
 
@@ -264,6 +296,8 @@ export class EmployerService {
     await this.auditService.log('EMPLOYER_BRANCH_DELETED', {
       userId: employerUserId,
       ipAddress,
+      resourceId: branchId,
+      before: this.sanitizeBranch(branch),
       details: { employerId: employer.id, branchId },
     });
 
@@ -346,6 +380,8 @@ export class EmployerService {
     await this.auditService.log('EMPLOYER_RECRUITER_CREATED', {
       userId: employerUserId,
       ipAddress,
+      resourceId: recruiter.id,
+      after: this.sanitizeRecruiter(recruiter),
       details: { employerId: employer.id, recruiterId: recruiter.id, userId: dto.userId },
     });
 
@@ -398,6 +434,9 @@ export class EmployerService {
     await this.auditService.log('EMPLOYER_RECRUITER_UPDATED', {
       userId: employerUserId,
       ipAddress,
+      resourceId: recruiterId,
+      before: this.sanitizeRecruiter(recruiter),
+      after: this.sanitizeRecruiter(updated),
       details: { employerId: employer.id, recruiterId, changes },
     });
 
@@ -430,6 +469,8 @@ export class EmployerService {
     await this.auditService.log('EMPLOYER_RECRUITER_DELETED', {
       userId: employerUserId,
       ipAddress,
+      resourceId: recruiterId,
+      before: this.sanitizeRecruiter(recruiter),
       details: { employerId: employer.id, recruiterId },
     });
 
@@ -450,8 +491,8 @@ export class EmployerService {
       headquartersAddress: employer.headquartersAddress,
       status: employer.status,
       verifiedAt: employer.verifiedAt,
-      maxVacancies: employer.maxVacancies,
-      maxRecruiters: employer.maxRecruiters,
+      planId: employer.planId,
+      planAssignedAt: employer.planAssignedAt,
       createdAt: employer.createdAt,
       updatedAt: employer.updatedAt,
     };
@@ -466,6 +507,7 @@ export class EmployerService {
       city: branch.city,
       state: branch.state,
       country: branch.country,
+      placeCode: branch.placeCode,
       postalCode: branch.postalCode,
       phone: branch.phone,
       isHq: branch.isHq,
@@ -25,10 +25,24 @@ export class GovApiLogResponseDto {
   @ApiProperty()
   retryCount: number;
 
+  @ApiPropertyOptional({ description: 'Key the stored payloads are encrypted with; absent for rows written before encryption' })
+  encryptionKeyId?: string;
+
   @ApiProperty()
   createdAt: Date;
 }
 
+export class EncryptionStatusResponseDto {
+  @ApiProperty({ description: 'Key new data is encrypted with' })
+  activeKeyId: string;
+
+  @ApiProperty({ description: 'Row counts per encryption key ID, by table' })
+  keys: Record<string, Record<string, number>>;
+
+  @ApiPropertyOptional({ description: 'Most recent re-encryption job' })
+  lastJob?: Record<string, any>;
+}
+
 export class CacheStatsResponseDto {
   @ApiProperty()
   apiType: string;
@@ -101,3 +115,47 @@ export class EducationVerificationResponseDto extends VerificationResponseDto {
   @ApiPropertyOptional()
   graduationYear?: string;
 }
+
+export class VerificationJobResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: ['IDENTITY', 'BUSINESS', 'EDUCATION', 'EXPERIENCE', 'SKILLS'] })
+  verificationType: string;
+
+  @ApiProperty({ enum: ['PENDING', 'IN_PROGRESS', 'COMPLETED', 'FAILED', 'CANCELLED'] })
+  status: string;
+
+  @ApiProperty({
+    enum: ['QUEUED', 'PROCESSING', 'RETRY_SCHEDULED', 'COMPLETED', 'FAILED', 'CANCELLED'],
+    description: 'Progress of the job, distinguishing first attempts from scheduled retries',
+  })
+  stage: string;
+
+  @ApiProperty({ enum: ['LOW', 'NORMAL', 'HIGH', 'URGENT'] })
+  priority: string;
+
+  @ApiProperty()
+  retryCount: number;
+
+  @ApiProperty()
+  maxRetries: number;
+
+  @ApiPropertyOptional({ description: 'When the next attempt is due, while the job is pending' })
+  nextAttemptAt?: Date;
+
+  @ApiPropertyOptional()
+  startedAt?: Date;
+
+  @ApiPropertyOptional()
+  completedAt?: Date;
+
+  @ApiPropertyOptional({ description: 'Last error, kept while retries are pending' })
+  errorMessage?: string;
+
+  @ApiPropertyOptional({ type: VerificationResponseDto, description: 'Gov API result once completed' })
+  result?: VerificationResponseDto & Record<string, any>;
+
+  @ApiProperty()
+  createdAt: Date;
+}
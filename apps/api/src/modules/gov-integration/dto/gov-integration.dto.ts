@@ -1,5 +1,6 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsString, IsOptional, IsEnum, IsNumber, IsBoolean, IsDateString } from 'class-validator';
+import { IsString, IsOptional, IsEnum, IsNumber, IsBoolean, IsDateString, IsUUID, MaxLength, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
 
 export class VerifyWorkerDto {
   @ApiProperty()
@@ -63,6 +64,11 @@ export class VerifyEducationDto {
   @IsOptional()
   @IsDateString()
   graduationYear?: string;
+
+  @ApiPropertyOptional({ description: 'Education record to mark verified; matched by institution code when omitted' })
+  @IsOptional()
+  @IsUUID()
+  educationId?: string;
 }
 
 export class GetCacheStatsDto {
@@ -82,3 +88,33 @@ export class ClearCacheDto {
   @IsBoolean()
   force?: boolean;
 }
+
+export class CircuitBreakerOverrideDto {
+  @ApiProperty({ example: 'Gov registry maintenance window' })
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+
+  @ApiPropertyOptional({ description: 'Override lifts automatically after this many minutes; indefinite when omitted' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(10080)
+  durationMinutes?: number;
+}
+
+export class StartReEncryptionDto {
+  @ApiProperty({ example: 'Rotating to key 2026-10 after annual key rollover' })
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+
+  @ApiPropertyOptional({ description: 'Rows re-encrypted per batch', default: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(10)
+  @Max(1000)
+  batchSize?: number;
+}
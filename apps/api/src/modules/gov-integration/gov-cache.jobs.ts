@@ -0,0 +1,24 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { SchedulerService } from '../../common/scheduler/scheduler.service';
+import { GovIntegrationRepository } from './gov-integration.repository';
+
+const CLEANUP_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Expired gov responses are never served again; this drops them from gov_response_cache.
+ */
+@Injectable()
+export class GovCacheJobs implements OnModuleInit {
+  constructor(
+    private readonly scheduler: SchedulerService,
+    private readonly repository: GovIntegrationRepository,
+  ) {}
+
+  onModuleInit() {
+    this.scheduler.register({
+      name: 'gov-cache-cleanup',
+      intervalMs: CLEANUP_INTERVAL,
+      run: async () => ({ cacheEntries: await this.repository.deleteExpiredCacheEntries() }),
+    });
+  }
+}
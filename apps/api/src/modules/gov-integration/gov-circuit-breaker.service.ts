@@ -0,0 +1,338 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../../redis/redis.service';
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN' | 'FORCED_OPEN' | 'FORCED_CLOSED';
+
+export interface CircuitBreakerConfig {
+  // Failures within failureWindowMs that open the breaker.
+  failureThreshold: number;
+  failureWindowMs: number;
+  // How long the breaker stays OPEN before letting probes through.
+  openDurationMs: number;
+  // Concurrent probe calls allowed while HALF_OPEN.
+  halfOpenMaxProbes: number;
+  // Successful probes needed to close again.
+  successThreshold: number;
+}
+
+export interface CircuitBreakerStatus {
+  apiType: string;
+  state: CircuitState;
+  failures: number;
+  lastFailureAt: Date | null;
+  openedAt: Date | null;
+  override: {
+    state: 'OPEN' | 'CLOSED';
+    reason: string;
+    by: string;
+    at: Date | null;
+    until: Date | null;
+  } | null;
+  config: CircuitBreakerConfig;
+}
+
+const KEY_PREFIX = 'gov:circuit-breaker:';
+const TYPES_KEY = `${KEY_PREFIX}types`;
+const METRICS_KEY = `${KEY_PREFIX}metrics`;
+
+const DEFAULT_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  failureWindowMs: 60000,
+  openDurationMs: 30000,
+  halfOpenMaxProbes: 1,
+  successThreshold: 1,
+};
+
+const API_TYPE_CONFIG: Record<string, Partial<CircuitBreakerConfig>> = {
+  EDUCATION_VERIFICATION: { failureThreshold: 3, openDurationMs: 60000 },
+};
+
+// Shared by every script: KEYS[1] breaker hash, KEYS[2] metrics hash, KEYS[3] known types set;
+// ARGV[1] now (ms), ARGV[2] apiType. Expired overrides are dropped before the script body runs.
+const PRELUDE = `
+local now = tonumber(ARGV[1])
+local apiType = ARGV[2]
+local function get(field, default)
+  local value = redis.call('HGET', KEYS[1], field)
+  if value then return value end
+  return default
+end
+local function num(field) return tonumber(get(field, '0')) end
+local function effective()
+  local override = get('override', '')
+  if override ~= '' then return 'FORCED_' .. override end
+  return get('state', 'CLOSED')
+end
+local function transition(from, to)
+  if from ~= to then redis.call('HINCRBY', KEYS[2], apiType .. '|' .. from .. '|' .. to, 1) end
+end
+redis.call('SADD', KEYS[3], apiType)
+local before = effective()
+if get('override', '') ~= '' and num('overrideUntil') > 0 and now >= num('overrideUntil') then
+  redis.call('HDEL', KEYS[1], 'override', 'overrideUntil', 'overrideReason', 'overrideBy', 'overrideAt')
+  transition(before, effective())
+  before = effective()
+end
+`;
+
+// ARGV[3] openDurationMs, ARGV[4] halfOpenMaxProbes. Returns {allowed, state}.
+const ACQUIRE_SCRIPT = PRELUDE + `
+local override = get('override', '')
+if override == 'CLOSED' then return {1, before} end
+local state = get('state', 'CLOSED')
+if override == '' and state == 'CLOSED' then return {1, state} end
+local openDuration = tonumber(ARGV[3])
+if override == '' and state == 'OPEN' and now - num('openedAt') >= openDuration then
+  redis.call('HSET', KEYS[1], 'state', 'HALF_OPEN', 'halfOpenAt', now, 'probes', 1, 'successes', 0)
+  transition('OPEN', 'HALF_OPEN')
+  return {1, 'HALF_OPEN'}
+end
+if override == '' and state == 'HALF_OPEN' then
+  -- A probe that never reported back (crashed pod) must not hold the slot forever.
+  if now - num('halfOpenAt') >= openDuration then
+    redis.call('HSET', KEYS[1], 'halfOpenAt', now, 'probes', 1)
+    return {1, state}
+  end
+  if num('probes') < tonumber(ARGV[4]) then
+    redis.call('HINCRBY', KEYS[1], 'probes', 1)
+    return {1, state}
+  end
+end
+redis.call('HINCRBY', KEYS[2], apiType .. '|rejected', 1)
+return {0, before}
+`;
+
+// ARGV[3] successThreshold. Returns the resulting state.
+const SUCCESS_SCRIPT = PRELUDE + `
+if get('override', '') ~= '' then return before end
+local state = get('state', 'CLOSED')
+if state == 'HALF_OPEN' then
+  local successes = redis.call('HINCRBY', KEYS[1], 'successes', 1)
+  if successes >= tonumber(ARGV[3]) then
+    redis.call('HSET', KEYS[1], 'state', 'CLOSED', 'failures', 0, 'probes', 0, 'successes', 0)
+    transition('HALF_OPEN', 'CLOSED')
+    return 'CLOSED'
+  end
+  redis.call('HINCRBY', KEYS[1], 'probes', -1)
+  return state
+end
+if state == 'CLOSED' then redis.call('HSET', KEYS[1], 'failures', 0) end
+return state
+`;
+
+// ARGV[3] failureThreshold, ARGV[4] failureWindowMs. Returns the resulting state.
+const FAILURE_SCRIPT = PRELUDE + `
+local override = get('override', '')
+local state = get('state', 'CLOSED')
+local failures = num('failures')
+if now - num('lastFailureAt') > tonumber(ARGV[4]) then failures = 0 end
+failures = failures + 1
+redis.call('HSET', KEYS[1], 'failures', failures, 'lastFailureAt', now)
+if override ~= '' then return before end
+if state == 'HALF_OPEN' or (state == 'CLOSED' and failures >= tonumber(ARGV[3])) then
+  redis.call('HSET', KEYS[1], 'state', 'OPEN', 'openedAt', now, 'probes', 0, 'successes', 0)
+  transition(state, 'OPEN')
+  return 'OPEN'
+end
+return state
+`;
+
+// ARGV[3] override ('OPEN', 'CLOSED' or '' to clear), ARGV[4] until (0 = indefinite), ARGV[5] reason,
+// ARGV[6] actor. Clearing an override resets the breaker to CLOSED. Returns the resulting state.
+const OVERRIDE_SCRIPT = PRELUDE + `
+if ARGV[3] == '' then
+  redis.call('HDEL', KEYS[1], 'override', 'overrideUntil', 'overrideReason', 'overrideBy', 'overrideAt')
+  redis.call('HSET', KEYS[1], 'state', 'CLOSED', 'failures', 0, 'probes', 0, 'successes', 0)
+else
+  redis.call('HSET', KEYS[1], 'override', ARGV[3], 'overrideUntil', ARGV[4], 'overrideReason', ARGV[5],
+    'overrideBy', ARGV[6], 'overrideAt', now)
+end
+local after = effective()
+transition(before, after)
+return after
+`;
+
+/**
+ * Circuit breaker for gov API types with state shared through Redis, so every replica trips and
+ * recovers together. If Redis is unavailable the breaker fails open and calls go through.
+ */
+@Injectable()
+export class GovCircuitBreakerService {
+  private readonly logger = new Logger(GovCircuitBreakerService.name);
+  private readonly configOverrides: Record<string, Partial<CircuitBreakerConfig>>;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+  ) {
+    // e.g. GOV_CIRCUIT_BREAKER_CONFIG={"WORKER_IDENTITY_VERIFICATION":{"failureThreshold":10}}
+    const raw = this.configService.get<string>('GOV_CIRCUIT_BREAKER_CONFIG');
+    this.configOverrides = {};
+    if (raw) {
+      try {
+        this.configOverrides = JSON.parse(raw);
+      } catch {
+        this.logger.error('GOV_CIRCUIT_BREAKER_CONFIG is not valid JSON; using default thresholds');
+      }
+    }
+  }
+
+  getConfig(apiType: string): CircuitBreakerConfig {
+    return { ...DEFAULT_CONFIG, ...API_TYPE_CONFIG[apiType], ...this.configOverrides[apiType] };
+  }
+
+  /**
+   * Returns whether a call may proceed. While HALF_OPEN only a limited number of probe calls are let
+   * through; each must be followed by recordSuccess or recordFailure.
+   */
+  async acquire(apiType: string): Promise<{ allowed: boolean; state: CircuitState }> {
+    const config = this.getConfig(apiType);
+    try {
+      const [allowed, state] = await this.run(ACQUIRE_SCRIPT, apiType, config.openDurationMs, config.halfOpenMaxProbes) as [number, CircuitState];
+      if (allowed && state === 'HALF_OPEN') {
+        this.logger.log(`Circuit breaker for ${apiType} is HALF_OPEN, letting a probe through`);
+      }
+      return { allowed: allowed === 1, state };
+    } catch (error: any) {
+      this.logger.warn(`Circuit breaker unavailable for ${apiType}, allowing call: ${error.message}`);
+      return { allowed: true, state: 'CLOSED' };
+    }
+  }
+
+  async recordSuccess(apiType: string): Promise<void> {
+    const config = this.getConfig(apiType);
+    try {
+      const state = await this.run(SUCCESS_SCRIPT, apiType, config.successThreshold);
+      if (state === 'CLOSED') {
+        this.logger.debug(`Circuit breaker for ${apiType} is CLOSED`);
+      }
+    } catch (error: any) {
+      this.logger.warn(`Failed to record gov API success for ${apiType}: ${error.message}`);
+    }
+  }
+
+  async recordFailure(apiType: string): Promise<void> {
+    const config = this.getConfig(apiType);
+    try {
+      const state = await this.run(FAILURE_SCRIPT, apiType, config.failureThreshold, config.failureWindowMs);
+      if (state === 'OPEN') {
+        this.logger.warn(`Circuit breaker for ${apiType} is OPEN for ${config.openDurationMs}ms`);
+      }
+    } catch (error: any) {
+      this.logger.warn(`Failed to record gov API failure for ${apiType}: ${error.message}`);
+    }
+  }
+
+  async setOverride(
+    apiType: string,
+    override: 'OPEN' | 'CLOSED' | null,
+    actorUserId: string,
+    reason = '',
+    until?: Date,
+  ): Promise<CircuitState> {
+    return await this.run(
+      OVERRIDE_SCRIPT,
+      apiType,
+      override ?? '',
+      until ? until.getTime() : 0,
+      reason,
+      actorUserId,
+    ) as CircuitState;
+  }
+
+  async getStatus(apiTypes: string[]): Promise<CircuitBreakerStatus[]> {
+    const client = this.redisService.getClient();
+    const known = await client.smembers(TYPES_KEY);
+    const all = Array.from(new Set([...apiTypes, ...known])).sort();
+
+    return Promise.all(all.map(async (apiType) => {
+      const hash = await client.hgetall(`${KEY_PREFIX}${apiType}`);
+      const overrideUntil = Number(hash.overrideUntil || 0);
+      const overrideActive = !!hash.override && (overrideUntil === 0 || overrideUntil > Date.now());
+
+      return {
+        apiType,
+        state: (overrideActive ? `FORCED_${hash.override}` : hash.state || 'CLOSED') as CircuitState,
+        failures: Number(hash.failures || 0),
+        lastFailureAt: this.toDate(hash.lastFailureAt),
+        openedAt: this.toDate(hash.openedAt),
+        override: overrideActive
+          ? {
+            state: hash.override as 'OPEN' | 'CLOSED',
+            reason: hash.overrideReason || '',
+            by: hash.overrideBy || '',
+            at: this.toDate(hash.overrideAt),
+            until: this.toDate(hash.overrideUntil),
+          }
+          : null,
+        config: this.getConfig(apiType),
+      };
+    }));
+  }
+
+  /**
+   * Breaker metrics in Prometheus text exposition format. Counters are cluster-wide because they
+   * are kept in Redis by the same scripts that perform the transitions.
+   */
+  async getMetrics(apiTypes: string[]): Promise<string> {
+    const [statuses, counters] = await Promise.all([
+      this.getStatus(apiTypes),
+      this.redisService.getClient().hgetall(METRICS_KEY),
+    ]);
+
+    const states: CircuitState[] = ['CLOSED', 'OPEN', 'HALF_OPEN', 'FORCED_OPEN', 'FORCED_CLOSED'];
+    const lines: string[] = [
+      '# HELP gov_circuit_breaker_state Current breaker state (1 for the active state).',
+      '# TYPE gov_circuit_breaker_state gauge',
+    ];
+    for (const status of statuses) {
+      for (const state of states) {
+        lines.push(`gov_circuit_breaker_state{api_type="${status.apiType}",state="${state}"} ${status.state === state ? 1 : 0}`);
+      }
+    }
+
+    lines.push(
+      '# HELP gov_circuit_breaker_transitions_total Breaker state transitions.',
+      '# TYPE gov_circuit_breaker_transitions_total counter',
+    );
+    const rejections: string[] = [];
+    for (const [field, value] of Object.entries(counters).sort()) {
+      const [apiType, from, to] = field.split('|');
+      if (from === 'rejected') {
+        rejections.push(`gov_circuit_breaker_rejections_total{api_type="${apiType}"} ${value}`);
+      } else {
+        lines.push(`gov_circuit_breaker_transitions_total{api_type="${apiType}",from="${from}",to="${to}"} ${value}`);
+      }
+    }
+
+    lines.push(
+      '# HELP gov_circuit_breaker_rejections_total Calls rejected because the breaker was open.',
+      '# TYPE gov_circuit_breaker_rejections_total counter',
+      ...rejections,
+      '# HELP gov_circuit_breaker_failures Failures counted in the current window.',
+      '# TYPE gov_circuit_breaker_failures gauge',
+      ...statuses.map(status => `gov_circuit_breaker_failures{api_type="${status.apiType}"} ${status.failures}`),
+    );
+
+    return lines.join('\n') + '\n';
+  }
+
+  private run(script: string, apiType: string, ...args: (string | number)[]): Promise<unknown> {
+    return this.redisService.getClient().eval(
+      script,
+      3,
+      `${KEY_PREFIX}${apiType}`,
+      METRICS_KEY,
+      TYPES_KEY,
+      Date.now(),
+      apiType,
+      ...args,
+    );
+  }
+
+  private toDate(value?: string): Date | null {
+    const ms = Number(value || 0);
+    return ms > 0 ? new Date(ms) : null;
+  }
+}
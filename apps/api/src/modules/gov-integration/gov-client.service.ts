@@ -3,100 +3,57 @@ import { ConfigService } from '@nestjs/config';
 import { GovIntegrationRepository } from './gov-integration.repository';
 import { AuditService } from '../auth/audit.service';
 import { GovApiStatus } from '@prisma/client';
-
-interface CircuitBreakerState {
-  failures: number;
-  lastFailure: Date | null;
-  isOpen: boolean;
-}
+import { GovCircuitBreakerService } from './gov-circuit-breaker.service';
+import { sealGovPayload } from './gov-redaction';
+import { decryptData } from '../../common/utils/encryption';
 
 const MAX_RETRIES = 3;
 const TIMEOUT_MS = 5000;
-const CIRCUIT_BREAKER_THRESHOLD = 5;
-const CIRCUIT_BREAKER_TIMEOUT_MS = 30000;
 
 @Injectable()
 export class GovClientService {
   private readonly logger = new Logger(GovClientService.name);
-  private circuitBreakers: Map<string, CircuitBreakerState> = new Map();
 
   constructor(
     private readonly configService: ConfigService,
     private readonly repository: GovIntegrationRepository,
     private readonly auditService: AuditService,
+    private readonly circuitBreaker: GovCircuitBreakerService,
   ) {}
 
-  private getCircuitBreaker(apiType: string): CircuitBreakerState {
-    if (!this.circuitBreakers.has(apiType)) {
-      this.circuitBreakers.set(apiType, {
-        failures: 0,
-        lastFailure: null,
-        isOpen: false,
-      });
-    }
-    return this.circuitBreakers.get(apiType)!;
-  }
-
-  private recordSuccess(apiType: string): void {
-    const state = this.getCircuitBreaker(apiType);
-    state.failures = 0;
-    state.isOpen = false;
-  }
-
-  private recordFailure(apiType: string): void {
-    const state = this.getCircuitBreaker(apiType);
-    state.failures++;
-    state.lastFailure = new Date();
-
-    if (state.failures >= CIRCUIT_BREAKER_THRESHOLD) {
-      state.isOpen = true;
-      this.logger.warn(`Circuit breaker opened for ${apiType} after ${state.failures} failures`);
-    }
-  }
-
-  private isCircuitOpen(apiType: string): boolean {
-    const state = this.getCircuitBreaker(apiType);
-    
-    if (!state.isOpen) return false;
-
-    if (state.lastFailure && Date.now() - state.lastFailure.getTime() > CIRCUIT_BREAKER_TIMEOUT_MS) {
-      state.isOpen = false;
-      state.failures = 0;
-      this.logger.log(`Circuit breaker reset for ${apiType}`);
-      return false;
-    }
-
-    return true;
-  }
-
   async callGovApi<T>(
     apiType: string,
     endpoint: string,
     payload: any,
     method: 'GET' | 'POST' = 'POST',
   ): Promise<T> {
-    if (this.isCircuitOpen(apiType)) {
-      throw new Error(`Circuit breaker is open for ${apiType}. Please try again later.`);
-    }
-
     const baseUrl = this.configService.get<string>('GOV_API_BASE_URL') || 'https://api.gov.example';
     const apiKey = this.configService.get<string>('GOV_API_KEY') || '';
     const url = `${baseUrl}${endpoint}`;
 
     const requestHash = this.repository.hashRequest({ endpoint, ...payload });
 
-    const cached = await this.repository.getCacheEntry(requestHash);
-    if (cached) {
+    const cached = await this.readCacheEntry(requestHash);
+    if (cached !== undefined) {
       this.logger.debug(`Cache hit for ${apiType}`);
-      return cached.responseData as T;
+      return cached as T;
     }
 
+    // Cached responses are served even while the breaker is open.
+    const permit = await this.circuitBreaker.acquire(apiType);
+    if (!permit.allowed) {
+      throw new Error(`Circuit breaker is ${permit.state} for ${apiType}. Please try again later.`);
+    }
+
+    const request = sealGovPayload(apiType, payload);
     const logEntry = await this.repository.createGovApiLog({
       apiType,
       requestUrl: url,
       requestMethod: method,
-      requestPayload: payload,
+      requestPayload: request.redacted,
+      requestPayloadEncrypted: request.encrypted,
       requestHeaders: { 'X-API-Key': apiKey.substring(0, 8) + '...' },
+      encryptionKeyId: request.keyId,
     });
 
     let lastError: Error | null = null;
@@ -109,10 +66,12 @@ export class GovClientService {
         response = await this.executeRequest<T>(url, method, payload, apiKey);
 
         const responseTimeMs = Date.now() - startTime;
+        const sealed = sealGovPayload(apiType, response);
 
         await this.repository.updateGovApiLog(logEntry.id, {
           responseStatusCode: 200,
-          responseBody: response,
+          responseBody: sealed.redacted,
+          responseBodyEncrypted: sealed.encrypted,
           responseTimeMs,
           status: GovApiStatus.SUCCESS,
           govTransactionId: (response as any)?.transactionId,
@@ -131,11 +90,13 @@ export class GovClientService {
         await this.repository.createCacheEntry({
           requestHash,
           apiType,
-          responseData: response,
+          responseData: sealed.redacted,
+          responseDataEncrypted: sealed.encrypted,
+          encryptionKeyId: sealed.keyId,
           ttlSeconds: this.getTtlForApiType(apiType),
         });
 
-        this.recordSuccess(apiType);
+        await this.circuitBreaker.recordSuccess(apiType);
         return response;
 
       } catch (error: any) {
@@ -154,7 +115,7 @@ export class GovClientService {
       }
     }
 
-    this.recordFailure(apiType);
+    await this.circuitBreaker.recordFailure(apiType);
 
     await this.auditService.log('GOV_API_CALL_FAILED', {
       userId: 'SYSTEM',
@@ -169,6 +130,24 @@ export class GovClientService {
     throw new Error(`Gov API call failed after ${MAX_RETRIES + 1} attempts: ${lastError?.message}`);
   }
 
+  /**
+   * Returns the decrypted cached response, or undefined on a miss. Entries that cannot be decrypted, e.g.
+   * because their key was retired, count as a miss and are overwritten by the next response.
+   */
+  private async readCacheEntry(requestHash: string): Promise<unknown> {
+    const cached = await this.repository.getCacheEntry(requestHash);
+    if (!cached) return undefined;
+    // Entries written before encryption still hold the raw response.
+    if (!cached.responseDataEncrypted) return cached.responseData;
+
+    try {
+      return decryptData(cached.responseDataEncrypted);
+    } catch (error: any) {
+      this.logger.warn(`Discarding undecryptable gov cache entry ${cached.id}: ${error.message}`);
+      return undefined;
+    }
+  }
+
   private async executeRequest<T>(
     url: string,
     method: string,
@@ -218,16 +197,4 @@ export class GovClientService {
     };
     return ttlMap[apiType] || 3600;
   }
-
-  getCircuitBreakerStatus(): Record<string, { isOpen: boolean; failures: number; lastFailure: Date | null }> {
-    const status: Record<string, any> = {};
-    this.circuitBreakers.forEach((state, apiType) => {
-      status[apiType] = {
-        isOpen: state.isOpen,
-        failures: state.failures,
-        lastFailure: state.lastFailure,
-      };
-    });
-    return status;
-  }
 }
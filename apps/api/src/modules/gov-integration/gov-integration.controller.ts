@@ -8,6 +8,10 @@ import {
   Req,
   HttpCode,
   HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Delete,
+  Header,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeaders } from '@nestjs/swagger';
 import { GovIntegrationService } from './gov-integration.service';
@@ -17,10 +21,12 @@ import {
   VerifyEducationDto,
   GetCacheStatsDto,
   ClearCacheDto,
+  CircuitBreakerOverrideDto,
+  StartReEncryptionDto,
 } from './dto/gov-integration.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { RolesGuard } from '../auth/guards/roles.guard';
-import { Roles } from '../auth/decorators/roles.decorator';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
 import { RateLimit } from '../../common/decorators/rate-limit.decorator';
 import { Request } from 'express';
 
@@ -36,44 +42,57 @@ interface RequestWithUser extends Request {
 
 @ApiTags('Gov Integration')
 @Controller('api/v1/gov')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
 @ApiHeaders([{ name: 'authorization', description: 'Bearer token' }])
 export class GovIntegrationController {
   constructor(private readonly govIntegrationService: GovIntegrationService) { }
 
   @Post('verify/worker')
-  @HttpCode(HttpStatus.OK)
-  @Roles('WORKER', 'ADMIN', 'SUPER_ADMIN')
+  @RequirePermissions('gov:verify_worker')
+  @HttpCode(HttpStatus.ACCEPTED)
   @RateLimit(3, 60)
-  @ApiOperation({ summary: 'Verify worker identity via government API' })
-  @ApiResponse({ status: 200, description: 'Worker verification result' })
+  @ApiOperation({ summary: 'Queue worker identity verification via government API' })
+  @ApiResponse({ status: 202, description: 'Worker verification queued' })
+  @ApiResponse({ status: 400, description: 'PINFL does not match the worker profile' })
   async verifyWorker(@Body() dto: VerifyWorkerDto, @Req() req: RequestWithUser) {
     return this.govIntegrationService.verifyWorker(req.user.id, dto, this.extractIp(req));
   }
 
   @Post('verify/employer')
-  @HttpCode(HttpStatus.OK)
-  @Roles('EMPLOYER', 'ADMIN', 'SUPER_ADMIN')
+  @RequirePermissions('gov:verify_employer')
+  @HttpCode(HttpStatus.ACCEPTED)
   @RateLimit(3, 60)
-  @ApiOperation({ summary: 'Verify employer via government API' })
-  @ApiResponse({ status: 200, description: 'Employer verification result' })
+  @ApiOperation({ summary: 'Queue employer verification via government API' })
+  @ApiResponse({ status: 202, description: 'Employer verification queued' })
+  @ApiResponse({ status: 400, description: 'Registration does not match the employer profile' })
+  @ApiResponse({ status: 409, description: 'Registration belongs to another account' })
   async verifyEmployer(@Body() dto: VerifyEmployerDto, @Req() req: RequestWithUser) {
     return this.govIntegrationService.verifyEmployer(req.user.id, dto, this.extractIp(req));
   }
 
   @Post('verify/education')
-  @HttpCode(HttpStatus.OK)
-  @Roles('WORKER', 'ADMIN', 'SUPER_ADMIN')
+  @RequirePermissions('gov:verify_education')
+  @HttpCode(HttpStatus.ACCEPTED)
   @RateLimit(3, 60)
-  @ApiOperation({ summary: 'Verify worker education via government API' })
-  @ApiResponse({ status: 200, description: 'Education verification result' })
+  @ApiOperation({ summary: 'Queue worker education verification via government API' })
+  @ApiResponse({ status: 202, description: 'Education verification queued' })
+  @ApiResponse({ status: 400, description: 'PINFL does not match the worker profile' })
   async verifyEducation(@Body() dto: VerifyEducationDto, @Req() req: RequestWithUser) {
     return this.govIntegrationService.verifyEducation(req.user.id, dto, this.extractIp(req));
   }
 
+  @Get('verifications/:id')
+  @RequirePermissions('gov:read_own')
+  @ApiOperation({ summary: 'Get the status and result of a queued verification' })
+  @ApiResponse({ status: 200, description: 'Verification status' })
+  @ApiResponse({ status: 404, description: 'Verification not found' })
+  async getVerification(@Param('id', ParseUUIDPipe) id: string, @Req() req: RequestWithUser) {
+    return this.govIntegrationService.getVerification(req.user.id, req.user.role, id);
+  }
+
   @Get('cache/stats')
-  @Roles('ADMIN', 'SUPER_ADMIN')
+  @RequirePermissions('gov:manage')
   @ApiOperation({ summary: 'Get cache statistics' })
   @ApiResponse({ status: 200, description: 'Cache statistics' })
   async getCacheStats(@Query() dto: GetCacheStatsDto) {
@@ -81,8 +100,8 @@ export class GovIntegrationController {
   }
 
   @Post('cache/clear')
+  @RequirePermissions('gov:manage')
   @HttpCode(HttpStatus.OK)
-  @Roles('ADMIN', 'SUPER_ADMIN')
   @ApiOperation({ summary: 'Clear government API cache' })
   @ApiResponse({ status: 200, description: 'Cache cleared' })
   async clearCache(@Body() dto: ClearCacheDto, @Req() req: RequestWithUser) {
@@ -90,7 +109,7 @@ export class GovIntegrationController {
   }
 
   @Get('logs')
-  @Roles('ADMIN', 'SUPER_ADMIN')
+  @RequirePermissions('gov:manage')
   @ApiOperation({ summary: 'Get government API logs' })
   @ApiResponse({ status: 200, description: 'API logs list' })
   async getApiLogs(
@@ -108,13 +127,78 @@ export class GovIntegrationController {
   }
 
   @Get('circuit-breaker/status')
-  @Roles('ADMIN', 'SUPER_ADMIN')
+  @RequirePermissions('gov:manage')
   @ApiOperation({ summary: 'Get circuit breaker status' })
   @ApiResponse({ status: 200, description: 'Circuit breaker status' })
   async getCircuitBreakerStatus() {
     return this.govIntegrationService.getCircuitBreakerStatus();
   }
 
+  @Get('circuit-breaker/metrics')
+  @RequirePermissions('gov:manage')
+  @Header('Content-Type', 'text/plain; version=0.0.4')
+  @ApiOperation({ summary: 'Circuit breaker states, transitions and rejections in Prometheus format' })
+  @ApiResponse({ status: 200, description: 'Prometheus metrics' })
+  async getCircuitBreakerMetrics() {
+    return this.govIntegrationService.getCircuitBreakerMetrics();
+  }
+
+  @Post('circuit-breaker/:apiType/force-open')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('gov:manage')
+  @ApiOperation({ summary: 'Force a circuit breaker open, e.g. for a gov maintenance window' })
+  @ApiResponse({ status: 200, description: 'Circuit breaker status' })
+  @ApiResponse({ status: 404, description: 'Unknown API type' })
+  async forceOpenCircuitBreaker(
+    @Param('apiType') apiType: string,
+    @Body() dto: CircuitBreakerOverrideDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.govIntegrationService.overrideCircuitBreaker(apiType, 'OPEN', dto, req.user.id, this.extractIp(req));
+  }
+
+  @Post('circuit-breaker/:apiType/force-close')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('gov:manage')
+  @ApiOperation({ summary: 'Force a circuit breaker closed regardless of failures' })
+  @ApiResponse({ status: 200, description: 'Circuit breaker status' })
+  @ApiResponse({ status: 404, description: 'Unknown API type' })
+  async forceCloseCircuitBreaker(
+    @Param('apiType') apiType: string,
+    @Body() dto: CircuitBreakerOverrideDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.govIntegrationService.overrideCircuitBreaker(apiType, 'CLOSED', dto, req.user.id, this.extractIp(req));
+  }
+
+  @Delete('circuit-breaker/:apiType/override')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions('gov:manage')
+  @ApiOperation({ summary: 'Remove a forced state and reset the circuit breaker to CLOSED' })
+  @ApiResponse({ status: 200, description: 'Circuit breaker status' })
+  @ApiResponse({ status: 404, description: 'Unknown API type' })
+  async clearCircuitBreakerOverride(@Param('apiType') apiType: string, @Req() req: RequestWithUser) {
+    return this.govIntegrationService.clearCircuitBreakerOverride(apiType, req.user.id, this.extractIp(req));
+  }
+
+  @Get('encryption/status')
+  @RequirePermissions('gov:manage')
+  @ApiOperation({ summary: 'Active encryption key, rows per key and the last re-encryption job' })
+  @ApiResponse({ status: 200, description: 'Encryption status' })
+  async getEncryptionStatus() {
+    return this.govIntegrationService.getEncryptionStatus();
+  }
+
+  @Post('encryption/re-encrypt')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @RequirePermissions('gov:manage')
+  @ApiOperation({ summary: 'Re-encrypt stored gov payloads under the active key in the background' })
+  @ApiResponse({ status: 202, description: 'Re-encryption job started' })
+  @ApiResponse({ status: 409, description: 'A re-encryption job is already running' })
+  async startReEncryption(@Body() dto: StartReEncryptionDto, @Req() req: RequestWithUser) {
+    return this.govIntegrationService.startReEncryption(dto, req.user.id, this.extractIp(req));
+  }
+
   private extractIp(req: RequestWithUser): string {
     return req.ip || req.socket.remoteAddress || 'unknown';
   }
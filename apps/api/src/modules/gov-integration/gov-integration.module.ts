@@ -1,14 +1,26 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { GovIntegrationController } from './gov-integration.controller';
 import { GovIntegrationService } from './gov-integration.service';
 import { GovIntegrationRepository } from './gov-integration.repository';
 import { GovClientService } from './gov-client.service';
+import { GovCircuitBreakerService } from './gov-circuit-breaker.service';
+import { GovReEncryptionService } from './gov-re-encryption.service';
+import { GovVerificationProcessor } from './gov-verification.processor';
+import { GovCacheJobs } from './gov-cache.jobs';
 import { AuthModule } from '../auth/auth.module';
 
 @Module({
-  imports: [AuthModule],
+  imports: [forwardRef(() => AuthModule)],
   controllers: [GovIntegrationController],
-  providers: [GovIntegrationService, GovIntegrationRepository, GovClientService],
+  providers: [
+    GovIntegrationService,
+    GovIntegrationRepository,
+    GovClientService,
+    GovCircuitBreakerService,
+    GovReEncryptionService,
+    GovVerificationProcessor,
+    GovCacheJobs,
+  ],
   exports: [GovIntegrationService, GovClientService, GovIntegrationRepository],
 })
 export class GovIntegrationModule {}
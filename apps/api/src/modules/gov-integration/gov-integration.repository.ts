@@ -1,7 +1,53 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../database/prisma/prisma.service';
-import { Prisma, GovApiStatus } from '@prisma/client';
+import {
+  Prisma,
+  EmployerStatus,
+  GovApiLog,
+  GovApiStatus,
+  GovResponseCache,
+  GovVerifyStatus,
+  UserStatus,
+  VerificationEntityType,
+  VerificationPriority,
+  VerificationQueue,
+  VerificationStatus,
+  VerificationType,
+} from '@prisma/client';
 import { createHash } from 'crypto';
+import { GovSubject, sameGovIdentifier } from './gov-verification.constants';
+import { SealedGovPayload } from './gov-redaction';
+
+export interface ReverificationSweepParams {
+  identityCutoff: Date;
+  businessCutoff: Date;
+  retryAfter: Date;
+  maxRetries: number;
+  limit: number;
+  lockKey: number;
+}
+
+export interface ReverificationSweepResult {
+  expiredWorkerIds: string[];
+  queued: VerificationQueue[];
+}
+
+interface ReverificationCandidate {
+  userId: string;
+  entityType: VerificationEntityType;
+  entityId: string;
+  verificationType: VerificationType;
+}
+
+export type GovApiLogCiphertexts = Pick<
+  GovApiLog,
+  'id' | 'apiType' | 'requestPayload' | 'requestPayloadEncrypted' | 'responseBody' | 'responseBodyEncrypted' | 'encryptionKeyId'
+>;
+
+export type GovResponseCacheCiphertext = Pick<
+  GovResponseCache,
+  'id' | 'apiType' | 'responseData' | 'responseDataEncrypted' | 'encryptionKeyId'
+>;
 
 interface PaginatedResult<T> {
   items: T[];
@@ -20,7 +66,9 @@ export class GovIntegrationRepository {
     requestUrl: string;
     requestMethod: string;
     requestPayload?: any;
+    requestPayloadEncrypted?: string;
     requestHeaders?: any;
+    encryptionKeyId?: string;
   }): Promise<any> {
     return this.prisma.govApiLog.create({
       data: {
@@ -28,7 +76,9 @@ export class GovIntegrationRepository {
         requestUrl: data.requestUrl,
         requestMethod: data.requestMethod,
         requestPayload: data.requestPayload as Prisma.JsonObject,
+        requestPayloadEncrypted: data.requestPayloadEncrypted,
         requestHeaders: data.requestHeaders as Prisma.JsonObject,
+        encryptionKeyId: data.encryptionKeyId,
         status: GovApiStatus.PENDING,
       },
     });
@@ -39,6 +89,7 @@ export class GovIntegrationRepository {
     data: {
       responseStatusCode?: number;
       responseBody?: any;
+      responseBodyEncrypted?: string;
       responseTimeMs?: number;
       errorMessage?: string;
       govTransactionId?: string;
@@ -51,6 +102,7 @@ export class GovIntegrationRepository {
       data: {
         responseStatusCode: data.responseStatusCode,
         responseBody: data.responseBody as Prisma.JsonObject,
+        responseBodyEncrypted: data.responseBodyEncrypted,
         responseTimeMs: data.responseTimeMs,
         errorMessage: data.errorMessage,
         govTransactionId: data.govTransactionId,
@@ -74,6 +126,8 @@ export class GovIntegrationRepository {
     requestHash: string;
     apiType: string;
     responseData: any;
+    responseDataEncrypted?: string;
+    encryptionKeyId?: string;
     ttlSeconds?: number;
   }): Promise<any> {
     const ttl = data.ttlSeconds || 3600;
@@ -85,11 +139,15 @@ export class GovIntegrationRepository {
         requestHash: data.requestHash,
         apiType: data.apiType,
         responseData: data.responseData as Prisma.JsonObject,
+        responseDataEncrypted: data.responseDataEncrypted,
+        encryptionKeyId: data.encryptionKeyId,
         ttlSeconds: ttl,
         expiresAt,
       },
       update: {
         responseData: data.responseData as Prisma.JsonObject,
+        responseDataEncrypted: data.responseDataEncrypted,
+        encryptionKeyId: data.encryptionKeyId,
         ttlSeconds: ttl,
         expiresAt,
       },
@@ -162,6 +220,552 @@ export class GovIntegrationRepository {
     };
   }
 
+  /**
+   * Rows not yet encrypted under `activeKeyId` (including rows written before encryption), in id order.
+   */
+  async findGovApiLogsForReEncryption(activeKeyId: string, take: number, afterId?: string): Promise<GovApiLogCiphertexts[]> {
+    return this.prisma.govApiLog.findMany({
+      where: {
+        OR: [{ encryptionKeyId: null }, { encryptionKeyId: { not: activeKeyId } }],
+        ...(afterId ? { id: { gt: afterId } } : {}),
+      },
+      select: {
+        id: true,
+        apiType: true,
+        requestPayload: true,
+        requestPayloadEncrypted: true,
+        responseBody: true,
+        responseBodyEncrypted: true,
+        encryptionKeyId: true,
+      },
+      orderBy: { id: 'asc' },
+      take,
+    });
+  }
+
+  async updateGovApiLogEncryption(
+    id: string,
+    data: {
+      requestPayload: any;
+      requestPayloadEncrypted: string;
+      responseBody?: any;
+      responseBodyEncrypted?: string;
+      encryptionKeyId: string;
+    },
+  ): Promise<void> {
+    await this.prisma.govApiLog.update({
+      where: { id },
+      data: {
+        requestPayload: data.requestPayload as Prisma.JsonObject,
+        requestPayloadEncrypted: data.requestPayloadEncrypted,
+        responseBody: data.responseBody === undefined ? undefined : data.responseBody as Prisma.JsonObject,
+        responseBodyEncrypted: data.responseBodyEncrypted,
+        encryptionKeyId: data.encryptionKeyId,
+      },
+    });
+  }
+
+  async deleteExpiredCacheEntries(): Promise<number> {
+    const result = await this.prisma.govResponseCache.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    });
+    return result.count;
+  }
+
+  /**
+   * Expired entries are never served again, so they are dropped instead of re-encrypted.
+   */
+  async deleteExpiredCacheEntriesForReEncryption(activeKeyId: string): Promise<number> {
+    const result = await this.prisma.govResponseCache.deleteMany({
+      where: {
+        expiresAt: { lte: new Date() },
+        OR: [{ encryptionKeyId: null }, { encryptionKeyId: { not: activeKeyId } }],
+      },
+    });
+    return result.count;
+  }
+
+  async findCacheEntriesForReEncryption(activeKeyId: string, take: number, afterId?: string): Promise<GovResponseCacheCiphertext[]> {
+    return this.prisma.govResponseCache.findMany({
+      where: {
+        OR: [{ encryptionKeyId: null }, { encryptionKeyId: { not: activeKeyId } }],
+        ...(afterId ? { id: { gt: afterId } } : {}),
+      },
+      select: {
+        id: true,
+        apiType: true,
+        responseData: true,
+        responseDataEncrypted: true,
+        encryptionKeyId: true,
+      },
+      orderBy: { id: 'asc' },
+      take,
+    });
+  }
+
+  async updateCacheEntryEncryption(
+    id: string,
+    data: { responseData: any; responseDataEncrypted: string; encryptionKeyId: string },
+  ): Promise<void> {
+    await this.prisma.govResponseCache.update({
+      where: { id },
+      data: {
+        responseData: data.responseData as Prisma.JsonObject,
+        responseDataEncrypted: data.responseDataEncrypted,
+        encryptionKeyId: data.encryptionKeyId,
+      },
+    });
+  }
+
+  /**
+   * Queued gov payloads whose ciphertext does not carry the `activeKeyId` prefix.
+   */
+  async findVerificationPayloadsForReEncryption(
+    activeKeyId: string,
+    take: number,
+    afterId?: string,
+  ): Promise<Pick<VerificationQueue, 'id' | 'requestData'>[]> {
+    return this.prisma.$queryRaw<Pick<VerificationQueue, 'id' | 'requestData'>[]>`
+      SELECT id, request_data AS "requestData"
+      FROM verification_queue
+      WHERE request_data->>'payload' IS NOT NULL
+        AND request_data->>'payload' NOT LIKE ${`${activeKeyId}:%`}
+        AND id > ${afterId ?? '00000000-0000-0000-0000-000000000000'}::uuid
+      ORDER BY id
+      LIMIT ${take}
+    `;
+  }
+
+  async updateVerificationPayload(id: string, expectedPayload: string, payload: string): Promise<boolean> {
+    // The worker may have rewritten request data in the meantime; only swap the ciphertext that was read.
+    const updated = await this.prisma.$executeRaw`
+      UPDATE verification_queue
+      SET request_data = jsonb_set(request_data, '{payload}', to_jsonb(${payload}::text))
+      WHERE id = ${id}::uuid AND request_data->>'payload' = ${expectedPayload}
+    `;
+    return updated > 0;
+  }
+
+  /**
+   * Completed results that are not sealed under `activeKeyId`, including raw results stored before sealing.
+   */
+  async findVerificationResultsForReEncryption(
+    activeKeyId: string,
+    take: number,
+    afterId?: string,
+  ): Promise<Pick<VerificationQueue, 'id' | 'requestData' | 'responseData'>[]> {
+    return this.prisma.$queryRaw<Pick<VerificationQueue, 'id' | 'requestData' | 'responseData'>[]>`
+      SELECT id, request_data AS "requestData", response_data AS "responseData"
+      FROM verification_queue
+      WHERE response_data IS NOT NULL
+        AND (response_data->>'encrypted' IS NULL OR response_data->>'encrypted' NOT LIKE ${`${activeKeyId}:%`})
+        AND id > ${afterId ?? '00000000-0000-0000-0000-000000000000'}::uuid
+      ORDER BY id
+      LIMIT ${take}
+    `;
+  }
+
+  async updateVerificationResult(id: string, expectedResult: Prisma.JsonValue, result: SealedGovPayload): Promise<boolean> {
+    // Only replace the result that was read, in case the row was rewritten in the meantime.
+    const updated = await this.prisma.$executeRaw`
+      UPDATE verification_queue
+      SET response_data = ${JSON.stringify(result)}::jsonb
+      WHERE id = ${id}::uuid AND response_data = ${JSON.stringify(expectedResult)}::jsonb
+    `;
+    return updated > 0;
+  }
+
+  async countByEncryptionKey(): Promise<{
+    govApiLogs: Record<string, number>;
+    govResponseCache: Record<string, number>;
+    verificationQueue: Record<string, number>;
+    verificationResults: Record<string, number>;
+  }> {
+    const [logs, cache, queue, results] = await Promise.all([
+      this.prisma.govApiLog.groupBy({ by: ['encryptionKeyId'], _count: { id: true } }),
+      this.prisma.govResponseCache.groupBy({ by: ['encryptionKeyId'], _count: { id: true } }),
+      this.prisma.$queryRaw<{ keyId: string; count: bigint }[]>`
+        SELECT CASE WHEN position(':' IN request_data->>'payload') > 0
+                    THEN split_part(request_data->>'payload', ':', 1)
+                    ELSE 'default' END AS "keyId",
+               COUNT(*)::bigint AS count
+        FROM verification_queue
+        WHERE request_data->>'payload' IS NOT NULL
+        GROUP BY 1
+      `,
+      this.prisma.$queryRaw<{ keyId: string; count: bigint }[]>`
+        SELECT COALESCE(response_data->>'keyId', 'unencrypted') AS "keyId", COUNT(*)::bigint AS count
+        FROM verification_queue
+        WHERE response_data IS NOT NULL
+        GROUP BY 1
+      `,
+    ]);
+
+    return {
+      govApiLogs: Object.fromEntries(logs.map(row => [row.encryptionKeyId ?? 'unencrypted', row._count.id])),
+      govResponseCache: Object.fromEntries(cache.map(row => [row.encryptionKeyId ?? 'unencrypted', row._count.id])),
+      verificationQueue: Object.fromEntries(queue.map(row => [row.keyId, Number(row.count)])),
+      verificationResults: Object.fromEntries(results.map(row => [row.keyId, Number(row.count)])),
+    };
+  }
+
+  async enqueueVerification(data: {
+    entityType: VerificationEntityType;
+    entityId: string;
+    requestedBy: string;
+    verificationType: VerificationType;
+    priority: VerificationPriority;
+    maxRetries: number;
+    requestData: Record<string, any>;
+    startImmediately?: boolean;
+  }): Promise<VerificationQueue> {
+    const now = new Date();
+    return this.prisma.verificationQueue.create({
+      data: {
+        entityType: data.entityType,
+        entityId: data.entityId,
+        requestedBy: data.requestedBy,
+        verificationType: data.verificationType,
+        priority: data.priority,
+        maxRetries: data.maxRetries,
+        requestData: data.requestData as Prisma.JsonObject,
+        scheduledAt: now,
+        ...(data.startImmediately ? { status: VerificationStatus.IN_PROGRESS, startedAt: now } : {}),
+      },
+    });
+  }
+
+  async findEmployerIdByUserId(userId: string): Promise<string | null> {
+    const employer = await this.prisma.employer.findUnique({
+      where: { userId },
+      select: { id: true },
+    });
+    return employer?.id ?? null;
+  }
+
+  async findWorkerNationalId(userId: string): Promise<string | null> {
+    const profile = await this.prisma.workerProfile.findUnique({
+      where: { userId },
+      select: { nationalId: true, deletedAt: true },
+    });
+    return profile && !profile.deletedAt ? profile.nationalId : null;
+  }
+
+  async findEmployerRegistrationByUserId(userId: string): Promise<{ businessRegNo: string; taxId: string } | null> {
+    return this.prisma.employer.findUnique({
+      where: { userId },
+      select: { businessRegNo: true, taxId: true },
+    });
+  }
+
+  async findEmployerOwnerByRegistration(businessRegNo: string, taxId?: string): Promise<string | null> {
+    const employer = await this.prisma.employer.findFirst({
+      where: { OR: taxId ? [{ businessRegNo }, { taxId }] : [{ businessRegNo }] },
+      select: { userId: true },
+    });
+    return employer?.userId ?? null;
+  }
+
+  async findVerificationById(id: string): Promise<VerificationQueue | null> {
+    return this.prisma.verificationQueue.findUnique({
+      where: { id },
+    });
+  }
+
+  /**
+   * Atomically moves up to `limit` due PENDING jobs to IN_PROGRESS, highest priority first.
+   * SKIP LOCKED lets several API instances poll the same table without claiming a job twice.
+   */
+  async claimDueVerifications(limit: number): Promise<VerificationQueue[]> {
+    const now = new Date();
+    const claimed = await this.prisma.$queryRaw<{ id: string }[]>`
+      UPDATE verification_queue
+      SET status = 'IN_PROGRESS', started_at = ${now}
+      WHERE id IN (
+        SELECT id FROM verification_queue
+        WHERE status = 'PENDING' AND (scheduled_at IS NULL OR scheduled_at <= ${now})
+        ORDER BY priority DESC, COALESCE(scheduled_at, created_at) ASC
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id
+    `;
+    if (claimed.length === 0) return [];
+
+    return this.prisma.verificationQueue.findMany({
+      where: { id: { in: claimed.map(row => row.id) } },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async findEducationIdForUser(userId: string, educationId?: string, institutionCode?: string): Promise<string | null> {
+    const education = await this.prisma.workerEducation.findFirst({
+      where: {
+        userId,
+        deletedAt: null,
+        ...(educationId ? { id: educationId } : { institutionCode }),
+      },
+      orderBy: { startDate: 'desc' },
+      select: { id: true },
+    });
+    return education?.id ?? null;
+  }
+
+  /**
+   * Completes the job and transitions the verified entity in one transaction, so a job is never
+   * COMPLETED without its outcome being visible on the profile, employer or education record.
+   * A positive result counts only if `subject` matches the record it is applied to; otherwise it is
+   * applied as a failed verification. Returns the job and the outcome that was applied.
+   */
+  async completeVerification(
+    job: VerificationQueue,
+    responseData: SealedGovPayload,
+    verified: boolean,
+    subject: GovSubject,
+    prepare?: (tx: Prisma.TransactionClient) => Promise<void>,
+  ): Promise<{ job: VerificationQueue; verified: boolean }> {
+    const now = new Date();
+
+    return this.prisma.$transaction(async (tx) => {
+      if (prepare) await prepare(tx);
+
+      verified = verified && await this.subjectMatches(tx, job, subject);
+
+      const completed = await tx.verificationQueue.update({
+        where: { id: job.id },
+        data: {
+          status: VerificationStatus.COMPLETED,
+          responseData: responseData as unknown as Prisma.JsonObject,
+          completedAt: now,
+          errorMessage: null,
+        },
+      });
+
+      if (job.verificationType === VerificationType.IDENTITY && job.entityType === VerificationEntityType.WORKER) {
+        const govVerifyStatus = verified ? GovVerifyStatus.VERIFIED : GovVerifyStatus.REJECTED;
+        await tx.workerProfile.updateMany({
+          where: { userId: job.entityId },
+          data: { govVerifyStatus, govVerifyAt: now },
+        });
+        if (verified) {
+          await tx.workerProfile.updateMany({
+            where: { userId: job.entityId, status: UserStatus.PENDING_VERIFICATION },
+            data: { status: UserStatus.ACTIVE },
+          });
+        }
+        await tx.cvSnapshot.updateMany({
+          where: { userId: job.entityId, isCurrent: true, deletedAt: null },
+          data: { govVerifyStatus, govVerifyAt: now },
+        });
+      }
+
+      if (job.verificationType === VerificationType.BUSINESS && job.entityType === VerificationEntityType.EMPLOYER) {
+        await tx.employer.updateMany({
+          where: { id: job.entityId },
+          data: { verifiedAt: verified ? now : null },
+        });
+        if (verified) {
+          await tx.employer.updateMany({
+            where: { id: job.entityId, status: EmployerStatus.PENDING_VERIFICATION },
+            data: { status: EmployerStatus.ACTIVE },
+          });
+        }
+      }
+
+      if (job.verificationType === VerificationType.EDUCATION && job.entityType === VerificationEntityType.WORKER_EDUCATION) {
+        await tx.workerEducation.updateMany({
+          where: { id: job.entityId },
+          data: { verifiedAt: verified ? now : null },
+        });
+      }
+
+      // Identity and business checks prove who the account holder is; education does not.
+      if (verified && job.requestedBy && job.verificationType !== VerificationType.EDUCATION) {
+        await tx.user.updateMany({
+          where: { id: job.requestedBy },
+          data: { verifiedAt: now },
+        });
+      }
+
+      return { job: completed, verified };
+    });
+  }
+
+  /**
+   * Whether the gov result is about the person or business whose record the job updates.
+   */
+  private async subjectMatches(tx: Prisma.TransactionClient, job: VerificationQueue, subject: GovSubject): Promise<boolean> {
+    if (job.verificationType === VerificationType.BUSINESS) {
+      const employer = await tx.employer.findUnique({
+        where: job.entityType === VerificationEntityType.EMPLOYER ? { id: job.entityId } : { userId: job.entityId },
+        select: { businessRegNo: true },
+      });
+      return sameGovIdentifier(employer?.businessRegNo, subject.businessRegNo);
+    }
+
+    let workerUserId: string | undefined = job.entityId;
+    if (job.entityType === VerificationEntityType.WORKER_EDUCATION) {
+      const education = await tx.workerEducation.findUnique({
+        where: { id: job.entityId },
+        select: { userId: true },
+      });
+      workerUserId = education?.userId;
+    }
+    if (!workerUserId) return false;
+
+    const profile = await tx.workerProfile.findUnique({
+      where: { userId: workerUserId },
+      select: { nationalId: true },
+    });
+    return sameGovIdentifier(profile?.nationalId, subject.nationalId);
+  }
+
+  async scheduleVerificationRetry(
+    id: string,
+    retryCount: number,
+    scheduledAt: Date,
+    errorMessage: string,
+  ): Promise<VerificationQueue> {
+    return this.prisma.verificationQueue.update({
+      where: { id },
+      data: {
+        status: VerificationStatus.PENDING,
+        retryCount,
+        scheduledAt,
+        errorMessage,
+      },
+    });
+  }
+
+  async failVerification(id: string, retryCount: number, errorMessage: string): Promise<VerificationQueue> {
+    return this.prisma.verificationQueue.update({
+      where: { id },
+      data: {
+        status: VerificationStatus.FAILED,
+        retryCount,
+        completedAt: new Date(),
+        errorMessage,
+      },
+    });
+  }
+
+  async releaseStaleVerifications(startedBefore: Date): Promise<number> {
+    const result = await this.prisma.verificationQueue.updateMany({
+      where: {
+        status: VerificationStatus.IN_PROGRESS,
+        startedAt: { lt: startedBefore },
+      },
+      data: { status: VerificationStatus.PENDING, scheduledAt: new Date() },
+    });
+    return result.count;
+  }
+
+  /**
+   * Marks identity verifications older than the cutoff EXPIRED and queues re-verification jobs for
+   * expired workers and employers whose business check is older than its cutoff. Jobs replay the
+   * request of the entity's last completed verification. Returns null if another instance holds the lock.
+   */
+  async sweepExpiredVerifications(params: ReverificationSweepParams): Promise<ReverificationSweepResult | null> {
+    return this.prisma.$transaction(async (tx) => {
+      const [{ locked }] = await tx.$queryRaw<{ locked: boolean }[]>`SELECT pg_try_advisory_xact_lock(${params.lockKey}) AS locked`;
+      if (!locked) return null;
+
+      const now = new Date();
+      const stale = await tx.workerProfile.findMany({
+        where: { govVerifyStatus: GovVerifyStatus.VERIFIED, govVerifyAt: { lt: params.identityCutoff }, deletedAt: null },
+        select: { userId: true },
+        take: params.limit,
+      });
+      const expiredWorkerIds = stale.map(profile => profile.userId);
+
+      if (expiredWorkerIds.length > 0) {
+        await tx.workerProfile.updateMany({
+          where: { userId: { in: expiredWorkerIds } },
+          data: { govVerifyStatus: GovVerifyStatus.EXPIRED },
+        });
+        await tx.cvSnapshot.updateMany({
+          where: { userId: { in: expiredWorkerIds }, isCurrent: true, deletedAt: null },
+          data: { govVerifyStatus: GovVerifyStatus.EXPIRED },
+        });
+      }
+
+      const [expiredWorkers, staleEmployers] = await Promise.all([
+        tx.workerProfile.findMany({
+          where: { govVerifyStatus: GovVerifyStatus.EXPIRED, deletedAt: null },
+          select: { userId: true },
+          orderBy: { govVerifyAt: 'asc' },
+          take: params.limit,
+        }),
+        tx.employer.findMany({
+          where: { status: EmployerStatus.ACTIVE, verifiedAt: { lt: params.businessCutoff }, deletedAt: null },
+          select: { id: true, userId: true },
+          orderBy: { verifiedAt: 'asc' },
+          take: params.limit,
+        }),
+      ]);
+
+      const candidates: ReverificationCandidate[] = [
+        ...expiredWorkers.map(worker => ({
+          userId: worker.userId,
+          entityType: VerificationEntityType.WORKER,
+          entityId: worker.userId,
+          verificationType: VerificationType.IDENTITY,
+        })),
+        ...staleEmployers.map(employer => ({
+          userId: employer.userId,
+          entityType: VerificationEntityType.EMPLOYER,
+          entityId: employer.id,
+          verificationType: VerificationType.BUSINESS,
+        })),
+      ];
+
+      const queued: VerificationQueue[] = [];
+      for (const candidate of candidates) {
+        const recent = await tx.verificationQueue.findFirst({
+          where: {
+            requestedBy: candidate.userId,
+            verificationType: candidate.verificationType,
+            OR: [
+              { status: { in: [VerificationStatus.PENDING, VerificationStatus.IN_PROGRESS] } },
+              { createdAt: { gte: params.retryAfter } },
+            ],
+          },
+          select: { id: true },
+        });
+        if (recent) continue;
+
+        const last = await tx.verificationQueue.findFirst({
+          where: {
+            requestedBy: candidate.userId,
+            verificationType: candidate.verificationType,
+            status: VerificationStatus.COMPLETED,
+            requestData: { not: Prisma.DbNull },
+          },
+          orderBy: { completedAt: 'desc' },
+        });
+        if (!last) continue;
+
+        // Re-verification is system-initiated, so the original caller's IP is not carried over.
+        const requestData = { ...(last.requestData as Prisma.JsonObject) };
+        delete requestData.ipAddress;
+        queued.push(await tx.verificationQueue.create({
+          data: {
+            entityType: candidate.entityType,
+            entityId: candidate.entityId,
+            requestedBy: candidate.userId,
+            verificationType: candidate.verificationType,
+            priority: VerificationPriority.LOW,
+            maxRetries: params.maxRetries,
+            requestData,
+            scheduledAt: now,
+          },
+        }));
+      }
+
+      return { expiredWorkerIds, queued };
+    }, { timeout: 30000 });
+  }
+
   hashRequest(payload: any): string {
     const data = JSON.stringify(payload);
     return createHash('sha256').update(data).digest('hex');
@@ -1,22 +1,55 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import {
+  GovVerifyStatus,
+  Prisma,
+  VerificationEntityType,
+  VerificationQueue,
+  VerificationStatus,
+  VerificationType,
+} from '@prisma/client';
 import { GovIntegrationRepository } from './gov-integration.repository';
 import { GovClientService } from './gov-client.service';
+import { GovCircuitBreakerService, CircuitBreakerStatus } from './gov-circuit-breaker.service';
+import { GovReEncryptionService, ReEncryptionJobStatus } from './gov-re-encryption.service';
+import { isSealedGovPayload, maskGovValue, redactGovPayload, sealGovPayload } from './gov-redaction';
 import { AuditService } from '../auth/audit.service';
+import { PermissionsService } from '../auth/permissions.service';
+import { DomainEventBus } from '../../common/events/domain-event-bus.service';
+import { DomainEvents } from '../../common/events/domain-events';
+import {
+  GOV_API_TYPES,
+  GovSubject,
+  GovVerificationKind,
+  GovVerificationKinds,
+  GovVerificationKindName,
+  ReverificationDefaults,
+  VerificationQueueDefaults,
+  VerificationRequestData,
+  sameGovIdentifier,
+} from './gov-verification.constants';
 import {
   VerifyWorkerDto,
   VerifyEmployerDto,
   VerifyEducationDto,
   GetCacheStatsDto,
   ClearCacheDto,
+  CircuitBreakerOverrideDto,
+  StartReEncryptionDto,
 } from './dto/gov-integration.dto';
 import {
-  WorkerVerificationResponseDto,
-  EmployerVerificationResponseDto,
-  EducationVerificationResponseDto,
   CacheStatsResponseDto,
+  EncryptionStatusResponseDto,
   GovApiLogResponseDto,
+  VerificationJobResponseDto,
 } from './dto/gov-integration-response.dto';
-import { encryptData, decryptData } from '../../common/utils/encryption';
+import { encryptData, decryptData, getActiveKeyId } from '../../common/utils/encryption';
 
 @Injectable()
 export class GovIntegrationService {
@@ -25,129 +58,451 @@ export class GovIntegrationService {
   constructor(
     private readonly repository: GovIntegrationRepository,
     private readonly govClient: GovClientService,
+    private readonly circuitBreaker: GovCircuitBreakerService,
+    private readonly reEncryption: GovReEncryptionService,
     private readonly auditService: AuditService,
+    private readonly permissionsService: PermissionsService,
+    private readonly eventBus: DomainEventBus,
   ) {}
 
   async verifyWorker(
     workerUserId: string,
     dto: VerifyWorkerDto,
     ipAddress: string,
-  ): Promise<WorkerVerificationResponseDto> {
-    const encryptedData = encryptData({
+  ): Promise<VerificationJobResponseDto> {
+    await this.assertOwnNationalId(workerUserId, dto.pinfl);
+
+    return this.enqueueVerification('WORKER_IDENTITY', workerUserId, {
       pinfl: dto.pinfl,
       documentNumber: dto.documentNumber,
-    });
+      documentType: dto.documentType,
+      firstName: dto.firstName,
+      lastName: dto.lastName,
+      birthDate: dto.birthDate,
+    }, ipAddress);
+  }
+
+  async verifyEmployer(
+    employerUserId: string,
+    dto: VerifyEmployerDto,
+    ipAddress: string,
+  ): Promise<VerificationJobResponseDto> {
+    const employer = await this.repository.findEmployerRegistrationByUserId(employerUserId);
+    if (employer) {
+      const taxIdMismatch = dto.taxId !== undefined && !sameGovIdentifier(employer.taxId, dto.taxId);
+      if (!sameGovIdentifier(employer.businessRegNo, dto.businessRegNo) || taxIdMismatch) {
+        throw new BadRequestException({
+          success: false,
+          error: {
+            code: 'GOV_BUSINESS_MISMATCH',
+            message: 'Business registration and tax ID must match your employer profile',
+          },
+        });
+      }
+    } else {
+      const owner = await this.repository.findEmployerOwnerByRegistration(dto.businessRegNo, dto.taxId);
+      if (owner && owner !== employerUserId) {
+        throw new ConflictException({
+          success: false,
+          error: {
+            code: 'BUSINESS_ALREADY_REGISTERED',
+            message: 'This business registration or tax ID is already linked to another account',
+          },
+        });
+      }
+    }
+
+    return this.enqueueVerification('EMPLOYER', employerUserId, {
+      businessRegNo: dto.businessRegNo,
+      companyName: dto.companyName,
+      taxId: dto.taxId,
+    }, ipAddress);
+  }
+
+  async verifyEducation(
+    workerUserId: string,
+    dto: VerifyEducationDto,
+    ipAddress: string,
+  ): Promise<VerificationJobResponseDto> {
+    await this.assertOwnNationalId(workerUserId, dto.pinfl);
+
+    let educationId: string | null = null;
+    if (dto.educationId) {
+      educationId = await this.repository.findEducationIdForUser(workerUserId, dto.educationId);
+      if (!educationId) {
+        throw new NotFoundException({
+          success: false,
+          error: { code: 'EDUCATION_NOT_FOUND', message: 'Education record not found' },
+        });
+      }
+    } else {
+      educationId = await this.repository.findEducationIdForUser(workerUserId, undefined, dto.institutionCode);
+    }
+
+    // Without a matching education record the result is still stored, but nothing is marked verified.
+    const target = educationId
+      ? { entityType: VerificationEntityType.WORKER_EDUCATION, entityId: educationId }
+      : { entityType: VerificationEntityType.WORKER, entityId: workerUserId };
+
+    return this.enqueueVerification('EDUCATION', workerUserId, {
+      pinfl: dto.pinfl,
+      institutionCode: dto.institutionCode,
+      diplomaNumber: dto.diplomaNumber,
+      graduationYear: dto.graduationYear,
+    }, ipAddress, target);
+  }
+
+  async getVerification(userId: string, role: string, verificationId: string): Promise<VerificationJobResponseDto> {
+    const job = await this.repository.findVerificationById(verificationId);
+
+    // Other users' jobs are reported as missing so their existence is not disclosed.
+    const canViewAll = job && job.requestedBy !== userId
+      ? (await this.permissionsService.findMissingPermissions(userId, role, ['gov:manage'])).length === 0
+      : false;
+    if (!job || (job.requestedBy !== userId && !canViewAll)) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'VERIFICATION_NOT_FOUND', message: 'Verification not found' },
+      });
+    }
+
+    return this.mapVerificationToResponse(job);
+  }
 
-    const result = await this.govClient.callGovApi<any>(
-      'WORKER_IDENTITY_VERIFICATION',
-      '/api/v1/verify/worker',
-      {
-        pinfl: dto.pinfl,
-        documentNumber: dto.documentNumber,
-        documentType: dto.documentType,
-        firstName: dto.firstName,
-        lastName: dto.lastName,
-        birthDate: dto.birthDate,
+  /**
+   * Runs one claimed job against the gov API. Failures, including an open circuit breaker, are
+   * rescheduled with exponential backoff until maxRetries is exhausted.
+   */
+  async processVerification(job: VerificationQueue): Promise<void> {
+    const request = job.requestData as unknown as VerificationRequestData;
+    const kind: GovVerificationKind = GovVerificationKinds[request.kind];
+
+    let result: any;
+    try {
+      result = await this.govClient.callGovApi<any>(kind.apiType, kind.endpoint, decryptData(request.payload));
+    } catch (error: any) {
+      await this.handleVerificationFailure(job, kind, request, error.message);
+      return;
+    }
+
+    await this.completeVerification(job, result, result?.verified === true);
+  }
+
+  /**
+   * Calls the gov API synchronously for flows that cannot wait for the queue, such as onboarding.
+   * The job is recorded IN_PROGRESS so its request can be replayed on re-verification; the caller
+   * checks the result and finishes the job with completeVerification.
+   */
+  async verifyImmediately(
+    kindName: GovVerificationKindName,
+    userId: string,
+    payload: Record<string, any>,
+    ipAddress: string,
+  ): Promise<{ job: VerificationQueue; result: any }> {
+    const { job, kind, requestData } = await this.createVerificationJob(kindName, userId, payload, ipAddress, undefined, true);
+
+    try {
+      const result = await this.govClient.callGovApi<any>(kind.apiType, kind.endpoint, payload);
+      return { job, result };
+    } catch (error: any) {
+      await this.repository.failVerification(job.id, job.retryCount, error.message);
+      await this.auditService.log('GOV_VERIFICATION_FAILED', {
+        userId,
+        ipAddress,
+        resourceType: 'VERIFICATION',
+        resourceId: job.id,
+        details: { verificationId: job.id, apiType: kind.apiType, ...requestData.masked, error: error.message },
+      });
+
+      throw new ServiceUnavailableException({
+        success: false,
+        error: {
+          code: 'GOV_SERVICE_UNAVAILABLE',
+          message: 'Government verification service is unavailable. Please try again later.',
+        },
+      });
+    }
+  }
+
+  /**
+   * Stores the gov result and applies the outcome to the verified entity. `prepare` runs first in the
+   * same transaction, letting callers create the entity the outcome is written to.
+   */
+  async completeVerification(
+    job: VerificationQueue,
+    result: any,
+    verified: boolean,
+    prepare?: (tx: Prisma.TransactionClient) => Promise<void>,
+  ): Promise<void> {
+    const request = job.requestData as unknown as VerificationRequestData;
+    const kind: GovVerificationKind = GovVerificationKinds[request.kind];
+
+    // Only the redacted copy of the gov response is kept readable; the original is stored encrypted.
+    ({ verified } = await this.repository.completeVerification(
+      job,
+      sealGovPayload(kind.apiType, result),
+      verified,
+      this.resolveSubject(request, result),
+      prepare,
+    ));
+
+    await this.auditService.log(kind.auditEvent, {
+      userId: job.requestedBy ?? undefined,
+      ipAddress: request.ipAddress,
+      resourceType: 'VERIFICATION',
+      resourceId: job.id,
+      details: {
+        verificationId: job.id,
+        entityType: job.entityType,
+        entityId: job.entityId,
+        ...request.masked,
+        verified,
+        transactionId: result?.transactionId,
+        attempts: job.retryCount + 1,
       },
-    );
+    });
 
-    await this.auditService.log('WORKER_IDENTITY_VERIFICATION', {
-      userId: workerUserId,
-      ipAddress,
+    if (job.requestedBy) {
+      this.eventBus.publish(DomainEvents.GOV_VERIFICATION_FINISHED, {
+        verificationId: job.id,
+        userId: job.requestedBy,
+        verificationType: job.verificationType,
+        status: 'COMPLETED',
+        verified,
+      });
+    }
+  }
+
+  /**
+   * Expires stale identity verifications and queues re-verification for expired workers and
+   * employers. Employers keep their verified status until the re-verification result arrives.
+   */
+  async sweepExpiredVerifications(): Promise<void> {
+    const now = Date.now();
+    const result = await this.repository.sweepExpiredVerifications({
+      identityCutoff: new Date(now - ReverificationDefaults.IDENTITY_VALID_DAYS * 24 * 60 * 60 * 1000),
+      businessCutoff: new Date(now - ReverificationDefaults.BUSINESS_VALID_DAYS * 24 * 60 * 60 * 1000),
+      retryAfter: new Date(now - ReverificationDefaults.RETRY_AFTER),
+      maxRetries: VerificationQueueDefaults.MAX_RETRIES,
+      limit: ReverificationDefaults.BATCH_SIZE,
+      lockKey: ReverificationDefaults.LOCK_KEY,
+    });
+    if (!result) return;
+
+    const queuedFor = new Set(result.queued.map(job => job.requestedBy));
+    for (const userId of result.expiredWorkerIds) {
+      await this.auditService.log('GOV_VERIFICATION_EXPIRED', {
+        resourceType: 'WORKER',
+        resourceId: userId,
+        before: { govVerifyStatus: GovVerifyStatus.VERIFIED },
+        after: { govVerifyStatus: GovVerifyStatus.EXPIRED },
+        details: { verificationType: VerificationType.IDENTITY, reverificationQueued: queuedFor.has(userId) },
+      });
+      this.eventBus.publish(DomainEvents.GOV_VERIFICATION_EXPIRED, {
+        userId,
+        verificationType: VerificationType.IDENTITY,
+        reverificationQueued: queuedFor.has(userId),
+      });
+    }
+
+    for (const job of result.queued) {
+      await this.auditService.log('GOV_REVERIFICATION_QUEUED', {
+        resourceType: 'VERIFICATION',
+        resourceId: job.id,
+        details: {
+          verificationId: job.id,
+          entityType: job.entityType,
+          entityId: job.entityId,
+          verificationType: job.verificationType,
+        },
+      });
+    }
+
+    if (result.expiredWorkerIds.length > 0 || result.queued.length > 0) {
+      this.logger.log(
+        `Expired ${result.expiredWorkerIds.length} verification(s), queued ${result.queued.length} re-verification(s)`,
+      );
+    }
+  }
+
+  /**
+   * Identity results name the person by PINFL (workerId) and business results by registration number
+   * (employerId). Diploma results confirm the PINFL that was sent.
+   */
+  private resolveSubject(request: VerificationRequestData, result: any): GovSubject {
+    switch (request.kind) {
+      case 'WORKER_IDENTITY':
+        return { nationalId: result?.workerId };
+      case 'EMPLOYER':
+        return { businessRegNo: result?.employerId };
+      case 'EDUCATION':
+        return { nationalId: decryptData(request.payload)?.pinfl };
+      default:
+        return {};
+    }
+  }
+
+  private async assertOwnNationalId(workerUserId: string, pinfl: string): Promise<void> {
+    const nationalId = await this.repository.findWorkerNationalId(workerUserId);
+    if (!nationalId) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'WORKER_PROFILE_NOT_FOUND', message: 'Worker profile not found' },
+      });
+    }
+    if (!sameGovIdentifier(nationalId, pinfl)) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'GOV_IDENTITY_MISMATCH', message: 'PINFL does not match your worker profile' },
+      });
+    }
+  }
+
+  private async handleVerificationFailure(
+    job: VerificationQueue,
+    kind: GovVerificationKind,
+    request: VerificationRequestData,
+    errorMessage: string,
+  ): Promise<void> {
+    const retryCount = job.retryCount + 1;
+
+    if (retryCount <= job.maxRetries) {
+      const delay = Math.min(
+        VerificationQueueDefaults.RETRY_DELAY * Math.pow(2, retryCount - 1),
+        VerificationQueueDefaults.MAX_RETRY_DELAY,
+      );
+      await this.repository.scheduleVerificationRetry(job.id, retryCount, new Date(Date.now() + delay), errorMessage);
+      this.logger.warn(`Verification ${job.id} failed (attempt ${retryCount}), retrying in ${delay}ms: ${errorMessage}`);
+      return;
+    }
+
+    await this.repository.failVerification(job.id, retryCount, errorMessage);
+    this.logger.error(`Verification ${job.id} failed permanently after ${retryCount} attempts: ${errorMessage}`);
+
+    await this.auditService.log('GOV_VERIFICATION_FAILED', {
+      userId: job.requestedBy ?? undefined,
+      ipAddress: request.ipAddress,
+      resourceType: 'VERIFICATION',
+      resourceId: job.id,
       details: {
-        pinfl: dto.pinfl.substring(0, 4) + '****',
-        verified: result.verified,
-        transactionId: result.transactionId,
+        verificationId: job.id,
+        apiType: kind.apiType,
+        ...request.masked,
+        attempts: retryCount,
+        error: errorMessage,
       },
     });
 
-    return {
-      success: true,
-      verified: result.verified || false,
-      message: result.message,
-      data: result.data,
-      transactionId: result.transactionId,
-      workerId: result.workerId,
-      fullName: result.fullName,
-      birthDate: result.birthDate,
-      address: result.address,
-    };
+    if (job.requestedBy) {
+      this.eventBus.publish(DomainEvents.GOV_VERIFICATION_FINISHED, {
+        verificationId: job.id,
+        userId: job.requestedBy,
+        verificationType: job.verificationType,
+        status: 'FAILED',
+        verified: false,
+      });
+    }
   }
 
-  async verifyEmployer(
-    employerUserId: string,
-    dto: VerifyEmployerDto,
+  private async enqueueVerification(
+    kindName: GovVerificationKindName,
+    userId: string,
+    payload: Record<string, any>,
     ipAddress: string,
-  ): Promise<EmployerVerificationResponseDto> {
-    const result = await this.govClient.callGovApi<any>(
-      'EMPLOYER_VERIFICATION',
-      '/api/v1/verify/employer',
-      {
-        businessRegNo: dto.businessRegNo,
-        companyName: dto.companyName,
-        taxId: dto.taxId,
-      },
-    );
+    target?: { entityType: VerificationEntityType; entityId: string },
+  ): Promise<VerificationJobResponseDto> {
+    const { job, kind, requestData } = await this.createVerificationJob(kindName, userId, payload, ipAddress, target);
 
-    await this.auditService.log('EMPLOYER_VERIFICATION', {
-      userId: employerUserId,
+    await this.auditService.log('GOV_VERIFICATION_QUEUED', {
+      userId,
       ipAddress,
-      details: {
-        businessRegNo: dto.businessRegNo.substring(0, 4) + '****',
-        verified: result.verified,
-        transactionId: result.transactionId,
-      },
+      resourceType: 'VERIFICATION',
+      resourceId: job.id,
+      details: { verificationId: job.id, apiType: kind.apiType, priority: job.priority, ...requestData.masked },
     });
 
-    return {
-      success: true,
-      verified: result.verified || false,
-      message: result.message,
-      data: result.data,
-      transactionId: result.transactionId,
-      employerId: result.employerId,
-      companyName: result.companyName,
-      registrationDate: result.registrationDate,
-      status: result.status,
-    };
+    return this.mapVerificationToResponse(job);
   }
 
-  async verifyEducation(
-    workerUserId: string,
-    dto: VerifyEducationDto,
+  private async createVerificationJob(
+    kindName: GovVerificationKindName,
+    userId: string,
+    payload: Record<string, any>,
     ipAddress: string,
-  ): Promise<EducationVerificationResponseDto> {
-    const result = await this.govClient.callGovApi<any>(
-      'EDUCATION_VERIFICATION',
-      '/api/v1/verify/education',
-      {
-        pinfl: dto.pinfl,
-        institutionCode: dto.institutionCode,
-        diplomaNumber: dto.diplomaNumber,
-        graduationYear: dto.graduationYear,
-      },
-    );
+    target?: { entityType: VerificationEntityType; entityId: string },
+    startImmediately = false,
+  ): Promise<{ job: VerificationQueue; kind: GovVerificationKind; requestData: VerificationRequestData }> {
+    const kind: GovVerificationKind = GovVerificationKinds[kindName];
 
-    await this.auditService.log('EDUCATION_VERIFICATION', {
-      userId: workerUserId,
+    let entityType = target?.entityType ?? kind.entityType;
+    let entityId = target?.entityId ?? userId;
+    if (!target && entityType === VerificationEntityType.EMPLOYER) {
+      // Employers verify before onboarding too; until the Employer row exists the job targets the user.
+      const employerId = await this.repository.findEmployerIdByUserId(userId);
+      entityType = employerId ? VerificationEntityType.EMPLOYER : VerificationEntityType.USER;
+      entityId = employerId ?? userId;
+    }
+
+    const requestData: VerificationRequestData = {
+      kind: kindName,
+      payload: encryptData(payload),
+      masked: Object.fromEntries(
+        kind.maskedFields.map(field => [field, maskGovValue(payload[field])]),
+      ),
       ipAddress,
-      details: {
-        pinfl: dto.pinfl.substring(0, 4) + '****',
-        diplomaNumber: dto.diplomaNumber.substring(0, 4) + '****',
-        verified: result.verified,
-        transactionId: result.transactionId,
-      },
+    };
+
+    const job = await this.repository.enqueueVerification({
+      entityType,
+      entityId,
+      requestedBy: userId,
+      verificationType: kind.verificationType,
+      priority: kind.priority,
+      maxRetries: VerificationQueueDefaults.MAX_RETRIES,
+      requestData: requestData as unknown as Record<string, any>,
+      startImmediately,
     });
 
+    return { job, kind, requestData };
+  }
+
+  private mapVerificationToResponse(job: VerificationQueue): VerificationJobResponseDto {
+    const request = job.requestData as unknown as VerificationRequestData | null;
+    const kind: GovVerificationKind | undefined = request ? GovVerificationKinds[request.kind] : undefined;
+    const response = (isSealedGovPayload(job.responseData)
+      ? job.responseData.redacted
+      : job.responseData && redactGovPayload(kind?.apiType ?? '', job.responseData)) as Record<string, any> | null;
+
+    let stage: string = job.status;
+    if (job.status === VerificationStatus.PENDING) {
+      stage = job.retryCount > 0 ? 'RETRY_SCHEDULED' : 'QUEUED';
+    } else if (job.status === VerificationStatus.IN_PROGRESS) {
+      stage = 'PROCESSING';
+    }
+
     return {
-      success: true,
-      verified: result.verified || false,
-      message: result.message,
-      data: result.data,
-      transactionId: result.transactionId,
-      institutionName: result.institutionName,
-      degree: result.degree,
-      graduationYear: result.graduationYear,
+      id: job.id,
+      verificationType: job.verificationType,
+      status: job.status,
+      stage,
+      priority: job.priority,
+      retryCount: job.retryCount,
+      maxRetries: job.maxRetries,
+      nextAttemptAt: job.status === VerificationStatus.PENDING ? job.scheduledAt || undefined : undefined,
+      startedAt: job.startedAt || undefined,
+      completedAt: job.completedAt || undefined,
+      errorMessage: job.errorMessage || undefined,
+      result: response
+        ? {
+          success: true,
+          verified: response.verified || false,
+          message: response.message,
+          data: response.data,
+          transactionId: response.transactionId,
+          ...Object.fromEntries((kind?.resultFields || []).map(field => [field, response[field]])),
+        }
+        : undefined,
+      createdAt: job.createdAt,
     };
   }
 
@@ -197,6 +552,7 @@ export class GovIntegrationService {
         responseTimeMs: log.responseTimeMs,
         status: log.status,
         retryCount: log.retryCount,
+        encryptionKeyId: log.encryptionKeyId || undefined,
         createdAt: log.createdAt,
       })),
       totalCount: result.totalCount,
@@ -206,7 +562,92 @@ export class GovIntegrationService {
     };
   }
 
-  getCircuitBreakerStatus() {
-    return this.govClient.getCircuitBreakerStatus();
+  async getCircuitBreakerStatus(): Promise<CircuitBreakerStatus[]> {
+    return this.circuitBreaker.getStatus(GOV_API_TYPES);
+  }
+
+  async getCircuitBreakerMetrics(): Promise<string> {
+    return this.circuitBreaker.getMetrics(GOV_API_TYPES);
+  }
+
+  async overrideCircuitBreaker(
+    apiType: string,
+    override: 'OPEN' | 'CLOSED',
+    dto: CircuitBreakerOverrideDto,
+    userId: string,
+    ipAddress: string,
+  ): Promise<CircuitBreakerStatus> {
+    const before = await this.findCircuitBreaker(apiType);
+    const until = dto.durationMinutes ? new Date(Date.now() + dto.durationMinutes * 60 * 1000) : undefined;
+    const state = await this.circuitBreaker.setOverride(apiType, override, userId, dto.reason, until);
+
+    await this.auditService.log(`GOV_CIRCUIT_BREAKER_FORCED_${override}`, {
+      userId,
+      ipAddress,
+      resourceType: 'CIRCUIT_BREAKER',
+      reason: dto.reason,
+      before: { state: before.state },
+      after: { state },
+      details: { apiType, until: until?.toISOString() },
+    });
+
+    return this.findCircuitBreaker(apiType);
+  }
+
+  async clearCircuitBreakerOverride(apiType: string, userId: string, ipAddress: string): Promise<CircuitBreakerStatus> {
+    const before = await this.findCircuitBreaker(apiType);
+    const state = await this.circuitBreaker.setOverride(apiType, null, userId);
+
+    await this.auditService.log('GOV_CIRCUIT_BREAKER_RESET', {
+      userId,
+      ipAddress,
+      resourceType: 'CIRCUIT_BREAKER',
+      before: { state: before.state },
+      after: { state },
+      details: { apiType },
+    });
+
+    return this.findCircuitBreaker(apiType);
+  }
+
+  async getEncryptionStatus(): Promise<EncryptionStatusResponseDto> {
+    const [keys, lastJob] = await Promise.all([
+      this.repository.countByEncryptionKey(),
+      this.reEncryption.getLastJob(),
+    ]);
+
+    return {
+      activeKeyId: getActiveKeyId(),
+      keys,
+      lastJob: lastJob || undefined,
+    };
+  }
+
+  async startReEncryption(dto: StartReEncryptionDto, userId: string, ipAddress: string): Promise<ReEncryptionJobStatus> {
+    const job = await this.reEncryption.start(userId, dto.reason, dto.batchSize);
+
+    await this.auditService.log('GOV_RE_ENCRYPTION_STARTED', {
+      userId,
+      ipAddress,
+      resourceType: 'GOV_ENCRYPTION',
+      resourceId: job.jobId,
+      reason: dto.reason,
+      details: { keyId: job.keyId, batchSize: dto.batchSize },
+    });
+
+    return job;
+  }
+
+  private async findCircuitBreaker(apiType: string): Promise<CircuitBreakerStatus> {
+    const status = GOV_API_TYPES.includes(apiType)
+      ? (await this.circuitBreaker.getStatus([apiType])).find(breaker => breaker.apiType === apiType)
+      : undefined;
+    if (!status) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'CIRCUIT_BREAKER_NOT_FOUND', message: `Unknown gov API type ${apiType}` },
+      });
+    }
+    return status;
   }
 }
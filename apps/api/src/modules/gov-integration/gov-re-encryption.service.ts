@@ -0,0 +1,278 @@
+import { ConflictException, Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { GovIntegrationRepository } from './gov-integration.repository';
+import { AuditService } from '../auth/audit.service';
+import { RedisService } from '../../redis/redis.service';
+import { decryptData, getActiveKeyId, reEncryptData } from '../../common/utils/encryption';
+import { isSealedGovPayload, redactGovPayload, sealGovPayload } from './gov-redaction';
+import { GovVerificationKinds, VerificationRequestData } from './gov-verification.constants';
+
+const LOCK_KEY = 'gov:re-encryption:lock';
+const STATUS_KEY = 'gov:re-encryption:status';
+// Refreshed after every batch, so a crashed instance frees the job within this window.
+const LOCK_TTL = 120;
+const STATUS_TTL = 7 * 24 * 60 * 60;
+const DEFAULT_BATCH_SIZE = 100;
+
+export type ReEncryptionTarget = 'govApiLogs' | 'govResponseCache' | 'verificationQueue' | 'verificationResults';
+
+export interface ReEncryptionJobStatus {
+  jobId: string;
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED' | 'INTERRUPTED';
+  keyId: string;
+  startedBy: string;
+  reason: string;
+  startedAt: string;
+  finishedAt?: string;
+  expiredCacheEntriesDeleted: number;
+  progress: Record<ReEncryptionTarget, { reEncrypted: number; failed: number }>;
+  error?: string;
+}
+
+const RELEASE_LOCK_SCRIPT = `
+  if redis.call("get", KEYS[1]) == ARGV[1] then
+    return redis.call("del", KEYS[1])
+  end
+  return 0
+`;
+
+const REFRESH_LOCK_SCRIPT = `
+  if redis.call("get", KEYS[1]) == ARGV[1] then
+    return redis.call("expire", KEYS[1], ARGV[2])
+  end
+  return 0
+`;
+
+/**
+ * Moves encrypted gov data onto the active key (ENCRYPTION_KEY_ID) so retired keys can be removed. Rows written
+ * before encryption are redacted and encrypted on the way. One job runs at a time across instances.
+ */
+@Injectable()
+export class GovReEncryptionService implements OnModuleDestroy {
+  private readonly logger = new Logger(GovReEncryptionService.name);
+  private stopping = false;
+
+  constructor(
+    private readonly repository: GovIntegrationRepository,
+    private readonly auditService: AuditService,
+    private readonly redisService: RedisService,
+  ) {}
+
+  onModuleDestroy() {
+    this.stopping = true;
+  }
+
+  async start(userId: string, reason: string, batchSize = DEFAULT_BATCH_SIZE): Promise<ReEncryptionJobStatus> {
+    const redis = this.redisService.getClient();
+    const jobId = randomUUID();
+
+    const acquired = await redis.set(LOCK_KEY, jobId, 'EX', LOCK_TTL, 'NX');
+    if (acquired !== 'OK') {
+      throw new ConflictException({
+        success: false,
+        error: { code: 'RE_ENCRYPTION_IN_PROGRESS', message: 'A re-encryption job is already running' },
+      });
+    }
+
+    const job: ReEncryptionJobStatus = {
+      jobId,
+      status: 'RUNNING',
+      keyId: getActiveKeyId(),
+      startedBy: userId,
+      reason,
+      startedAt: new Date().toISOString(),
+      expiredCacheEntriesDeleted: 0,
+      progress: {
+        govApiLogs: { reEncrypted: 0, failed: 0 },
+        govResponseCache: { reEncrypted: 0, failed: 0 },
+        verificationQueue: { reEncrypted: 0, failed: 0 },
+        verificationResults: { reEncrypted: 0, failed: 0 },
+      },
+    };
+    await this.saveStatus(job);
+
+    this.run(job, batchSize).catch((error: any) => {
+      this.logger.error(`Re-encryption job ${job.jobId} could not record its outcome: ${error.message}`, error.stack);
+    });
+    return job;
+  }
+
+  async getLastJob(): Promise<ReEncryptionJobStatus | null> {
+    const redis = this.redisService.getClient();
+    const [raw, lockOwner] = await Promise.all([redis.get(STATUS_KEY), redis.get(LOCK_KEY)]);
+    if (!raw) return null;
+
+    const job = JSON.parse(raw) as ReEncryptionJobStatus;
+    // The instance running the job stopped before it could record the outcome.
+    if (job.status === 'RUNNING' && lockOwner !== job.jobId) {
+      job.status = 'INTERRUPTED';
+    }
+    return job;
+  }
+
+  private async run(job: ReEncryptionJobStatus, batchSize: number): Promise<void> {
+    try {
+      await this.reEncryptGovApiLogs(job, batchSize);
+      job.expiredCacheEntriesDeleted = await this.repository.deleteExpiredCacheEntriesForReEncryption(job.keyId);
+      await this.reEncryptCacheEntries(job, batchSize);
+      await this.reEncryptVerificationPayloads(job, batchSize);
+      await this.reEncryptVerificationResults(job, batchSize);
+      job.status = this.stopping ? 'INTERRUPTED' : 'COMPLETED';
+    } catch (error: any) {
+      this.logger.error(`Re-encryption job ${job.jobId} failed: ${error.message}`, error.stack);
+      job.status = 'FAILED';
+      job.error = error.message;
+    }
+
+    job.finishedAt = new Date().toISOString();
+    await this.saveStatus(job).catch(() => undefined);
+    await this.redisService.getClient().eval(RELEASE_LOCK_SCRIPT, 1, LOCK_KEY, job.jobId).catch(() => undefined);
+
+    await this.auditService.log(`GOV_RE_ENCRYPTION_${job.status}`, {
+      userId: job.startedBy,
+      resourceType: 'GOV_ENCRYPTION',
+      resourceId: job.jobId,
+      reason: job.reason,
+      details: {
+        keyId: job.keyId,
+        expiredCacheEntriesDeleted: job.expiredCacheEntriesDeleted,
+        progress: job.progress,
+        error: job.error,
+      },
+    });
+  }
+
+  private async reEncryptGovApiLogs(job: ReEncryptionJobStatus, batchSize: number): Promise<void> {
+    let afterId: string | undefined;
+    while (await this.continueJob(job)) {
+      const rows = await this.repository.findGovApiLogsForReEncryption(job.keyId, batchSize, afterId);
+      if (rows.length === 0) return;
+
+      for (const row of rows) {
+        try {
+          // Rows from before encryption still hold the raw payloads in the JSON columns.
+          const request = row.requestPayloadEncrypted ? decryptData(row.requestPayloadEncrypted) : row.requestPayload;
+          const sealedRequest = sealGovPayload(row.apiType, request);
+
+          let response: { redacted: unknown; encrypted: string } | undefined;
+          if (row.responseBodyEncrypted) {
+            response = { redacted: row.responseBody, encrypted: reEncryptData(row.responseBodyEncrypted) };
+          } else if (row.responseBody !== null) {
+            response = sealGovPayload(row.apiType, row.responseBody);
+          }
+
+          await this.repository.updateGovApiLogEncryption(row.id, {
+            requestPayload: row.requestPayloadEncrypted ? row.requestPayload : sealedRequest.redacted,
+            requestPayloadEncrypted: sealedRequest.encrypted,
+            responseBody: response?.redacted,
+            responseBodyEncrypted: response?.encrypted,
+            encryptionKeyId: sealedRequest.keyId,
+          });
+          job.progress.govApiLogs.reEncrypted++;
+        } catch (error: any) {
+          job.progress.govApiLogs.failed++;
+          this.logger.warn(`Could not re-encrypt gov API log ${row.id}: ${error.message}`);
+        }
+      }
+
+      afterId = rows[rows.length - 1].id;
+      await this.saveStatus(job);
+    }
+  }
+
+  private async reEncryptCacheEntries(job: ReEncryptionJobStatus, batchSize: number): Promise<void> {
+    let afterId: string | undefined;
+    while (await this.continueJob(job)) {
+      const rows = await this.repository.findCacheEntriesForReEncryption(job.keyId, batchSize, afterId);
+      if (rows.length === 0) return;
+
+      for (const row of rows) {
+        try {
+          const encrypted = row.responseDataEncrypted
+            ? reEncryptData(row.responseDataEncrypted)
+            : sealGovPayload(row.apiType, row.responseData).encrypted;
+
+          await this.repository.updateCacheEntryEncryption(row.id, {
+            responseData: row.responseDataEncrypted ? row.responseData : redactGovPayload(row.apiType, row.responseData),
+            responseDataEncrypted: encrypted,
+            encryptionKeyId: job.keyId,
+          });
+          job.progress.govResponseCache.reEncrypted++;
+        } catch (error: any) {
+          job.progress.govResponseCache.failed++;
+          this.logger.warn(`Could not re-encrypt gov cache entry ${row.id}: ${error.message}`);
+        }
+      }
+
+      afterId = rows[rows.length - 1].id;
+      await this.saveStatus(job);
+    }
+  }
+
+  private async reEncryptVerificationPayloads(job: ReEncryptionJobStatus, batchSize: number): Promise<void> {
+    let afterId: string | undefined;
+    while (await this.continueJob(job)) {
+      const rows = await this.repository.findVerificationPayloadsForReEncryption(job.keyId, batchSize, afterId);
+      if (rows.length === 0) return;
+
+      for (const row of rows) {
+        const { payload } = row.requestData as unknown as VerificationRequestData;
+        try {
+          if (await this.repository.updateVerificationPayload(row.id, payload, reEncryptData(payload))) {
+            job.progress.verificationQueue.reEncrypted++;
+          }
+        } catch (error: any) {
+          job.progress.verificationQueue.failed++;
+          this.logger.warn(`Could not re-encrypt verification payload ${row.id}: ${error.message}`);
+        }
+      }
+
+      afterId = rows[rows.length - 1].id;
+      await this.saveStatus(job);
+    }
+  }
+
+  private async reEncryptVerificationResults(job: ReEncryptionJobStatus, batchSize: number): Promise<void> {
+    let afterId: string | undefined;
+    while (await this.continueJob(job)) {
+      const rows = await this.repository.findVerificationResultsForReEncryption(job.keyId, batchSize, afterId);
+      if (rows.length === 0) return;
+
+      for (const row of rows) {
+        const request = row.requestData as unknown as VerificationRequestData | null;
+        const apiType = request ? GovVerificationKinds[request.kind].apiType : '';
+        try {
+          // Results completed before sealing still hold the raw gov response.
+          const sealed = isSealedGovPayload(row.responseData)
+            ? { redacted: row.responseData.redacted, encrypted: reEncryptData(row.responseData.encrypted), keyId: job.keyId }
+            : sealGovPayload(apiType, row.responseData);
+
+          if (await this.repository.updateVerificationResult(row.id, row.responseData, sealed)) {
+            job.progress.verificationResults.reEncrypted++;
+          }
+        } catch (error: any) {
+          job.progress.verificationResults.failed++;
+          this.logger.warn(`Could not re-encrypt verification result ${row.id}: ${error.message}`);
+        }
+      }
+
+      afterId = rows[rows.length - 1].id;
+      await this.saveStatus(job);
+    }
+  }
+
+  private async continueJob(job: ReEncryptionJobStatus): Promise<boolean> {
+    if (this.stopping) return false;
+
+    const refreshed = await this.redisService.getClient()
+      .eval(REFRESH_LOCK_SCRIPT, 1, LOCK_KEY, job.jobId, LOCK_TTL);
+    if (refreshed !== 1) {
+      throw new Error('Re-encryption lock was lost');
+    }
+    return true;
+  }
+
+  private async saveStatus(job: ReEncryptionJobStatus): Promise<void> {
+    await this.redisService.getClient().set(STATUS_KEY, JSON.stringify(job), 'EX', STATUS_TTL);
+  }
+}
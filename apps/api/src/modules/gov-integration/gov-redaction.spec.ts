@@ -0,0 +1,99 @@
+import { decryptData } from '../../common/utils/encryption';
+import { REDACTED, isSealedGovPayload, maskGovValue, redactGovPayload, sealGovPayload } from './gov-redaction';
+
+const IDENTITY = 'WORKER_IDENTITY_VERIFICATION';
+const EMPLOYER = 'EMPLOYER_VERIFICATION';
+
+describe('redactGovPayload', () => {
+  it('applies the baseline rules at any depth', () => {
+    const redacted = redactGovPayload(IDENTITY, {
+      verified: true,
+      transactionId: 'tx-1',
+      data: {
+        pinfl: '12345678901234',
+        firstName: 'Aziz',
+        fullName: 'Aziz Karimov',
+        birthDate: '1990-05-01',
+        address: { city: 'Tashkent' },
+        phone: '+998901234567',
+      },
+    });
+
+    expect(redacted).toEqual({
+      verified: true,
+      transactionId: 'tx-1',
+      data: {
+        pinfl: '1234****',
+        firstName: 'A.',
+        fullName: 'A. K.',
+        birthDate: '1990',
+        address: REDACTED,
+        phone: REDACTED,
+      },
+    });
+  });
+
+  it('applies the rules of the apiType', () => {
+    const payload = { workerId: '12345678901234', taxId: '123456789', directorName: 'Olim Nazarov' };
+
+    expect(redactGovPayload(IDENTITY, payload)).toEqual({ ...payload, workerId: '1234****' });
+    expect(redactGovPayload(EMPLOYER, payload)).toEqual({
+      workerId: payload.workerId,
+      taxId: '1234****',
+      directorName: 'O. N.',
+    });
+  });
+
+  it('redacts inside arrays and keeps null values', () => {
+    expect(redactGovPayload(IDENTITY, [{ pinfl: null }, { pinfl: '98765432109876' }])).toEqual([
+      { pinfl: null },
+      { pinfl: '9876****' },
+    ]);
+  });
+
+  it('replaces nested objects under a masked key', () => {
+    expect(redactGovPayload(IDENTITY, { pinfl: { value: '1' } })).toEqual({ pinfl: REDACTED });
+  });
+
+  it('does not modify the input', () => {
+    const payload = { pinfl: '12345678901234' };
+    redactGovPayload(IDENTITY, payload);
+    expect(payload.pinfl).toBe('12345678901234');
+  });
+});
+
+describe('maskGovValue', () => {
+  it('keeps the first four characters', () => {
+    expect(maskGovValue('12345678')).toBe('1234****');
+    expect(maskGovValue(null)).toBe('****');
+  });
+});
+
+describe('sealGovPayload', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env, ENCRYPTION_KEY: 'k'.repeat(32) };
+    delete process.env.ENCRYPTION_KEY_ID;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('keeps the original only in the encrypted copy', () => {
+    const payload = { verified: true, data: { pinfl: '12345678901234' } };
+    const sealed = sealGovPayload(IDENTITY, payload);
+
+    expect(sealed.redacted).toEqual({ verified: true, data: { pinfl: '1234****' } });
+    expect(sealed.encrypted).not.toContain('12345678901234');
+    expect(sealed.keyId).toBe('default');
+    expect(decryptData(sealed.encrypted)).toEqual(payload);
+    expect(isSealedGovPayload(sealed)).toBe(true);
+  });
+
+  it('tells sealed results from raw gov responses', () => {
+    expect(isSealedGovPayload({ verified: true, data: {} })).toBe(false);
+    expect(isSealedGovPayload(null)).toBe(false);
+  });
+});
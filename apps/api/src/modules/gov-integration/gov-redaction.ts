@@ -0,0 +1,110 @@
+import { encryptData, getEncryptionKeyId } from '../../common/utils/encryption';
+
+export type RedactionStrategy = 'MASK' | 'INITIALS' | 'YEAR' | 'REMOVE';
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Personal fields that are redacted for every apiType. Rules match by key at any depth, because gov
+ * responses nest the person under `data`.
+ */
+const BASELINE_RULES: Record<string, RedactionStrategy> = {
+  pinfl: 'MASK',
+  documentNumber: 'MASK',
+  passportNumber: 'MASK',
+  firstName: 'INITIALS',
+  lastName: 'INITIALS',
+  middleName: 'INITIALS',
+  fullName: 'INITIALS',
+  birthDate: 'YEAR',
+  address: 'REMOVE',
+  permanentAddress: 'REMOVE',
+  currentAddress: 'REMOVE',
+  phone: 'REMOVE',
+  email: 'REMOVE',
+};
+
+export const GovRedactionRules: Record<string, Record<string, RedactionStrategy>> = {
+  WORKER_IDENTITY_VERIFICATION: {
+    workerId: 'MASK',
+  },
+  EMPLOYER_VERIFICATION: {
+    taxId: 'MASK',
+    directorName: 'INITIALS',
+    directorPinfl: 'MASK',
+  },
+  EDUCATION_VERIFICATION: {
+    diplomaNumber: 'MASK',
+  },
+};
+
+export function maskGovValue(value: unknown): string {
+  return String(value ?? '').substring(0, 4) + '****';
+}
+
+function applyStrategy(strategy: RedactionStrategy, value: unknown): unknown {
+  if (value === null || value === undefined) return value;
+  if (typeof value === 'object' && strategy !== 'REMOVE') return REDACTED;
+
+  switch (strategy) {
+    case 'MASK':
+      return maskGovValue(value);
+    case 'INITIALS':
+      return String(value)
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(part => `${part.charAt(0)}.`)
+        .join(' ');
+    case 'YEAR': {
+      const year = /^\d{4}/.exec(String(value));
+      return year ? year[0] : REDACTED;
+    }
+    default:
+      return REDACTED;
+  }
+}
+
+function redactValue(value: unknown, rules: Record<string, RedactionStrategy>): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, rules));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        rules[key] ? applyStrategy(rules[key], item) : redactValue(item, rules),
+      ]),
+    );
+  }
+  return value;
+}
+
+export function redactGovPayload<T = unknown>(apiType: string, data: T): T {
+  return redactValue(data, { ...BASELINE_RULES, ...GovRedactionRules[apiType] }) as T;
+}
+
+export interface SealedGovPayload {
+  redacted: unknown;
+  encrypted: string;
+  keyId: string;
+}
+
+/**
+ * The redacted copy is what gets stored in plain JSON; the original is only kept encrypted.
+ */
+export function sealGovPayload(apiType: string, data: unknown): SealedGovPayload {
+  const encrypted = encryptData(data ?? null);
+  return {
+    redacted: redactGovPayload(apiType, data),
+    encrypted,
+    keyId: getEncryptionKeyId(encrypted),
+  };
+}
+
+/**
+ * Verification results completed before sealing hold the raw gov response instead of a SealedGovPayload.
+ */
+export function isSealedGovPayload(value: unknown): value is SealedGovPayload {
+  return !!value && typeof value === 'object' && typeof (value as SealedGovPayload).encrypted === 'string'
+    && typeof (value as SealedGovPayload).keyId === 'string' && 'redacted' in value;
+}
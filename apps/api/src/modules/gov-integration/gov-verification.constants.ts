@@ -0,0 +1,94 @@
+import { VerificationEntityType, VerificationPriority, VerificationType } from '@prisma/client';
+
+export const VerificationQueueDefaults = {
+  POLL_INTERVAL: 2000,
+  CONCURRENCY: 2,
+  MAX_RETRIES: 3,
+  RETRY_DELAY: 30000,
+  MAX_RETRY_DELAY: 15 * 60 * 1000,
+  // IN_PROGRESS jobs older than this were abandoned by a stopped worker and are queued again.
+  STALE_AFTER: 5 * 60 * 1000,
+} as const;
+
+export const ReverificationDefaults = {
+  SWEEP_INTERVAL: 60 * 60 * 1000,
+  BATCH_SIZE: 50,
+  IDENTITY_VALID_DAYS: 365,
+  BUSINESS_VALID_DAYS: 365,
+  // An entity is not re-queued while a job for it exists that was created within this window.
+  RETRY_AFTER: 24 * 60 * 60 * 1000,
+  // Serialises the sweep across API instances.
+  LOCK_KEY: 720_120_001,
+} as const;
+
+export interface GovVerificationKind {
+  apiType: string;
+  endpoint: string;
+  entityType: VerificationEntityType;
+  verificationType: VerificationType;
+  priority: VerificationPriority;
+  auditEvent: string;
+  maskedFields: string[];
+  resultFields: string[];
+}
+
+export const GovVerificationKinds = {
+  WORKER_IDENTITY: {
+    apiType: 'WORKER_IDENTITY_VERIFICATION',
+    endpoint: '/api/v1/verify/worker',
+    entityType: VerificationEntityType.WORKER,
+    verificationType: VerificationType.IDENTITY,
+    priority: VerificationPriority.HIGH,
+    auditEvent: 'WORKER_IDENTITY_VERIFICATION',
+    maskedFields: ['pinfl'],
+    resultFields: ['workerId', 'fullName', 'birthDate', 'address'],
+  },
+  EMPLOYER: {
+    apiType: 'EMPLOYER_VERIFICATION',
+    endpoint: '/api/v1/verify/employer',
+    entityType: VerificationEntityType.EMPLOYER,
+    verificationType: VerificationType.BUSINESS,
+    priority: VerificationPriority.HIGH,
+    auditEvent: 'EMPLOYER_VERIFICATION',
+    maskedFields: ['businessRegNo'],
+    resultFields: ['employerId', 'companyName', 'registrationDate', 'status'],
+  },
+  EDUCATION: {
+    apiType: 'EDUCATION_VERIFICATION',
+    endpoint: '/api/v1/verify/education',
+    entityType: VerificationEntityType.WORKER_EDUCATION,
+    verificationType: VerificationType.EDUCATION,
+    priority: VerificationPriority.NORMAL,
+    auditEvent: 'EDUCATION_VERIFICATION',
+    maskedFields: ['pinfl', 'diplomaNumber'],
+    resultFields: ['institutionName', 'degree', 'graduationYear'],
+  },
+} satisfies Record<string, GovVerificationKind>;
+
+export type GovVerificationKindName = keyof typeof GovVerificationKinds;
+
+export const GOV_API_TYPES: string[] = Object.values(GovVerificationKinds).map(kind => kind.apiType);
+
+/**
+ * Shape of VerificationQueue.requestData. The gov payload holds PINFL and document numbers, so it is
+ * stored encrypted and only decrypted by the worker that sends it.
+ */
+export interface VerificationRequestData {
+  kind: GovVerificationKindName;
+  payload: string;
+  masked: Record<string, string>;
+  ipAddress?: string;
+}
+
+/**
+ * Who a gov result is about: a person's PINFL or a business registration number. A result is only applied
+ * to a record that carries the same identifier.
+ */
+export interface GovSubject {
+  nationalId?: string;
+  businessRegNo?: string;
+}
+
+export function sameGovIdentifier(a: unknown, b: unknown): boolean {
+  return typeof a === 'string' && typeof b === 'string' && a.trim().toUpperCase() === b.trim().toUpperCase();
+}
@@ -0,0 +1,86 @@
+import { Injectable, Logger, OnModuleInit, OnApplicationShutdown } from '@nestjs/common';
+import { VerificationQueue } from '@prisma/client';
+import { GovIntegrationRepository } from './gov-integration.repository';
+import { GovIntegrationService } from './gov-integration.service';
+import { ReverificationDefaults, VerificationQueueDefaults } from './gov-verification.constants';
+
+/**
+ * Polls verification_queue for due jobs. Jobs are claimed with SKIP LOCKED, so every API instance
+ * can run a processor and queued work survives restarts.
+ */
+@Injectable()
+export class GovVerificationProcessor implements OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new Logger(GovVerificationProcessor.name);
+  private readonly inFlight = new Set<Promise<void>>();
+  private timer?: NodeJS.Timeout;
+  private sweepTimer?: NodeJS.Timeout;
+  private isPolling = false;
+  private isClosing = false;
+
+  constructor(
+    private readonly repository: GovIntegrationRepository,
+    private readonly govIntegrationService: GovIntegrationService,
+  ) {}
+
+  onModuleInit() {
+    this.timer = setInterval(() => this.poll(), VerificationQueueDefaults.POLL_INTERVAL);
+    this.sweepTimer = setInterval(() => this.sweep(), ReverificationDefaults.SWEEP_INTERVAL);
+    this.logger.log(
+      `Gov verification processor started with concurrency ${VerificationQueueDefaults.CONCURRENCY}`,
+    );
+  }
+
+  async onApplicationShutdown(signal?: string) {
+    this.isClosing = true;
+    if (this.timer) clearInterval(this.timer);
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.logger.log(`Gov verification processor shutting down (signal: ${signal}), waiting for ${this.inFlight.size} job(s)`);
+    await Promise.allSettled(Array.from(this.inFlight));
+  }
+
+  private async poll(): Promise<void> {
+    if (this.isPolling || this.isClosing) return;
+    this.isPolling = true;
+
+    try {
+      const capacity = VerificationQueueDefaults.CONCURRENCY - this.inFlight.size;
+      if (capacity <= 0) return;
+
+      const released = await this.repository.releaseStaleVerifications(
+        new Date(Date.now() - VerificationQueueDefaults.STALE_AFTER),
+      );
+      if (released > 0) {
+        this.logger.warn(`Re-queued ${released} stale verification(s)`);
+      }
+
+      const jobs = await this.repository.claimDueVerifications(capacity);
+      for (const job of jobs) {
+        this.track(job);
+      }
+    } catch (error: any) {
+      this.logger.error(`Failed to poll verification queue: ${error.message}`);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async sweep(): Promise<void> {
+    if (this.isClosing) return;
+    try {
+      await this.govIntegrationService.sweepExpiredVerifications();
+    } catch (error: any) {
+      this.logger.error(`Failed to sweep expired verifications: ${error.message}`);
+    }
+  }
+
+  private track(job: VerificationQueue): void {
+    const run = this.govIntegrationService.processVerification(job)
+      .catch((error: any) => {
+        this.logger.error(`Verification ${job.id} processing error: ${error.message}`);
+      })
+      .finally(() => {
+        this.inFlight.delete(run);
+      });
+    this.inFlight.add(run);
+  }
+}
@@ -0,0 +1,161 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, IsOptional, IsNumber, IsArray, IsBoolean, IsDateString, IsIn, Min, Max, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class SimulatedWorkerRequestDto {
+  @ApiProperty()
+  @IsString()
+  pinfl: string;
+
+  @ApiProperty()
+  @IsString()
+  documentNumber: string;
+
+  @ApiProperty()
+  @IsString()
+  documentType: string;
+
+  @ApiProperty()
+  @IsString()
+  firstName: string;
+
+  @ApiProperty()
+  @IsString()
+  lastName: string;
+
+  @ApiProperty()
+  @IsDateString()
+  birthDate: string;
+}
+
+export class SimulatedEmployerRequestDto {
+  @ApiProperty()
+  @IsString()
+  businessRegNo: string;
+
+  @ApiProperty()
+  @IsString()
+  companyName: string;
+
+  @ApiProperty()
+  @IsString()
+  taxId: string;
+}
+
+export class SimulatedEducationRequestDto {
+  @ApiProperty()
+  @IsString()
+  pinfl: string;
+
+  @ApiProperty()
+  @IsString()
+  institutionCode: string;
+
+  @ApiProperty()
+  @IsString()
+  diplomaNumber: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  graduationYear?: string;
+}
+
+export class SeedFixturesDto {
+  @ApiPropertyOptional({ type: [Object] })
+  @IsOptional()
+  @IsArray()
+  people?: any[];
+
+  @ApiPropertyOptional({ type: [Object] })
+  @IsOptional()
+  @IsArray()
+  businesses?: any[];
+
+  @ApiPropertyOptional({ type: [Object] })
+  @IsOptional()
+  @IsArray()
+  diplomas?: any[];
+
+  @ApiPropertyOptional({ description: 'Replace the current fixtures instead of merging into them', default: false })
+  @IsOptional()
+  @IsBoolean()
+  replace?: boolean = false;
+}
+
+export class SimulatorFaultDto {
+  @ApiPropertyOptional({ enum: ['worker', 'employer', 'education'], description: 'Applies to every endpoint when omitted' })
+  @IsOptional()
+  @IsIn(['worker', 'employer', 'education'])
+  endpoint?: 'worker' | 'employer' | 'education';
+
+  @ApiPropertyOptional({ description: 'Fixed delay added to every response' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(60000)
+  latencyMs?: number;
+
+  @ApiPropertyOptional({ description: 'Random extra delay of up to this many ms' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(60000)
+  latencyJitterMs?: number;
+
+  @ApiPropertyOptional({ description: 'Probability (0-1) that a request fails with failureStatus' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  failureRate?: number;
+
+  @ApiPropertyOptional({ description: 'HTTP status returned for injected failures', default: 503 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(400)
+  @Max(599)
+  failureStatus?: number;
+
+  @ApiPropertyOptional({ description: 'Probability (0-1) that a request hangs for timeoutMs' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  timeoutRate?: number;
+
+  @ApiPropertyOptional({ description: 'How long a timed-out request hangs before answering 504', default: 10000 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(120000)
+  timeoutMs?: number;
+
+  @ApiPropertyOptional({ description: 'Deterministically fail the next N requests' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  failNext?: number;
+
+  @ApiPropertyOptional({ description: 'Deterministically time out the next N requests' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  timeoutNext?: number;
+}
+
+export class ConfigureFaultsDto {
+  @ApiProperty({ type: [SimulatorFaultDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SimulatorFaultDto)
+  faults: SimulatorFaultDto[];
+}
@@ -0,0 +1,104 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Headers,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import { GovSimulatorService } from './gov-simulator.service';
+import {
+  SimulatedWorkerRequestDto,
+  SimulatedEmployerRequestDto,
+  SimulatedEducationRequestDto,
+  SeedFixturesDto,
+  ConfigureFaultsDto,
+} from './dto/gov-simulator.dto';
+
+/**
+ * Stand-in for the government verification API. Point GOV_API_BASE_URL at
+ * `http://localhost:<port>/api/gov-simulator` to use it. Only mounted outside production.
+ */
+@ApiTags('Gov Simulator')
+@Controller('gov-simulator')
+export class GovSimulatorController {
+  constructor(private readonly govSimulatorService: GovSimulatorService) { }
+
+  @Post('api/v1/verify/worker')
+  @HttpCode(HttpStatus.OK)
+  @ApiHeader({ name: 'x-api-key', required: false })
+  @ApiOperation({ summary: 'Simulated worker identity verification' })
+  @ApiResponse({ status: 200, description: 'Verification result' })
+  async verifyWorker(@Body() dto: SimulatedWorkerRequestDto, @Headers('x-api-key') apiKey?: string) {
+    this.govSimulatorService.assertApiKey(apiKey);
+    await this.govSimulatorService.applyFaults('worker');
+    return this.govSimulatorService.verifyWorker(dto);
+  }
+
+  @Post('api/v1/verify/employer')
+  @HttpCode(HttpStatus.OK)
+  @ApiHeader({ name: 'x-api-key', required: false })
+  @ApiOperation({ summary: 'Simulated employer registration verification' })
+  @ApiResponse({ status: 200, description: 'Verification result' })
+  async verifyEmployer(@Body() dto: SimulatedEmployerRequestDto, @Headers('x-api-key') apiKey?: string) {
+    this.govSimulatorService.assertApiKey(apiKey);
+    await this.govSimulatorService.applyFaults('employer');
+    return this.govSimulatorService.verifyEmployer(dto);
+  }
+
+  @Post('api/v1/verify/education')
+  @HttpCode(HttpStatus.OK)
+  @ApiHeader({ name: 'x-api-key', required: false })
+  @ApiOperation({ summary: 'Simulated diploma verification' })
+  @ApiResponse({ status: 200, description: 'Verification result' })
+  async verifyEducation(@Body() dto: SimulatedEducationRequestDto, @Headers('x-api-key') apiKey?: string) {
+    this.govSimulatorService.assertApiKey(apiKey);
+    await this.govSimulatorService.applyFaults('education');
+    return this.govSimulatorService.verifyEducation(dto);
+  }
+
+  @Get('fixtures')
+  @ApiOperation({ summary: 'List the simulator fixtures' })
+  getFixtures() {
+    return this.govSimulatorService.getFixtures();
+  }
+
+  @Put('fixtures')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Seed fixtures, merging by PINFL, registration number and diploma number' })
+  @ApiResponse({ status: 400, description: 'Fixture is missing its key' })
+  seedFixtures(@Body() dto: SeedFixturesDto) {
+    return this.govSimulatorService.seedFixtures(dto);
+  }
+
+  @Delete('fixtures')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore the built-in fixtures' })
+  resetFixtures() {
+    return this.govSimulatorService.resetFixtures();
+  }
+
+  @Get('faults')
+  @ApiOperation({ summary: 'Get the active fault injection profiles' })
+  getFaults() {
+    return this.govSimulatorService.getFaults();
+  }
+
+  @Put('faults')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Replace the latency, failure and timeout injection profiles' })
+  configureFaults(@Body() dto: ConfigureFaultsDto) {
+    return this.govSimulatorService.configureFaults(dto);
+  }
+
+  @Delete('faults')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Disable all fault injection' })
+  clearFaults() {
+    this.govSimulatorService.clearFaults();
+  }
+}
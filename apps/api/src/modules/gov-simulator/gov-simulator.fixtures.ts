@@ -0,0 +1,105 @@
+export interface SimulatedPerson {
+  pinfl: string;
+  documentNumber: string;
+  firstName: string;
+  lastName: string;
+  birthDate: string;
+  gender: 'MALE' | 'FEMALE';
+  address: { fullAddress: string; city?: string; region?: string };
+}
+
+export interface SimulatedBusiness {
+  businessRegNo: string;
+  taxId: string;
+  companyName: string;
+  registrationDate: string;
+  status: 'ACTIVE' | 'LIQUIDATED' | 'SUSPENDED';
+}
+
+export interface SimulatedDiploma {
+  diplomaNumber: string;
+  pinfl: string;
+  institutionCode: string;
+  institutionName: string;
+  degree: string;
+  graduationYear: number;
+}
+
+export interface GovSimulatorFixtures {
+  people: SimulatedPerson[];
+  businesses: SimulatedBusiness[];
+  diplomas: SimulatedDiploma[];
+}
+
+export const DEFAULT_GOV_FIXTURES: GovSimulatorFixtures = {
+  people: [
+    {
+      pinfl: '31234567890123',
+      documentNumber: 'AA1234567',
+      firstName: 'Aziz',
+      lastName: 'Karimov',
+      birthDate: '1992-04-17',
+      gender: 'MALE',
+      address: { fullAddress: 'Tashkent, Yunusobod district, Amir Temur 15', city: 'Tashkent', region: 'Tashkent' },
+    },
+    {
+      pinfl: '41234567890124',
+      documentNumber: 'AB7654321',
+      firstName: 'Dilnoza',
+      lastName: "Yo'ldosheva",
+      birthDate: '1996-11-02',
+      gender: 'FEMALE',
+      address: { fullAddress: 'Samarkand, Registon 4', city: 'Samarkand', region: 'Samarkand' },
+    },
+    {
+      pinfl: '31234567890125',
+      documentNumber: 'AC1112223',
+      firstName: 'Bobur',
+      lastName: 'Rakhimov',
+      birthDate: '1988-01-30',
+      gender: 'MALE',
+      address: { fullAddress: 'Namangan, Navoi 22', city: 'Namangan', region: 'Namangan' },
+    },
+  ],
+  businesses: [
+    {
+      businessRegNo: '300123456',
+      taxId: '300123456',
+      companyName: 'Silk Road Logistics LLC',
+      registrationDate: '2015-06-01',
+      status: 'ACTIVE',
+    },
+    {
+      businessRegNo: '301987654',
+      taxId: '301987654',
+      companyName: 'Fergana Textile JSC',
+      registrationDate: '2009-03-12',
+      status: 'ACTIVE',
+    },
+    {
+      businessRegNo: '302000111',
+      taxId: '302000111',
+      companyName: 'Closed Trading LLC',
+      registrationDate: '2012-09-20',
+      status: 'LIQUIDATED',
+    },
+  ],
+  diplomas: [
+    {
+      diplomaNumber: 'B-2014-000123',
+      pinfl: '31234567890123',
+      institutionCode: 'TUIT',
+      institutionName: 'Tashkent University of Information Technologies',
+      degree: 'Bachelor of Computer Science',
+      graduationYear: 2014,
+    },
+    {
+      diplomaNumber: 'M-2020-004567',
+      pinfl: '41234567890124',
+      institutionCode: 'SAMSU',
+      institutionName: 'Samarkand State University',
+      degree: 'Master of Economics',
+      graduationYear: 2020,
+    },
+  ],
+};
@@ -0,0 +1,22 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { GovSimulatorController } from './gov-simulator.controller';
+import { GovSimulatorService } from './gov-simulator.service';
+
+@Module({})
+export class GovSimulatorModule {
+  /**
+   * Mounts the simulator only when GOV_SIMULATOR_ENABLED=true and NODE_ENV is not production.
+   */
+  static register(): DynamicModule {
+    const enabled = process.env.GOV_SIMULATOR_ENABLED === 'true' && process.env.NODE_ENV !== 'production';
+    if (!enabled) {
+      return { module: GovSimulatorModule };
+    }
+
+    return {
+      module: GovSimulatorModule,
+      controllers: [GovSimulatorController],
+      providers: [GovSimulatorService],
+    };
+  }
+}
@@ -0,0 +1,251 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { readFileSync } from 'fs';
+import {
+  DEFAULT_GOV_FIXTURES,
+  GovSimulatorFixtures,
+  SimulatedBusiness,
+  SimulatedDiploma,
+  SimulatedPerson,
+} from './gov-simulator.fixtures';
+import {
+  SimulatedWorkerRequestDto,
+  SimulatedEmployerRequestDto,
+  SimulatedEducationRequestDto,
+  SeedFixturesDto,
+  ConfigureFaultsDto,
+} from './dto/gov-simulator.dto';
+
+type SimulatedEndpoint = 'worker' | 'employer' | 'education';
+
+interface FaultProfile {
+  latencyMs: number;
+  latencyJitterMs: number;
+  failureRate: number;
+  failureStatus: number;
+  timeoutRate: number;
+  timeoutMs: number;
+  failNext: number;
+  timeoutNext: number;
+}
+
+const ALL_ENDPOINTS = '*';
+
+const FIXTURE_KEYS = {
+  people: 'pinfl',
+  businesses: 'businessRegNo',
+  diplomas: 'diplomaNumber',
+} as const;
+
+@Injectable()
+export class GovSimulatorService implements OnModuleInit {
+  private readonly logger = new Logger(GovSimulatorService.name);
+  private fixtures: GovSimulatorFixtures = this.cloneFixtures(DEFAULT_GOV_FIXTURES);
+  private faults = new Map<string, FaultProfile>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  onModuleInit() {
+    this.logger.warn('Gov API simulator is mounted; do not use this environment with real citizen data');
+
+    const fixturesPath = this.configService.get<string>('GOV_SIMULATOR_FIXTURES');
+    if (fixturesPath) {
+      const seed = JSON.parse(readFileSync(fixturesPath, 'utf8'));
+      this.seedFixtures({ ...seed, replace: false });
+      this.logger.log(`Loaded gov simulator fixtures from ${fixturesPath}`);
+    }
+  }
+
+  assertApiKey(apiKey?: string): void {
+    const expected = this.configService.get<string>('GOV_API_KEY');
+    if (expected && apiKey !== expected) {
+      throw new UnauthorizedException({
+        success: false,
+        error: { code: 'INVALID_API_KEY', message: 'Invalid or missing X-API-Key' },
+      });
+    }
+  }
+
+  /**
+   * Applies the configured latency, timeout and failure injection before a verify endpoint answers.
+   */
+  async applyFaults(endpoint: SimulatedEndpoint): Promise<void> {
+    const profile = this.faults.get(endpoint) ?? this.faults.get(ALL_ENDPOINTS);
+    if (!profile) return;
+
+    const latency = profile.latencyMs + Math.floor(Math.random() * profile.latencyJitterMs);
+    if (latency > 0) await this.delay(latency);
+
+    if (profile.timeoutNext > 0 || Math.random() < profile.timeoutRate) {
+      if (profile.timeoutNext > 0) profile.timeoutNext--;
+      await this.delay(profile.timeoutMs);
+      throw new HttpException('Simulated gov API timeout', HttpStatus.GATEWAY_TIMEOUT);
+    }
+
+    if (profile.failNext > 0 || Math.random() < profile.failureRate) {
+      if (profile.failNext > 0) profile.failNext--;
+      throw new HttpException('Simulated gov API failure', profile.failureStatus);
+    }
+  }
+
+  verifyWorker(dto: SimulatedWorkerRequestDto) {
+    const person = this.fixtures.people.find(p => p.pinfl === dto.pinfl);
+    if (!person) {
+      return this.notFound('No person is registered with this PINFL');
+    }
+    if (!this.sameValue(person.documentNumber, dto.documentNumber)) {
+      return this.notFound('The document number does not belong to this PINFL');
+    }
+
+    return {
+      verified: true,
+      message: 'Identity confirmed',
+      transactionId: this.transactionId(),
+      workerId: person.pinfl,
+      fullName: `${person.firstName} ${person.lastName}`,
+      birthDate: person.birthDate,
+      gender: person.gender,
+      address: person.address,
+    };
+  }
+
+  verifyEmployer(dto: SimulatedEmployerRequestDto) {
+    const business = this.fixtures.businesses.find(b => this.sameValue(b.businessRegNo, dto.businessRegNo));
+    if (!business) {
+      return this.notFound('No business is registered with this registration number');
+    }
+    if (!this.sameValue(business.taxId, dto.taxId)) {
+      return this.notFound('The tax ID does not belong to this business');
+    }
+
+    return {
+      verified: true,
+      message: 'Business registration confirmed',
+      transactionId: this.transactionId(),
+      employerId: business.businessRegNo,
+      companyName: business.companyName,
+      registrationDate: business.registrationDate,
+      status: business.status,
+    };
+  }
+
+  verifyEducation(dto: SimulatedEducationRequestDto) {
+    const diploma = this.fixtures.diplomas.find(d => this.sameValue(d.diplomaNumber, dto.diplomaNumber));
+    if (!diploma) {
+      return this.notFound('No diploma is registered with this number');
+    }
+    if (diploma.pinfl !== dto.pinfl || !this.sameValue(diploma.institutionCode, dto.institutionCode)) {
+      return this.notFound('The diploma was issued to a different person or institution');
+    }
+    if (dto.graduationYear && new Date(dto.graduationYear).getUTCFullYear() !== diploma.graduationYear) {
+      return this.notFound('The graduation year does not match the diploma');
+    }
+
+    return {
+      verified: true,
+      message: 'Diploma confirmed',
+      transactionId: this.transactionId(),
+      institutionName: diploma.institutionName,
+      degree: diploma.degree,
+      graduationYear: diploma.graduationYear,
+    };
+  }
+
+  getFixtures(): GovSimulatorFixtures {
+    return this.fixtures;
+  }
+
+  seedFixtures(dto: SeedFixturesDto): GovSimulatorFixtures {
+    const next = dto.replace
+      ? { people: [], businesses: [], diplomas: [] } as GovSimulatorFixtures
+      : this.cloneFixtures(this.fixtures);
+
+    this.mergeFixtures(next.people, dto.people as SimulatedPerson[] | undefined, 'people');
+    this.mergeFixtures(next.businesses, dto.businesses as SimulatedBusiness[] | undefined, 'businesses');
+    this.mergeFixtures(next.diplomas, dto.diplomas as SimulatedDiploma[] | undefined, 'diplomas');
+
+    this.fixtures = next;
+    return this.fixtures;
+  }
+
+  resetFixtures(): GovSimulatorFixtures {
+    this.fixtures = this.cloneFixtures(DEFAULT_GOV_FIXTURES);
+    return this.fixtures;
+  }
+
+  getFaults(): Record<string, FaultProfile> {
+    return Object.fromEntries(this.faults);
+  }
+
+  configureFaults(dto: ConfigureFaultsDto): Record<string, FaultProfile> {
+    this.faults = new Map(dto.faults.map(fault => [
+      fault.endpoint ?? ALL_ENDPOINTS,
+      {
+        latencyMs: fault.latencyMs ?? 0,
+        latencyJitterMs: fault.latencyJitterMs ?? 0,
+        failureRate: fault.failureRate ?? 0,
+        failureStatus: fault.failureStatus ?? HttpStatus.SERVICE_UNAVAILABLE,
+        timeoutRate: fault.timeoutRate ?? 0,
+        timeoutMs: fault.timeoutMs ?? 10000,
+        failNext: fault.failNext ?? 0,
+        timeoutNext: fault.timeoutNext ?? 0,
+      },
+    ]));
+    return this.getFaults();
+  }
+
+  clearFaults(): void {
+    this.faults.clear();
+  }
+
+  private mergeFixtures<T extends object>(
+    target: T[],
+    entries: T[] | undefined,
+    kind: keyof typeof FIXTURE_KEYS,
+  ): void {
+    const key = FIXTURE_KEYS[kind] as keyof T;
+    for (const entry of entries || []) {
+      if (!entry || typeof entry[key] !== 'string') {
+        throw new BadRequestException({
+          success: false,
+          error: { code: 'INVALID_FIXTURE', message: `Every ${kind} fixture needs a string ${String(key)}` },
+        });
+      }
+      const index = target.findIndex(existing => existing[key] === entry[key]);
+      if (index >= 0) {
+        target[index] = entry;
+      } else {
+        target.push(entry);
+      }
+    }
+  }
+
+  private notFound(message: string) {
+    return { verified: false, message, transactionId: this.transactionId() };
+  }
+
+  private sameValue(a: string, b: string): boolean {
+    return a.trim().toUpperCase() === b.trim().toUpperCase();
+  }
+
+  private transactionId(): string {
+    return `SIM-${randomUUID()}`;
+  }
+
+  private cloneFixtures(fixtures: GovSimulatorFixtures): GovSimulatorFixtures {
+    return JSON.parse(JSON.stringify(fixtures));
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -29,8 +29,8 @@ import {
   ListPermissionsDto,
 } from './dto/identity.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { RolesGuard } from '../auth/guards/roles.guard';
-import { Roles } from '../auth/decorators/roles.decorator';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
 import { Request } from 'express';
 
 interface RequestWithUser extends Request {
@@ -45,14 +45,14 @@ interface RequestWithUser extends Request {
 
 @ApiTags('Identity Management')
 @Controller('api/v1/identity')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
 @ApiHeaders([{ name: 'authorization', description: 'Bearer token' }])
 export class IdentityController {
   constructor(private readonly identityService: IdentityService) {}
 
   @Get('users')
-  @Roles('ADMIN', 'SUPER_ADMIN')
+  @RequirePermissions('user:read')
   @ApiOperation({ summary: 'List all users (admin only)' })
   @ApiResponse({ status: 200, description: 'Users retrieved successfully' })
   @ApiResponse({ status: 403, description: 'Insufficient permissions' })
@@ -61,7 +61,7 @@ export class IdentityController {
   }
 
   @Get('users/:id')
-  @Roles('ADMIN', 'SUPER_ADMIN')
+  @RequirePermissions('user:read')
   @ApiOperation({ summary: 'Get user by ID (admin only)' })
   @ApiResponse({ status: 200, description: 'User retrieved successfully' })
   @ApiResponse({ status: 403, description: 'Insufficient permissions' })
@@ -71,8 +71,8 @@ export class IdentityController {
   }
 
   @Put('users/:id/status')
+  @RequirePermissions('user:manage')
   @HttpCode(HttpStatus.OK)
-  @Roles('ADMIN', 'SUPER_ADMIN')
   @ApiOperation({ summary: 'Update user status (admin only)' })
   @ApiResponse({ status: 200, description: 'User status updated successfully' })
   @ApiResponse({ status: 403, description: 'Insufficient permissions or cannot update self' })
@@ -86,8 +86,8 @@ export class IdentityController {
   }
 
   @Delete('users/:id')
+  @RequirePermissions('user:manage')
   @HttpCode(HttpStatus.OK)
-  @Roles('ADMIN', 'SUPER_ADMIN')
   @ApiOperation({ summary: 'Soft delete user (admin only)' })
   @ApiResponse({ status: 200, description: 'User deleted successfully' })
   @ApiResponse({ status: 403, description: 'Insufficient permissions or cannot delete self' })
@@ -101,7 +101,7 @@ export class IdentityController {
   }
 
   @Get('users/:id/sessions')
-  @Roles('ADMIN', 'SUPER_ADMIN')
+  @RequirePermissions('session:manage')
   @ApiOperation({ summary: 'List user sessions (admin only)' })
   @ApiResponse({ status: 200, description: 'Sessions retrieved successfully' })
   @ApiResponse({ status: 403, description: 'Insufficient permissions' })
@@ -114,8 +114,8 @@ export class IdentityController {
   }
 
   @Post('users/:id/sessions/:sessionId/revoke')
+  @RequirePermissions('session:manage')
   @HttpCode(HttpStatus.OK)
-  @Roles('ADMIN', 'SUPER_ADMIN')
   @ApiOperation({ summary: 'Revoke a specific session (admin only)' })
   @ApiResponse({ status: 200, description: 'Session revoked successfully' })
   @ApiResponse({ status: 403, description: 'Insufficient permissions' })
@@ -130,8 +130,8 @@ export class IdentityController {
   }
 
   @Post('users/:id/sessions/revoke-all')
+  @RequirePermissions('session:manage')
   @HttpCode(HttpStatus.OK)
-  @Roles('ADMIN', 'SUPER_ADMIN')
   @ApiOperation({ summary: 'Revoke all user sessions (admin only)' })
   @ApiResponse({ status: 200, description: 'All sessions revoked successfully' })
   @ApiResponse({ status: 403, description: 'Insufficient permissions' })
@@ -144,6 +144,7 @@ export class IdentityController {
   }
 
   @Post('roles')
+  @RequirePermissions('role:manage')
   @ApiOperation({ summary: 'Create a new role (super admin only)' })
   @ApiResponse({ status: 201, description: 'Role created successfully' })
   @ApiResponse({ status: 403, description: 'Super admin access required' })
@@ -153,6 +154,7 @@ export class IdentityController {
   }
 
   @Get('roles')
+  @RequirePermissions('role:manage')
   @ApiOperation({ summary: 'List all roles (super admin only)' })
   @ApiResponse({ status: 200, description: 'Roles retrieved successfully' })
   @ApiResponse({ status: 403, description: 'Super admin access required' })
@@ -161,6 +163,7 @@ export class IdentityController {
   }
 
   @Get('roles/:id')
+  @RequirePermissions('role:manage')
   @ApiOperation({ summary: 'Get role by ID (super admin only)' })
   @ApiResponse({ status: 200, description: 'Role retrieved successfully' })
   @ApiResponse({ status: 403, description: 'Super admin access required' })
@@ -170,6 +173,7 @@ export class IdentityController {
   }
 
   @Put('roles/:id')
+  @RequirePermissions('role:manage')
   @ApiOperation({ summary: 'Update role (super admin only)' })
   @ApiResponse({ status: 200, description: 'Role updated successfully' })
   @ApiResponse({ status: 403, description: 'Super admin access required' })
@@ -183,6 +187,7 @@ export class IdentityController {
   }
 
   @Delete('roles/:id')
+  @RequirePermissions('role:manage')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Delete role (super admin only)' })
   @ApiResponse({ status: 200, description: 'Role deleted successfully' })
@@ -193,6 +198,7 @@ export class IdentityController {
   }
 
   @Post('roles/:id/permissions')
+  @RequirePermissions('role:manage')
   @ApiOperation({ summary: 'Assign permissions to role (super admin only)' })
   @ApiResponse({ status: 201, description: 'Permissions assigned successfully' })
   @ApiResponse({ status: 403, description: 'Super admin access required' })
@@ -206,6 +212,7 @@ export class IdentityController {
   }
 
   @Get('permissions')
+  @RequirePermissions('role:manage')
   @ApiOperation({ summary: 'List all permissions (super admin only)' })
   @ApiResponse({ status: 200, description: 'Permissions retrieved successfully' })
   @ApiResponse({ status: 403, description: 'Super admin access required' })
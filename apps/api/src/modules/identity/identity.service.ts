@@ -1,5 +1,6 @@
 import { Injectable, ForbiddenException, BadRequestException, NotFoundException } from '@nestjs/common';
 import { AuditService } from '../auth/audit.service';
+import { PermissionsService } from '../auth/permissions.service';
 import { IdentityRepository } from './identity.repository';
 import {
   ListUsersDto,
@@ -23,6 +24,7 @@ export class IdentityService {
   constructor(
     private readonly identityRepository: IdentityRepository,
     private readonly auditService: AuditService,
+    private readonly permissionsService: PermissionsService,
   ) {}
 
   async listUsers(dto: ListUsersDto, adminId: string, adminRole: string, ipAddress: string) {
@@ -118,6 +120,9 @@ export class IdentityService {
       userId: adminId,
       targetUserId: userId,
       ipAddress,
+      before: { status: oldStatus },
+      after: { status: updatedUser.status },
+      reason: dto.reason,
       details: {
         oldStatus,
         newStatus: dto.status,
@@ -163,6 +168,8 @@ export class IdentityService {
       userId: adminId,
       targetUserId: userId,
       ipAddress,
+      before: user,
+      reason: dto.reason,
       details: { reason: dto.reason, userData: { email: user.email, role: user.role, status: user.status } },
     });
 
@@ -292,6 +299,7 @@ export class IdentityService {
     await this.auditService.log('ROLE_CREATED', {
       userId: adminId,
       ipAddress,
+      after: role,
       details: { roleId: role.id, roleName: role.name, level: role.level },
     });
 
@@ -404,6 +412,8 @@ export class IdentityService {
     await this.auditService.log('ROLE_UPDATED', {
       userId: adminId,
       ipAddress,
+      before: { description: role.description, level: role.level },
+      after: { description: updatedRole.description, level: updatedRole.level },
       details: {
         roleId,
         updates: dto,
@@ -461,10 +471,12 @@ export class IdentityService {
     }
 
     await this.identityRepository.atomicDeleteRole(roleId);
+    await this.permissionsService.invalidateAll();
 
     await this.auditService.log('ROLE_DELETED', {
       userId: adminId,
       ipAddress,
+      before: role,
       details: { roleId, roleName: role.name },
     });
 
@@ -525,10 +537,14 @@ export class IdentityService {
     });
 
     const permissions = await this.identityRepository.createPermissions(permissionData);
+    await this.permissionsService.invalidateAll();
 
     await this.auditService.log('PERMISSIONS_ASSIGNED', {
       userId: adminId,
       ipAddress,
+      resourceId: roleId,
+      before: { permissions: oldPermissions },
+      after: { permissions: dto.permissions },
       details: {
         roleId,
         permissionCount: permissions.length,
@@ -25,6 +25,8 @@ import {
   ListVacancyInterviewsDto,
 } from './dto/interview.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
 import { Request } from 'express';
 
 interface RequestWithUser extends Request {
@@ -39,13 +41,14 @@ interface RequestWithUser extends Request {
 
 @ApiTags('Interview')
 @Controller('api/v1')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
 @ApiHeaders([{ name: 'authorization', description: 'Bearer token' }])
 export class InterviewController {
   constructor(private readonly interviewService: InterviewService) {}
 
   @Post('applications/:applicationId/interview')
+  @RequirePermissions('interview:manage')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ summary: 'Schedule interview (employer)' })
   @ApiParam({ name: 'applicationId', description: 'Application UUID' })
@@ -63,6 +66,7 @@ export class InterviewController {
   }
 
   @Post('interviews/:interviewId/confirm')
+  @RequirePermissions('interview:respond')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Confirm interview (worker)' })
   @ApiParam({ name: 'interviewId', description: 'Interview UUID' })
@@ -76,6 +80,7 @@ export class InterviewController {
   }
 
   @Post('interviews/:interviewId/reject')
+  @RequirePermissions('interview:respond')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Reject interview (worker)' })
   @ApiParam({ name: 'interviewId', description: 'Interview UUID' })
@@ -89,6 +94,7 @@ export class InterviewController {
   }
 
   @Post('interviews/:interviewId/cancel')
+  @RequirePermissions('interview:manage')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Cancel interview (employer)' })
   @ApiParam({ name: 'interviewId', description: 'Interview UUID' })
@@ -102,6 +108,7 @@ export class InterviewController {
   }
 
   @Post('interviews/:interviewId/complete')
+  @RequirePermissions('interview:manage')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Complete interview (employer)' })
   @ApiParam({ name: 'interviewId', description: 'Interview UUID' })
@@ -115,6 +122,7 @@ export class InterviewController {
   }
 
   @Get('interviews/me')
+  @RequirePermissions('interview:read_own')
   @ApiOperation({ summary: 'List own interviews (worker)' })
   @ApiResponse({ status: 200, description: 'Interviews list retrieved successfully' })
   async listMyInterviews(@Query() dto: ListInterviewsDto, @Req() req: RequestWithUser) {
@@ -122,6 +130,7 @@ export class InterviewController {
   }
 
   @Get('interviews/me/:interviewId')
+  @RequirePermissions('interview:read_own')
   @ApiOperation({ summary: 'Get own interview (worker)' })
   @ApiParam({ name: 'interviewId', description: 'Interview UUID' })
   @ApiResponse({ status: 200, description: 'Interview retrieved successfully' })
@@ -133,6 +142,7 @@ export class InterviewController {
   }
 
   @Get('vacancies/:vacancyId/interviews')
+  @RequirePermissions('interview:manage')
   @ApiOperation({ summary: 'List interviews by vacancy (employer)' })
   @ApiParam({ name: 'vacancyId', description: 'Vacancy UUID' })
   @ApiResponse({ status: 200, description: 'Interviews list retrieved successfully' })
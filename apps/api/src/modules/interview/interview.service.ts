@@ -159,6 +159,7 @@ export class InterviewService {
     await this.auditService.log('INTERVIEW_SCHEDULED', {
       userId: employerUserId,
       ipAddress,
+      after: this.sanitizeInterview(interview),
       details: {
         interviewId: interview.id,
         applicationId: dto.applicationId,
@@ -194,6 +195,8 @@ export class InterviewService {
     await this.auditService.log('INTERVIEW_CONFIRMED', {
       userId: workerUserId,
       ipAddress,
+      before: { status: interview.status },
+      after: { status: confirmed.status },
       details: { interviewId, applicationId: interview.applicationId },
     });
 
@@ -224,6 +227,9 @@ export class InterviewService {
     await this.auditService.log('INTERVIEW_REJECTED', {
       userId: workerUserId,
       ipAddress,
+      before: { status: interview.status },
+      after: { status: rejected.status },
+      reason: dto.reason,
       details: { interviewId, applicationId: interview.applicationId, reason: dto.reason },
     });
 
@@ -267,6 +273,9 @@ export class InterviewService {
     await this.auditService.log('INTERVIEW_CANCELLED', {
       userId: employerUserId,
       ipAddress,
+      before: { status: interview.status },
+      after: { status: cancelled.status },
+      reason: dto.reason,
       details: { interviewId, applicationId: interview.applicationId, reason: dto.reason },
     });
 
@@ -320,6 +329,8 @@ export class InterviewService {
       userId: employerUserId,
       targetUserId: interview.userId,
       ipAddress,
+      before: this.sanitizeInterview(interview),
+      after: this.sanitizeInterview(completed),
       details: { interviewId, applicationId: interview.applicationId, outcome: dto.outcome },
     });
 
@@ -0,0 +1,21 @@
+import { Logger } from '@nestjs/common';
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { MailMessage, MailTransport } from './mail.transport';
+
+/**
+ * Local sink: every message is appended to a file as NDJSON instead of being delivered.
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+  private readonly logger = new Logger(FileMailTransport.name);
+
+  constructor(private readonly filePath: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const entry = { ...message, sentAt: new Date().toISOString() };
+    await appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+    this.logger.log(`Mail "${message.subject}" to ${message.to} written to ${this.filePath}`);
+  }
+}
@@ -0,0 +1,27 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT, MailTransport } from './mail.transport';
+import { FileMailTransport } from './file-mail.transport';
+
+@Module({
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): MailTransport => {
+        const transport = configService.get<string>('MAIL_TRANSPORT') || 'file';
+        switch (transport) {
+          case 'file':
+            if (configService.get<string>('NODE_ENV') === 'production') {
+              new Logger('MailModule').warn('MAIL_TRANSPORT is "file" in production; messages are not delivered');
+            }
+            return new FileMailTransport(configService.get<string>('MAIL_SINK_FILE') || 'tmp/mail-outbox.ndjson');
+          default:
+            throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+        }
+      },
+    },
+  ],
+  exports: [MAIL_TRANSPORT],
+})
+export class MailModule {}
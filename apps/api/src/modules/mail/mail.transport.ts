@@ -0,0 +1,15 @@
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivery channel for outgoing email. Implementations throw when the message could not be handed over.
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,93 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class MatchScoreBreakdownDto {
+  @ApiProperty()
+  skillScore: number;
+
+  @ApiProperty()
+  experienceScore: number;
+
+  @ApiProperty()
+  educationScore: number;
+
+  @ApiProperty()
+  locationScore: number;
+
+  @ApiProperty()
+  salaryScore: number;
+}
+
+export class MatchVacancySummaryDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  jobTitle: string;
+
+  @ApiProperty()
+  locationCity: string;
+
+  @ApiProperty()
+  locationState: string;
+
+  @ApiProperty()
+  isRemote: boolean;
+
+  @ApiPropertyOptional()
+  expiresAt?: Date;
+}
+
+export class MatchResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  workerId: string;
+
+  @ApiProperty()
+  vacancyId: string;
+
+  @ApiProperty()
+  totalScore: number;
+
+  @ApiProperty({ type: MatchScoreBreakdownDto })
+  breakdown: MatchScoreBreakdownDto;
+
+  @ApiProperty()
+  skillMatchCount: number;
+
+  @ApiProperty()
+  skillRequiredCount: number;
+
+  @ApiProperty()
+  isRecommended: boolean;
+
+  @ApiPropertyOptional()
+  scoringProfileId?: string;
+
+  @ApiProperty({ description: 'Scoring profile version used, 0 for built-in defaults' })
+  scoringProfileVersion: number;
+
+  @ApiProperty()
+  calculatedAt: Date;
+
+  @ApiPropertyOptional({ type: MatchVacancySummaryDto })
+  vacancy?: MatchVacancySummaryDto;
+}
+
+export class MatchListResponseDto {
+  @ApiProperty({ type: [MatchResponseDto] })
+  items: MatchResponseDto[];
+
+  @ApiProperty()
+  totalCount: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  pageSize: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
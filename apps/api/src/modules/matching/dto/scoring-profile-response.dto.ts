@@ -0,0 +1,190 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ScoringProfileScope } from '@prisma/client';
+import { ScoringWeightsDto } from './scoring-profile.dto';
+
+export class ScoringProfileResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiPropertyOptional()
+  description?: string;
+
+  @ApiProperty({ enum: ScoringProfileScope })
+  scope: ScoringProfileScope;
+
+  @ApiPropertyOptional()
+  employerId?: string;
+
+  @ApiPropertyOptional()
+  industry?: string;
+
+  @ApiProperty({ type: ScoringWeightsDto })
+  weights: ScoringWeightsDto;
+
+  @ApiProperty()
+  threshold: number;
+
+  @ApiProperty({ description: 'Effective per-dimension parameters, defaults merged with overrides' })
+  parameters: Record<string, Record<string, number>>;
+
+  @ApiProperty()
+  isActive: boolean;
+
+  @ApiProperty()
+  currentVersion: number;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class ScoringProfileListResponseDto {
+  @ApiProperty({ type: [ScoringProfileResponseDto] })
+  items: ScoringProfileResponseDto[];
+
+  @ApiProperty()
+  totalCount: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  pageSize: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
+
+export class ScoringProfileVersionResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  profileId: string;
+
+  @ApiProperty()
+  versionNumber: number;
+
+  @ApiProperty()
+  snapshotData: any;
+
+  @ApiPropertyOptional()
+  changeSummary?: string;
+
+  @ApiProperty()
+  createdBy: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class ScoringProfileVersionListResponseDto {
+  @ApiProperty({ type: [ScoringProfileVersionResponseDto] })
+  items: ScoringProfileVersionResponseDto[];
+
+  @ApiProperty()
+  totalCount: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  pageSize: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
+
+export class ScoringDryRunMoverDto {
+  @ApiProperty()
+  workerId: string;
+
+  @ApiProperty()
+  currentScore: number;
+
+  @ApiProperty()
+  projectedScore: number;
+
+  @ApiProperty()
+  currentRank: number;
+
+  @ApiProperty()
+  projectedRank: number;
+}
+
+export class ScoringDryRunVacancyDto {
+  @ApiProperty()
+  vacancyId: string;
+
+  @ApiProperty()
+  jobTitle: string;
+
+  @ApiProperty()
+  matchCount: number;
+
+  @ApiProperty()
+  averageRankShift: number;
+
+  @ApiProperty()
+  maxRankShift: number;
+
+  @ApiProperty({ description: 'Share of the current top matches that stay in the projected top matches (0-1)' })
+  topOverlap: number;
+
+  @ApiProperty()
+  recommendationsGained: number;
+
+  @ApiProperty()
+  recommendationsLost: number;
+
+  @ApiProperty({ type: [ScoringDryRunMoverDto] })
+  biggestMovers: ScoringDryRunMoverDto[];
+}
+
+export class ScoringDryRunInvalidMatchDto {
+  @ApiProperty()
+  vacancyId: string;
+
+  @ApiProperty()
+  workerId: string;
+
+  @ApiProperty({ example: 'WORKER_NOT_FOUND' })
+  reason: string;
+}
+
+export class ScoringDryRunResponseDto {
+  @ApiProperty()
+  profileId: string;
+
+  @ApiProperty()
+  profileVersion: number;
+
+  @ApiProperty()
+  sampledVacancies: number;
+
+  @ApiProperty()
+  sampledMatches: number;
+
+  @ApiProperty()
+  averageScoreDelta: number;
+
+  @ApiProperty()
+  averageRankShift: number;
+
+  @ApiProperty()
+  recommendationsGained: number;
+
+  @ApiProperty()
+  recommendationsLost: number;
+
+  @ApiProperty({ type: [ScoringDryRunVacancyDto] })
+  vacancies: ScoringDryRunVacancyDto[];
+
+  @ApiProperty({ type: [ScoringDryRunInvalidMatchDto], description: 'Current matches left out because their worker data is gone' })
+  invalidMatches: ScoringDryRunInvalidMatchDto[];
+}
@@ -0,0 +1,209 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsNumber,
+  Min,
+  Max,
+  MaxLength,
+  IsObject,
+  IsBoolean,
+  IsUUID,
+  ValidateNested,
+} from 'class-validator';
+import { Type, Transform } from 'class-transformer';
+import { ScoringProfileScope } from '@prisma/client';
+
+export class ScoringWeightsDto {
+  @ApiProperty({ minimum: 0, maximum: 1 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  skill: number;
+
+  @ApiProperty({ minimum: 0, maximum: 1 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  experience: number;
+
+  @ApiProperty({ minimum: 0, maximum: 1 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  education: number;
+
+  @ApiProperty({ minimum: 0, maximum: 1 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  location: number;
+
+  @ApiProperty({ minimum: 0, maximum: 1 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  salary: number;
+}
+
+export class CreateScoringProfileDto {
+  @ApiProperty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ enum: ScoringProfileScope })
+  @IsEnum(ScoringProfileScope)
+  scope: ScoringProfileScope;
+
+  @ApiPropertyOptional({ description: 'Required for EMPLOYER scope' })
+  @IsOptional()
+  @IsUUID()
+  employerId?: string;
+
+  @ApiPropertyOptional({ description: 'Required for INDUSTRY scope' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  industry?: string;
+
+  @ApiProperty({ type: ScoringWeightsDto })
+  @ValidateNested()
+  @Type(() => ScoringWeightsDto)
+  weights: ScoringWeightsDto;
+
+  @ApiProperty({ minimum: 0, maximum: 100 })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  threshold: number;
+
+  @ApiPropertyOptional({ description: 'Per-dimension parameter overrides, keyed by dimension' })
+  @IsOptional()
+  @IsObject()
+  parameters?: Record<string, Record<string, number>>;
+
+  @ApiPropertyOptional({ description: 'Activating replaces the active profile with the same scope' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateScoringProfileDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ type: ScoringWeightsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ScoringWeightsDto)
+  weights?: ScoringWeightsDto;
+
+  @ApiPropertyOptional({ minimum: 0, maximum: 100 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  threshold?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsObject()
+  parameters?: Record<string, Record<string, number>>;
+
+  @ApiPropertyOptional({ description: 'Activating replaces the active profile with the same scope' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  changeSummary?: string;
+}
+
+export class ListScoringProfilesDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  pageSize?: number = 20;
+
+  @ApiPropertyOptional({ enum: ScoringProfileScope })
+  @IsOptional()
+  @IsEnum(ScoringProfileScope)
+  scope?: ScoringProfileScope;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' || value === true ? true : value === 'false' || value === false ? false : value))
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class ListScoringProfileVersionsDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  pageSize?: number = 20;
+}
+
+export class ScoringDryRunDto {
+  @ApiPropertyOptional({ type: ScoringWeightsDto, description: 'Candidate weights, defaults to the profile weights' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ScoringWeightsDto)
+  weights?: ScoringWeightsDto;
+
+  @ApiPropertyOptional({ minimum: 0, maximum: 100 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  threshold?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsObject()
+  parameters?: Record<string, Record<string, number>>;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: 50, default: 10, description: 'Number of vacancies to sample' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(50)
+  sampleSize?: number;
+}
@@ -0,0 +1,64 @@
+import { EducationLevel } from '@prisma/client';
+import { educationLevelRank, mapDegreeToEducationLevel } from './matching-education';
+
+const DEGREE_FIXTURES: [string, EducationLevel | null][] = [
+  ['PhD in Computer Science', EducationLevel.DOCTORATE],
+  ['Doctor of Medicine', EducationLevel.DOCTORATE],
+  ['Fan nomzodi', EducationLevel.DOCTORATE],
+  ['Кандидат наук', EducationLevel.DOCTORATE],
+  ['Master of Science', EducationLevel.MASTERS],
+  ['MBA', EducationLevel.MASTERS],
+  ['M.A.', EducationLevel.MASTERS],
+  ['Magistratura', EducationLevel.MASTERS],
+  ['Магистр экономики', EducationLevel.MASTERS],
+  ["Bachelor's degree", EducationLevel.BACHELORS],
+  ['B.Sc. Mechanical Engineering', EducationLevel.BACHELORS],
+  ['Bakalavr', EducationLevel.BACHELORS],
+  ['Диплом бакалавра', EducationLevel.BACHELORS],
+  ['Oliy ta’lim', EducationLevel.BACHELORS],
+  ['Высшее', EducationLevel.BACHELORS],
+  ['Среднее специальное', EducationLevel.DIPLOMA],
+  ['Средне-специальное образование', EducationLevel.DIPLOMA],
+  ['Диплом о среднем специальном образовании', EducationLevel.DIPLOMA],
+  ['Среднее профессиональное', EducationLevel.DIPLOMA],
+  ['Secondary specialized education', EducationLevel.DIPLOMA],
+  ['Secondary vocational', EducationLevel.DIPLOMA],
+  ['O‘rta maxsus', EducationLevel.DIPLOMA],
+  ['Kasb-hunar kolleji', EducationLevel.DIPLOMA],
+  ['Техникум', EducationLevel.DIPLOMA],
+  ['Associate degree', EducationLevel.DIPLOMA],
+  ['Diploma in Nursing', EducationLevel.DIPLOMA],
+  ['High school diploma', EducationLevel.HIGH_SCHOOL],
+  ['Secondary school', EducationLevel.HIGH_SCHOOL],
+  ['Academic lyceum', EducationLevel.HIGH_SCHOOL],
+  ['Umumiy o‘rta ta’lim', EducationLevel.HIGH_SCHOOL],
+  ['Среднее', EducationLevel.HIGH_SCHOOL],
+  ['Аттестат о среднем образовании', EducationLevel.HIGH_SCHOOL],
+  ['masters', EducationLevel.MASTERS],
+  ['DIPLOMA', EducationLevel.DIPLOMA],
+  ['Courses', null],
+  ['', null],
+];
+
+describe('mapDegreeToEducationLevel', () => {
+  it.each(DEGREE_FIXTURES)('maps %p to %p', (degree, expected) => {
+    expect(mapDegreeToEducationLevel(degree)).toBe(expected);
+  });
+
+  it('returns null for missing degrees', () => {
+    expect(mapDegreeToEducationLevel(null)).toBeNull();
+    expect(mapDegreeToEducationLevel(undefined)).toBeNull();
+  });
+});
+
+describe('educationLevelRank', () => {
+  it('orders levels from high school to doctorate', () => {
+    expect(educationLevelRank(EducationLevel.HIGH_SCHOOL)).toBeLessThan(educationLevelRank(EducationLevel.DIPLOMA));
+    expect(educationLevelRank(EducationLevel.BACHELORS)).toBeLessThan(educationLevelRank(EducationLevel.MASTERS));
+    expect(educationLevelRank(EducationLevel.MASTERS)).toBeLessThan(educationLevelRank(EducationLevel.DOCTORATE));
+  });
+
+  it('ranks unknown levels below every known one', () => {
+    expect(educationLevelRank(null)).toBe(-1);
+  });
+});
@@ -0,0 +1,86 @@
+import { EducationLevel } from '@prisma/client';
+
+export const EDUCATION_LEVEL_ORDER: EducationLevel[] = [
+  EducationLevel.HIGH_SCHOOL,
+  EducationLevel.DIPLOMA,
+  EducationLevel.BACHELORS,
+  EducationLevel.MASTERS,
+  EducationLevel.DOCTORATE,
+];
+
+// Checked in order and the first match wins: higher degrees first, then secondary specialized phrases before plain
+// secondary ones, and bare "diploma" last because it also qualifies other levels ("high school diploma").
+const DEGREE_PATTERNS: { level: EducationLevel; patterns: RegExp[] }[] = [
+  {
+    level: EducationLevel.DOCTORATE,
+    patterns: [
+      /\bph\.?\s?d\b/, /\bd\.?\s?sc\b/, /\bdoctor(ate)?\b/, /\bdoktor/, /\bfan\s+nomzodi\b/,
+      /доктор/, /кандидат\s+наук/, /аспирантур/,
+    ],
+  },
+  {
+    level: EducationLevel.MASTERS,
+    patterns: [
+      /\bmasters?\b/, /\bm\.?\s?sc\b/, /\bm\.?\s?a\.?$/, /^m\.?\s?a\b/, /\bmba\b/, /\bm\.?\s?eng\b/, /\bllm\b/,
+      /\bmagist(r|ratura)/, /магистр/,
+    ],
+  },
+  {
+    level: EducationLevel.BACHELORS,
+    patterns: [
+      /\bbachelors?\b/, /\bb\.?\s?sc\b/, /\bb\.?\s?a\.?$/, /^b\.?\s?a\b/, /\bb\.?\s?eng\b/, /\bllb\b/,
+      /\bbakalavr/, /бакалавр/, /\bspecialist\b/, /специалист/, /\buniversity\s+degree\b/, /oliy\s+ta'?lim/, /высшее/,
+    ],
+  },
+  {
+    level: EducationLevel.DIPLOMA,
+    patterns: [
+      /\bsecondary\s+(speciali[sz]ed|vocational|technical|professional)\b/, /o'rta\s+maxsus/, /o'rta\s+professional/,
+      /средн[а-яё]*[-\s]?специальн/, /средн[а-яё]*[-\s]?профессиональн/, /средн[а-яё]*[-\s]?техническ/,
+      /\bassociate\b/, /\bcollege\b/, /\bvocational\b/, /\btechnical\s+school\b/,
+      /\bkollej/, /\btexnikum/, /\btechnikum/, /колледж/, /техникум/,
+    ],
+  },
+  {
+    level: EducationLevel.HIGH_SCHOOL,
+    patterns: [
+      /\bhigh\s+school\b/, /\bsecondary\b/, /\blyceum\b/, /\blitsey/, /\bmaktab\b/, /umumiy\s+o'rta/,
+      /лицей/, /школ/, /средн(ее|его|ем)/, /аттестат/,
+    ],
+  },
+  {
+    level: EducationLevel.DIPLOMA,
+    patterns: [/\bdiploma\b/, /диплом/],
+  },
+];
+
+/**
+ * Maps a free-text WorkerEducation.degree (English, Uzbek or Russian) to an EducationLevel.
+ * Returns null when the degree cannot be recognised.
+ */
+export function mapDegreeToEducationLevel(degree: string | null | undefined): EducationLevel | null {
+  if (!degree) return null;
+
+  const normalized = degree
+    .toLowerCase()
+    .replace(/[ʻʼ‘’`]/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if ((Object.values(EducationLevel) as string[]).includes(normalized.toUpperCase())) {
+    return normalized.toUpperCase() as EducationLevel;
+  }
+
+  for (const { level, patterns } of DEGREE_PATTERNS) {
+    if (patterns.some(pattern => pattern.test(normalized))) {
+      return level;
+    }
+  }
+
+  return null;
+}
+
+export function educationLevelRank(level: EducationLevel | string | null | undefined): number {
+  if (!level) return -1;
+  return EDUCATION_LEVEL_ORDER.indexOf(level as EducationLevel);
+}
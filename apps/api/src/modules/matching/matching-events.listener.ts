@@ -0,0 +1,49 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DomainEventBus } from '../../common/events/domain-event-bus.service';
+import { DomainEvents, WorkerChangedEvent, VacancyChangedEvent } from '../../common/events/domain-events';
+import { MatchingQueueService } from './matching.queue';
+import { MatchingService } from './matching.service';
+import { MatchingJobDefaults } from './matching.constants';
+
+@Injectable()
+export class MatchingEventsListener implements OnModuleInit {
+  private readonly logger = new Logger(MatchingEventsListener.name);
+
+  constructor(
+    private readonly eventBus: DomainEventBus,
+    private readonly matchingQueueService: MatchingQueueService,
+    private readonly matchingService: MatchingService,
+  ) {}
+
+  onModuleInit() {
+    const onWorkerChanged = (event: WorkerChangedEvent) => this.handleWorkerChanged(event);
+    this.eventBus.subscribe(DomainEvents.WORKER_SKILLS_CHANGED, onWorkerChanged);
+    this.eventBus.subscribe(DomainEvents.WORKER_EDUCATION_CHANGED, onWorkerChanged);
+    this.eventBus.subscribe(DomainEvents.WORKER_EXPERIENCE_CHANGED, onWorkerChanged);
+    this.eventBus.subscribe(DomainEvents.WORKER_PREFERENCES_CHANGED, onWorkerChanged);
+
+    // VACANCY_UPDATED is not a trigger: only DRAFT vacancies can be edited, and drafts are never scored.
+    // Their edits reach matching through VACANCY_PUBLISHED.
+    this.eventBus.subscribe(DomainEvents.VACANCY_PUBLISHED, (event) => this.handleVacancyPublished(event));
+
+    this.eventBus.subscribe(DomainEvents.VACANCY_CLOSED, (event) => this.handleVacancyRemoved(event, 'closed'));
+    this.eventBus.subscribe(DomainEvents.VACANCY_EXPIRED, (event) => this.handleVacancyRemoved(event, 'expired'));
+  }
+
+  private async handleWorkerChanged(event: WorkerChangedEvent): Promise<void> {
+    await this.matchingQueueService.addRecalcWorkerJob(event.workerId, MatchingJobDefaults.DEBOUNCE_DELAY);
+  }
+
+  private async handleVacancyPublished(event: VacancyChangedEvent): Promise<void> {
+    if (event.status !== 'OPEN') {
+      this.logger.debug(`Skipping recalc for vacancy ${event.vacancyId} in status ${event.status}`);
+      return;
+    }
+    await this.matchingQueueService.addRecalcVacancyJob(event.vacancyId, MatchingJobDefaults.DEBOUNCE_DELAY);
+  }
+
+  private async handleVacancyRemoved(event: VacancyChangedEvent, reason: string): Promise<void> {
+    await this.matchingQueueService.removeRecalcVacancyJob(event.vacancyId);
+    await this.matchingService.purgeVacancyScores(event.vacancyId, reason);
+  }
+}
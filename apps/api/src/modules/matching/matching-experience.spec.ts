@@ -0,0 +1,105 @@
+import { ExperienceWeighting, jobTitleSimilarity, summarizeExperience, tokenizeJobTitle } from './matching-experience';
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+const UNWEIGHTED: ExperienceWeighting = { titleMatchThreshold: 0.5, unrelatedTitleWeight: 0.5 };
+const DRIVER_TARGET: ExperienceWeighting = { ...UNWEIGHTED, targetJobTitle: 'Truck driver' };
+
+function summarize(periods: Parameters<typeof summarizeExperience>[0], weighting = UNWEIGHTED) {
+  return summarizeExperience(periods, weighting, NOW);
+}
+
+describe('summarizeExperience', () => {
+  it('sums separate periods', () => {
+    expect(summarize([
+      { startDate: '2018-01-01', endDate: '2020-01-01' },
+      { startDate: '2021-01-01', endDate: '2022-01-01' },
+    ])).toEqual({ totalYears: 3, weightedYears: 3 });
+  });
+
+  it('counts overlapping periods once', () => {
+    expect(summarize([
+      { startDate: '2018-01-01', endDate: '2021-01-01' },
+      { startDate: '2020-01-01', endDate: '2022-01-01' },
+    ])).toEqual({ totalYears: 4, weightedYears: 4 });
+  });
+
+  it('counts a period nested in another once', () => {
+    expect(summarize([
+      { startDate: '2016-01-01', endDate: '2022-01-01' },
+      { startDate: '2018-01-01', endDate: '2019-01-01' },
+    ])).toEqual({ totalYears: 6, weightedYears: 6 });
+  });
+
+  it('runs open-ended periods until now', () => {
+    expect(summarize([{ startDate: '2024-01-01', endDate: null }])).toEqual({ totalYears: 2, weightedYears: 2 });
+    expect(summarize([{ startDate: new Date('2023-01-01T00:00:00Z') }])).toEqual({ totalYears: 3, weightedYears: 3 });
+  });
+
+  it('caps end dates in the future at now', () => {
+    expect(summarize([{ startDate: '2025-01-01', endDate: '2030-01-01' }])).toEqual({ totalYears: 1, weightedYears: 1 });
+  });
+
+  it('ignores periods that end before they start, start in the future or have invalid dates', () => {
+    expect(summarize([
+      { startDate: '2022-01-01', endDate: '2020-01-01' },
+      { startDate: '2027-01-01', endDate: null },
+      { startDate: 'not a date', endDate: '2020-01-01' },
+    ])).toEqual({ totalYears: 0, weightedYears: 0 });
+  });
+
+  it('returns zero without periods', () => {
+    expect(summarize([])).toEqual({ totalYears: 0, weightedYears: 0 });
+  });
+
+  describe('title weighting', () => {
+    it('weights unrelated jobs down', () => {
+      expect(summarize([
+        { jobTitle: 'Senior truck driver', startDate: '2020-01-01', endDate: '2022-01-01' },
+        { jobTitle: 'Accountant', startDate: '2022-01-01', endDate: '2024-01-01' },
+      ], DRIVER_TARGET)).toEqual({ totalYears: 4, weightedYears: 3 });
+    });
+
+    it('applies the most relevant weight to time shared by overlapping jobs', () => {
+      expect(summarize([
+        { jobTitle: 'Accountant', startDate: '2018-01-01', endDate: '2022-01-01' },
+        { jobTitle: 'Truck driver', startDate: '2020-01-01', endDate: '2024-01-01' },
+      ], DRIVER_TARGET)).toEqual({ totalYears: 6, weightedYears: 5 });
+    });
+
+    it('does not let a nested unrelated job lower a relevant one', () => {
+      expect(summarize([
+        { jobTitle: 'Truck driver', startDate: '2018-01-01', endDate: '2022-01-01' },
+        { jobTitle: 'Cashier', startDate: '2019-01-01', endDate: '2020-01-01' },
+      ], DRIVER_TARGET)).toEqual({ totalYears: 4, weightedYears: 4 });
+    });
+
+    it('counts jobs without a title, or without a target title, in full', () => {
+      expect(summarize([{ startDate: '2020-01-01', endDate: '2022-01-01' }], DRIVER_TARGET))
+        .toEqual({ totalYears: 2, weightedYears: 2 });
+      expect(summarize([{ jobTitle: 'Accountant', startDate: '2020-01-01', endDate: '2022-01-01' }]))
+        .toEqual({ totalYears: 2, weightedYears: 2 });
+    });
+  });
+});
+
+describe('jobTitleSimilarity', () => {
+  it('ignores seniority words and case', () => {
+    expect(jobTitleSimilarity('Senior Truck Driver', 'truck driver')).toBe(1);
+  });
+
+  it('scores partial overlap by shared tokens', () => {
+    expect(jobTitleSimilarity('Truck driver', 'Bus driver')).toBeCloseTo(1 / 3);
+    expect(jobTitleSimilarity('Водитель грузовика', 'Водитель')).toBe(0.5);
+  });
+
+  it('keeps technology tokens such as C++ and C#', () => {
+    expect(tokenizeJobTitle('C++ developer')).toEqual(new Set(['c++', 'developer']));
+    expect(jobTitleSimilarity('C# developer', 'C++ developer')).toBeCloseTo(1 / 3);
+  });
+
+  it('is 0 when a title has no significant tokens', () => {
+    expect(jobTitleSimilarity('Senior', 'Truck driver')).toBe(0);
+    expect(jobTitleSimilarity('', '')).toBe(0);
+  });
+});
@@ -0,0 +1,110 @@
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+const TITLE_STOPWORDS = new Set([
+  'senior', 'junior', 'middle', 'lead', 'chief', 'head', 'principal', 'assistant', 'trainee', 'intern',
+  'sr', 'jr', 'of', 'and', 'the', 'for', 'in', 'at', 'to', 'a', 'an',
+]);
+
+export interface ExperiencePeriod {
+  jobTitle?: string | null;
+  startDate: Date | string;
+  endDate?: Date | string | null;
+}
+
+export interface ExperienceSummary {
+  totalYears: number;
+  weightedYears: number;
+}
+
+export interface ExperienceWeighting {
+  targetJobTitle?: string | null;
+  titleMatchThreshold: number;
+  unrelatedTitleWeight: number;
+}
+
+interface WeightedInterval {
+  start: number;
+  end: number;
+  weight: number;
+}
+
+export function tokenizeJobTitle(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}+#]+/u)
+      .filter(token => token.length > 1 && !TITLE_STOPWORDS.has(token)),
+  );
+}
+
+/**
+ * Jaccard similarity of the significant tokens of two job titles, 0 when either has none.
+ */
+export function jobTitleSimilarity(a: string, b: string): number {
+  const left = tokenizeJobTitle(a);
+  const right = tokenizeJobTitle(b);
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let shared = 0;
+  for (const token of left) {
+    if (right.has(token)) shared++;
+  }
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Sums experience over the union of all job periods so overlapping jobs are counted once.
+ * Where periods overlap, the most relevant job's weight applies to the shared time.
+ */
+export function summarizeExperience(
+  periods: ExperiencePeriod[],
+  weighting: ExperienceWeighting,
+  now: Date = new Date(),
+): ExperienceSummary {
+  const nowMs = now.getTime();
+  const intervals: WeightedInterval[] = [];
+
+  for (const period of periods) {
+    const start = new Date(period.startDate).getTime();
+    const end = Math.min(period.endDate ? new Date(period.endDate).getTime() : nowMs, nowMs);
+    if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) continue;
+
+    intervals.push({ start, end, weight: titleWeight(period.jobTitle, weighting) });
+  }
+
+  if (intervals.length === 0) {
+    return { totalYears: 0, weightedYears: 0 };
+  }
+
+  const boundaries = [...new Set(intervals.flatMap(i => [i.start, i.end]))].sort((a, b) => a - b);
+
+  let totalMs = 0;
+  let weightedMs = 0;
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const segmentStart = boundaries[i];
+    const segmentEnd = boundaries[i + 1];
+
+    let weight = -1;
+    for (const interval of intervals) {
+      if (interval.start <= segmentStart && interval.end >= segmentEnd) {
+        weight = Math.max(weight, interval.weight);
+      }
+    }
+    if (weight < 0) continue;
+
+    totalMs += segmentEnd - segmentStart;
+    weightedMs += (segmentEnd - segmentStart) * weight;
+  }
+
+  return {
+    totalYears: Math.round((totalMs / MS_PER_YEAR) * 100) / 100,
+    weightedYears: Math.round((weightedMs / MS_PER_YEAR) * 100) / 100,
+  };
+}
+
+function titleWeight(jobTitle: string | null | undefined, weighting: ExperienceWeighting): number {
+  if (!weighting.targetJobTitle || !jobTitle) return 1;
+
+  const similarity = jobTitleSimilarity(jobTitle, weighting.targetJobTitle);
+  return similarity >= weighting.titleMatchThreshold ? 1 : weighting.unrelatedTitleWeight;
+}
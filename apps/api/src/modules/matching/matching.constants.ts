@@ -16,4 +16,5 @@ export const MatchingJobDefaults = {
   MAX_RETRIES: 3,
   RETRY_DELAY: 5000,
   CONCURRENCY: 2,
+  DEBOUNCE_DELAY: 30000,
 } as const;
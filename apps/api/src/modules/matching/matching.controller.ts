@@ -0,0 +1,65 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeaders, ApiParam } from '@nestjs/swagger';
+import { MatchingService } from './matching.service';
+import { ListMatchesDto } from './dto/matching.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Request } from 'express';
+
+interface RequestWithUser extends Request {
+  user: {
+    id: string;
+    email: string;
+    role: string;
+    sessionId: string;
+    familyId: string;
+  };
+}
+
+@ApiTags('Matching')
+@Controller('api/v1')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+@ApiHeaders([{ name: 'authorization', description: 'Bearer token' }])
+export class MatchingController {
+  constructor(private readonly matchingService: MatchingService) {}
+
+  @Get('workers/me/matches')
+  @RequirePermissions('match:read_own')
+  @ApiOperation({ summary: 'List own vacancy matches with score breakdown' })
+  @ApiResponse({ status: 200, description: 'Matches retrieved successfully' })
+  async listMyMatches(@Query() dto: ListMatchesDto, @Req() req: RequestWithUser) {
+    return this.matchingService.listWorkerMatches(req.user.id, dto, this.extractIp(req));
+  }
+
+  @Get('vacancies/:vacancyId/matches')
+  @RequirePermissions('match:read_vacancy')
+  @ApiOperation({ summary: 'List worker matches for an own vacancy (employer)' })
+  @ApiParam({ name: 'vacancyId', description: 'Vacancy UUID' })
+  @ApiResponse({ status: 200, description: 'Matches retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Not authorized for this vacancy' })
+  async listVacancyMatches(
+    @Param('vacancyId', ParseUUIDPipe) vacancyId: string,
+    @Query() dto: ListMatchesDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.matchingService.listVacancyMatches(req.user.id, vacancyId, dto, this.extractIp(req));
+  }
+
+  private extractIp(req: Request): string {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (forwarded) {
+      return (forwarded as string).split(',')[0].trim();
+    }
+    return req.headers['x-real-ip'] as string || req.ip || 'unknown';
+  }
+}
@@ -1,15 +1,23 @@
 import { Module } from '@nestjs/common';
+import { MatchingController } from './matching.controller';
 import { MatchingService } from './matching.service';
 import { MatchingRepository } from './matching.repository';
 import { MatchingRedisService } from './matching-redis.service';
 import { MatchingCacheService } from './matching-cache.service';
 import { MatchingQueueService } from './matching.queue';
 import { MatchingProcessor } from './matching.processor';
+import { MatchingEventsListener } from './matching-events.listener';
+import { ScoringProfileController } from './scoring-profile.controller';
+import { ScoringProfileService } from './scoring-profile.service';
+import { ScoringProfileRepository } from './scoring-profile.repository';
 import { AuthModule } from '../auth/auth.module';
+import { SkillTaxonomyModule } from '../skill-taxonomy/skill-taxonomy.module';
+import { EmployerModule } from '../employer/employer.module';
 import { ConfigModule } from '../../config/config.module';
 
 @Module({
-  imports: [AuthModule, ConfigModule],
+  imports: [AuthModule, ConfigModule, SkillTaxonomyModule, EmployerModule],
+  controllers: [MatchingController, ScoringProfileController],
   providers: [
     MatchingService,
     MatchingRepository,
@@ -17,6 +25,9 @@ import { ConfigModule } from '../../config/config.module';
     MatchingCacheService,
     MatchingQueueService,
     MatchingProcessor,
+    MatchingEventsListener,
+    ScoringProfileService,
+    ScoringProfileRepository,
   ],
   exports: [MatchingService, MatchingRepository, MatchingQueueService],
 })
@@ -34,43 +34,64 @@ export class MatchingQueueService implements OnModuleDestroy {
     });
   }
 
-  async addRecalcWorkerJob(workerId: string): Promise<string> {
-    const jobId = `worker-${workerId}`;
-    const existingJob = await this.queue.getJob(jobId);
-    if (existingJob) {
+  async addRecalcWorkerJob(workerId: string, delay: number = 0): Promise<string> {
+    const jobId = await this.enqueue(JobTypes.RECALC_WORKER, `worker-${workerId}`, { workerId }, delay);
+    this.logger.log(`Queued recalc-worker job for worker ${workerId}, jobId: ${jobId}`);
+    return jobId;
+  }
+
+  async addRecalcVacancyJob(vacancyId: string, delay: number = 0): Promise<string> {
+    const jobId = await this.enqueue(JobTypes.RECALC_VACANCY, `vacancy-${vacancyId}`, { vacancyId }, delay);
+    this.logger.log(`Queued recalc-vacancy job for vacancy ${vacancyId}, jobId: ${jobId}`);
+    return jobId;
+  }
+
+  async removeRecalcVacancyJob(vacancyId: string): Promise<void> {
+    for (const jobId of [`vacancy-${vacancyId}`, `vacancy-${vacancyId}-next`]) {
       const state = await this.getJobStatus(jobId);
-      if (state !== 'not_found' && state !== 'completed' && state !== 'failed') {
-        this.logger.warn(`Job ${jobId} already exists with status: ${state}`);
-        return jobId;
+      if (state === 'waiting' || state === 'delayed') {
+        const job = await this.queue.getJob(jobId);
+        await job?.remove();
+        this.logger.log(`Removed pending job ${jobId}`);
       }
     }
-
-    const job = await this.queue.add(
-      JobTypes.RECALC_WORKER,
-      { workerId } as MatchingJobData,
-      this.createJobOptions(jobId),
-    );
-    this.logger.log(`Added recalc-worker job for worker ${workerId}, jobId: ${job.id}`);
-    return job.id!;
   }
 
-  async addRecalcVacancyJob(vacancyId: string): Promise<string> {
-    const jobId = `vacancy-${vacancyId}`;
+  private async enqueue(
+    name: string,
+    jobId: string,
+    data: MatchingJobData,
+    delay: number,
+    allowFollowUp = true,
+  ): Promise<string> {
     const existingJob = await this.queue.getJob(jobId);
     if (existingJob) {
       const state = await this.getJobStatus(jobId);
-      if (state !== 'not_found' && state !== 'completed' && state !== 'failed') {
-        this.logger.warn(`Job ${jobId} already exists with status: ${state}`);
+
+      if (state === 'delayed') {
+        if (delay > 0) {
+          await existingJob.changeDelay(delay);
+        }
+        return jobId;
+      }
+
+      if (state === 'waiting') {
         return jobId;
       }
+
+      if (state === 'processing') {
+        // The running job may already have read the old data, so schedule a single follow-up run
+        if (!allowFollowUp) return jobId;
+        return this.enqueue(name, `${jobId}-next`, data, delay, false);
+      }
+
+      await existingJob.remove();
     }
 
-    const job = await this.queue.add(
-      JobTypes.RECALC_VACANCY,
-      { vacancyId } as MatchingJobData,
-      this.createJobOptions(jobId),
-    );
-    this.logger.log(`Added recalc-vacancy job for vacancy ${vacancyId}, jobId: ${job.id}`);
+    const job = await this.queue.add(name, data, {
+      ...this.createJobOptions(jobId),
+      delay: delay > 0 ? delay : undefined,
+    });
     return job.id!;
   }
 
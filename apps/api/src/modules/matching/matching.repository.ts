@@ -1,27 +1,40 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../database/prisma/prisma.service';
 import { Prisma, MatchScore } from '@prisma/client';
+import { computeMatchScore, ScoringContext } from './matching.scoring';
 
 const CONCURRENCY_LIMIT = 20;
 
-interface PaginatedResult<T> {
-  items: T[];
-  totalCount: number;
-  page: number;
-  pageSize: number;
-  totalPages: number;
-}
-
-interface ScoreComponents {
+export interface MatchScoreData {
+  workerId: string;
+  vacancyId: string;
+  totalScore: number;
   skillScore: number;
   experienceScore: number;
   educationScore: number;
   locationScore: number;
   salaryScore: number;
-  totalScore: number;
   skillMatchCount: number;
   skillRequiredCount: number;
   isRecommended: boolean;
+  scoringProfileId: string | null;
+  scoringProfileVersion: number;
+}
+
+interface PaginatedResult<T> {
+  items: T[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export interface WorkerScoringData {
+  workerProfile: any;
+  workerPreferences: any;
+  workerSkills: any[];
+  workerEducation: any[];
+  workerExperience: any[];
 }
 
 @Injectable()
@@ -36,20 +49,8 @@ export class MatchingRepository {
     });
   }
 
-  async upsertMatchScore(data: {
-    workerId: string;
-    vacancyId: string;
-    totalScore: number;
-    skillScore: number;
-    experienceScore: number;
-    educationScore: number;
-    locationScore: number;
-    salaryScore: number;
-    skillMatchCount: number;
-    skillRequiredCount: number;
-    isRecommended: boolean;
-  }): Promise<MatchScore> {
-    return this.prisma.matchScore.upsert({
+  async upsertMatchScore(data: MatchScoreData, client: Prisma.TransactionClient = this.prisma): Promise<MatchScore> {
+    return client.matchScore.upsert({
       where: {
         workerId_vacancyId: { workerId: data.workerId, vacancyId: data.vacancyId },
       },
@@ -65,6 +66,8 @@ export class MatchingRepository {
         skillMatchCount: data.skillMatchCount,
         skillRequiredCount: data.skillRequiredCount,
         isRecommended: data.isRecommended,
+        scoringProfileId: data.scoringProfileId,
+        scoringProfileVersion: data.scoringProfileVersion,
       },
       update: {
         totalScore: data.totalScore,
@@ -76,11 +79,50 @@ export class MatchingRepository {
         skillMatchCount: data.skillMatchCount,
         skillRequiredCount: data.skillRequiredCount,
         isRecommended: data.isRecommended,
+        scoringProfileId: data.scoringProfileId,
+        scoringProfileVersion: data.scoringProfileVersion,
         calculatedAt: new Date(),
       },
     });
   }
 
+  /**
+   * Writes scores for one vacancy only while it is still open. The vacancy row is share-locked, so a close that
+   * commits first is seen here, and one that commits later waits and then purges what was written.
+   */
+  async upsertMatchScoresForOpenVacancy(
+    vacancyId: string,
+    scores: MatchScoreData[],
+  ): Promise<number> {
+    if (scores.length === 0) return 0;
+
+    return this.prisma.$transaction(async (tx) => {
+      const rows = await tx.$queryRaw<{ status: string }[]>`
+        SELECT status FROM vacancies
+        WHERE id = CAST(${vacancyId} AS uuid) AND deleted_at IS NULL
+        FOR SHARE`;
+      if (rows[0]?.status !== 'OPEN') return 0;
+
+      for (const score of scores) {
+        await this.upsertMatchScore(score, tx);
+      }
+      return scores.length;
+    });
+  }
+
+  async deleteMatchScoresForVacancy(vacancyId: string): Promise<string[]> {
+    return this.prisma.$transaction(async (tx) => {
+      const scores = await tx.matchScore.findMany({
+        where: { vacancyId },
+        select: { workerId: true },
+      });
+
+      await tx.matchScore.deleteMany({ where: { vacancyId } });
+
+      return scores.map(s => s.workerId);
+    });
+  }
+
   async getWorkerSkills(workerId: string): Promise<any[]> {
     return this.prisma.workerSkill.findMany({
       where: { userId: workerId, deletedAt: null },
@@ -107,7 +149,8 @@ export class MatchingRepository {
 
   async getVacancy(vacancyId: string): Promise<any> {
     return this.prisma.vacancy.findUnique({
-      where: { id: vacancyId, deletedAt: null },
+      where: { id: vacancyId, status: 'OPEN', deletedAt: null },
+      include: { employer: { select: { industry: true } } },
     });
   }
 
@@ -117,6 +160,12 @@ export class MatchingRepository {
     });
   }
 
+  async getWorkerPreferences(workerId: string): Promise<any> {
+    return this.prisma.workerPreferences.findUnique({
+      where: { userId: workerId },
+    });
+  }
+
   async getActiveVacanciesForWorker(workerId: string, page: number, pageSize: number): Promise<PaginatedResult<any>> {
     const enforcedPageSize = Math.min(pageSize, 200);
 
@@ -182,17 +231,136 @@ export class MatchingRepository {
     });
   }
 
-  async recalculateBatchForWorker(workerId: string, vacancyIds: string[]): Promise<number> {
+  async getVacancyMatches(vacancyId: string, limit: number = 20): Promise<MatchScore[]> {
+    return this.prisma.matchScore.findMany({
+      where: {
+        vacancyId,
+      },
+      orderBy: [{ totalScore: 'desc' }, { id: 'desc' }],
+      take: limit,
+    });
+  }
+
+  async listMatchesForWorker(
+    workerId: string,
+    page: number,
+    pageSize: number,
+    minScore?: number,
+    isRecommended?: boolean,
+  ): Promise<PaginatedResult<MatchScore & { vacancy: any }>> {
+    const enforcedPageSize = Math.min(pageSize, 100);
+    const offset = (page - 1) * enforcedPageSize;
+
+    const minScoreFilter = minScore !== undefined ? Prisma.sql`AND ms.total_score >= ${minScore}` : Prisma.empty;
+    const recommendedFilter = isRecommended !== undefined ? Prisma.sql`AND ms.is_recommended = ${isRecommended}` : Prisma.empty;
+
+    const baseQuery = Prisma.sql`
+      FROM "match_scores" ms
+      JOIN "vacancies" v ON v.id = ms.vacancy_id
+      WHERE ms.worker_id = CAST(${workerId} AS uuid)
+        AND v.status = CAST('OPEN' AS "VacancyStatus")
+        AND v.deleted_at IS NULL
+        ${minScoreFilter}
+        ${recommendedFilter}
+    `;
+
+    const [idsResult, countResult] = await Promise.all([
+      this.prisma.$queryRaw<{ id: string }[]>`
+        SELECT ms.id ${baseQuery}
+        ORDER BY ms.total_score DESC, ms.id DESC
+        LIMIT ${enforcedPageSize} OFFSET ${offset}
+      `,
+      this.prisma.$queryRaw<{ count: bigint }[]>`
+        SELECT COUNT(*) as count ${baseQuery}
+      `,
+    ]);
+
+    const totalCount = Number(countResult[0]?.count || 0);
+
+    const scores = await this.prisma.matchScore.findMany({
+      where: { id: { in: idsResult.map(r => r.id) } },
+      orderBy: [{ totalScore: 'desc' }, { id: 'desc' }],
+    });
+
+    const vacancies = await this.prisma.vacancy.findMany({
+      where: { id: { in: scores.map(s => s.vacancyId) } },
+      select: {
+        id: true,
+        jobTitle: true,
+        locationCity: true,
+        locationState: true,
+        isRemote: true,
+        expiresAt: true,
+      },
+    });
+    const vacancyMap = new Map(vacancies.map(v => [v.id, v]));
+
+    return {
+      items: scores.map(s => ({ ...s, vacancy: vacancyMap.get(s.vacancyId) || null })),
+      totalCount,
+      page,
+      pageSize: enforcedPageSize,
+      totalPages: Math.ceil(totalCount / enforcedPageSize),
+    };
+  }
+
+  async listMatchesForVacancy(
+    vacancyId: string,
+    page: number,
+    pageSize: number,
+    minScore?: number,
+    isRecommended?: boolean,
+  ): Promise<PaginatedResult<MatchScore>> {
+    const enforcedPageSize = Math.min(pageSize, 100);
+    const where: Prisma.MatchScoreWhereInput = { vacancyId };
+
+    if (minScore !== undefined) {
+      where.totalScore = { gte: minScore };
+    }
+
+    if (isRecommended !== undefined) {
+      where.isRecommended = isRecommended;
+    }
+
+    const [items, totalCount] = await Promise.all([
+      this.prisma.matchScore.findMany({
+        where,
+        skip: (page - 1) * enforcedPageSize,
+        take: enforcedPageSize,
+        orderBy: [{ totalScore: 'desc' }, { id: 'desc' }],
+      }),
+      this.prisma.matchScore.count({ where }),
+    ]);
+
+    return {
+      items,
+      totalCount,
+      page,
+      pageSize: enforcedPageSize,
+      totalPages: Math.ceil(totalCount / enforcedPageSize),
+    };
+  }
+
+  async validateVacancyOwnership(vacancyId: string, employerId: string): Promise<boolean> {
+    const vacancy = await this.prisma.vacancy.findFirst({
+      where: { id: vacancyId, employerId, deletedAt: null },
+    });
+    return !!vacancy;
+  }
+
+  async recalculateBatchForWorker(workerId: string, vacancyIds: string[], context: ScoringContext): Promise<number> {
     const workerSkills = await this.getWorkerSkills(workerId);
     const workerEducation = await this.getWorkerEducation(workerId);
     const workerExperience = await this.getWorkerExperience(workerId);
     const workerProfile = await this.getWorkerProfile(workerId);
+    const workerPreferences = await this.getWorkerPreferences(workerId);
 
     const vacancies = await this.prisma.vacancy.findMany({
       where: {
         id: { in: vacancyIds },
         deletedAt: null,
       },
+      include: { employer: { select: { industry: true } } },
     });
 
     const vacancySkills = await this.prisma.vacancySkill.findMany({
@@ -217,23 +385,20 @@ export class MatchingRepository {
       if (!vacancy) return 0;
 
       const vSkills = vacancySkillsMap.get(vacancyId) || [];
+      const config = context.profiles.resolveForVacancy(vacancy);
 
-      const scores = this.calculateScoreComponents(
-        workerSkills,
-        workerEducation,
-        workerExperience,
-        vSkills,
-        vacancy,
-        workerProfile,
+      const scores = computeMatchScore(
+        { workerSkills, workerEducation, workerExperience, workerProfile, workerPreferences, vacancySkills: vSkills, vacancy, taxonomy: context.taxonomy },
+        config,
       );
 
-      await this.upsertMatchScore({
+      return this.upsertMatchScoresForOpenVacancy(vacancyId, [{
         workerId,
         vacancyId,
         ...scores,
-      });
-
-      return 1;
+        scoringProfileId: config.profileId,
+        scoringProfileVersion: config.version,
+      }]);
     };
 
     const chunks: string[][] = [];
@@ -250,16 +415,15 @@ export class MatchingRepository {
     return totalCalculated;
   }
 
-  async recalculateBatchForVacancy(vacancyId: string, workerIds: string[]): Promise<number> {
-    const vacancy = await this.getVacancy(vacancyId);
-    if (!vacancy) return 0;
-
-    const vacancySkills = await this.getVacancySkills(vacancyId);
-
+  async getWorkerScoringData(workerIds: string[]): Promise<Map<string, WorkerScoringData>> {
     const workerProfiles = await this.prisma.workerProfile.findMany({
       where: { userId: { in: workerIds } }
     });
 
+    const workerPreferencesList = await this.prisma.workerPreferences.findMany({
+      where: { userId: { in: workerIds } }
+    });
+
     const workerSkillsList = await this.prisma.workerSkill.findMany({
       where: { userId: { in: workerIds }, deletedAt: null }
     });
@@ -273,179 +437,48 @@ export class MatchingRepository {
     });
 
     const workerProfileMap = new Map(workerProfiles.map(p => [p.userId, p]));
-    const workerSkillsMap = new Map<string, any[]>();
-    const workerEducationMap = new Map<string, any[]>();
-    const workerExperienceMap = new Map<string, any[]>();
+    const workerPreferencesMap = new Map(workerPreferencesList.map(p => [p.userId, p]));
+    const result = new Map<string, WorkerScoringData>();
+
+    for (const workerId of workerIds) {
+      result.set(workerId, {
+        workerProfile: workerProfileMap.get(workerId),
+        workerPreferences: workerPreferencesMap.get(workerId) || null,
+        workerSkills: [],
+        workerEducation: [],
+        workerExperience: [],
+      });
+    }
 
     for (const skill of workerSkillsList) {
-      if (!workerSkillsMap.has(skill.userId)) workerSkillsMap.set(skill.userId, []);
-      workerSkillsMap.get(skill.userId)!.push(skill);
+      result.get(skill.userId)?.workerSkills.push(skill);
     }
     for (const edu of workerEducationList) {
-      if (!workerEducationMap.has(edu.userId)) workerEducationMap.set(edu.userId, []);
-      workerEducationMap.get(edu.userId)!.push(edu);
+      result.get(edu.userId)?.workerEducation.push(edu);
     }
     for (const exp of workerExperienceList) {
-      if (!workerExperienceMap.has(exp.userId)) workerExperienceMap.set(exp.userId, []);
-      workerExperienceMap.get(exp.userId)!.push(exp);
-    }
-
-    const processWorker = async (workerId: string): Promise<number> => {
-      const workerSkills = workerSkillsMap.get(workerId) || [];
-      const workerEducation = workerEducationMap.get(workerId) || [];
-      const workerExperience = workerExperienceMap.get(workerId) || [];
-      const workerProfile = workerProfileMap.get(workerId);
-
-      const scores = this.calculateScoreComponents(
-        workerSkills,
-        workerEducation,
-        workerExperience,
-        vacancySkills,
-        vacancy,
-        workerProfile,
-      );
-
-      await this.upsertMatchScore({
-        workerId,
-        vacancyId,
-        ...scores,
-      });
-
-      return 1;
-    };
-
-    const chunks: string[][] = [];
-    for (let i = 0; i < workerIds.length; i += CONCURRENCY_LIMIT) {
-      chunks.push(workerIds.slice(i, i + CONCURRENCY_LIMIT));
+      result.get(exp.userId)?.workerExperience.push(exp);
     }
 
-    let totalCalculated = 0;
-    for (const chunk of chunks) {
-      const results = await Promise.all(chunk.map(processWorker));
-      totalCalculated += results.reduce((sum, r) => sum + r, 0);
-    }
-
-    return totalCalculated;
+    return result;
   }
 
-  private calculateScoreComponents(
-    workerSkills: any[],
-    workerEducation: any[],
-    workerExperience: any[],
-    vacancySkills: any[],
-    vacancy: any,
-    workerProfile: any,
-  ): ScoreComponents {
-    const skillScore = this.calculateSkillScore(workerSkills, vacancySkills);
-    const experienceScore = this.calculateExperienceScore(workerExperience, vacancy);
-    const educationScore = this.calculateEducationScore(workerEducation, vacancy);
-    const locationScore = this.calculateLocationScore(workerProfile, vacancy);
-    const salaryScore = this.calculateSalaryScore(workerProfile, vacancy);
-
-    const totalScore = Math.round(
-      (skillScore * 0.40 +
-        experienceScore * 0.25 +
-        educationScore * 0.15 +
-        locationScore * 0.10 +
-        salaryScore * 0.10) * 100
-    ) / 100;
-
-    const requiredSkills = vacancySkills.filter((s: any) => s.isRequired);
-    const matchedRequiredSkills = workerSkills.filter((ws: any) =>
-      requiredSkills.some((rs: any) => rs.skillCode === ws.skillCode)
-    );
-
-    const isRecommended = totalScore >= 70 && matchedRequiredSkills.length >= requiredSkills.length * 0.5;
-
-    return {
-      skillScore,
-      experienceScore,
-      educationScore,
-      locationScore,
-      salaryScore,
-      totalScore,
-      skillMatchCount: workerSkills.filter((ws: any) =>
-        vacancySkills.some((vs: any) => vs.skillCode === ws.skillCode)
-      ).length,
-      skillRequiredCount: requiredSkills.length,
-      isRecommended,
-    };
-  }
-
-  private calculateSkillScore(workerSkills: any[], vacancySkills: any[]): number {
-    if (vacancySkills.length === 0) return 50;
-
-    const matchedSkills = workerSkills.filter((ws: any) =>
-      vacancySkills.some((vs: any) => vs.skillCode === ws.skillCode)
-    );
-
-    const matchRatio = matchedSkills.length / vacancySkills.length;
-    return Math.round(matchRatio * 100 * 100) / 100;
-  }
-
-  private calculateExperienceScore(workerExperience: any[], vacancy: any): number {
-    if (!vacancy.experienceMinYears && !vacancy.experienceMaxYears) return 50;
-
-    const totalYears = workerExperience.reduce((sum: number, exp: any) => {
-      return sum + ((exp.endYear || new Date().getFullYear()) - (exp.startYear || 0));
-    }, 0);
-
-    if (vacancy.experienceMinYears && totalYears < vacancy.experienceMinYears) {
-      return Math.max(0, 100 - (vacancy.experienceMinYears - totalYears) * 10);
-    }
-
-    if (vacancy.experienceMaxYears && totalYears > vacancy.experienceMaxYears) {
-      return Math.max(0, 100 - (totalYears - vacancy.experienceMaxYears) * 5);
-    }
-
-    return 100;
-  }
-
-  private calculateEducationScore(workerEducation: any[], vacancy: any): number {
-    if (!vacancy.educationMinLevel) return 50;
-
-    const educationLevels = ['HIGH_SCHOOL', 'DIPLOMA', 'BACHELOR', 'MASTER', 'DOCTORATE'];
-    const vacancyLevelIndex = educationLevels.indexOf(vacancy.educationMinLevel);
-
-    if (vacancyLevelIndex === -1) return 50;
-
-    for (const edu of workerEducation) {
-      const workerLevelIndex = educationLevels.indexOf(edu.degreeLevel);
-      if (workerLevelIndex >= vacancyLevelIndex) {
-        return 100;
-      }
-    }
-
-    return Math.max(0, 100 - (vacancyLevelIndex * 25));
-  }
-
-  private calculateLocationScore(workerProfile: any, vacancy: any): number {
-    if (!vacancy.locationCity || !workerProfile?.city) return 50;
-
-    if (workerProfile.city.toLowerCase() === vacancy.locationCity.toLowerCase()) {
-      return 100;
-    }
-
-    if (workerProfile.state && vacancy.locationState &&
-      workerProfile.state.toLowerCase() === vacancy.locationState.toLowerCase()) {
-      return 70;
-    }
-
-    if (vacancy.isRemote) {
-      return 90;
-    }
-
-    return 30;
-  }
-
-  private calculateSalaryScore(workerProfile: any, vacancy: any): number {
-    if (!vacancy.salaryMin && !vacancy.salaryMax) return 50;
-
-    const expectedMin = vacancy.salaryMin?.toNumber() || 0;
-    const expectedMax = vacancy.salaryMax?.toNumber() || expectedMin * 2;
-
-    if (expectedMin === 0 && expectedMax === 0) return 50;
+  async recalculateBatchForVacancy(vacancyId: string, workerIds: string[], context: ScoringContext): Promise<number> {
+    const vacancy = await this.getVacancy(vacancyId);
+    if (!vacancy) return 0;
 
-    return 80;
+    const vacancySkills = await this.getVacancySkills(vacancyId);
+    const workerData = await this.getWorkerScoringData(workerIds);
+    const config = context.profiles.resolveForVacancy(vacancy);
+
+    const scores = workerIds.map(workerId => ({
+      workerId,
+      vacancyId,
+      ...computeMatchScore({ ...workerData.get(workerId)!, vacancySkills, vacancy, taxonomy: context.taxonomy }, config),
+      scoringProfileId: config.profileId,
+      scoringProfileVersion: config.version,
+    }));
+
+    return this.upsertMatchScoresForOpenVacancy(vacancyId, scores);
   }
 }
@@ -0,0 +1,556 @@
+import { ScoringProfile } from '@prisma/client';
+import { SkillTaxonomyGraph } from '../skill-taxonomy/skill-taxonomy.graph';
+import { summarizeExperience } from './matching-experience';
+import { mapDegreeToEducationLevel, educationLevelRank } from './matching-education';
+import { GazetteerPlace, haversineKm, locatePlace, resolvePlace } from '../../common/geo/uzbekistan-gazetteer';
+
+export interface ScoringWeights {
+  skill: number;
+  experience: number;
+  education: number;
+  location: number;
+  salary: number;
+}
+
+export interface ScoringParameters {
+  skill: {
+    noVacancySkillsScore: number;
+    minRequiredCoverage: number;
+    optionalWeight: number;
+    impliedSkillCredit: number;
+    relatedSkillCredit: number;
+    proficiencyGapPenalty: number;
+    fullCreditYears: number;
+    lowExperienceFactor: number;
+  };
+  experience: {
+    noRequirementScore: number;
+    defaultRangeYears: number;
+    titleMatchThreshold: number;
+    unrelatedTitleWeight: number;
+  };
+  education: {
+    noRequirementScore: number;
+    levelPenalty: number;
+    inProgressScore: number;
+  };
+  location: {
+    sameCityScore: number;
+    sameStateScore: number;
+    remoteScore: number;
+    relocateScore: number;
+    remoteMismatchScore: number;
+    otherScore: number;
+    unknownScore: number;
+    commuteRadiusKm: number;
+    maxCommuteKm: number;
+  };
+  salary: {
+    unknownScore: number;
+    negotiableScore: number;
+    tolerance: number;
+  };
+  preferences: {
+    jobTypeMismatchPenalty: number;
+    unavailablePenalty: number;
+  };
+}
+
+export interface ScoringConfig {
+  profileId: string | null;
+  version: number;
+  weights: ScoringWeights;
+  threshold: number;
+  parameters: ScoringParameters;
+}
+
+export interface ScoringInput {
+  workerSkills: any[];
+  workerEducation: any[];
+  workerExperience: any[];
+  workerProfile: any;
+  workerPreferences?: any;
+  vacancySkills: any[];
+  vacancy: any;
+  taxonomy?: SkillTaxonomyGraph;
+}
+
+export interface ScoringContext {
+  profiles: ScoringProfileSet;
+  taxonomy: SkillTaxonomyGraph;
+}
+
+export interface ScoreComponents {
+  skillScore: number;
+  experienceScore: number;
+  educationScore: number;
+  locationScore: number;
+  salaryScore: number;
+  totalScore: number;
+  skillMatchCount: number;
+  skillRequiredCount: number;
+  isRecommended: boolean;
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  skill: 0.40,
+  experience: 0.25,
+  education: 0.15,
+  location: 0.10,
+  salary: 0.10,
+};
+
+export const DEFAULT_SCORING_PARAMETERS: ScoringParameters = {
+  skill: {
+    noVacancySkillsScore: 50,
+    minRequiredCoverage: 0.5,
+    optionalWeight: 0.2,
+    impliedSkillCredit: 0.8,
+    relatedSkillCredit: 0.4,
+    proficiencyGapPenalty: 0.25,
+    fullCreditYears: 1,
+    lowExperienceFactor: 0.85,
+  },
+  experience: {
+    noRequirementScore: 100,
+    defaultRangeYears: 10,
+    titleMatchThreshold: 0.3,
+    unrelatedTitleWeight: 0.5,
+  },
+  education: {
+    noRequirementScore: 50,
+    levelPenalty: 25,
+    inProgressScore: 75,
+  },
+  location: {
+    sameCityScore: 100,
+    sameStateScore: 70,
+    remoteScore: 90,
+    relocateScore: 60,
+    remoteMismatchScore: 40,
+    otherScore: 30,
+    unknownScore: 50,
+    commuteRadiusKm: 30,
+    maxCommuteKm: 150,
+  },
+  salary: {
+    unknownScore: 50,
+    negotiableScore: 80,
+    tolerance: 0.5,
+  },
+  preferences: {
+    jobTypeMismatchPenalty: 10,
+    unavailablePenalty: 10,
+  },
+};
+
+export const DEFAULT_SCORING_THRESHOLD = 70;
+
+// Version 0 is reserved for the built-in defaults, persisted profiles start at 1.
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  profileId: null,
+  version: 0,
+  weights: DEFAULT_SCORING_WEIGHTS,
+  threshold: DEFAULT_SCORING_THRESHOLD,
+  parameters: DEFAULT_SCORING_PARAMETERS,
+};
+
+const PROFICIENCY_LEVELS = ['BEGINNER', 'INTERMEDIATE', 'ADVANCED', 'EXPERT'];
+
+export function mergeScoringParameters(...overrides: Array<Record<string, any> | null | undefined>): ScoringParameters {
+  const merged: ScoringParameters = {
+    skill: { ...DEFAULT_SCORING_PARAMETERS.skill },
+    experience: { ...DEFAULT_SCORING_PARAMETERS.experience },
+    education: { ...DEFAULT_SCORING_PARAMETERS.education },
+    location: { ...DEFAULT_SCORING_PARAMETERS.location },
+    salary: { ...DEFAULT_SCORING_PARAMETERS.salary },
+    preferences: { ...DEFAULT_SCORING_PARAMETERS.preferences },
+  };
+
+  for (const source of overrides) {
+    if (!source) continue;
+    for (const dimension of Object.keys(merged) as (keyof ScoringParameters)[]) {
+      Object.assign(merged[dimension], source[dimension] || {});
+    }
+  }
+
+  return merged;
+}
+
+export function toScoringConfig(profile: ScoringProfile): ScoringConfig {
+  return {
+    profileId: profile.id,
+    version: profile.currentVersion,
+    weights: { ...DEFAULT_SCORING_WEIGHTS, ...(profile.weights as Record<string, number>) },
+    threshold: profile.threshold,
+    parameters: mergeScoringParameters(profile.parameters as Record<string, any>),
+  };
+}
+
+/**
+ * Resolves the scoring config for a vacancy from the active profiles.
+ * Precedence: employer override, then industry override, then global profile, then built-in defaults.
+ */
+export class ScoringProfileSet {
+  private readonly byEmployer = new Map<string, ScoringConfig>();
+  private readonly byIndustry = new Map<string, ScoringConfig>();
+  private readonly global: ScoringConfig;
+
+  constructor(profiles: ScoringProfile[]) {
+    let global: ScoringConfig | null = null;
+
+    for (const profile of profiles) {
+      const config = toScoringConfig(profile);
+      if (profile.scope === 'EMPLOYER' && profile.employerId) {
+        this.byEmployer.set(profile.employerId, config);
+      } else if (profile.scope === 'INDUSTRY' && profile.industry) {
+        this.byIndustry.set(profile.industry.toLowerCase(), config);
+      } else if (profile.scope === 'GLOBAL') {
+        global = config;
+      }
+    }
+
+    this.global = global || DEFAULT_SCORING_CONFIG;
+  }
+
+  resolve(employerId?: string | null, industry?: string | null): ScoringConfig {
+    if (employerId && this.byEmployer.has(employerId)) {
+      return this.byEmployer.get(employerId)!;
+    }
+    if (industry && this.byIndustry.has(industry.toLowerCase())) {
+      return this.byIndustry.get(industry.toLowerCase())!;
+    }
+    return this.global;
+  }
+
+  resolveForVacancy(vacancy: any): ScoringConfig {
+    return this.resolve(vacancy.employerId, vacancy.employer?.industry);
+  }
+}
+
+export function computeMatchScore(input: ScoringInput, config: ScoringConfig): ScoreComponents {
+  const { workerSkills, workerEducation, workerExperience, workerProfile, vacancySkills, vacancy } = input;
+  const { weights, parameters } = config;
+
+  const skills = calculateSkillScore(workerSkills, vacancySkills, input.taxonomy || SkillTaxonomyGraph.empty(), parameters);
+  const skillScore = skills.score;
+  const experienceScore = calculateExperienceScore(workerExperience, vacancy, parameters);
+  const educationScore = calculateEducationScore(workerEducation, vacancy, parameters);
+  const locationScore = calculateLocationScore(workerProfile, input.workerPreferences, vacancy, parameters);
+  const salaryScore = calculateSalaryScore(input.workerPreferences, vacancy, parameters);
+
+  const weightedScore =
+    skillScore * weights.skill +
+    experienceScore * weights.experience +
+    educationScore * weights.education +
+    locationScore * weights.location +
+    salaryScore * weights.salary;
+  const penalty = calculatePreferencePenalty(input.workerPreferences, vacancy, parameters);
+  const totalScore = Math.round(Math.max(0, weightedScore - penalty) * 100) / 100;
+
+  const isRecommended = totalScore >= config.threshold &&
+    skills.requiredCredit >= skills.requiredCount * parameters.skill.minRequiredCoverage;
+
+  return {
+    skillScore,
+    experienceScore,
+    educationScore,
+    locationScore,
+    salaryScore,
+    totalScore,
+    skillMatchCount: skills.matchedRequiredCount,
+    skillRequiredCount: skills.requiredCount,
+    isRecommended,
+  };
+}
+
+interface SkillScoreResult {
+  score: number;
+  requiredCount: number;
+  matchedRequiredCount: number;
+  requiredCredit: number;
+}
+
+/**
+ * Scores required and optional vacancy skills separately. Each vacancy skill takes the best credit
+ * among the worker's skills: full for the same canonical skill, partial for implied or related skills,
+ * reduced for proficiency below the vacancy minimum and for little hands-on experience.
+ */
+function calculateSkillScore(
+  workerSkills: any[],
+  vacancySkills: any[],
+  taxonomy: SkillTaxonomyGraph,
+  parameters: ScoringParameters,
+): SkillScoreResult {
+  const requiredSkills = vacancySkills.filter((s: any) => s.isRequired);
+  const optionalSkills = vacancySkills.filter((s: any) => !s.isRequired);
+
+  if (vacancySkills.length === 0) {
+    return { score: parameters.skill.noVacancySkillsScore, requiredCount: 0, matchedRequiredCount: 0, requiredCredit: 0 };
+  }
+
+  const canonicalWorkerSkills = workerSkills.map((ws: any) => ({
+    code: taxonomy.canonicalize(ws.skillCode, ws.skillName),
+    proficiencyLevel: ws.proficiencyLevel,
+    yearsExperience: ws.yearsExperience,
+  }));
+
+  const creditFor = (vs: any): number => {
+    const vacancyCode = taxonomy.canonicalize(vs.skillCode, vs.skillName);
+    let best = 0;
+    for (const ws of canonicalWorkerSkills) {
+      const relation = taxonomy.relation(ws.code, vacancyCode);
+      const relationCredit = relation === 'EXACT' ? 1
+        : relation === 'IMPLIED' ? parameters.skill.impliedSkillCredit
+          : relation === 'RELATED' ? parameters.skill.relatedSkillCredit
+            : 0;
+      if (relationCredit === 0) continue;
+
+      const credit = relationCredit *
+        proficiencyFactor(ws.proficiencyLevel, vs.minProficiency, parameters) *
+        experienceFactor(ws.yearsExperience, parameters);
+      best = Math.max(best, credit);
+    }
+    return best;
+  };
+
+  const requiredCredits = requiredSkills.map(creditFor);
+  const optionalCredits = optionalSkills.map(creditFor);
+  const requiredCredit = requiredCredits.reduce((sum, c) => sum + c, 0);
+  const requiredCoverage = requiredSkills.length > 0 ? requiredCredit / requiredSkills.length : 0;
+  const optionalCoverage = optionalSkills.length > 0
+    ? optionalCredits.reduce((sum, c) => sum + c, 0) / optionalSkills.length
+    : 0;
+
+  let coverage: number;
+  if (requiredSkills.length === 0) {
+    coverage = optionalCoverage;
+  } else if (optionalSkills.length === 0) {
+    coverage = requiredCoverage;
+  } else {
+    const optionalWeight = Math.min(Math.max(parameters.skill.optionalWeight, 0), 1);
+    coverage = requiredCoverage * (1 - optionalWeight) + optionalCoverage * optionalWeight;
+  }
+
+  return {
+    score: Math.round(Math.min(coverage, 1) * 100 * 100) / 100,
+    requiredCount: requiredSkills.length,
+    matchedRequiredCount: requiredCredits.filter(c => c > 0).length,
+    requiredCredit,
+  };
+}
+
+function proficiencyFactor(workerLevel: string, minLevel: string | null | undefined, parameters: ScoringParameters): number {
+  if (!minLevel) return 1;
+
+  const required = PROFICIENCY_LEVELS.indexOf(minLevel);
+  const actual = PROFICIENCY_LEVELS.indexOf(workerLevel);
+  if (required === -1 || actual >= required) return 1;
+
+  const gap = actual === -1 ? required + 1 : required - actual;
+  return Math.max(0, 1 - gap * parameters.skill.proficiencyGapPenalty);
+}
+
+function experienceFactor(yearsExperience: number | null | undefined, parameters: ScoringParameters): number {
+  if ((yearsExperience || 0) >= parameters.skill.fullCreditYears) return 1;
+  return parameters.skill.lowExperienceFactor;
+}
+
+function calculateExperienceScore(workerExperience: any[], vacancy: any, parameters: ScoringParameters): number {
+  if (!vacancy.experienceMinYears && !vacancy.experienceMaxYears) {
+    return parameters.experience.noRequirementScore;
+  }
+
+  const minYears = vacancy.experienceMinYears || 0;
+  const maxYears = vacancy.experienceMaxYears || minYears + parameters.experience.defaultRangeYears;
+
+  const { weightedYears } = summarizeExperience(workerExperience, {
+    targetJobTitle: vacancy.jobTitle,
+    titleMatchThreshold: parameters.experience.titleMatchThreshold,
+    unrelatedTitleWeight: parameters.experience.unrelatedTitleWeight,
+  });
+
+  if (weightedYears >= minYears && weightedYears <= maxYears) {
+    return 100;
+  }
+
+  if (weightedYears < minYears) {
+    const deficit = minYears - weightedYears;
+    const deviationPercent = deficit / minYears;
+    return Math.round(Math.max(0, 100 - (deviationPercent * 100)) * 100) / 100;
+  }
+
+  const excess = weightedYears - maxYears;
+  const deviationPercent = maxYears > 0 ? excess / maxYears : 1;
+  return Math.round(Math.max(0, 100 - (deviationPercent * 100)) * 100) / 100;
+}
+
+function calculateEducationScore(workerEducation: any[], vacancy: any, parameters: ScoringParameters): number {
+  const requiredRank = educationLevelRank(vacancy.educationMinLevel);
+  if (requiredRank === -1) return parameters.education.noRequirementScore;
+
+  const now = Date.now();
+  let completedRank = -1;
+  let inProgressRank = -1;
+
+  for (const edu of workerEducation) {
+    const rank = educationLevelRank(mapDegreeToEducationLevel(edu.degree));
+    if (rank === -1) continue;
+
+    const completed = edu.endDate && new Date(edu.endDate).getTime() <= now;
+    if (completed) {
+      completedRank = Math.max(completedRank, rank);
+    } else {
+      inProgressRank = Math.max(inProgressRank, rank);
+    }
+  }
+
+  if (completedRank >= requiredRank) return 100;
+  if (inProgressRank >= requiredRank) return parameters.education.inProgressScore;
+
+  const missingLevels = requiredRank - completedRank;
+  return Math.max(0, 100 - (missingLevels * parameters.education.levelPenalty));
+}
+
+/**
+ * Scores the vacancy location against the worker's preferred cities and regions and the city of the
+ * worker's current (or permanent) address. Places found in the gazetteer are scored by distance: full
+ * score within the commute radius, then falling to `otherScore` at `maxCommuteKm`. Unknown places fall
+ * back to comparing names.
+ */
+function calculateLocationScore(workerProfile: any, preferences: any, vacancy: any, parameters: ScoringParameters): number {
+  const location = parameters.location;
+  const vacancyRemoteType = vacancy.remoteType || (vacancy.isRemote ? 'REMOTE' : null);
+  const prefersRemote = preferences?.remoteType === 'REMOTE';
+
+  if (vacancyRemoteType === 'REMOTE') {
+    return prefersRemote ? location.sameCityScore : location.remoteScore;
+  }
+
+  const address = addressFields(workerProfile?.currentAddress) || addressFields(workerProfile?.permanentAddress);
+  const preferredCities: string[] = preferences?.preferredCities || [];
+  const preferredRegions: string[] = preferences?.preferredRegions || [];
+
+  let score: number | null = null;
+  const vacancyPlace = locatePlace(vacancy.locationCity, vacancy.locationState, vacancy.locationPlaceCode);
+  if (vacancyPlace) {
+    const workerPlaces = [
+      ...preferredCities.map(city => resolvePlace(city, { types: ['CITY', 'DISTRICT'] })),
+      address ? locatePlace(address.city, address.region) : null,
+    ].filter((place): place is GazetteerPlace => !!place);
+    const workerRegionCodes = new Set([
+      ...workerPlaces.map(place => place.regionCode),
+      ...preferredRegions.map(region => resolvePlace(region, { types: ['REGION'] })?.regionCode),
+    ]);
+
+    if (workerPlaces.length > 0) {
+      const distance = Math.min(...workerPlaces.map(place => haversineKm(place, vacancyPlace)));
+      score = distanceScore(distance, preferences?.commuteRadiusKm || location.commuteRadiusKm, parameters);
+    }
+    if (workerRegionCodes.has(vacancyPlace.regionCode)) {
+      score = Math.max(score ?? 0, location.sameStateScore);
+    }
+  }
+
+  if (score === null) {
+    const cities = normalizedPlaces([...preferredCities, address?.city]);
+    const regions = normalizedPlaces([...preferredRegions, address?.region]);
+
+    if (!vacancy.locationCity || (cities.size === 0 && regions.size === 0)) {
+      score = location.unknownScore;
+    } else if (cities.has(normalizePlace(vacancy.locationCity))) {
+      score = location.sameCityScore;
+    } else if (vacancy.locationState && regions.has(normalizePlace(vacancy.locationState))) {
+      score = location.sameStateScore;
+    } else {
+      score = location.otherScore;
+    }
+  }
+
+  if (preferences?.willingToRelocate) {
+    score = Math.max(score, location.relocateScore);
+  }
+
+  if (prefersRemote && vacancyRemoteType === 'ONSITE') {
+    score = Math.min(score, location.remoteMismatchScore);
+  }
+
+  return score;
+}
+
+function distanceScore(distanceKm: number, commuteRadiusKm: number, parameters: ScoringParameters): number {
+  const location = parameters.location;
+  if (distanceKm <= commuteRadiusKm) return location.sameCityScore;
+
+  const span = location.maxCommuteKm - commuteRadiusKm;
+  if (span <= 0) return location.otherScore;
+
+  const closeness = Math.max(0, 1 - (distanceKm - commuteRadiusKm) / span);
+  return Math.round((location.otherScore + (location.sameStateScore - location.otherScore) * closeness) * 100) / 100;
+}
+
+function addressFields(address: any): { city?: string; region?: string } | null {
+  if (!address || typeof address !== 'object') return null;
+  const city = typeof address.city === 'string' ? address.city : undefined;
+  const region = [address.region, address.state, address.province].find(v => typeof v === 'string');
+  if (!city && !region) return null;
+  return { city, region };
+}
+
+function normalizePlace(place: string): string {
+  return place.trim().toLowerCase();
+}
+
+function normalizedPlaces(places: Array<string | null | undefined>): Set<string> {
+  return new Set(places.filter((p): p is string => !!p && !!p.trim()).map(normalizePlace));
+}
+
+/**
+ * Compares the vacancy salary range with the worker's expected range. Full score when the ranges overlap
+ * or the vacancy pays more; below the expectation the score falls linearly to 0 at `tolerance` of the
+ * expected minimum. Ranges in different currencies are not compared.
+ */
+function calculateSalaryScore(preferences: any, vacancy: any, parameters: ScoringParameters): number {
+  const salary = parameters.salary;
+  const vacancyMin = toNumber(vacancy.salaryMin);
+  const vacancyMax = toNumber(vacancy.salaryMax) || vacancyMin;
+  if (!vacancyMin && !vacancyMax) return salary.unknownScore;
+
+  const expectedMin = toNumber(preferences?.expectedSalaryMin);
+  const expectedMax = toNumber(preferences?.expectedSalaryMax);
+  const sameCurrency = !preferences?.salaryCurrency || !vacancy.salaryCurrency ||
+    preferences.salaryCurrency.toUpperCase() === vacancy.salaryCurrency.toUpperCase();
+
+  if ((!expectedMin && !expectedMax) || !sameCurrency) {
+    return vacancy.salaryIsNegotiable ? salary.negotiableScore : salary.unknownScore;
+  }
+
+  const floor = expectedMin || expectedMax;
+  if (vacancyMax >= floor) return 100;
+
+  const gap = floor - vacancyMax;
+  const allowed = salary.tolerance * floor;
+  const score = allowed > 0 ? Math.max(0, Math.round((1 - gap / allowed) * 100 * 100) / 100) : 0;
+
+  return vacancy.salaryIsNegotiable ? Math.max(score, salary.negotiableScore) : score;
+}
+
+function calculatePreferencePenalty(preferences: any, vacancy: any, parameters: ScoringParameters): number {
+  if (!preferences) return 0;
+
+  let penalty = 0;
+  if (preferences.jobTypes?.length > 0 && vacancy.jobType && !preferences.jobTypes.includes(vacancy.jobType)) {
+    penalty += parameters.preferences.jobTypeMismatchPenalty;
+  }
+  if (preferences.availableFrom && vacancy.expiresAt &&
+      new Date(preferences.availableFrom).getTime() > new Date(vacancy.expiresAt).getTime()) {
+    penalty += parameters.preferences.unavailablePenalty;
+  }
+  return penalty;
+}
+
+function toNumber(value: any): number {
+  if (value === null || value === undefined) return 0;
+  const n = typeof value === 'number' ? value : Number(value.toString());
+  return Number.isFinite(n) ? n : 0;
+}
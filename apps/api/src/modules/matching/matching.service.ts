@@ -1,12 +1,17 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, ForbiddenException } from '@nestjs/common';
 import { v4 as uuidv4 } from 'uuid';
 import { MatchingRepository } from './matching.repository';
 import { MatchingCacheService, CachedMatchScore } from './matching-cache.service';
 import { AuditService } from '../auth/audit.service';
+import { ListMatchesDto } from './dto/matching.dto';
+import { MatchListResponseDto, MatchResponseDto } from './dto/matching-response.dto';
+import { ScoringProfileRepository } from './scoring-profile.repository';
+import { computeMatchScore, ScoringContext, ScoringProfileSet } from './matching.scoring';
+import { SkillTaxonomyService } from '../skill-taxonomy/skill-taxonomy.service';
+import { EmployerRepository } from '../employer/employer.repository';
 
 const BATCH_SIZE = 200;
 const CONCURRENCY_LIMIT = 20;
-const MIN_SCORE_THRESHOLD = 70;
 
 interface ScoreResult {
   workerId: string;
@@ -20,6 +25,8 @@ interface ScoreResult {
   skillMatchCount: number;
   skillRequiredCount: number;
   isRecommended: boolean;
+  scoringProfileId: string | null;
+  scoringProfileVersion: number;
 }
 
 @Injectable()
@@ -30,12 +37,16 @@ export class MatchingService {
     private readonly matchingRepository: MatchingRepository,
     private readonly matchingCacheService: MatchingCacheService,
     private readonly auditService: AuditService,
+    private readonly scoringProfileRepository: ScoringProfileRepository,
+    private readonly skillTaxonomyService: SkillTaxonomyService,
+    private readonly employerRepository: EmployerRepository,
   ) {}
 
   async calculateScore(workerId: string, vacancyId: string): Promise<ScoreResult> {
-    const [vacancy, workerProfile, workerSkills, workerEducation, workerExperience, vacancySkills] = await Promise.all([
+    const [vacancy, workerProfile, workerPreferences, workerSkills, workerEducation, workerExperience, vacancySkills] = await Promise.all([
       this.matchingRepository.getVacancy(vacancyId),
       this.matchingRepository.getWorkerProfile(workerId),
+      this.matchingRepository.getWorkerPreferences(workerId),
       this.matchingRepository.getWorkerSkills(workerId),
       this.matchingRepository.getWorkerEducation(workerId),
       this.matchingRepository.getWorkerExperience(workerId),
@@ -49,20 +60,21 @@ export class MatchingService {
       });
     }
 
-    const scores = this.computeScore(
-      workerSkills,
-      workerEducation,
-      workerExperience,
-      vacancySkills,
-      vacancy,
-      workerProfile,
+    const context = await this.loadScoringContext();
+    const config = context.profiles.resolveForVacancy(vacancy);
+
+    const scores = computeMatchScore(
+      { workerSkills, workerEducation, workerExperience, workerProfile, workerPreferences, vacancySkills, vacancy, taxonomy: context.taxonomy },
+      config,
     );
 
-    await this.matchingRepository.upsertMatchScore({
+    await this.matchingRepository.upsertMatchScoresForOpenVacancy(vacancyId, [{
       workerId,
       vacancyId,
       ...scores,
-    });
+      scoringProfileId: config.profileId,
+      scoringProfileVersion: config.version,
+    }]);
 
     await this.auditService.log('MATCH_SCORE_CALCULATED', {
       userId: workerId,
@@ -71,6 +83,8 @@ export class MatchingService {
         vacancyId,
         totalScore: scores.totalScore,
         isRecommended: scores.isRecommended,
+        scoringProfileId: config.profileId,
+        scoringProfileVersion: config.version,
       },
     });
 
@@ -78,6 +92,8 @@ export class MatchingService {
       workerId,
       vacancyId,
       ...scores,
+      scoringProfileId: config.profileId,
+      scoringProfileVersion: config.version,
     };
   }
 
@@ -85,6 +101,7 @@ export class MatchingService {
     let page = 1;
     let totalCalculated = 0;
     let batchCount = 0;
+    const context = await this.loadScoringContext();
 
     while (true) {
       const result = await this.matchingRepository.getActiveVacanciesForWorker(
@@ -96,7 +113,7 @@ export class MatchingService {
       if (result.items.length === 0) break;
 
       const vacancyIds = result.items.map((v: any) => v.id);
-      const calculated = await this.matchingRepository.recalculateBatchForWorker(workerId, vacancyIds);
+      const calculated = await this.matchingRepository.recalculateBatchForWorker(workerId, vacancyIds, context);
       totalCalculated += calculated;
       batchCount++;
 
@@ -124,15 +141,14 @@ export class MatchingService {
   async recalcForVacancy(vacancyId: string, ipAddress?: string): Promise<{ calculated: number; batch: number }> {
     const vacancy = await this.matchingRepository.getVacancy(vacancyId);
     if (!vacancy) {
-      throw new NotFoundException({
-        success: false,
-        error: { code: 'VACANCY_NOT_FOUND', message: 'Vacancy not found' },
-      });
+      this.logger.log(`Skipped match recalculation for vacancy ${vacancyId}: not open`);
+      return { calculated: 0, batch: 0 };
     }
 
     let page = 1;
     let totalCalculated = 0;
     let batchCount = 0;
+    const context = await this.loadScoringContext();
 
     while (true) {
       const result = await this.matchingRepository.getActiveWorkersForVacancy(
@@ -144,7 +160,7 @@ export class MatchingService {
       if (result.items.length === 0) break;
 
       const workerIds = result.items.map((w: any) => w.userId);
-      const calculated = await this.matchingRepository.recalculateBatchForVacancy(vacancyId, workerIds);
+      const calculated = await this.matchingRepository.recalculateBatchForVacancy(vacancyId, workerIds, context);
       totalCalculated += calculated;
       batchCount++;
 
@@ -169,6 +185,25 @@ export class MatchingService {
     return { calculated: totalCalculated, batch: batchCount };
   }
 
+  async purgeVacancyScores(vacancyId: string, reason: string): Promise<{ purged: number }> {
+    const workerIds = await this.matchingRepository.deleteMatchScoresForVacancy(vacancyId);
+
+    await this.matchingCacheService.invalidateVacancyCache(vacancyId);
+    for (const workerId of workerIds) {
+      await this.matchingCacheService.invalidateWorkerCache(workerId);
+    }
+
+    await this.auditService.log('VACANCY_MATCHES_PURGED', {
+      userId: 'system',
+      ipAddress: 'system',
+      details: { vacancyId, reason, purged: workerIds.length },
+    });
+
+    this.logger.log(`Purged ${workerIds.length} match scores for vacancy ${vacancyId} (${reason})`);
+
+    return { purged: workerIds.length };
+  }
+
   async getRecommendedMatches(workerId: string, limit: number = 20) {
     const owner = `worker:${workerId}:${uuidv4()}`;
 
@@ -199,6 +234,73 @@ export class MatchingService {
     return matches.slice(0, limit);
   }
 
+  async listWorkerMatches(
+    workerUserId: string,
+    dto: ListMatchesDto,
+    ipAddress: string,
+  ): Promise<MatchListResponseDto> {
+    const result = await this.matchingRepository.listMatchesForWorker(
+      workerUserId,
+      Math.max(1, dto.page || 1),
+      Math.min(dto.pageSize || 20, 100),
+      dto.minScore,
+      dto.isRecommended,
+    );
+
+    await this.auditService.log('WORKER_MATCHES_LISTED', {
+      userId: workerUserId,
+      ipAddress,
+      details: { count: result.totalCount, minScore: dto.minScore, isRecommended: dto.isRecommended },
+    });
+
+    return {
+      items: result.items.map(m => this.sanitizeMatch(m)),
+      totalCount: result.totalCount,
+      page: result.page,
+      pageSize: result.pageSize,
+      totalPages: result.totalPages,
+    };
+  }
+
+  async listVacancyMatches(
+    employerUserId: string,
+    vacancyId: string,
+    dto: ListMatchesDto,
+    ipAddress: string,
+  ): Promise<MatchListResponseDto> {
+    const employerId = await this.employerRepository.findEmployerIdForUser(employerUserId);
+    const hasAccess = employerId !== null
+      && await this.matchingRepository.validateVacancyOwnership(vacancyId, employerId);
+    if (!hasAccess) {
+      throw new ForbiddenException({
+        success: false,
+        error: { code: 'ACCESS_DENIED', message: 'Not authorized to view matches for this vacancy' },
+      });
+    }
+
+    const result = await this.matchingRepository.listMatchesForVacancy(
+      vacancyId,
+      Math.max(1, dto.page || 1),
+      Math.min(dto.pageSize || 20, 100),
+      dto.minScore,
+      dto.isRecommended,
+    );
+
+    await this.auditService.log('VACANCY_MATCHES_LISTED', {
+      userId: employerUserId,
+      ipAddress,
+      details: { vacancyId, count: result.totalCount, minScore: dto.minScore, isRecommended: dto.isRecommended },
+    });
+
+    return {
+      items: result.items.map(m => this.sanitizeMatch(m)),
+      totalCount: result.totalCount,
+      page: result.page,
+      pageSize: result.pageSize,
+      totalPages: result.totalPages,
+    };
+  }
+
   async invalidateWorkerCache(workerId: string): Promise<void> {
     await this.matchingCacheService.invalidateWorkerCache(workerId);
   }
@@ -207,6 +309,29 @@ export class MatchingService {
     await this.matchingCacheService.invalidateVacancyCache(vacancyId);
   }
 
+  private sanitizeMatch(match: any): MatchResponseDto {
+    return {
+      id: match.id,
+      workerId: match.workerId,
+      vacancyId: match.vacancyId,
+      totalScore: match.totalScore,
+      breakdown: {
+        skillScore: match.skillScore,
+        experienceScore: match.experienceScore,
+        educationScore: match.educationScore,
+        locationScore: match.locationScore,
+        salaryScore: match.salaryScore,
+      },
+      skillMatchCount: match.skillMatchCount,
+      skillRequiredCount: match.skillRequiredCount,
+      isRecommended: match.isRecommended,
+      scoringProfileId: match.scoringProfileId || undefined,
+      scoringProfileVersion: match.scoringProfileVersion,
+      calculatedAt: match.calculatedAt,
+      vacancy: match.vacancy || undefined,
+    };
+  }
+
   private toCachedMatchScore(match: any): CachedMatchScore {
     return {
       workerId: match.workerId,
@@ -224,152 +349,11 @@ export class MatchingService {
     };
   }
 
-  private computeScore(
-    workerSkills: any[],
-    workerEducation: any[],
-    workerExperience: any[],
-    vacancySkills: any[],
-    vacancy: any,
-    workerProfile: any,
-  ): ScoreComponents {
-    const requiredSkills = vacancySkills.filter((s: any) => s.isRequired);
-    const skillScore = this.calculateSkillScore(workerSkills, vacancySkills, requiredSkills);
-    const experienceScore = this.calculateExperienceScore(workerExperience, vacancy);
-    const educationScore = this.calculateEducationScore(workerEducation, vacancy);
-    const locationScore = this.calculateLocationScore(workerProfile, vacancy);
-    const salaryScore = this.calculateSalaryScore(workerProfile, vacancy);
-
-    const totalScore = Math.round(
-      (skillScore * 0.40 +
-        experienceScore * 0.25 +
-        educationScore * 0.15 +
-        locationScore * 0.10 +
-        salaryScore * 0.10) * 100
-    ) / 100;
-
-    const isRecommended = totalScore >= MIN_SCORE_THRESHOLD;
-
-    return {
-      skillScore,
-      experienceScore,
-      educationScore,
-      locationScore,
-      salaryScore,
-      totalScore,
-      skillMatchCount: workerSkills.filter((ws: any) =>
-        vacancySkills.some((vs: any) => vs.skillCode === ws.skillCode)
-      ).length,
-      skillRequiredCount: requiredSkills.length,
-      isRecommended,
-    };
-  }
-
-  private calculateSkillScore(workerSkills: any[], vacancySkills: any[], requiredSkills: any[]): number {
-    if (requiredSkills.length === 0) return 100;
-    if (vacancySkills.length === 0) return 50;
-
-    const matchedSkills = workerSkills.filter((ws: any) =>
-      vacancySkills.some((vs: any) => vs.skillCode === ws.skillCode)
-    );
-
-    const matchRatio = matchedSkills.length / requiredSkills.length;
-    return Math.round(Math.min(matchRatio, 1) * 100 * 100) / 100;
-  }
-
-  private calculateExperienceScore(workerExperience: any[], vacancy: any): number {
-    const minYears = vacancy.experienceMinYears || 0;
-    const maxYears = vacancy.experienceMaxYears || minYears + 10;
-
-    if (minYears === 0 && maxYears === 0) return 100;
-
-    const totalYears = workerExperience.reduce((sum: number, exp: any) => {
-      return sum + ((exp.endYear || new Date().getFullYear()) - (exp.startYear || 0));
-    }, 0);
-
-    if (totalYears >= minYears && totalYears <= maxYears) {
-      return 100;
-    }
-
-    if (totalYears < minYears) {
-      const deficit = minYears - totalYears;
-      const deviationPercent = deficit / minYears;
-      return Math.max(0, 100 - (deviationPercent * 100));
-    }
-
-    const excess = totalYears - maxYears;
-    const deviationPercent = excess / maxYears;
-    return Math.max(0, 100 - (deviationPercent * 100));
-  }
-
-  private calculateEducationScore(workerEducation: any[], vacancy: any): number {
-    if (!vacancy.educationMinLevel) return 50;
-
-    const educationLevels = ['HIGH_SCHOOL', 'DIPLOMA', 'BACHELOR', 'MASTER', 'DOCTORATE'];
-    const vacancyLevelIndex = educationLevels.indexOf(vacancy.educationMinLevel);
-
-    if (vacancyLevelIndex === -1) return 50;
-
-    for (const edu of workerEducation) {
-      const workerLevelIndex = educationLevels.indexOf(edu.degreeLevel);
-      if (workerLevelIndex >= vacancyLevelIndex) {
-        return 100;
-      }
-    }
-
-    return Math.max(0, 100 - (vacancyLevelIndex * 25));
-  }
-
-  private calculateLocationScore(workerProfile: any, vacancy: any): number {
-    if (!vacancy.locationCity || !workerProfile?.city) return 50;
-
-    if (workerProfile.city.toLowerCase() === vacancy.locationCity.toLowerCase()) {
-      return 100;
-    }
-
-    if (workerProfile.state && vacancy.locationState &&
-        workerProfile.state.toLowerCase() === vacancy.locationState.toLowerCase()) {
-      return 70;
-    }
-
-    if (vacancy.isRemote) {
-      return 90;
-    }
-
-    return 30;
-  }
-
-  private calculateSalaryScore(workerProfile: any, vacancy: any): number {
-    if (!vacancy.salaryMin && !vacancy.salaryMax) return 50;
-
-    if (vacancy.salaryIsNegotiable) {
-      return 80;
-    }
-
-    const salaryMin = vacancy.salaryMin?.toNumber() || 0;
-    const salaryMax = vacancy.salaryMax?.toNumber() || salaryMin * 2;
-
-    if (salaryMin === 0 && salaryMax === 0) return 50;
-
-    const midPoint = (salaryMin + salaryMax) / 2;
-    const deviation = 0.5 * midPoint;
-
-    if (deviation === 0) return 100;
-
-    const distance = Math.abs(0 - midPoint);
-    const deviationPercent = distance / deviation;
-
-    return Math.max(0, Math.round((1 - deviationPercent) * 100 * 100) / 100);
+  private async loadScoringContext(): Promise<ScoringContext> {
+    const [profiles, taxonomy] = await Promise.all([
+      this.scoringProfileRepository.findActiveProfiles(),
+      this.skillTaxonomyService.getGraph(),
+    ]);
+    return { profiles: new ScoringProfileSet(profiles), taxonomy };
   }
 }
-
-interface ScoreComponents {
-  skillScore: number;
-  experienceScore: number;
-  educationScore: number;
-  locationScore: number;
-  salaryScore: number;
-  totalScore: number;
-  skillMatchCount: number;
-  skillRequiredCount: number;
-  isRecommended: boolean;
-}
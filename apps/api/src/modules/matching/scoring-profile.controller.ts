@@ -0,0 +1,123 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeaders, ApiParam } from '@nestjs/swagger';
+import { ScoringProfileService } from './scoring-profile.service';
+import {
+  CreateScoringProfileDto,
+  UpdateScoringProfileDto,
+  ListScoringProfilesDto,
+  ListScoringProfileVersionsDto,
+  ScoringDryRunDto,
+} from './dto/scoring-profile.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Request } from 'express';
+
+interface RequestWithUser extends Request {
+  user: {
+    id: string;
+    email: string;
+    role: string;
+    sessionId: string;
+    familyId: string;
+  };
+}
+
+@ApiTags('Matching')
+@Controller('api/v1/admin/matching/scoring-profiles')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('scoring_profile:manage')
+@ApiBearerAuth()
+@ApiHeaders([{ name: 'authorization', description: 'Bearer token' }])
+export class ScoringProfileController {
+  constructor(private readonly scoringProfileService: ScoringProfileService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List scoring profiles' })
+  @ApiResponse({ status: 200, description: 'Scoring profiles retrieved successfully' })
+  async listProfiles(@Query() dto: ListScoringProfilesDto) {
+    return this.scoringProfileService.listProfiles(dto);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a scoring profile' })
+  @ApiResponse({ status: 201, description: 'Scoring profile created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid weights, parameters or scope' })
+  async createProfile(@Body() dto: CreateScoringProfileDto, @Req() req: RequestWithUser) {
+    return this.scoringProfileService.createProfile(req.user.id, dto, this.extractIp(req));
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a scoring profile' })
+  @ApiParam({ name: 'id', description: 'Scoring profile UUID' })
+  @ApiResponse({ status: 200, description: 'Scoring profile retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Scoring profile not found' })
+  async getProfile(@Param('id', ParseUUIDPipe) id: string) {
+    return this.scoringProfileService.getProfile(id);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a scoring profile (config changes create a new version)' })
+  @ApiParam({ name: 'id', description: 'Scoring profile UUID' })
+  @ApiResponse({ status: 200, description: 'Scoring profile updated successfully' })
+  @ApiResponse({ status: 404, description: 'Scoring profile not found' })
+  async updateProfile(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateScoringProfileDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.scoringProfileService.updateProfile(req.user.id, id, dto, this.extractIp(req));
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a scoring profile' })
+  @ApiParam({ name: 'id', description: 'Scoring profile UUID' })
+  @ApiResponse({ status: 200, description: 'Scoring profile deleted successfully' })
+  async deleteProfile(@Param('id', ParseUUIDPipe) id: string, @Req() req: RequestWithUser) {
+    return this.scoringProfileService.deleteProfile(req.user.id, id, this.extractIp(req));
+  }
+
+  @Get(':id/versions')
+  @ApiOperation({ summary: 'List scoring profile versions' })
+  @ApiParam({ name: 'id', description: 'Scoring profile UUID' })
+  @ApiResponse({ status: 200, description: 'Versions retrieved successfully' })
+  async listVersions(@Param('id', ParseUUIDPipe) id: string, @Query() dto: ListScoringProfileVersionsDto) {
+    return this.scoringProfileService.listVersions(id, dto);
+  }
+
+  @Post(':id/dry-run')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Re-score a sample of vacancies with the profile and report ranking shifts' })
+  @ApiParam({ name: 'id', description: 'Scoring profile UUID' })
+  @ApiResponse({ status: 200, description: 'Dry-run report' })
+  async dryRun(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ScoringDryRunDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.scoringProfileService.dryRun(req.user.id, id, dto, this.extractIp(req));
+  }
+
+  private extractIp(req: Request): string {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (forwarded) {
+      return (forwarded as string).split(',')[0].trim();
+    }
+    return req.headers['x-real-ip'] as string || req.ip || 'unknown';
+  }
+}
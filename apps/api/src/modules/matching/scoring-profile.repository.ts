@@ -0,0 +1,252 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma/prisma.service';
+import { Prisma, ScoringProfile, ScoringProfileScope, ScoringProfileVersion } from '@prisma/client';
+
+interface PaginatedResult<T> {
+  items: T[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export interface ScoringProfileWriteData {
+  name?: string;
+  description?: string | null;
+  scope?: ScoringProfileScope;
+  employerId?: string | null;
+  industry?: string | null;
+  weights?: Record<string, number>;
+  threshold?: number;
+  parameters?: Record<string, any>;
+  isActive?: boolean;
+}
+
+@Injectable()
+export class ScoringProfileRepository {
+  constructor(private readonly prisma: PrismaService) { }
+
+  async findById(id: string): Promise<ScoringProfile | null> {
+    return this.prisma.scoringProfile.findFirst({
+      where: { id, deletedAt: null },
+    });
+  }
+
+  async findActiveProfiles(): Promise<ScoringProfile[]> {
+    return this.prisma.scoringProfile.findMany({
+      where: { isActive: true, deletedAt: null },
+    });
+  }
+
+  async employerExists(employerId: string): Promise<boolean> {
+    const employer = await this.prisma.employer.findFirst({
+      where: { id: employerId, deletedAt: null },
+      select: { id: true },
+    });
+    return !!employer;
+  }
+
+  async listProfiles(
+    page: number,
+    pageSize: number,
+    scope?: ScoringProfileScope,
+    isActive?: boolean,
+  ): Promise<PaginatedResult<ScoringProfile>> {
+    const enforcedPageSize = Math.min(pageSize, 100);
+    const where: Prisma.ScoringProfileWhereInput = { deletedAt: null };
+
+    if (scope) {
+      where.scope = scope;
+    }
+
+    if (isActive !== undefined) {
+      where.isActive = isActive;
+    }
+
+    const [items, totalCount] = await Promise.all([
+      this.prisma.scoringProfile.findMany({
+        where,
+        skip: (page - 1) * enforcedPageSize,
+        take: enforcedPageSize,
+        orderBy: [{ scope: 'asc' }, { createdAt: 'desc' }],
+      }),
+      this.prisma.scoringProfile.count({ where }),
+    ]);
+
+    return {
+      items,
+      totalCount,
+      page,
+      pageSize: enforcedPageSize,
+      totalPages: Math.ceil(totalCount / enforcedPageSize),
+    };
+  }
+
+  async createProfile(
+    data: Required<Pick<ScoringProfileWriteData, 'name' | 'scope' | 'weights' | 'threshold' | 'parameters'>> & ScoringProfileWriteData,
+    createdBy: string,
+  ): Promise<ScoringProfile> {
+    return this.prisma.$transaction(async (tx) => {
+      if (data.isActive) {
+        await this.deactivateSameScope(tx, data.scope, data.employerId, data.industry);
+      }
+
+      const profile = await tx.scoringProfile.create({
+        data: {
+          name: data.name,
+          description: data.description,
+          scope: data.scope,
+          employerId: data.employerId,
+          industry: data.industry,
+          weights: data.weights,
+          threshold: data.threshold,
+          parameters: data.parameters,
+          isActive: data.isActive ?? false,
+          currentVersion: 1,
+          createdBy,
+        },
+      });
+
+      await tx.scoringProfileVersion.create({
+        data: {
+          profileId: profile.id,
+          versionNumber: 1,
+          snapshotData: this.buildSnapshot(profile),
+          changeSummary: 'Initial version',
+          createdBy,
+        },
+      });
+
+      return profile;
+    });
+  }
+
+  async updateProfile(
+    id: string,
+    data: ScoringProfileWriteData,
+    bumpVersion: boolean,
+    updatedBy: string,
+    changeSummary?: string,
+  ): Promise<ScoringProfile> {
+    return this.prisma.$transaction(async (tx) => {
+      const current = await tx.scoringProfile.findFirst({
+        where: { id, deletedAt: null },
+      });
+
+      if (!current) {
+        throw new Error('SCORING_PROFILE_NOT_FOUND');
+      }
+
+      if (data.isActive && !current.isActive) {
+        await this.deactivateSameScope(tx, current.scope, current.employerId, current.industry);
+      }
+
+      const nextVersion = bumpVersion ? current.currentVersion + 1 : current.currentVersion;
+
+      const profile = await tx.scoringProfile.update({
+        where: { id },
+        data: {
+          name: data.name,
+          description: data.description,
+          weights: data.weights,
+          threshold: data.threshold,
+          parameters: data.parameters,
+          isActive: data.isActive,
+          currentVersion: nextVersion,
+        },
+      });
+
+      if (bumpVersion) {
+        await tx.scoringProfileVersion.create({
+          data: {
+            profileId: id,
+            versionNumber: nextVersion,
+            snapshotData: this.buildSnapshot(profile),
+            changeSummary,
+            createdBy: updatedBy,
+          },
+        });
+      }
+
+      return profile;
+    });
+  }
+
+  async softDeleteProfile(id: string): Promise<void> {
+    await this.prisma.scoringProfile.update({
+      where: { id },
+      data: { deletedAt: new Date(), isActive: false },
+    });
+  }
+
+  async listVersions(profileId: string, page: number, pageSize: number): Promise<PaginatedResult<ScoringProfileVersion>> {
+    const enforcedPageSize = Math.min(pageSize, 100);
+
+    const [items, totalCount] = await Promise.all([
+      this.prisma.scoringProfileVersion.findMany({
+        where: { profileId },
+        skip: (page - 1) * enforcedPageSize,
+        take: enforcedPageSize,
+        orderBy: { versionNumber: 'desc' },
+      }),
+      this.prisma.scoringProfileVersion.count({ where: { profileId } }),
+    ]);
+
+    return {
+      items,
+      totalCount,
+      page,
+      pageSize: enforcedPageSize,
+      totalPages: Math.ceil(totalCount / enforcedPageSize),
+    };
+  }
+
+  async getSampleVacancies(profile: ScoringProfile, sampleSize: number): Promise<{ id: string; jobTitle: string }[]> {
+    const where: Prisma.VacancyWhereInput = { status: 'OPEN', deletedAt: null };
+
+    if (profile.scope === 'EMPLOYER' && profile.employerId) {
+      where.employerId = profile.employerId;
+    } else if (profile.scope === 'INDUSTRY' && profile.industry) {
+      where.employer = { industry: { equals: profile.industry, mode: 'insensitive' } };
+    }
+
+    return this.prisma.vacancy.findMany({
+      where,
+      select: { id: true, jobTitle: true },
+      orderBy: { publishedAt: 'desc' },
+      take: sampleSize,
+    });
+  }
+
+  private async deactivateSameScope(
+    tx: Prisma.TransactionClient,
+    scope: ScoringProfileScope,
+    employerId?: string | null,
+    industry?: string | null,
+  ): Promise<void> {
+    const where: Prisma.ScoringProfileWhereInput = { scope, isActive: true, deletedAt: null };
+
+    if (scope === 'EMPLOYER') {
+      where.employerId = employerId;
+    } else if (scope === 'INDUSTRY') {
+      where.industry = { equals: industry || '', mode: 'insensitive' };
+    }
+
+    await tx.scoringProfile.updateMany({
+      where,
+      data: { isActive: false },
+    });
+  }
+
+  private buildSnapshot(profile: ScoringProfile): Prisma.InputJsonObject {
+    return {
+      name: profile.name,
+      scope: profile.scope,
+      employerId: profile.employerId,
+      industry: profile.industry,
+      weights: profile.weights as Prisma.InputJsonObject,
+      threshold: profile.threshold,
+      parameters: profile.parameters as Prisma.InputJsonObject,
+    };
+  }
+}
@@ -0,0 +1,444 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ScoringProfile, ScoringProfileVersion } from '@prisma/client';
+import { ScoringProfileRepository } from './scoring-profile.repository';
+import { MatchingRepository } from './matching.repository';
+import { AuditService } from '../auth/audit.service';
+import { SkillTaxonomyService } from '../skill-taxonomy/skill-taxonomy.service';
+import {
+  computeMatchScore,
+  mergeScoringParameters,
+  toScoringConfig,
+  DEFAULT_SCORING_PARAMETERS,
+  ScoringConfig,
+  ScoringWeights,
+} from './matching.scoring';
+import {
+  CreateScoringProfileDto,
+  UpdateScoringProfileDto,
+  ListScoringProfilesDto,
+  ListScoringProfileVersionsDto,
+  ScoringDryRunDto,
+} from './dto/scoring-profile.dto';
+import {
+  ScoringProfileResponseDto,
+  ScoringProfileListResponseDto,
+  ScoringProfileVersionResponseDto,
+  ScoringProfileVersionListResponseDto,
+  ScoringDryRunResponseDto,
+  ScoringDryRunVacancyDto,
+  ScoringDryRunInvalidMatchDto,
+} from './dto/scoring-profile-response.dto';
+
+const WEIGHT_SUM_TOLERANCE = 0.001;
+const DRY_RUN_DEFAULT_SAMPLE_SIZE = 10;
+const DRY_RUN_MATCHES_PER_VACANCY = 200;
+const DRY_RUN_TOP_N = 10;
+const DRY_RUN_MOVERS = 5;
+
+@Injectable()
+export class ScoringProfileService {
+  constructor(
+    private readonly scoringProfileRepository: ScoringProfileRepository,
+    private readonly matchingRepository: MatchingRepository,
+    private readonly auditService: AuditService,
+    private readonly skillTaxonomyService: SkillTaxonomyService,
+  ) {}
+
+  async createProfile(
+    adminUserId: string,
+    dto: CreateScoringProfileDto,
+    ipAddress: string,
+  ): Promise<ScoringProfileResponseDto> {
+    this.validateWeights(dto.weights);
+    this.validateParameters(dto.parameters);
+
+    if (dto.scope === 'EMPLOYER') {
+      if (!dto.employerId) {
+        throw new BadRequestException({
+          success: false,
+          error: { code: 'EMPLOYER_ID_REQUIRED', message: 'employerId is required for EMPLOYER scope' },
+        });
+      }
+      const exists = await this.scoringProfileRepository.employerExists(dto.employerId);
+      if (!exists) {
+        throw new NotFoundException({
+          success: false,
+          error: { code: 'EMPLOYER_NOT_FOUND', message: 'Employer not found' },
+        });
+      }
+    }
+
+    if (dto.scope === 'INDUSTRY' && !dto.industry?.trim()) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'INDUSTRY_REQUIRED', message: 'industry is required for INDUSTRY scope' },
+      });
+    }
+
+    const profile = await this.scoringProfileRepository.createProfile({
+      name: dto.name,
+      description: dto.description,
+      scope: dto.scope,
+      employerId: dto.scope === 'EMPLOYER' ? dto.employerId : null,
+      industry: dto.scope === 'INDUSTRY' ? dto.industry!.trim() : null,
+      weights: { ...dto.weights },
+      threshold: dto.threshold,
+      parameters: dto.parameters || {},
+      isActive: dto.isActive,
+    }, adminUserId);
+
+    await this.auditService.log('SCORING_PROFILE_CREATED', {
+      userId: adminUserId,
+      ipAddress,
+      after: profile,
+      details: {
+        profileId: profile.id,
+        scope: profile.scope,
+        employerId: profile.employerId,
+        industry: profile.industry,
+        isActive: profile.isActive,
+      },
+    });
+
+    return this.sanitizeProfile(profile);
+  }
+
+  async listProfiles(dto: ListScoringProfilesDto): Promise<ScoringProfileListResponseDto> {
+    const result = await this.scoringProfileRepository.listProfiles(
+      Math.max(1, dto.page || 1),
+      Math.min(dto.pageSize || 20, 100),
+      dto.scope,
+      dto.isActive,
+    );
+
+    return {
+      items: result.items.map(p => this.sanitizeProfile(p)),
+      totalCount: result.totalCount,
+      page: result.page,
+      pageSize: result.pageSize,
+      totalPages: result.totalPages,
+    };
+  }
+
+  async getProfile(profileId: string): Promise<ScoringProfileResponseDto> {
+    const profile = await this.getProfileOrThrow(profileId);
+    return this.sanitizeProfile(profile);
+  }
+
+  async updateProfile(
+    adminUserId: string,
+    profileId: string,
+    dto: UpdateScoringProfileDto,
+    ipAddress: string,
+  ): Promise<ScoringProfileResponseDto> {
+    const existing = await this.getProfileOrThrow(profileId);
+
+    if (dto.weights) {
+      this.validateWeights(dto.weights);
+    }
+    this.validateParameters(dto.parameters);
+
+    const bumpVersion = dto.weights !== undefined || dto.threshold !== undefined || dto.parameters !== undefined;
+
+    let profile: ScoringProfile;
+    try {
+      profile = await this.scoringProfileRepository.updateProfile(
+        profileId,
+        {
+          name: dto.name,
+          description: dto.description,
+          weights: dto.weights ? { ...dto.weights } : undefined,
+          threshold: dto.threshold,
+          parameters: dto.parameters,
+          isActive: dto.isActive,
+        },
+        bumpVersion,
+        adminUserId,
+        dto.changeSummary,
+      );
+    } catch (error: any) {
+      if (error.message?.includes('SCORING_PROFILE_NOT_FOUND')) {
+        throw new NotFoundException({
+          success: false,
+          error: { code: 'SCORING_PROFILE_NOT_FOUND', message: 'Scoring profile not found' },
+        });
+      }
+      throw error;
+    }
+
+    await this.auditService.log('SCORING_PROFILE_UPDATED', {
+      userId: adminUserId,
+      ipAddress,
+      before: existing,
+      after: profile,
+      reason: dto.changeSummary,
+      details: {
+        profileId,
+        version: profile.currentVersion,
+        versionBumped: bumpVersion,
+        isActive: profile.isActive,
+        changedFields: Object.keys(dto),
+      },
+    });
+
+    return this.sanitizeProfile(profile);
+  }
+
+  async deleteProfile(adminUserId: string, profileId: string, ipAddress: string): Promise<{ success: boolean }> {
+    const profile = await this.getProfileOrThrow(profileId);
+
+    await this.scoringProfileRepository.softDeleteProfile(profileId);
+
+    await this.auditService.log('SCORING_PROFILE_DELETED', {
+      userId: adminUserId,
+      ipAddress,
+      before: profile,
+      details: { profileId, scope: profile.scope, wasActive: profile.isActive },
+    });
+
+    return { success: true };
+  }
+
+  async listVersions(
+    profileId: string,
+    dto: ListScoringProfileVersionsDto,
+  ): Promise<ScoringProfileVersionListResponseDto> {
+    await this.getProfileOrThrow(profileId);
+
+    const result = await this.scoringProfileRepository.listVersions(
+      profileId,
+      Math.max(1, dto.page || 1),
+      Math.min(dto.pageSize || 20, 100),
+    );
+
+    return {
+      items: result.items.map(v => this.sanitizeVersion(v)),
+      totalCount: result.totalCount,
+      page: result.page,
+      pageSize: result.pageSize,
+      totalPages: result.totalPages,
+    };
+  }
+
+  async dryRun(
+    adminUserId: string,
+    profileId: string,
+    dto: ScoringDryRunDto,
+    ipAddress: string,
+  ): Promise<ScoringDryRunResponseDto> {
+    const profile = await this.getProfileOrThrow(profileId);
+
+    if (dto.weights) {
+      this.validateWeights(dto.weights);
+    }
+    this.validateParameters(dto.parameters);
+
+    const base = toScoringConfig(profile);
+    const candidate: ScoringConfig = {
+      ...base,
+      weights: dto.weights ? { ...dto.weights } : base.weights,
+      threshold: dto.threshold ?? base.threshold,
+      parameters: mergeScoringParameters(profile.parameters as Record<string, any>, dto.parameters),
+    };
+
+    const vacancies = await this.scoringProfileRepository.getSampleVacancies(
+      profile,
+      dto.sampleSize || DRY_RUN_DEFAULT_SAMPLE_SIZE,
+    );
+
+    const taxonomy = await this.skillTaxonomyService.getGraph();
+    const vacancyReports: ScoringDryRunVacancyDto[] = [];
+    const invalidMatches: ScoringDryRunInvalidMatchDto[] = [];
+    let sampledMatches = 0;
+    let totalScoreDelta = 0;
+    let totalRankShift = 0;
+    let recommendationsGained = 0;
+    let recommendationsLost = 0;
+
+    for (const vacancy of vacancies) {
+      const currentMatches = await this.matchingRepository.getVacancyMatches(vacancy.id, DRY_RUN_MATCHES_PER_VACANCY);
+      if (currentMatches.length === 0) continue;
+
+      const [fullVacancy, vacancySkills, workerData] = await Promise.all([
+        this.matchingRepository.getVacancy(vacancy.id),
+        this.matchingRepository.getVacancySkills(vacancy.id),
+        this.matchingRepository.getWorkerScoringData(currentMatches.map(m => m.workerId)),
+      ]);
+      if (!fullVacancy) continue;
+
+      const scorable = currentMatches.flatMap(match => {
+        const data = workerData.get(match.workerId);
+        if (data?.workerProfile) return [{ match, data }];
+        invalidMatches.push({ vacancyId: vacancy.id, workerId: match.workerId, reason: 'WORKER_NOT_FOUND' });
+        return [];
+      });
+      if (scorable.length === 0) continue;
+
+      const projected = scorable.map(({ match, data }, index) => {
+        const scores = computeMatchScore(
+          { ...data, vacancySkills, vacancy: fullVacancy, taxonomy },
+          candidate,
+        );
+        return {
+          workerId: match.workerId,
+          currentScore: match.totalScore,
+          currentRank: index + 1,
+          currentRecommended: match.isRecommended,
+          projectedScore: scores.totalScore,
+          projectedRecommended: scores.isRecommended,
+          projectedRank: 0,
+        };
+      });
+
+      [...projected]
+        .sort((a, b) => b.projectedScore - a.projectedScore || a.currentRank - b.currentRank)
+        .forEach((entry, index) => { entry.projectedRank = index + 1; });
+
+      const shifts = projected.map(p => Math.abs(p.projectedRank - p.currentRank));
+      const gained = projected.filter(p => !p.currentRecommended && p.projectedRecommended).length;
+      const lost = projected.filter(p => p.currentRecommended && !p.projectedRecommended).length;
+      const topN = Math.min(DRY_RUN_TOP_N, projected.length);
+      const topOverlap = projected.filter(p => p.currentRank <= topN && p.projectedRank <= topN).length;
+
+      sampledMatches += projected.length;
+      totalScoreDelta += projected.reduce((sum, p) => sum + (p.projectedScore - p.currentScore), 0);
+      totalRankShift += shifts.reduce((sum, s) => sum + s, 0);
+      recommendationsGained += gained;
+      recommendationsLost += lost;
+
+      vacancyReports.push({
+        vacancyId: vacancy.id,
+        jobTitle: vacancy.jobTitle,
+        matchCount: projected.length,
+        averageRankShift: this.round(shifts.reduce((sum, s) => sum + s, 0) / projected.length),
+        maxRankShift: Math.max(...shifts),
+        topOverlap: this.round(topOverlap / topN),
+        recommendationsGained: gained,
+        recommendationsLost: lost,
+        biggestMovers: [...projected]
+          .sort((a, b) => Math.abs(b.projectedRank - b.currentRank) - Math.abs(a.projectedRank - a.currentRank))
+          .slice(0, DRY_RUN_MOVERS)
+          .filter(p => p.projectedRank !== p.currentRank)
+          .map(p => ({
+            workerId: p.workerId,
+            currentScore: p.currentScore,
+            projectedScore: p.projectedScore,
+            currentRank: p.currentRank,
+            projectedRank: p.projectedRank,
+          })),
+      });
+    }
+
+    const report: ScoringDryRunResponseDto = {
+      profileId: profile.id,
+      profileVersion: profile.currentVersion,
+      sampledVacancies: vacancyReports.length,
+      sampledMatches,
+      averageScoreDelta: sampledMatches > 0 ? this.round(totalScoreDelta / sampledMatches) : 0,
+      averageRankShift: sampledMatches > 0 ? this.round(totalRankShift / sampledMatches) : 0,
+      recommendationsGained,
+      recommendationsLost,
+      vacancies: vacancyReports,
+      invalidMatches,
+    };
+
+    await this.auditService.log('SCORING_PROFILE_DRY_RUN', {
+      userId: adminUserId,
+      ipAddress,
+      details: {
+        profileId,
+        version: profile.currentVersion,
+        overrides: Object.keys(dto).filter(k => k !== 'sampleSize'),
+        sampledVacancies: report.sampledVacancies,
+        sampledMatches: report.sampledMatches,
+      },
+    });
+
+    return report;
+  }
+
+  private async getProfileOrThrow(profileId: string): Promise<ScoringProfile> {
+    const profile = await this.scoringProfileRepository.findById(profileId);
+    if (!profile) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'SCORING_PROFILE_NOT_FOUND', message: 'Scoring profile not found' },
+      });
+    }
+    return profile;
+  }
+
+  private validateWeights(weights: ScoringWeights): void {
+    const sum = weights.skill + weights.experience + weights.education + weights.location + weights.salary;
+    if (Math.abs(sum - 1) > WEIGHT_SUM_TOLERANCE) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'INVALID_WEIGHTS', message: `Weights must sum to 1, got ${this.round(sum)}` },
+      });
+    }
+  }
+
+  private validateParameters(parameters?: Record<string, Record<string, number>>): void {
+    if (!parameters) return;
+
+    for (const [dimension, values] of Object.entries(parameters)) {
+      const defaults = (DEFAULT_SCORING_PARAMETERS as any)[dimension];
+      if (!defaults || typeof values !== 'object' || values === null) {
+        throw new BadRequestException({
+          success: false,
+          error: { code: 'INVALID_PARAMETERS', message: `Unknown scoring dimension: ${dimension}` },
+        });
+      }
+
+      for (const [key, value] of Object.entries(values)) {
+        if (!(key in defaults)) {
+          throw new BadRequestException({
+            success: false,
+            error: { code: 'INVALID_PARAMETERS', message: `Unknown parameter ${dimension}.${key}` },
+          });
+        }
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+          throw new BadRequestException({
+            success: false,
+            error: { code: 'INVALID_PARAMETERS', message: `Parameter ${dimension}.${key} must be a non-negative number` },
+          });
+        }
+      }
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private sanitizeProfile(profile: ScoringProfile): ScoringProfileResponseDto {
+    const config = toScoringConfig(profile);
+    return {
+      id: profile.id,
+      name: profile.name,
+      description: profile.description || undefined,
+      scope: profile.scope,
+      employerId: profile.employerId || undefined,
+      industry: profile.industry || undefined,
+      weights: config.weights,
+      threshold: profile.threshold,
+      parameters: config.parameters as unknown as Record<string, Record<string, number>>,
+      isActive: profile.isActive,
+      currentVersion: profile.currentVersion,
+      createdAt: profile.createdAt,
+      updatedAt: profile.updatedAt,
+    };
+  }
+
+  private sanitizeVersion(version: ScoringProfileVersion): ScoringProfileVersionResponseDto {
+    return {
+      id: version.id,
+      profileId: version.profileId,
+      versionNumber: version.versionNumber,
+      snapshotData: version.snapshotData,
+      changeSummary: version.changeSummary || undefined,
+      createdBy: version.createdBy,
+      createdAt: version.createdAt,
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class NotificationResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ example: 'GOV_VERIFICATION_COMPLETED' })
+  type: string;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiProperty()
+  message: string;
+
+  @ApiPropertyOptional()
+  data?: Record<string, any>;
+
+  @ApiPropertyOptional()
+  readAt?: Date;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class NotificationListResponseDto {
+  @ApiProperty({ type: [NotificationResponseDto] })
+  items: NotificationResponseDto[];
+
+  @ApiProperty()
+  unreadCount: number;
+
+  @ApiProperty()
+  totalCount: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  pageSize: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
@@ -0,0 +1,96 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { DomainEventBus } from '../../common/events/domain-event-bus.service';
+import {
+  ApplicationAutoRejectedEvent,
+  DomainEvents,
+  GovVerificationExpiredEvent,
+  GovVerificationFinishedEvent,
+  VacancyModeratedEvent,
+} from '../../common/events/domain-events';
+import { NotificationService } from './notification.service';
+
+const VERIFICATION_LABELS: Record<string, string> = {
+  IDENTITY: 'Identity',
+  BUSINESS: 'Business',
+  EDUCATION: 'Education',
+  EXPERIENCE: 'Experience',
+  SKILLS: 'Skills',
+};
+
+@Injectable()
+export class NotificationEventsListener implements OnModuleInit {
+  constructor(
+    private readonly eventBus: DomainEventBus,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.subscribe(DomainEvents.GOV_VERIFICATION_FINISHED, (event) => this.handleVerificationFinished(event));
+    this.eventBus.subscribe(DomainEvents.GOV_VERIFICATION_EXPIRED, (event) => this.handleVerificationExpired(event));
+    this.eventBus.subscribe(DomainEvents.VACANCY_MODERATED, (event) => this.handleVacancyModerated(event));
+    this.eventBus.subscribe(DomainEvents.APPLICATION_AUTO_REJECTED, (event) => this.handleApplicationAutoRejected(event));
+  }
+
+  private async handleVerificationFinished(event: GovVerificationFinishedEvent): Promise<void> {
+    const label = VERIFICATION_LABELS[event.verificationType] || event.verificationType;
+
+    let type: string;
+    let message: string;
+    if (event.status === 'FAILED') {
+      type = 'GOV_VERIFICATION_FAILED';
+      message = `${label} verification could not be completed. Please try again later.`;
+    } else if (event.verified) {
+      type = 'GOV_VERIFICATION_COMPLETED';
+      message = `${label} verification succeeded.`;
+    } else {
+      type = 'GOV_VERIFICATION_COMPLETED';
+      message = `${label} verification finished, but the submitted details could not be confirmed.`;
+    }
+
+    await this.notificationService.notify(event.userId, type, `${label} verification`, message, {
+      verificationId: event.verificationId,
+      verificationType: event.verificationType,
+      status: event.status,
+      verified: event.verified,
+    });
+  }
+
+  private async handleVerificationExpired(event: GovVerificationExpiredEvent): Promise<void> {
+    const label = VERIFICATION_LABELS[event.verificationType] || event.verificationType;
+    const message = event.reverificationQueued
+      ? `${label} verification has expired. We are re-verifying your details automatically.`
+      : `${label} verification has expired. Please verify again to keep your profile verified.`;
+
+    await this.notificationService.notify(event.userId, 'GOV_VERIFICATION_EXPIRED', `${label} verification`, message, {
+      verificationType: event.verificationType,
+      reverificationQueued: event.reverificationQueued,
+    });
+  }
+
+  private async handleVacancyModerated(event: VacancyModeratedEvent): Promise<void> {
+    const outcome = {
+      APPROVED: 'was approved and is now published',
+      REJECTED: 'was rejected by a moderator',
+      CHANGES_REQUESTED: 'needs changes before it can be published',
+    }[event.decision];
+    const message = event.notes
+      ? `Your vacancy "${event.jobTitle}" ${outcome}. Moderator notes: ${event.notes}`
+      : `Your vacancy "${event.jobTitle}" ${outcome}.`;
+
+    await this.notificationService.notify(event.employerUserId, `VACANCY_${event.decision}`, 'Vacancy moderation', message, {
+      vacancyId: event.vacancyId,
+      employerId: event.employerId,
+      decision: event.decision,
+    });
+  }
+
+  private async handleApplicationAutoRejected(event: ApplicationAutoRejectedEvent): Promise<void> {
+    await this.notificationService.notify(
+      event.userId,
+      'APPLICATION_REJECTED',
+      'Application update',
+      `Your application for "${event.jobTitle}" was closed. ${event.reason}.`,
+      { applicationId: event.applicationId, vacancyId: event.vacancyId, reason: event.reason },
+    );
+  }
+}
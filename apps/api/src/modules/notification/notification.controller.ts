@@ -0,0 +1,64 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeaders, ApiParam } from '@nestjs/swagger';
+import { NotificationService } from './notification.service';
+import { ListNotificationsDto } from './dto/notification.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Request } from 'express';
+
+interface RequestWithUser extends Request {
+  user: {
+    id: string;
+    email: string;
+    role: string;
+    sessionId: string;
+    familyId: string;
+  };
+}
+
+@ApiTags('Notifications')
+@Controller('api/v1/notifications')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('notification:read_own')
+@ApiBearerAuth()
+@ApiHeaders([{ name: 'authorization', description: 'Bearer token' }])
+export class NotificationController {
+  constructor(private readonly notificationService: NotificationService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List my notifications' })
+  @ApiResponse({ status: 200, description: 'Notifications retrieved successfully' })
+  async listNotifications(@Query() dto: ListNotificationsDto, @Req() req: RequestWithUser) {
+    return this.notificationService.listNotifications(req.user.id, dto);
+  }
+
+  @Put('read-all')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark all my notifications as read' })
+  @ApiResponse({ status: 200, description: 'Notifications marked as read' })
+  async markAllRead(@Req() req: RequestWithUser) {
+    return this.notificationService.markAllRead(req.user.id);
+  }
+
+  @Put(':id/read')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  @ApiParam({ name: 'id', description: 'Notification UUID' })
+  @ApiResponse({ status: 200, description: 'Notification marked as read' })
+  @ApiResponse({ status: 404, description: 'Notification not found' })
+  async markRead(@Param('id', ParseUUIDPipe) id: string, @Req() req: RequestWithUser) {
+    return this.notificationService.markRead(req.user.id, id);
+  }
+}
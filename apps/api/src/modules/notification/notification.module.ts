@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { NotificationController } from './notification.controller';
+import { NotificationService } from './notification.service';
+import { NotificationRepository } from './notification.repository';
+import { NotificationEventsListener } from './notification-events.listener';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [NotificationController],
+  providers: [NotificationService, NotificationRepository, NotificationEventsListener],
+  exports: [NotificationService],
+})
+export class NotificationModule {}
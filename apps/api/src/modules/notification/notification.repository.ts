@@ -0,0 +1,88 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma/prisma.service';
+import { Notification, Prisma } from '@prisma/client';
+
+interface PaginatedResult<T> {
+  items: T[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+@Injectable()
+export class NotificationRepository {
+  constructor(private readonly prisma: PrismaService) { }
+
+  async createNotification(data: {
+    userId: string;
+    type: string;
+    title: string;
+    message: string;
+    data?: Record<string, any>;
+  }): Promise<Notification> {
+    return this.prisma.notification.create({
+      data: {
+        userId: data.userId,
+        type: data.type,
+        title: data.title,
+        message: data.message,
+        data: data.data as Prisma.JsonObject,
+      },
+    });
+  }
+
+  async listNotifications(
+    userId: string,
+    page: number,
+    pageSize: number,
+    unreadOnly?: boolean,
+  ): Promise<PaginatedResult<Notification>> {
+    const enforcedPageSize = Math.min(pageSize, 100);
+    const where: Prisma.NotificationWhereInput = { userId };
+    if (unreadOnly) where.readAt = null;
+
+    const [items, totalCount] = await Promise.all([
+      this.prisma.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * enforcedPageSize,
+        take: enforcedPageSize,
+      }),
+      this.prisma.notification.count({ where }),
+    ]);
+
+    return {
+      items,
+      totalCount,
+      page,
+      pageSize: enforcedPageSize,
+      totalPages: Math.ceil(totalCount / enforcedPageSize),
+    };
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    return this.prisma.notification.count({
+      where: { userId, readAt: null },
+    });
+  }
+
+  async markRead(notificationId: string, userId: string): Promise<Notification | null> {
+    const result = await this.prisma.notification.updateMany({
+      where: { id: notificationId, userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    if (result.count === 0) {
+      return this.prisma.notification.findFirst({ where: { id: notificationId, userId } });
+    }
+    return this.prisma.notification.findUnique({ where: { id: notificationId } });
+  }
+
+  async markAllRead(userId: string): Promise<number> {
+    const result = await this.prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    return result.count;
+  }
+}
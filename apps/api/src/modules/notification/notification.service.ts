@@ -0,0 +1,76 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Notification } from '@prisma/client';
+import { NotificationRepository } from './notification.repository';
+import { ListNotificationsDto } from './dto/notification.dto';
+import { NotificationResponseDto, NotificationListResponseDto } from './dto/notification-response.dto';
+
+@Injectable()
+export class NotificationService {
+  constructor(private readonly notificationRepository: NotificationRepository) {}
+
+  async notify(
+    userId: string,
+    type: string,
+    title: string,
+    message: string,
+    data?: Record<string, any>,
+  ): Promise<NotificationResponseDto> {
+    const notification = await this.notificationRepository.createNotification({
+      userId,
+      type,
+      title,
+      message,
+      data,
+    });
+    return this.mapNotificationToResponse(notification);
+  }
+
+  async listNotifications(userId: string, dto: ListNotificationsDto): Promise<NotificationListResponseDto> {
+    const [result, unreadCount] = await Promise.all([
+      this.notificationRepository.listNotifications(
+        userId,
+        Math.max(1, dto.page || 1),
+        Math.min(dto.pageSize || 20, 100),
+        dto.unreadOnly,
+      ),
+      this.notificationRepository.countUnread(userId),
+    ]);
+
+    return {
+      items: result.items.map(n => this.mapNotificationToResponse(n)),
+      unreadCount,
+      totalCount: result.totalCount,
+      page: result.page,
+      pageSize: result.pageSize,
+      totalPages: result.totalPages,
+    };
+  }
+
+  async markRead(userId: string, notificationId: string): Promise<NotificationResponseDto> {
+    const notification = await this.notificationRepository.markRead(notificationId, userId);
+    if (!notification) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'NOTIFICATION_NOT_FOUND', message: 'Notification not found' },
+      });
+    }
+    return this.mapNotificationToResponse(notification);
+  }
+
+  async markAllRead(userId: string): Promise<{ updated: number }> {
+    const updated = await this.notificationRepository.markAllRead(userId);
+    return { updated };
+  }
+
+  private mapNotificationToResponse(notification: Notification): NotificationResponseDto {
+    return {
+      id: notification.id,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      data: (notification.data as Record<string, any>) || undefined,
+      readAt: notification.readAt || undefined,
+      createdAt: notification.createdAt,
+    };
+  }
+}
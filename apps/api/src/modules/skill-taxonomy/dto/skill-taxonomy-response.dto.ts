@@ -0,0 +1,86 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SkillReferenceDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  code: string;
+
+  @ApiProperty()
+  name: string;
+}
+
+export class SkillSynonymResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  synonym: string;
+}
+
+export class TaxonomySkillResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  code: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiPropertyOptional()
+  description?: string;
+
+  @ApiPropertyOptional()
+  category?: string;
+
+  @ApiProperty()
+  isActive: boolean;
+
+  @ApiProperty({ type: [SkillSynonymResponseDto] })
+  synonyms: SkillSynonymResponseDto[];
+
+  @ApiProperty({ type: [SkillReferenceDto] })
+  parents: SkillReferenceDto[];
+
+  @ApiProperty({ type: [SkillReferenceDto] })
+  children: SkillReferenceDto[];
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class TaxonomySkillListResponseDto {
+  @ApiProperty({ type: [TaxonomySkillResponseDto] })
+  items: TaxonomySkillResponseDto[];
+
+  @ApiProperty()
+  totalCount: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  pageSize: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
+
+export class ResolvedSkillResponseDto {
+  @ApiProperty()
+  term: string;
+
+  @ApiProperty()
+  code: string;
+
+  @ApiProperty()
+  known: boolean;
+
+  @ApiProperty({ type: [String] })
+  implies: string[];
+}
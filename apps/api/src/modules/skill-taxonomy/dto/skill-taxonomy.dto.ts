@@ -0,0 +1,110 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, IsOptional, IsNumber, Min, Max, MaxLength, IsBoolean, IsArray, IsUUID, Matches } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CreateTaxonomySkillDto {
+  @ApiProperty({ example: 'REACT' })
+  @IsString()
+  @MaxLength(50)
+  @Matches(/^[A-Za-z0-9_.+#-]+$/, { message: 'code may only contain letters, digits and _ . + # -' })
+  code: string;
+
+  @ApiProperty({ example: 'React' })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  category?: string;
+
+  @ApiPropertyOptional({ type: [String], example: ['ReactJS', 'React.js'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @MaxLength(255, { each: true })
+  synonyms?: string[];
+
+  @ApiPropertyOptional({ type: [String], description: 'Skills implied by this one' })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  parentIds?: string[];
+}
+
+export class UpdateTaxonomySkillDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  category?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class ListTaxonomySkillsDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  pageSize?: number = 20;
+
+  @ApiPropertyOptional({ description: 'Matches code, name or synonym' })
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  category?: string;
+}
+
+export class AddSkillSynonymDto {
+  @ApiProperty()
+  @IsString()
+  @MaxLength(255)
+  synonym: string;
+}
+
+export class AddSkillParentDto {
+  @ApiProperty()
+  @IsUUID()
+  parentId: string;
+}
+
+export class ResolveSkillDto {
+  @ApiProperty({ description: 'Skill code, name or synonym' })
+  @IsString()
+  term: string;
+}
@@ -0,0 +1,162 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeaders, ApiParam } from '@nestjs/swagger';
+import { SkillTaxonomyService } from './skill-taxonomy.service';
+import {
+  CreateTaxonomySkillDto,
+  UpdateTaxonomySkillDto,
+  ListTaxonomySkillsDto,
+  AddSkillSynonymDto,
+  AddSkillParentDto,
+  ResolveSkillDto,
+} from './dto/skill-taxonomy.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Request } from 'express';
+
+interface RequestWithUser extends Request {
+  user: {
+    id: string;
+    email: string;
+    role: string;
+    sessionId: string;
+    familyId: string;
+  };
+}
+
+@ApiTags('Skill Taxonomy')
+@Controller('api/v1/admin/skills')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('skill_taxonomy:manage')
+@ApiBearerAuth()
+@ApiHeaders([{ name: 'authorization', description: 'Bearer token' }])
+export class SkillTaxonomyController {
+  constructor(private readonly skillTaxonomyService: SkillTaxonomyService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List taxonomy skills' })
+  @ApiResponse({ status: 200, description: 'Skills retrieved successfully' })
+  async listSkills(@Query() dto: ListTaxonomySkillsDto) {
+    return this.skillTaxonomyService.listSkills(dto);
+  }
+
+  @Get('resolve')
+  @ApiOperation({ summary: 'Resolve a code, name or synonym to its canonical skill code' })
+  @ApiResponse({ status: 200, description: 'Resolved skill' })
+  async resolveSkill(@Query() dto: ResolveSkillDto) {
+    return this.skillTaxonomyService.resolve(dto.term);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a taxonomy skill' })
+  @ApiResponse({ status: 201, description: 'Skill created successfully' })
+  @ApiResponse({ status: 409, description: 'Skill code or synonym already exists' })
+  async createSkill(@Body() dto: CreateTaxonomySkillDto, @Req() req: RequestWithUser) {
+    return this.skillTaxonomyService.createSkill(req.user.id, dto, this.extractIp(req));
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a taxonomy skill' })
+  @ApiParam({ name: 'id', description: 'Skill UUID' })
+  @ApiResponse({ status: 200, description: 'Skill retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Skill not found' })
+  async getSkill(@Param('id', ParseUUIDPipe) id: string) {
+    return this.skillTaxonomyService.getSkill(id);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a taxonomy skill' })
+  @ApiParam({ name: 'id', description: 'Skill UUID' })
+  @ApiResponse({ status: 200, description: 'Skill updated successfully' })
+  async updateSkill(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateTaxonomySkillDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.skillTaxonomyService.updateSkill(req.user.id, id, dto, this.extractIp(req));
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a taxonomy skill' })
+  @ApiParam({ name: 'id', description: 'Skill UUID' })
+  @ApiResponse({ status: 200, description: 'Skill deleted successfully' })
+  async deleteSkill(@Param('id', ParseUUIDPipe) id: string, @Req() req: RequestWithUser) {
+    return this.skillTaxonomyService.deleteSkill(req.user.id, id, this.extractIp(req));
+  }
+
+  @Post(':id/synonyms')
+  @ApiOperation({ summary: 'Add a synonym to a skill' })
+  @ApiParam({ name: 'id', description: 'Skill UUID' })
+  @ApiResponse({ status: 201, description: 'Synonym added successfully' })
+  async addSynonym(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: AddSkillSynonymDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.skillTaxonomyService.addSynonym(req.user.id, id, dto, this.extractIp(req));
+  }
+
+  @Delete(':id/synonyms/:synonymId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Remove a synonym from a skill' })
+  @ApiParam({ name: 'id', description: 'Skill UUID' })
+  @ApiParam({ name: 'synonymId', description: 'Synonym UUID' })
+  @ApiResponse({ status: 200, description: 'Synonym removed successfully' })
+  async removeSynonym(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('synonymId', ParseUUIDPipe) synonymId: string,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.skillTaxonomyService.removeSynonym(req.user.id, id, synonymId, this.extractIp(req));
+  }
+
+  @Post(':id/parents')
+  @ApiOperation({ summary: 'Link a parent skill (the skill implies its parents)' })
+  @ApiParam({ name: 'id', description: 'Skill UUID' })
+  @ApiResponse({ status: 201, description: 'Relation added successfully' })
+  @ApiResponse({ status: 400, description: 'Relation would create a cycle' })
+  async addParent(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: AddSkillParentDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.skillTaxonomyService.addParent(req.user.id, id, dto, this.extractIp(req));
+  }
+
+  @Delete(':id/parents/:parentId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Unlink a parent skill' })
+  @ApiParam({ name: 'id', description: 'Skill UUID' })
+  @ApiParam({ name: 'parentId', description: 'Parent skill UUID' })
+  @ApiResponse({ status: 200, description: 'Relation removed successfully' })
+  async removeParent(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('parentId', ParseUUIDPipe) parentId: string,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.skillTaxonomyService.removeParent(req.user.id, id, parentId, this.extractIp(req));
+  }
+
+  private extractIp(req: Request): string {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (forwarded) {
+      return (forwarded as string).split(',')[0].trim();
+    }
+    return req.headers['x-real-ip'] as string || req.ip || 'unknown';
+  }
+}
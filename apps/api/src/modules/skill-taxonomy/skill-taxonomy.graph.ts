@@ -0,0 +1,94 @@
+export type SkillRelationKind = 'EXACT' | 'IMPLIED' | 'RELATED' | 'NONE';
+
+export interface TaxonomyNode {
+  code: string;
+  name: string;
+  synonyms: string[];
+  parentCodes: string[];
+}
+
+export function normalizeSkillTerm(term: string): string {
+  return term.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+}
+
+/**
+ * In-memory view of the skill taxonomy used during scoring.
+ * A child skill implies all of its ancestors, e.g. REACT implies JAVASCRIPT.
+ */
+export class SkillTaxonomyGraph {
+  private readonly lookup = new Map<string, string>();
+  private readonly parents = new Map<string, string[]>();
+  private readonly ancestors = new Map<string, Set<string>>();
+
+  constructor(nodes: TaxonomyNode[]) {
+    for (const node of nodes) {
+      this.parents.set(node.code, node.parentCodes);
+      this.lookup.set(normalizeSkillTerm(node.code), node.code);
+      if (!this.lookup.has(normalizeSkillTerm(node.name))) {
+        this.lookup.set(normalizeSkillTerm(node.name), node.code);
+      }
+      for (const synonym of node.synonyms) {
+        this.lookup.set(normalizeSkillTerm(synonym), node.code);
+      }
+    }
+
+    for (const node of nodes) {
+      this.ancestors.set(node.code, this.collectAncestors(node.code));
+    }
+  }
+
+  static empty(): SkillTaxonomyGraph {
+    return new SkillTaxonomyGraph([]);
+  }
+
+  has(code: string): boolean {
+    return this.parents.has(code);
+  }
+
+  canonicalize(code: string, name?: string): string {
+    const byCode = this.lookup.get(normalizeSkillTerm(code));
+    if (byCode) return byCode;
+
+    if (name) {
+      const byName = this.lookup.get(normalizeSkillTerm(name));
+      if (byName) return byName;
+    }
+
+    return code.trim().toUpperCase();
+  }
+
+  getAncestors(code: string): Set<string> {
+    return this.ancestors.get(code) || new Set();
+  }
+
+  /**
+   * How a skill the worker has relates to a skill the vacancy asks for.
+   * IMPLIED: the worker skill is a descendant of the vacancy skill.
+   * RELATED: the worker skill is an ancestor or shares a direct parent with it.
+   */
+  relation(workerCode: string, vacancyCode: string): SkillRelationKind {
+    if (workerCode === vacancyCode) return 'EXACT';
+    if (this.getAncestors(workerCode).has(vacancyCode)) return 'IMPLIED';
+    if (this.getAncestors(vacancyCode).has(workerCode)) return 'RELATED';
+
+    const workerParents = this.parents.get(workerCode) || [];
+    const vacancyParents = this.parents.get(vacancyCode) || [];
+    if (workerParents.some(p => vacancyParents.includes(p))) return 'RELATED';
+
+    return 'NONE';
+  }
+
+  private collectAncestors(code: string): Set<string> {
+    const result = new Set<string>();
+    const queue = [...(this.parents.get(code) || [])];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (result.has(current) || current === code) continue;
+      result.add(current);
+      queue.push(...(this.parents.get(current) || []));
+    }
+
+    return result;
+  }
+}
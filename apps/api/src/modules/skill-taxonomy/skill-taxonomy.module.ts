@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { SkillTaxonomyController } from './skill-taxonomy.controller';
+import { SkillTaxonomyService } from './skill-taxonomy.service';
+import { SkillTaxonomyRepository } from './skill-taxonomy.repository';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [SkillTaxonomyController],
+  providers: [SkillTaxonomyService, SkillTaxonomyRepository],
+  exports: [SkillTaxonomyService],
+})
+export class SkillTaxonomyModule {}
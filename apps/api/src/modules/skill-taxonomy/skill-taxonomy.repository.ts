@@ -0,0 +1,201 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma/prisma.service';
+import { Prisma, Skill, SkillSynonym, SkillRelation } from '@prisma/client';
+
+interface PaginatedResult<T> {
+  items: T[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export type SkillWithRelations = Skill & {
+  synonyms: SkillSynonym[];
+  parentRelations: (SkillRelation & { parent: Skill })[];
+  childRelations: (SkillRelation & { child: Skill })[];
+};
+
+const SKILL_INCLUDE = {
+  synonyms: { orderBy: { synonym: 'asc' } },
+  parentRelations: { where: { parent: { deletedAt: null } }, include: { parent: true } },
+  childRelations: { where: { child: { deletedAt: null } }, include: { child: true } },
+} satisfies Prisma.SkillInclude;
+
+@Injectable()
+export class SkillTaxonomyRepository {
+  constructor(private readonly prisma: PrismaService) { }
+
+  async findById(id: string): Promise<SkillWithRelations | null> {
+    return this.prisma.skill.findFirst({
+      where: { id, deletedAt: null },
+      include: SKILL_INCLUDE,
+    });
+  }
+
+  async findByCode(code: string): Promise<Skill | null> {
+    return this.prisma.skill.findUnique({
+      where: { code },
+    });
+  }
+
+  async findSynonym(synonym: string): Promise<SkillSynonym | null> {
+    return this.prisma.skillSynonym.findUnique({
+      where: { synonym },
+    });
+  }
+
+  async findActiveByCodes(codes: string[]): Promise<Skill[]> {
+    return this.prisma.skill.findMany({
+      where: { code: { in: codes }, deletedAt: null },
+    });
+  }
+
+  async listSkills(
+    page: number,
+    pageSize: number,
+    search?: string,
+    category?: string,
+  ): Promise<PaginatedResult<SkillWithRelations>> {
+    const enforcedPageSize = Math.min(pageSize, 100);
+    const where: Prisma.SkillWhereInput = { deletedAt: null };
+
+    if (category) {
+      where.category = { equals: category, mode: 'insensitive' };
+    }
+
+    if (search) {
+      where.OR = [
+        { code: { contains: search, mode: 'insensitive' } },
+        { name: { contains: search, mode: 'insensitive' } },
+        { synonyms: { some: { synonym: { contains: search.toLowerCase() } } } },
+      ];
+    }
+
+    const [items, totalCount] = await Promise.all([
+      this.prisma.skill.findMany({
+        where,
+        include: SKILL_INCLUDE,
+        skip: (page - 1) * enforcedPageSize,
+        take: enforcedPageSize,
+        orderBy: { code: 'asc' },
+      }),
+      this.prisma.skill.count({ where }),
+    ]);
+
+    return {
+      items,
+      totalCount,
+      page,
+      pageSize: enforcedPageSize,
+      totalPages: Math.ceil(totalCount / enforcedPageSize),
+    };
+  }
+
+  async loadTaxonomy(): Promise<SkillWithRelations[]> {
+    return this.prisma.skill.findMany({
+      where: { deletedAt: null, isActive: true },
+      include: SKILL_INCLUDE,
+    });
+  }
+
+  async createSkill(data: {
+    code: string;
+    name: string;
+    description?: string;
+    category?: string;
+    synonyms: string[];
+    parentIds: string[];
+  }): Promise<SkillWithRelations> {
+    return this.prisma.$transaction(async (tx) => {
+      const skill = await tx.skill.create({
+        data: {
+          code: data.code,
+          name: data.name,
+          description: data.description,
+          category: data.category,
+          synonyms: {
+            create: data.synonyms.map(synonym => ({ synonym })),
+          },
+          parentRelations: {
+            create: data.parentIds.map(parentSkillId => ({ parentSkillId })),
+          },
+        },
+      });
+
+      return tx.skill.findUniqueOrThrow({
+        where: { id: skill.id },
+        include: SKILL_INCLUDE,
+      });
+    });
+  }
+
+  async updateSkill(
+    id: string,
+    data: { name?: string; description?: string; category?: string; isActive?: boolean },
+  ): Promise<SkillWithRelations> {
+    const updateData: Prisma.SkillUpdateInput = {};
+    if (data.name !== undefined) updateData.name = data.name;
+    if (data.description !== undefined) updateData.description = data.description;
+    if (data.category !== undefined) updateData.category = data.category;
+    if (data.isActive !== undefined) updateData.isActive = data.isActive;
+
+    return this.prisma.skill.update({
+      where: { id },
+      data: updateData,
+      include: SKILL_INCLUDE,
+    });
+  }
+
+  async softDeleteSkill(id: string): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      await tx.skillRelation.deleteMany({
+        where: { OR: [{ parentSkillId: id }, { childSkillId: id }] },
+      });
+      await tx.skillSynonym.deleteMany({ where: { skillId: id } });
+      await tx.skill.update({
+        where: { id },
+        data: { deletedAt: new Date(), isActive: false },
+      });
+    });
+  }
+
+  async addSynonym(skillId: string, synonym: string): Promise<SkillSynonym> {
+    return this.prisma.skillSynonym.create({
+      data: { skillId, synonym },
+    });
+  }
+
+  async removeSynonym(skillId: string, synonymId: string): Promise<number> {
+    const result = await this.prisma.skillSynonym.deleteMany({
+      where: { id: synonymId, skillId },
+    });
+    return result.count;
+  }
+
+  async addRelation(parentSkillId: string, childSkillId: string): Promise<SkillRelation> {
+    return this.prisma.skillRelation.create({
+      data: { parentSkillId, childSkillId },
+    });
+  }
+
+  async removeRelation(parentSkillId: string, childSkillId: string): Promise<number> {
+    const result = await this.prisma.skillRelation.deleteMany({
+      where: { parentSkillId, childSkillId },
+    });
+    return result.count;
+  }
+
+  async getAncestorIds(skillId: string): Promise<string[]> {
+    const rows = await this.prisma.$queryRaw<{ id: string }[]>`
+      WITH RECURSIVE ancestors AS (
+        SELECT parent_skill_id AS id FROM "skill_relations" WHERE child_skill_id = CAST(${skillId} AS uuid)
+        UNION
+        SELECT sr.parent_skill_id FROM "skill_relations" sr
+        JOIN ancestors a ON sr.child_skill_id = a.id
+      )
+      SELECT id FROM ancestors
+    `;
+    return rows.map(r => r.id);
+  }
+}
@@ -0,0 +1,346 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { SkillTaxonomyRepository, SkillWithRelations } from './skill-taxonomy.repository';
+import { SkillTaxonomyGraph, normalizeSkillTerm } from './skill-taxonomy.graph';
+import { AuditService } from '../auth/audit.service';
+import {
+  CreateTaxonomySkillDto,
+  UpdateTaxonomySkillDto,
+  ListTaxonomySkillsDto,
+  AddSkillSynonymDto,
+  AddSkillParentDto,
+} from './dto/skill-taxonomy.dto';
+import {
+  TaxonomySkillResponseDto,
+  TaxonomySkillListResponseDto,
+  ResolvedSkillResponseDto,
+} from './dto/skill-taxonomy-response.dto';
+
+const GRAPH_CACHE_TTL_MS = 60_000;
+
+@Injectable()
+export class SkillTaxonomyService {
+  private graphCache: { graph: SkillTaxonomyGraph; loadedAt: number } | null = null;
+
+  constructor(
+    private readonly skillTaxonomyRepository: SkillTaxonomyRepository,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async getGraph(): Promise<SkillTaxonomyGraph> {
+    if (this.graphCache && Date.now() - this.graphCache.loadedAt < GRAPH_CACHE_TTL_MS) {
+      return this.graphCache.graph;
+    }
+
+    const skills = await this.skillTaxonomyRepository.loadTaxonomy();
+    const graph = new SkillTaxonomyGraph(skills.map(s => ({
+      code: s.code,
+      name: s.name,
+      synonyms: s.synonyms.map(syn => syn.synonym),
+      parentCodes: s.parentRelations.filter(r => r.parent.isActive).map(r => r.parent.code),
+    })));
+
+    this.graphCache = { graph, loadedAt: Date.now() };
+    return graph;
+  }
+
+  async resolve(term: string): Promise<ResolvedSkillResponseDto> {
+    const graph = await this.getGraph();
+    const code = graph.canonicalize(term);
+    const ancestors = graph.getAncestors(code);
+
+    return {
+      term,
+      code,
+      known: graph.has(code),
+      implies: [...ancestors].sort(),
+    };
+  }
+
+  async listSkills(dto: ListTaxonomySkillsDto): Promise<TaxonomySkillListResponseDto> {
+    const result = await this.skillTaxonomyRepository.listSkills(
+      Math.max(1, dto.page || 1),
+      Math.min(dto.pageSize || 20, 100),
+      dto.search,
+      dto.category,
+    );
+
+    return {
+      items: result.items.map(s => this.sanitizeSkill(s)),
+      totalCount: result.totalCount,
+      page: result.page,
+      pageSize: result.pageSize,
+      totalPages: result.totalPages,
+    };
+  }
+
+  async getSkill(skillId: string): Promise<TaxonomySkillResponseDto> {
+    const skill = await this.getSkillOrThrow(skillId);
+    return this.sanitizeSkill(skill);
+  }
+
+  async createSkill(
+    adminUserId: string,
+    dto: CreateTaxonomySkillDto,
+    ipAddress: string,
+  ): Promise<TaxonomySkillResponseDto> {
+    const code = dto.code.trim().toUpperCase();
+
+    const existing = await this.skillTaxonomyRepository.findByCode(code);
+    if (existing) {
+      throw new ConflictException({
+        success: false,
+        error: { code: 'SKILL_CODE_EXISTS', message: `Skill code ${code} already exists` },
+      });
+    }
+
+    const synonyms = [...new Set((dto.synonyms || []).map(normalizeSkillTerm))]
+      .filter(s => s.length > 0 && s !== normalizeSkillTerm(code));
+    for (const synonym of synonyms) {
+      await this.assertSynonymAvailable(synonym);
+    }
+
+    const parentIds = [...new Set(dto.parentIds || [])];
+    for (const parentId of parentIds) {
+      await this.getSkillOrThrow(parentId);
+    }
+
+    const skill = await this.skillTaxonomyRepository.createSkill({
+      code,
+      name: dto.name,
+      description: dto.description,
+      category: dto.category,
+      synonyms,
+      parentIds,
+    });
+
+    this.invalidateGraph();
+
+    await this.auditService.log('SKILL_TAXONOMY_SKILL_CREATED', {
+      userId: adminUserId,
+      ipAddress,
+      after: this.sanitizeSkill(skill),
+      details: { skillId: skill.id, code, synonyms, parentIds },
+    });
+
+    return this.sanitizeSkill(skill);
+  }
+
+  async updateSkill(
+    adminUserId: string,
+    skillId: string,
+    dto: UpdateTaxonomySkillDto,
+    ipAddress: string,
+  ): Promise<TaxonomySkillResponseDto> {
+    const existing = await this.getSkillOrThrow(skillId);
+
+    const skill = await this.skillTaxonomyRepository.updateSkill(skillId, dto);
+
+    this.invalidateGraph();
+
+    await this.auditService.log('SKILL_TAXONOMY_SKILL_UPDATED', {
+      userId: adminUserId,
+      ipAddress,
+      before: this.sanitizeSkill(existing),
+      after: this.sanitizeSkill(skill),
+      details: { skillId, changedFields: Object.keys(dto) },
+    });
+
+    return this.sanitizeSkill(skill);
+  }
+
+  async deleteSkill(adminUserId: string, skillId: string, ipAddress: string): Promise<{ success: boolean }> {
+    const skill = await this.getSkillOrThrow(skillId);
+
+    await this.skillTaxonomyRepository.softDeleteSkill(skillId);
+
+    this.invalidateGraph();
+
+    await this.auditService.log('SKILL_TAXONOMY_SKILL_DELETED', {
+      userId: adminUserId,
+      ipAddress,
+      before: this.sanitizeSkill(skill),
+      details: { skillId, code: skill.code },
+    });
+
+    return { success: true };
+  }
+
+  async addSynonym(
+    adminUserId: string,
+    skillId: string,
+    dto: AddSkillSynonymDto,
+    ipAddress: string,
+  ): Promise<TaxonomySkillResponseDto> {
+    await this.getSkillOrThrow(skillId);
+
+    const synonym = normalizeSkillTerm(dto.synonym);
+    if (!synonym) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'INVALID_SYNONYM', message: 'Synonym must not be empty' },
+      });
+    }
+    await this.assertSynonymAvailable(synonym);
+
+    await this.skillTaxonomyRepository.addSynonym(skillId, synonym);
+
+    this.invalidateGraph();
+
+    await this.auditService.log('SKILL_TAXONOMY_SYNONYM_ADDED', {
+      userId: adminUserId,
+      ipAddress,
+      after: { synonym },
+      details: { skillId, synonym },
+    });
+
+    return this.getSkill(skillId);
+  }
+
+  async removeSynonym(
+    adminUserId: string,
+    skillId: string,
+    synonymId: string,
+    ipAddress: string,
+  ): Promise<TaxonomySkillResponseDto> {
+    await this.getSkillOrThrow(skillId);
+
+    const removed = await this.skillTaxonomyRepository.removeSynonym(skillId, synonymId);
+    if (removed === 0) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'SYNONYM_NOT_FOUND', message: 'Synonym not found' },
+      });
+    }
+
+    this.invalidateGraph();
+
+    await this.auditService.log('SKILL_TAXONOMY_SYNONYM_REMOVED', {
+      userId: adminUserId,
+      ipAddress,
+      before: { synonymId },
+      details: { skillId, synonymId },
+    });
+
+    return this.getSkill(skillId);
+  }
+
+  async addParent(
+    adminUserId: string,
+    skillId: string,
+    dto: AddSkillParentDto,
+    ipAddress: string,
+  ): Promise<TaxonomySkillResponseDto> {
+    const skill = await this.getSkillOrThrow(skillId);
+    await this.getSkillOrThrow(dto.parentId);
+
+    if (dto.parentId === skillId) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'SKILL_RELATION_CYCLE', message: 'A skill cannot be its own parent' },
+      });
+    }
+
+    if (skill.parentRelations.some(r => r.parentSkillId === dto.parentId)) {
+      throw new ConflictException({
+        success: false,
+        error: { code: 'SKILL_RELATION_EXISTS', message: 'Relation already exists' },
+      });
+    }
+
+    const parentAncestors = await this.skillTaxonomyRepository.getAncestorIds(dto.parentId);
+    if (parentAncestors.includes(skillId)) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'SKILL_RELATION_CYCLE', message: 'Relation would create a cycle in the taxonomy' },
+      });
+    }
+
+    await this.skillTaxonomyRepository.addRelation(dto.parentId, skillId);
+
+    this.invalidateGraph();
+
+    await this.auditService.log('SKILL_TAXONOMY_RELATION_ADDED', {
+      userId: adminUserId,
+      ipAddress,
+      resourceId: skillId,
+      after: { parentSkillId: dto.parentId },
+      details: { parentSkillId: dto.parentId, childSkillId: skillId },
+    });
+
+    return this.getSkill(skillId);
+  }
+
+  async removeParent(
+    adminUserId: string,
+    skillId: string,
+    parentId: string,
+    ipAddress: string,
+  ): Promise<TaxonomySkillResponseDto> {
+    await this.getSkillOrThrow(skillId);
+
+    const removed = await this.skillTaxonomyRepository.removeRelation(parentId, skillId);
+    if (removed === 0) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'SKILL_RELATION_NOT_FOUND', message: 'Relation not found' },
+      });
+    }
+
+    this.invalidateGraph();
+
+    await this.auditService.log('SKILL_TAXONOMY_RELATION_REMOVED', {
+      userId: adminUserId,
+      ipAddress,
+      resourceId: skillId,
+      before: { parentSkillId: parentId },
+      details: { parentSkillId: parentId, childSkillId: skillId },
+    });
+
+    return this.getSkill(skillId);
+  }
+
+  private invalidateGraph(): void {
+    this.graphCache = null;
+  }
+
+  private async assertSynonymAvailable(synonym: string): Promise<void> {
+    const [existingSynonym, existingCode] = await Promise.all([
+      this.skillTaxonomyRepository.findSynonym(synonym),
+      this.skillTaxonomyRepository.findByCode(synonym.toUpperCase()),
+    ]);
+
+    if (existingSynonym || (existingCode && !existingCode.deletedAt)) {
+      throw new ConflictException({
+        success: false,
+        error: { code: 'SYNONYM_EXISTS', message: `"${synonym}" is already used by another skill` },
+      });
+    }
+  }
+
+  private async getSkillOrThrow(skillId: string): Promise<SkillWithRelations> {
+    const skill = await this.skillTaxonomyRepository.findById(skillId);
+    if (!skill) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'SKILL_NOT_FOUND', message: 'Skill not found' },
+      });
+    }
+    return skill;
+  }
+
+  private sanitizeSkill(skill: SkillWithRelations): TaxonomySkillResponseDto {
+    return {
+      id: skill.id,
+      code: skill.code,
+      name: skill.name,
+      description: skill.description || undefined,
+      category: skill.category || undefined,
+      isActive: skill.isActive,
+      synonyms: skill.synonyms.map(s => ({ id: s.id, synonym: s.synonym })),
+      parents: skill.parentRelations.map(r => ({ id: r.parent.id, code: r.parent.code, name: r.parent.name })),
+      children: skill.childRelations.map(r => ({ id: r.child.id, code: r.child.code, name: r.child.name })),
+      createdAt: skill.createdAt,
+      updatedAt: skill.updatedAt,
+    };
+  }
+}
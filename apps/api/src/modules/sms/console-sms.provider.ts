@@ -0,0 +1,22 @@
+import { Logger } from '@nestjs/common';
+import { appendFile } from 'fs/promises';
+import { SmsMessage, SmsProvider } from './sms.provider';
+
+/**
+ * Local stub: messages are logged and, when a file path is configured, appended to it as NDJSON.
+ */
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly name = 'console';
+  private readonly logger = new Logger(ConsoleSmsProvider.name);
+
+  constructor(private readonly filePath?: string) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    this.logger.log(`SMS to ${message.to}: ${message.body}`);
+
+    if (this.filePath) {
+      const entry = { to: message.to, body: message.body, sentAt: new Date().toISOString() };
+      await appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SMS_PROVIDER, SmsProvider } from './sms.provider';
+import { ConsoleSmsProvider } from './console-sms.provider';
+
+@Module({
+  providers: [
+    {
+      provide: SMS_PROVIDER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): SmsProvider => {
+        const provider = configService.get<string>('SMS_PROVIDER') || 'console';
+        switch (provider) {
+          case 'console':
+            if (configService.get<string>('NODE_ENV') === 'production') {
+              new Logger('SmsModule').warn('SMS_PROVIDER is "console" in production; messages are not delivered');
+            }
+            return new ConsoleSmsProvider(configService.get<string>('SMS_STUB_FILE') || undefined);
+          default:
+            throw new Error(`Unknown SMS_PROVIDER "${provider}"`);
+        }
+      },
+    },
+  ],
+  exports: [SMS_PROVIDER],
+})
+export class SmsModule {}
@@ -0,0 +1,18 @@
+export const SMS_PROVIDER = Symbol('SMS_PROVIDER');
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+/**
+ * Delivery channel for outgoing SMS. Implementations throw when the message could not be handed over.
+ */
+export interface SmsProvider {
+  readonly name: string;
+  send(message: SmsMessage): Promise<void>;
+}
+
+export function maskPhoneNumber(phone: string): string {
+  return phone.length > 6 ? `${phone.slice(0, 4)}${'*'.repeat(phone.length - 6)}${phone.slice(-2)}` : '******';
+}
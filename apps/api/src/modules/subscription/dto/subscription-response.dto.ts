@@ -0,0 +1,73 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SubscriptionPlanResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  code: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiPropertyOptional()
+  description?: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  maxOpenVacancies: number | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  maxRecruiters: number | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  monthlyCvViews: number | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  maxFeaturedVacancies: number | null;
+
+  @ApiProperty()
+  isDefault: boolean;
+
+  @ApiProperty()
+  isActive: boolean;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class QuotaUsageDto {
+  @ApiProperty()
+  used: number;
+
+  @ApiPropertyOptional({ nullable: true, description: 'Null when unlimited' })
+  limit: number | null;
+
+  @ApiPropertyOptional({ nullable: true, description: 'Null when unlimited' })
+  remaining: number | null;
+}
+
+export class EmployerUsageResponseDto {
+  @ApiProperty()
+  employerId: string;
+
+  @ApiProperty({ description: 'planId is empty when the built-in defaults apply' })
+  plan: { planId: string | null; code: string; name: string; assigned: boolean };
+
+  @ApiProperty({ description: 'Calendar month (UTC) CV views are counted in' })
+  period: { from: string; to: string };
+
+  @ApiProperty({ type: QuotaUsageDto })
+  openVacancies: QuotaUsageDto;
+
+  @ApiProperty({ type: QuotaUsageDto })
+  recruiters: QuotaUsageDto;
+
+  @ApiProperty({ type: QuotaUsageDto })
+  cvViews: QuotaUsageDto;
+
+  @ApiProperty({ type: QuotaUsageDto })
+  featuredVacancies: QuotaUsageDto;
+}
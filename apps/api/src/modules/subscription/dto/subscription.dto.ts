@@ -0,0 +1,110 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, IsOptional, IsInt, IsBoolean, IsUUID, Min, Matches, MaxLength, ValidateIf } from 'class-validator';
+
+// Limits are optional on create and nullable on update; null means unlimited.
+export class CreateSubscriptionPlanDto {
+  @ApiProperty({ example: 'STANDARD', description: 'Upper-case identifier' })
+  @IsString()
+  @Matches(/^[A-Z][A-Z0-9_]{1,49}$/, { message: 'code must be upper-case letters, digits and underscores' })
+  code: string;
+
+  @ApiProperty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string;
+
+  @ApiPropertyOptional({ nullable: true, description: 'Open and in-review vacancies; empty for unlimited' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxOpenVacancies?: number | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxRecruiters?: number | null;
+
+  @ApiPropertyOptional({ nullable: true, description: 'Distinct worker CVs per calendar month' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  monthlyCvViews?: number | null;
+
+  @ApiPropertyOptional({ nullable: true, description: 'Open vacancies featured at the same time' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxFeaturedVacancies?: number | null;
+
+  @ApiPropertyOptional({ description: 'Applies to employers without a plan; only one plan can be the default' })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
+
+export class UpdateSubscriptionPlanDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @IsInt()
+  @Min(0)
+  maxOpenVacancies?: number | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @IsInt()
+  @Min(0)
+  maxRecruiters?: number | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @IsInt()
+  @Min(0)
+  monthlyCvViews?: number | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @IsInt()
+  @Min(0)
+  maxFeaturedVacancies?: number | null;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+
+  @ApiPropertyOptional({ description: 'Inactive plans cannot be assigned; employers already on them keep them' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class AssignPlanDto {
+  @ApiProperty()
+  @IsUUID()
+  planId: string;
+
+  @ApiPropertyOptional({ description: 'Kept in the audit log' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
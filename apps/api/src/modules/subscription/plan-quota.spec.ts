@@ -0,0 +1,117 @@
+import { Prisma, SubscriptionPlan } from '@prisma/client';
+import { FALLBACK_PLAN_LIMITS, currentQuotaPeriod, findPlanLimits, hasQuota, lockPlanLimits } from './plan-quota';
+
+const EMPLOYER_ID = '0190c0de-0000-7000-8000-000000000001';
+
+function plan(overrides: Partial<SubscriptionPlan> = {}): SubscriptionPlan {
+  return {
+    id: 'plan-pro',
+    code: 'PRO',
+    name: 'Pro',
+    description: null,
+    maxOpenVacancies: 200,
+    maxRecruiters: 25,
+    monthlyCvViews: 500,
+    maxFeaturedVacancies: 5,
+    isDefault: false,
+    isActive: true,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function mockTx(employerPlan: SubscriptionPlan | null, defaultPlan: SubscriptionPlan | null = null) {
+  const calls: string[] = [];
+  const tx = {
+    $queryRaw: jest.fn(async () => {
+      calls.push('lock');
+      return [{ id: EMPLOYER_ID }];
+    }),
+    employer: {
+      findUnique: jest.fn(async () => {
+        calls.push('employer');
+        return { plan: employerPlan };
+      }),
+    },
+    subscriptionPlan: {
+      findFirst: jest.fn(async () => {
+        calls.push('defaultPlan');
+        return defaultPlan;
+      }),
+    },
+  };
+  return { tx, calls, client: tx as unknown as Prisma.TransactionClient };
+}
+
+describe('hasQuota', () => {
+  it('allows one more unit while usage is below the limit', () => {
+    expect(hasQuota(3, 2)).toBe(true);
+    expect(hasQuota(3, 3)).toBe(false);
+    expect(hasQuota(3, 4)).toBe(false);
+  });
+
+  it('treats a zero limit as no quota', () => {
+    expect(hasQuota(0, 0)).toBe(false);
+  });
+
+  it('treats a null limit as unlimited', () => {
+    expect(hasQuota(null, 1_000_000)).toBe(true);
+  });
+});
+
+describe('findPlanLimits', () => {
+  it('uses the plan assigned to the employer', async () => {
+    const { tx, client } = mockTx(plan());
+
+    await expect(findPlanLimits(client, EMPLOYER_ID)).resolves.toEqual({
+      planId: 'plan-pro',
+      code: 'PRO',
+      name: 'Pro',
+      maxOpenVacancies: 200,
+      maxRecruiters: 25,
+      monthlyCvViews: 500,
+      maxFeaturedVacancies: 5,
+    });
+    expect(tx.subscriptionPlan.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the active default plan', async () => {
+    const { tx, client } = mockTx(null, plan({ id: 'plan-free', code: 'FREE', name: 'Free', isDefault: true }));
+
+    await expect(findPlanLimits(client, EMPLOYER_ID)).resolves.toMatchObject({ planId: 'plan-free', code: 'FREE' });
+    expect(tx.subscriptionPlan.findFirst).toHaveBeenCalledWith({ where: { isDefault: true, isActive: true } });
+  });
+
+  it('falls back to the built-in limits when no default plan exists', async () => {
+    const { client } = mockTx(null, null);
+
+    await expect(findPlanLimits(client, EMPLOYER_ID)).resolves.toBe(FALLBACK_PLAN_LIMITS);
+  });
+});
+
+describe('lockPlanLimits', () => {
+  it('locks the employer row before reading the plan', async () => {
+    const { tx, calls, client } = mockTx(plan());
+
+    await expect(lockPlanLimits(client, EMPLOYER_ID)).resolves.toMatchObject({ planId: 'plan-pro' });
+
+    expect(calls).toEqual(['lock', 'employer']);
+    const [strings, ...values] = tx.$queryRaw.mock.calls[0] as unknown as [TemplateStringsArray, ...unknown[]];
+    expect(strings.join('?')).toMatch(/FROM employers WHERE id = .*FOR UPDATE/);
+    expect(values).toEqual([EMPLOYER_ID]);
+  });
+});
+
+describe('currentQuotaPeriod', () => {
+  it('spans the current UTC calendar month', () => {
+    expect(currentQuotaPeriod(new Date('2026-12-31T23:30:00-05:00'))).toEqual({
+      start: new Date('2027-01-01T00:00:00Z'),
+      end: new Date('2027-02-01T00:00:00Z'),
+    });
+    expect(currentQuotaPeriod(new Date('2026-02-15T12:00:00Z'))).toEqual({
+      start: new Date('2026-02-01T00:00:00Z'),
+      end: new Date('2026-03-01T00:00:00Z'),
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { Prisma, SubscriptionPlan, VacancyStatus } from '@prisma/client';
+
+export type PlanLimits = Pick<
+  SubscriptionPlan,
+  'code' | 'name' | 'maxOpenVacancies' | 'maxRecruiters' | 'monthlyCvViews' | 'maxFeaturedVacancies'
+> & { planId: string | null };
+
+// Applies when no plan is assigned and none is marked as default; matches the limits employers had before plans.
+export const FALLBACK_PLAN_LIMITS: PlanLimits = {
+  planId: null,
+  code: 'DEFAULT',
+  name: 'Default',
+  maxOpenVacancies: 50,
+  maxRecruiters: 10,
+  monthlyCvViews: null,
+  maxFeaturedVacancies: 0,
+};
+
+// Vacancies that take an open vacancy slot; pending ones go live without another check once approved.
+export const OPEN_VACANCY_STATUSES: VacancyStatus[] = [VacancyStatus.OPEN, VacancyStatus.PENDING_REVIEW];
+
+/**
+ * Locks the employer row and returns the limits of its plan. Quota checks run inside the same transaction
+ * after this call, so concurrent requests of one employer are counted one at a time.
+ */
+export async function lockPlanLimits(tx: Prisma.TransactionClient, employerId: string): Promise<PlanLimits> {
+  await tx.$queryRaw`SELECT id FROM employers WHERE id = CAST(${employerId} AS uuid) FOR UPDATE`;
+  return findPlanLimits(tx, employerId);
+}
+
+export async function findPlanLimits(
+  client: Prisma.TransactionClient,
+  employerId: string,
+): Promise<PlanLimits> {
+  const employer = await client.employer.findUnique({
+    where: { id: employerId },
+    select: { plan: true },
+  });
+  const plan = employer?.plan
+    ?? await client.subscriptionPlan.findFirst({ where: { isDefault: true, isActive: true } });
+  if (!plan) return FALLBACK_PLAN_LIMITS;
+
+  return {
+    planId: plan.id,
+    code: plan.code,
+    name: plan.name,
+    maxOpenVacancies: plan.maxOpenVacancies,
+    maxRecruiters: plan.maxRecruiters,
+    monthlyCvViews: plan.monthlyCvViews,
+    maxFeaturedVacancies: plan.maxFeaturedVacancies,
+  };
+}
+
+/**
+ * Whether one more unit fits under the limit; null limits are unlimited.
+ */
+export function hasQuota(limit: number | null, used: number): boolean {
+  return limit === null || used < limit;
+}
+
+/**
+ * First day of the current calendar month (UTC), the period CV views are counted in.
+ */
+export function currentQuotaPeriod(now = new Date()): { start: Date; end: Date } {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return { start, end };
+}
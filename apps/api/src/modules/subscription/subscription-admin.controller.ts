@@ -0,0 +1,92 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  UseGuards,
+  Req,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeaders, ApiParam } from '@nestjs/swagger';
+import { SubscriptionService } from './subscription.service';
+import { AssignPlanDto, CreateSubscriptionPlanDto, UpdateSubscriptionPlanDto } from './dto/subscription.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Request } from 'express';
+
+interface RequestWithUser extends Request {
+  user: {
+    id: string;
+    email: string;
+    role: string;
+    sessionId: string;
+    familyId: string;
+  };
+}
+
+@ApiTags('Subscription')
+@Controller('api/v1/admin')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('plan:manage')
+@ApiBearerAuth()
+@ApiHeaders([{ name: 'authorization', description: 'Bearer token' }])
+export class SubscriptionAdminController {
+  constructor(private readonly subscriptionService: SubscriptionService) {}
+
+  @Get('plans')
+  @ApiOperation({ summary: 'List subscription plans' })
+  @ApiResponse({ status: 200, description: 'Plans retrieved successfully' })
+  async listPlans() {
+    return this.subscriptionService.listPlans();
+  }
+
+  @Post('plans')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a subscription plan' })
+  @ApiResponse({ status: 201, description: 'Plan created successfully' })
+  @ApiResponse({ status: 409, description: 'Plan code already exists' })
+  async createPlan(@Body() dto: CreateSubscriptionPlanDto, @Req() req: RequestWithUser) {
+    return this.subscriptionService.createPlan(req.user.id, dto, this.extractIp(req));
+  }
+
+  @Put('plans/:planId')
+  @ApiOperation({ summary: 'Update a subscription plan' })
+  @ApiParam({ name: 'planId', description: 'Plan UUID' })
+  @ApiResponse({ status: 200, description: 'Plan updated successfully' })
+  async updatePlan(
+    @Param('planId', ParseUUIDPipe) planId: string,
+    @Body() dto: UpdateSubscriptionPlanDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.subscriptionService.updatePlan(req.user.id, planId, dto, this.extractIp(req));
+  }
+
+  @Put('employers/:employerId/plan')
+  @ApiOperation({ summary: 'Assign a plan to an employer' })
+  @ApiParam({ name: 'employerId', description: 'Employer UUID' })
+  @ApiResponse({ status: 200, description: 'Plan assigned; returns the resulting usage' })
+  async assignPlan(
+    @Param('employerId', ParseUUIDPipe) employerId: string,
+    @Body() dto: AssignPlanDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.subscriptionService.assignPlan(req.user.id, employerId, dto, this.extractIp(req));
+  }
+
+  @Get('employers/:employerId/usage')
+  @ApiOperation({ summary: 'Plan and quota usage of an employer' })
+  @ApiParam({ name: 'employerId', description: 'Employer UUID' })
+  @ApiResponse({ status: 200, description: 'Usage retrieved successfully' })
+  async getEmployerUsage(@Param('employerId', ParseUUIDPipe) employerId: string) {
+    return this.subscriptionService.getEmployerUsage(employerId);
+  }
+
+  private extractIp(req: RequestWithUser): string {
+    return req.ip || req.socket.remoteAddress || 'unknown';
+  }
+}
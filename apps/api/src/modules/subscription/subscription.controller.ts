@@ -0,0 +1,35 @@
+import { Controller, Get, UseGuards, Req } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeaders } from '@nestjs/swagger';
+import { SubscriptionService } from './subscription.service';
+import { EmployerUsageResponseDto } from './dto/subscription-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Request } from 'express';
+
+interface RequestWithUser extends Request {
+  user: {
+    id: string;
+    email: string;
+    role: string;
+    sessionId: string;
+    familyId: string;
+  };
+}
+
+@ApiTags('Subscription')
+@Controller('api/v1/employers')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+@ApiHeaders([{ name: 'authorization', description: 'Bearer token' }])
+export class SubscriptionController {
+  constructor(private readonly subscriptionService: SubscriptionService) {}
+
+  @Get('me/usage')
+  @RequirePermissions('employer_profile:read')
+  @ApiOperation({ summary: 'Current plan and quota usage' })
+  @ApiResponse({ status: 200, description: 'Usage retrieved successfully', type: EmployerUsageResponseDto })
+  async getMyUsage(@Req() req: RequestWithUser) {
+    return this.subscriptionService.getOwnUsage(req.user.id);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { SubscriptionController } from './subscription.controller';
+import { SubscriptionAdminController } from './subscription-admin.controller';
+import { SubscriptionService } from './subscription.service';
+import { SubscriptionRepository } from './subscription.repository';
+import { AuthModule } from '../auth/auth.module';
+import { EmployerModule } from '../employer/employer.module';
+
+@Module({
+  imports: [AuthModule, EmployerModule],
+  controllers: [SubscriptionController, SubscriptionAdminController],
+  providers: [SubscriptionService, SubscriptionRepository],
+  exports: [SubscriptionService],
+})
+export class SubscriptionModule {}
@@ -0,0 +1,116 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma/prisma.service';
+import { SubscriptionPlan, VacancyStatus } from '@prisma/client';
+import { OPEN_VACANCY_STATUSES, PlanLimits, currentQuotaPeriod, findPlanLimits, hasQuota, lockPlanLimits } from './plan-quota';
+
+export interface SubscriptionPlanWriteData {
+  code?: string;
+  name?: string;
+  description?: string;
+  maxOpenVacancies?: number | null;
+  maxRecruiters?: number | null;
+  monthlyCvViews?: number | null;
+  maxFeaturedVacancies?: number | null;
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+export interface EmployerUsage {
+  limits: PlanLimits;
+  openVacancies: number;
+  recruiters: number;
+  cvViews: number;
+  featuredVacancies: number;
+}
+
+@Injectable()
+export class SubscriptionRepository {
+  constructor(private readonly prisma: PrismaService) { }
+
+  async listPlans(): Promise<SubscriptionPlan[]> {
+    return this.prisma.subscriptionPlan.findMany({
+      orderBy: [{ isActive: 'desc' }, { code: 'asc' }],
+    });
+  }
+
+  async findPlanById(planId: string): Promise<SubscriptionPlan | null> {
+    return this.prisma.subscriptionPlan.findUnique({ where: { id: planId } });
+  }
+
+  async findPlanByCode(code: string): Promise<SubscriptionPlan | null> {
+    return this.prisma.subscriptionPlan.findUnique({ where: { code } });
+  }
+
+  async createPlan(data: SubscriptionPlanWriteData & { code: string; name: string }): Promise<SubscriptionPlan> {
+    return this.prisma.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.subscriptionPlan.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+      }
+      return tx.subscriptionPlan.create({ data });
+    });
+  }
+
+  async updatePlan(planId: string, data: SubscriptionPlanWriteData): Promise<SubscriptionPlan> {
+    return this.prisma.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.subscriptionPlan.updateMany({
+          where: { isDefault: true, id: { not: planId } },
+          data: { isDefault: false },
+        });
+      }
+      return tx.subscriptionPlan.update({ where: { id: planId }, data });
+    });
+  }
+
+  async assignPlan(employerId: string, planId: string): Promise<void> {
+    await this.prisma.employer.update({
+      where: { id: employerId },
+      data: { planId, planAssignedAt: new Date() },
+    });
+  }
+
+  async getUsage(employerId: string): Promise<EmployerUsage> {
+    const period = currentQuotaPeriod();
+    const [limits, openVacancies, recruiters, cvViews, featuredVacancies] = await Promise.all([
+      findPlanLimits(this.prisma, employerId),
+      this.prisma.vacancy.count({ where: { employerId, deletedAt: null, status: { in: OPEN_VACANCY_STATUSES } } }),
+      this.prisma.recruiter.count({ where: { employerId, deletedAt: null } }),
+      this.prisma.employerCvView.count({ where: { employerId, periodStart: period.start } }),
+      this.prisma.vacancy.count({
+        where: { employerId, deletedAt: null, status: VacancyStatus.OPEN, isFeatured: true },
+      }),
+    ]);
+
+    return { limits, openVacancies, recruiters, cvViews, featuredVacancies };
+  }
+
+  /**
+   * Counts a CV view against the monthly quota. Viewing a worker already viewed this month is free; otherwise
+   * fails with CV_VIEW_QUOTA_EXCEEDED once the plan's monthly views are used up.
+   */
+  async recordCvView(employerId: string, workerId: string, viewedBy: string): Promise<{ counted: boolean }> {
+    const period = currentQuotaPeriod();
+
+    return this.prisma.$transaction(async (tx) => {
+      const limits = await lockPlanLimits(tx, employerId);
+
+      const existing = await tx.employerCvView.findUnique({
+        where: { employerId_workerId_periodStart: { employerId, workerId, periodStart: period.start } },
+        select: { id: true },
+      });
+      if (existing) {
+        return { counted: false };
+      }
+
+      const viewsThisPeriod = await tx.employerCvView.count({ where: { employerId, periodStart: period.start } });
+      if (!hasQuota(limits.monthlyCvViews, viewsThisPeriod)) {
+        throw new Error(`CV_VIEW_QUOTA_EXCEEDED: The ${limits.name} plan allows ${limits.monthlyCvViews} CV views per month`);
+      }
+
+      await tx.employerCvView.create({
+        data: { employerId, workerId, periodStart: period.start, viewedBy },
+      });
+      return { counted: true };
+    });
+  }
+}
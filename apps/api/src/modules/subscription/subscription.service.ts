@@ -0,0 +1,214 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { SubscriptionPlan } from '@prisma/client';
+import { AuditService } from '../auth/audit.service';
+import { EmployerRepository } from '../employer/employer.repository';
+import { SubscriptionRepository } from './subscription.repository';
+import { currentQuotaPeriod } from './plan-quota';
+import { AssignPlanDto, CreateSubscriptionPlanDto, UpdateSubscriptionPlanDto } from './dto/subscription.dto';
+import { EmployerUsageResponseDto, QuotaUsageDto, SubscriptionPlanResponseDto } from './dto/subscription-response.dto';
+
+@Injectable()
+export class SubscriptionService {
+  constructor(
+    private readonly subscriptionRepository: SubscriptionRepository,
+    private readonly employerRepository: EmployerRepository,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async listPlans(): Promise<SubscriptionPlanResponseDto[]> {
+    const plans = await this.subscriptionRepository.listPlans();
+    return plans.map(plan => this.sanitizePlan(plan));
+  }
+
+  async createPlan(adminUserId: string, dto: CreateSubscriptionPlanDto, ipAddress: string): Promise<SubscriptionPlanResponseDto> {
+    if (await this.subscriptionRepository.findPlanByCode(dto.code)) {
+      throw new ConflictException({
+        success: false,
+        error: { code: 'PLAN_CODE_TAKEN', message: `A plan with code ${dto.code} already exists` },
+      });
+    }
+
+    const plan = await this.subscriptionRepository.createPlan(dto);
+
+    await this.auditService.log('SUBSCRIPTION_PLAN_CREATED', {
+      userId: adminUserId,
+      ipAddress,
+      resourceType: 'SUBSCRIPTION_PLAN',
+      resourceId: plan.id,
+      after: this.sanitizePlan(plan),
+    });
+
+    return this.sanitizePlan(plan);
+  }
+
+  async updatePlan(
+    adminUserId: string,
+    planId: string,
+    dto: UpdateSubscriptionPlanDto,
+    ipAddress: string,
+  ): Promise<SubscriptionPlanResponseDto> {
+    const plan = await this.getPlanOrThrow(planId);
+
+    if ((dto.isDefault ?? plan.isDefault) && !(dto.isActive ?? plan.isActive)) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'INVALID_DEFAULT_PLAN', message: 'The default plan must be active' },
+      });
+    }
+
+    const updated = await this.subscriptionRepository.updatePlan(planId, dto);
+
+    await this.auditService.log('SUBSCRIPTION_PLAN_UPDATED', {
+      userId: adminUserId,
+      ipAddress,
+      resourceType: 'SUBSCRIPTION_PLAN',
+      resourceId: planId,
+      before: this.sanitizePlan(plan),
+      after: this.sanitizePlan(updated),
+    });
+
+    return this.sanitizePlan(updated);
+  }
+
+  /**
+   * Moves an employer to another plan. Lowering a limit below current usage does not close anything; it only
+   * blocks new publishing, recruiters, CV views or featured postings until usage is back under the limit.
+   */
+  async assignPlan(
+    adminUserId: string,
+    employerId: string,
+    dto: AssignPlanDto,
+    ipAddress: string,
+  ): Promise<EmployerUsageResponseDto> {
+    const employer = await this.employerRepository.findEmployerById(employerId);
+    if (!employer) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'EMPLOYER_NOT_FOUND', message: 'Employer not found' },
+      });
+    }
+
+    const plan = await this.getPlanOrThrow(dto.planId);
+    if (!plan.isActive) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'PLAN_INACTIVE', message: 'Inactive plans cannot be assigned' },
+      });
+    }
+
+    await this.subscriptionRepository.assignPlan(employerId, plan.id);
+
+    await this.auditService.log('EMPLOYER_PLAN_ASSIGNED', {
+      userId: adminUserId,
+      targetUserId: employer.userId,
+      ipAddress,
+      resourceType: 'EMPLOYER',
+      resourceId: employerId,
+      before: { planId: employer.planId },
+      after: { planId: plan.id },
+      reason: dto.reason,
+      details: { employerId, planCode: plan.code },
+    });
+
+    return this.buildUsage(employerId);
+  }
+
+  async getEmployerUsage(employerId: string): Promise<EmployerUsageResponseDto> {
+    const employer = await this.employerRepository.findEmployerById(employerId);
+    if (!employer) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'EMPLOYER_NOT_FOUND', message: 'Employer not found' },
+      });
+    }
+    return this.buildUsage(employerId);
+  }
+
+  async getOwnUsage(employerUserId: string): Promise<EmployerUsageResponseDto> {
+    const employer = await this.employerRepository.findEmployerByUserId(employerUserId);
+    if (!employer) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'EMPLOYER_NOT_FOUND', message: 'Employer profile not found' },
+      });
+    }
+    return this.buildUsage(employer.id);
+  }
+
+  /**
+   * Charges a worker CV view to the employer's monthly quota; repeat views of the same worker in a month are free.
+   * Views by recruiters count against the quota of the employer they recruit for.
+   */
+  async recordCvView(viewerUserId: string, workerId: string): Promise<void> {
+    const employerId = await this.employerRepository.findEmployerIdForUser(viewerUserId);
+    if (!employerId) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'EMPLOYER_NOT_FOUND', message: 'Employer profile not found' },
+      });
+    }
+
+    try {
+      await this.subscriptionRepository.recordCvView(employerId, workerId, viewerUserId);
+    } catch (error: any) {
+      if (error.message?.includes('CV_VIEW_QUOTA_EXCEEDED')) {
+        throw new BadRequestException({
+          success: false,
+          error: { code: 'CV_VIEW_QUOTA_EXCEEDED', message: error.message.split(':')[1]?.trim() || 'Monthly CV view quota used up' },
+        });
+      }
+      throw error;
+    }
+  }
+
+  private async buildUsage(employerId: string): Promise<EmployerUsageResponseDto> {
+    const usage = await this.subscriptionRepository.getUsage(employerId);
+    const { limits } = usage;
+    const period = currentQuotaPeriod();
+
+    return {
+      employerId,
+      plan: { planId: limits.planId, code: limits.code, name: limits.name, assigned: limits.planId !== null },
+      period: {
+        from: period.start.toISOString().slice(0, 10),
+        to: new Date(period.end.getTime() - 1).toISOString().slice(0, 10),
+      },
+      openVacancies: this.toQuota(usage.openVacancies, limits.maxOpenVacancies),
+      recruiters: this.toQuota(usage.recruiters, limits.maxRecruiters),
+      cvViews: this.toQuota(usage.cvViews, limits.monthlyCvViews),
+      featuredVacancies: this.toQuota(usage.featuredVacancies, limits.maxFeaturedVacancies),
+    };
+  }
+
+  private toQuota(used: number, limit: number | null): QuotaUsageDto {
+    return { used, limit, remaining: limit === null ? null : Math.max(0, limit - used) };
+  }
+
+  private async getPlanOrThrow(planId: string): Promise<SubscriptionPlan> {
+    const plan = await this.subscriptionRepository.findPlanById(planId);
+    if (!plan) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'PLAN_NOT_FOUND', message: 'Subscription plan not found' },
+      });
+    }
+    return plan;
+  }
+
+  private sanitizePlan(plan: SubscriptionPlan): SubscriptionPlanResponseDto {
+    return {
+      id: plan.id,
+      code: plan.code,
+      name: plan.name,
+      description: plan.description ?? undefined,
+      maxOpenVacancies: plan.maxOpenVacancies,
+      maxRecruiters: plan.maxRecruiters,
+      monthlyCvViews: plan.monthlyCvViews,
+      maxFeaturedVacancies: plan.maxFeaturedVacancies,
+      isDefault: plan.isDefault,
+      isActive: plan.isActive,
+      createdAt: plan.createdAt,
+      updatedAt: plan.updatedAt,
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { JobType, RemoteType, EducationLevel, VacancyStatus, ComplianceStatus } from '@prisma/client';
+import { ModerationFlag } from '../vacancy-moderation.rules';
 
 export class VacancyResponseDto {
   @ApiProperty()
@@ -47,6 +48,9 @@ export class VacancyResponseDto {
   @ApiProperty()
   locationCountry: string;
 
+  @ApiPropertyOptional({ description: 'Gazetteer code of the normalized location' })
+  locationPlaceCode?: string;
+
   @ApiProperty()
   isRemote: boolean;
 
@@ -71,6 +75,9 @@ export class VacancyResponseDto {
   @ApiProperty({ enum: VacancyStatus })
   status: VacancyStatus;
 
+  @ApiProperty({ description: 'Featured posting; counts towards the featured postings quota while open' })
+  isFeatured: boolean;
+
   @ApiPropertyOptional()
   expiresAt?: Date;
 
@@ -135,6 +142,21 @@ export class VacancyVersionResponseDto {
   @ApiProperty()
   isCurrent: boolean;
 
+  @ApiPropertyOptional({ enum: ComplianceStatus, description: 'Moderation outcome of this version' })
+  moderationStatus?: ComplianceStatus;
+
+  @ApiPropertyOptional({ type: [Object], description: 'Rules that sent the version to review' })
+  moderationFlags?: any;
+
+  @ApiPropertyOptional()
+  moderationNotes?: string;
+
+  @ApiPropertyOptional({ description: 'Moderator; empty when the automatic checks approved the version' })
+  moderatedBy?: string;
+
+  @ApiPropertyOptional()
+  moderatedAt?: Date;
+
   @ApiProperty()
   createdBy: string;
 
@@ -151,6 +173,40 @@ export class PublishResponseDto {
 
   @ApiProperty()
   versionNumber: number;
+
+  @ApiPropertyOptional({ type: [Object], description: 'Present when the vacancy was sent to moderation' })
+  moderationFlags?: ModerationFlag[];
+}
+
+export class ModerationQueueItemDto {
+  @ApiProperty({ type: VacancyResponseDto })
+  vacancy: VacancyResponseDto;
+
+  @ApiProperty()
+  employer: { id: string; companyName: string; status: string; verified: boolean };
+
+  @ApiProperty({ type: [Object] })
+  moderationFlags: ModerationFlag[];
+
+  @ApiPropertyOptional()
+  submittedAt?: Date;
+}
+
+export class ModerationQueueResponseDto {
+  @ApiProperty({ type: [ModerationQueueItemDto] })
+  items: ModerationQueueItemDto[];
+
+  @ApiProperty()
+  totalCount: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  pageSize: number;
+
+  @ApiProperty()
+  totalPages: number;
 }
 
 export class CloseResponseDto {
@@ -160,3 +216,77 @@ export class CloseResponseDto {
   @ApiProperty()
   vacancy: VacancyResponseDto;
 }
+
+export class VacancyImportErrorDto {
+  @ApiPropertyOptional({ example: 'salaryMax' })
+  field?: string;
+
+  @ApiProperty({ example: 'INVALID_SALARY_RANGE' })
+  code: string;
+
+  @ApiProperty()
+  message: string;
+}
+
+export class VacancyImportRowDto {
+  @ApiProperty({ description: 'Spreadsheet row number; the header is row 1' })
+  row: number;
+
+  @ApiPropertyOptional()
+  jobCode?: string;
+
+  @ApiProperty({ enum: ['VALID', 'INVALID', 'CREATED'] })
+  status: 'VALID' | 'INVALID' | 'CREATED';
+
+  @ApiProperty({ type: [VacancyImportErrorDto] })
+  errors: VacancyImportErrorDto[];
+
+  @ApiPropertyOptional()
+  vacancyId?: string;
+}
+
+export class VacancyImportQuotaDto {
+  @ApiProperty({ description: 'Plan the limit comes from' })
+  plan: string;
+
+  @ApiPropertyOptional({ nullable: true, description: 'Open vacancies the plan allows; null when unlimited' })
+  limit: number | null;
+
+  @ApiProperty({ description: 'Vacancies that are open or waiting for moderation' })
+  used: number;
+
+  @ApiPropertyOptional({ nullable: true, description: 'Vacancies that can still be published; null when unlimited' })
+  remaining: number | null;
+
+  @ApiProperty({ description: 'Open vacancies if every valid row of this import were published' })
+  projected: number;
+
+  @ApiProperty({ description: 'Whether publishing every valid row would go over the limit' })
+  exceedsLimit: boolean;
+}
+
+export class VacancyImportResponseDto {
+  @ApiProperty()
+  dryRun: boolean;
+
+  @ApiProperty()
+  totalRows: number;
+
+  @ApiProperty()
+  validRows: number;
+
+  @ApiProperty()
+  invalidRows: number;
+
+  @ApiProperty({ description: 'Vacancies are only created when every row is valid' })
+  createdCount: number;
+
+  @ApiProperty({
+    type: VacancyImportQuotaDto,
+    description: 'Imported vacancies are drafts; the open vacancy limit applies when they are published',
+  })
+  publishQuota: VacancyImportQuotaDto;
+
+  @ApiProperty({ type: [VacancyImportRowDto] })
+  rows: VacancyImportRowDto[];
+}
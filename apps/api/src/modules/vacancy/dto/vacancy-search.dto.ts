@@ -0,0 +1,285 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, IsOptional, IsEnum, IsNumber, Min, Max, MaxLength, ArrayMaxSize } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { JobType, RemoteType, EducationLevel, TrafficSource } from '@prisma/client';
+
+// Multi-valued query parameters arrive as `a,b` or as a repeated key.
+const toList = ({ value }: { value: unknown }) =>
+  (Array.isArray(value) ? value : String(value).split(','))
+    .map(item => String(item).trim())
+    .filter(Boolean);
+
+export class SearchVacanciesDto {
+  @ApiPropertyOptional({ description: 'Full-text query over title, job code and description' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  q?: string;
+
+  @ApiPropertyOptional({ enum: JobType, isArray: true, description: 'Comma separated' })
+  @IsOptional()
+  @Transform(toList)
+  @IsEnum(JobType, { each: true })
+  jobType?: JobType[];
+
+  @ApiPropertyOptional({ enum: RemoteType, isArray: true, description: 'Comma separated' })
+  @IsOptional()
+  @Transform(toList)
+  @IsEnum(RemoteType, { each: true })
+  remoteType?: RemoteType[];
+
+  @ApiPropertyOptional({ enum: EducationLevel, isArray: true, description: 'Comma separated' })
+  @IsOptional()
+  @Transform(toList)
+  @IsEnum(EducationLevel, { each: true })
+  educationMinLevel?: EducationLevel[];
+
+  @ApiPropertyOptional({ description: 'Lowest acceptable salary; matches vacancies whose range reaches it' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  salaryMin?: number;
+
+  @ApiPropertyOptional({ description: 'Highest salary of interest; matches vacancies whose range starts below it' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  salaryMax?: number;
+
+  @ApiPropertyOptional({ example: 'UZS' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(3)
+  salaryCurrency?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  city?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  state?: string;
+
+  @ApiPropertyOptional({ description: 'Years of experience the worker has; hides vacancies asking for more' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(60)
+  experienceYears?: number;
+
+  @ApiPropertyOptional({ type: [String], description: 'Skill codes, comma separated; matches vacancies with any of them' })
+  @IsOptional()
+  @Transform(toList)
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  skills?: string[];
+
+  @ApiPropertyOptional({ description: 'Employer industry' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  industry?: string;
+
+  @ApiPropertyOptional({ description: 'nextCursor from the previous page' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  cursor?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(50)
+  limit?: number = 20;
+}
+
+export class VacancySearchItemDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  jobTitle: string;
+
+  @ApiProperty()
+  jobCode: string;
+
+  @ApiProperty({ description: 'Start of the description' })
+  snippet: string;
+
+  @ApiProperty({ enum: JobType })
+  jobType: JobType;
+
+  @ApiProperty()
+  salaryMin: number;
+
+  @ApiProperty()
+  salaryMax: number;
+
+  @ApiProperty()
+  salaryCurrency: string;
+
+  @ApiProperty()
+  salaryIsNegotiable: boolean;
+
+  @ApiProperty()
+  locationCity: string;
+
+  @ApiProperty()
+  locationState: string;
+
+  @ApiProperty()
+  isRemote: boolean;
+
+  @ApiPropertyOptional({ enum: RemoteType })
+  remoteType?: RemoteType;
+
+  @ApiPropertyOptional()
+  experienceMinYears?: number;
+
+  @ApiPropertyOptional({ enum: EducationLevel })
+  educationMinLevel?: EducationLevel;
+
+  @ApiProperty()
+  employer: { id: string; companyName: string; industry: string };
+
+  @ApiProperty({ type: [String] })
+  skills: string[];
+
+  @ApiPropertyOptional({ description: 'Text relevance, present when searching with q' })
+  rank?: number;
+
+  @ApiProperty()
+  publishedAt: Date;
+
+  @ApiPropertyOptional()
+  expiresAt?: Date;
+}
+
+export class FacetCountDto {
+  @ApiProperty()
+  value: string;
+
+  @ApiProperty()
+  count: number;
+}
+
+export class VacancySearchResponseDto {
+  @ApiProperty({ type: [VacancySearchItemDto] })
+  items: VacancySearchItemDto[];
+
+  @ApiPropertyOptional({ description: 'Pass as cursor to get the next page; absent on the last page' })
+  nextCursor?: string;
+
+  @ApiProperty({ description: 'Matches for the whole query, not just this page' })
+  totalCount: number;
+
+  @ApiProperty({ description: 'Counts per value for jobType, remoteType, educationMinLevel, city, state, industry and skills' })
+  facets: Record<string, FacetCountDto[]>;
+}
+
+export class GetJobDto {
+  @ApiPropertyOptional({ enum: TrafficSource, description: 'Where the visitor came from, for employer analytics', default: TrafficSource.DIRECT })
+  @IsOptional()
+  @IsEnum(TrafficSource)
+  source?: TrafficSource;
+}
+
+export class JobRequirementDto {
+  @ApiProperty()
+  requirementType: string;
+
+  @ApiProperty()
+  requirementText: string;
+
+  @ApiProperty()
+  isMandatory: boolean;
+}
+
+export class JobSkillDto {
+  @ApiProperty()
+  skillCode: string;
+
+  @ApiProperty()
+  skillName: string;
+
+  @ApiProperty()
+  isRequired: boolean;
+}
+
+export class JobDetailDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  jobTitle: string;
+
+  @ApiProperty()
+  jobCode: string;
+
+  @ApiProperty()
+  jobDescription: string;
+
+  @ApiProperty({ enum: JobType })
+  jobType: JobType;
+
+  @ApiProperty()
+  salaryMin: number;
+
+  @ApiProperty()
+  salaryMax: number;
+
+  @ApiProperty()
+  salaryCurrency: string;
+
+  @ApiProperty()
+  salaryIsNegotiable: boolean;
+
+  @ApiProperty()
+  locationCity: string;
+
+  @ApiProperty()
+  locationState: string;
+
+  @ApiProperty()
+  isRemote: boolean;
+
+  @ApiPropertyOptional({ enum: RemoteType })
+  remoteType?: RemoteType;
+
+  @ApiPropertyOptional()
+  experienceMinYears?: number;
+
+  @ApiPropertyOptional()
+  experienceMaxYears?: number;
+
+  @ApiPropertyOptional({ enum: EducationLevel })
+  educationMinLevel?: EducationLevel;
+
+  @ApiProperty()
+  vacancyCount: number;
+
+  @ApiProperty()
+  employer: { id: string; companyName: string; industry: string };
+
+  @ApiProperty({ type: [JobSkillDto] })
+  skills: JobSkillDto[];
+
+  @ApiProperty({ type: [JobRequirementDto] })
+  requirements: JobRequirementDto[];
+
+  @ApiProperty()
+  publishedAt: Date;
+
+  @ApiPropertyOptional()
+  expiresAt?: Date;
+}
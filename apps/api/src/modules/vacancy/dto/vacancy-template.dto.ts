@@ -0,0 +1,142 @@
+import { ApiProperty, ApiPropertyOptional, OmitType, PartialType } from '@nestjs/swagger';
+import { IsString, IsOptional, IsNumber, Min, Max, IsUUID, IsDateString, ValidateNested, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import { CreateVacancyDto } from './vacancy.dto';
+
+// Any subset of the vacancy fields; the expiry date is set per vacancy.
+export class VacancyTemplateFieldsDto extends PartialType(OmitType(CreateVacancyDto, ['expiresAt'] as const)) {}
+
+export class CreateVacancyTemplateDto {
+  @ApiProperty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({ type: VacancyTemplateFieldsDto })
+  @ValidateNested()
+  @Type(() => VacancyTemplateFieldsDto)
+  vacancy: VacancyTemplateFieldsDto;
+}
+
+export class UpdateVacancyTemplateDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiPropertyOptional({ type: VacancyTemplateFieldsDto, description: 'Replaces the saved vacancy fields' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => VacancyTemplateFieldsDto)
+  vacancy?: VacancyTemplateFieldsDto;
+}
+
+export class ListVacancyTemplatesDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  pageSize?: number = 20;
+
+  @ApiPropertyOptional({ description: 'Matches the template name' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  search?: string;
+}
+
+// Per-vacancy values applied on top of the template.
+export class CreateVacancyFromTemplateDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  jobTitle?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  jobCode?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  branchId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  vacancyCount?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class VacancyTemplateResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  employerId: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiPropertyOptional()
+  description?: string;
+
+  @ApiProperty({ type: VacancyTemplateFieldsDto })
+  vacancy: VacancyTemplateFieldsDto;
+
+  @ApiProperty()
+  createdBy: string;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class VacancyTemplateListResponseDto {
+  @ApiProperty({ type: [VacancyTemplateResponseDto] })
+  items: VacancyTemplateResponseDto[];
+
+  @ApiProperty()
+  totalCount: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  pageSize: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
@@ -1,6 +1,6 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsString, IsOptional, IsEnum, IsNumber, Min, Max, IsBoolean, IsUUID, IsDateString, IsArray, ValidateNested, IsObject } from 'class-validator';
-import { Type } from 'class-transformer';
+import { IsString, IsOptional, IsEnum, IsNumber, Min, Max, IsBoolean, IsUUID, IsDateString, IsArray, ValidateNested, IsObject, MaxLength, MinLength } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
 import { JobType, RemoteType, EducationLevel, VacancyStatus } from '@prisma/client';
 
 export const ProficiencyLevel = {
@@ -15,12 +15,12 @@ export type ProficiencyLevel = typeof ProficiencyLevel[keyof typeof ProficiencyL
 export class VacancySkillDto {
   @ApiProperty()
   @IsString()
-  @Max(50)
+  @MaxLength(50)
   skillCode: string;
 
   @ApiProperty()
   @IsString()
-  @Max(255)
+  @MaxLength(255)
   skillName: string;
 
   @ApiPropertyOptional()
@@ -37,7 +37,7 @@ export class VacancySkillDto {
 export class VacancyRequirementDto {
   @ApiProperty()
   @IsString()
-  @Max(50)
+  @MaxLength(50)
   requirementType: string;
 
   @ApiProperty()
@@ -53,12 +53,12 @@ export class VacancyRequirementDto {
 export class CreateVacancyDto {
   @ApiProperty()
   @IsString()
-  @Max(255)
+  @MaxLength(255)
   jobTitle: string;
 
   @ApiProperty()
   @IsString()
-  @Max(50)
+  @MaxLength(50)
   jobCode: string;
 
   @ApiProperty()
@@ -81,7 +81,7 @@ export class CreateVacancyDto {
 
   @ApiProperty()
   @IsString()
-  @Max(3)
+  @MaxLength(3)
   salaryCurrency: string;
 
   @ApiPropertyOptional()
@@ -96,17 +96,17 @@ export class CreateVacancyDto {
 
   @ApiProperty()
   @IsString()
-  @Max(100)
+  @MaxLength(100)
   locationCity: string;
 
   @ApiProperty()
   @IsString()
-  @Max(100)
+  @MaxLength(100)
   locationState: string;
 
   @ApiProperty()
   @IsString()
-  @Max(100)
+  @MaxLength(100)
   locationCountry: string;
 
   @ApiPropertyOptional()
@@ -171,7 +171,7 @@ export class UpdateVacancyDto {
   @ApiPropertyOptional()
   @IsOptional()
   @IsString()
-  @Max(255)
+  @MaxLength(255)
   jobTitle?: string;
 
   @ApiPropertyOptional()
@@ -204,13 +204,13 @@ export class UpdateVacancyDto {
   @ApiPropertyOptional()
   @IsOptional()
   @IsString()
-  @Max(100)
+  @MaxLength(100)
   locationCity?: string;
 
   @ApiPropertyOptional()
   @IsOptional()
   @IsString()
-  @Max(100)
+  @MaxLength(100)
   locationState?: string;
 
   @ApiPropertyOptional()
@@ -300,7 +300,7 @@ export class ListVacanciesDto {
   @ApiPropertyOptional()
   @IsOptional()
   @IsString()
-  @Max(100)
+  @MaxLength(100)
   locationCity?: string;
 }
 
@@ -308,6 +308,71 @@ export class PublishVacancyDto {
   @ApiPropertyOptional()
   @IsOptional()
   @IsString()
-  @Max(500)
+  @MaxLength(500)
   changeSummary?: string;
 }
+
+export class CloneVacancyDto {
+  @ApiPropertyOptional({ description: 'Defaults to the job title of the source vacancy' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  jobTitle?: string;
+
+  @ApiPropertyOptional({ description: 'Defaults to the job code of the source vacancy' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  jobCode?: string;
+
+  @ApiPropertyOptional({ description: 'Defaults to the branch of the source vacancy' })
+  @IsOptional()
+  @IsUUID()
+  branchId?: string;
+}
+
+export class ImportVacanciesQueryDto {
+  @ApiPropertyOptional({ description: 'Validate the file and report per-row errors without creating vacancies' })
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' || value === true ? true : value === 'false' || value === false ? false : value))
+  @IsBoolean()
+  dryRun?: boolean;
+}
+
+export class ListModerationQueueDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  pageSize?: number = 20;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  employerId?: string;
+}
+
+export class ApproveVacancyDto {
+  @ApiPropertyOptional({ description: 'Shown to the employer and kept on the version' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+}
+
+export class ModerationNotesDto {
+  @ApiProperty({ description: 'What is wrong with the vacancy; shown to the employer and kept on the version' })
+  @IsString()
+  @MinLength(10)
+  @MaxLength(2000)
+  notes: string;
+}
@@ -0,0 +1,157 @@
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { excelSerialToIsoDate } from '../../common/utils/spreadsheet';
+import { CreateVacancyDto } from './dto/vacancy.dto';
+
+export const MAX_IMPORT_ROWS = 500;
+export const MAX_IMPORT_FILE_SIZE = 2 * 1024 * 1024;
+
+type ColumnKind = 'string' | 'number' | 'boolean' | 'date' | 'skills' | 'requirements';
+
+// Import columns are the CreateVacancyDto fields; headers are matched case-insensitively.
+const IMPORT_COLUMNS: Record<string, ColumnKind> = {
+  jobTitle: 'string',
+  jobCode: 'string',
+  jobDescription: 'string',
+  jobType: 'string',
+  salaryMin: 'number',
+  salaryMax: 'number',
+  salaryCurrency: 'string',
+  salaryIsNegotiable: 'boolean',
+  locationCity: 'string',
+  locationState: 'string',
+  locationCountry: 'string',
+  isRemote: 'boolean',
+  remoteType: 'string',
+  experienceMinYears: 'number',
+  experienceMaxYears: 'number',
+  educationMinLevel: 'string',
+  vacancyCount: 'number',
+  branchId: 'string',
+  expiresAt: 'date',
+  skills: 'skills',
+  requirements: 'requirements',
+};
+
+const REQUIRED_COLUMNS = [
+  'jobTitle',
+  'jobCode',
+  'jobDescription',
+  'jobType',
+  'salaryMin',
+  'salaryMax',
+  'salaryCurrency',
+  'locationCity',
+  'locationState',
+  'locationCountry',
+];
+
+/** An uploaded file as handed over by multer's memory storage. */
+export interface UploadedSpreadsheet {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export interface VacancyInputError {
+  field?: string;
+  code: string;
+  message: string;
+}
+
+export interface VacancyImportSheet {
+  unknownColumns: string[];
+  missingColumns: string[];
+  // Spreadsheet row number (the header is row 1) and the row mapped onto CreateVacancyDto fields.
+  rows: { rowNumber: number; input: Record<string, unknown> }[];
+}
+
+/**
+ * Maps the first row to column names and every following non-blank row to a plain CreateVacancyDto input.
+ * Cells are converted where the column type is unambiguous; anything else is passed through for the
+ * validators to reject.
+ *
+ * skills are `CODE|Name` or `CODE|Name|MIN_PROFICIENCY` entries separated by `;`, requirements are
+ * `TYPE|Text` entries separated by `;`.
+ */
+export function readVacancyImportSheet(table: string[][]): VacancyImportSheet {
+  const [header = [], ...body] = table;
+  const columnsByName = new Map(Object.keys(IMPORT_COLUMNS).map(name => [name.toLowerCase(), name]));
+  const columns = header.map(cell => columnsByName.get(cell.trim().toLowerCase()));
+
+  const unknownColumns = header.filter((cell, index) => cell.trim() !== '' && !columns[index]).map(cell => cell.trim());
+  const missingColumns = REQUIRED_COLUMNS.filter(name => !columns.includes(name));
+
+  const rows: VacancyImportSheet['rows'] = [];
+  body.forEach((cells, index) => {
+    if (cells.every(cell => cell.trim() === '')) return;
+
+    const input: Record<string, unknown> = {};
+    columns.forEach((name, column) => {
+      const value = (cells[column] ?? '').trim();
+      if (name && value !== '') {
+        input[name] = convertCell(IMPORT_COLUMNS[name], value);
+      }
+    });
+    rows.push({ rowNumber: index + 2, input });
+  });
+
+  return { unknownColumns, missingColumns, rows };
+}
+
+/**
+ * Runs the CreateVacancyDto validators, as the global ValidationPipe would, on a plain input.
+ */
+export async function validateVacancyInput(
+  input: Record<string, unknown>,
+): Promise<{ dto: CreateVacancyDto; errors: VacancyInputError[] }> {
+  const dto = plainToInstance(CreateVacancyDto, input);
+  const errors = await validate(dto, { whitelist: true, forbidNonWhitelisted: true });
+  return { dto, errors: flattenValidationErrors(errors) };
+}
+
+function flattenValidationErrors(errors: ValidationError[], parent?: string): VacancyInputError[] {
+  return errors.flatMap(error => {
+    const field = parent ? `${parent}.${error.property}` : error.property;
+    if (error.value === undefined || error.value === null) {
+      return [{ field, code: 'REQUIRED', message: `${field} is required` }];
+    }
+    const own = Object.values(error.constraints ?? {}).map(message => ({ field, code: 'VALIDATION_ERROR', message }));
+    return [...own, ...flattenValidationErrors(error.children ?? [], field)];
+  });
+}
+
+function convertCell(kind: ColumnKind, value: string): unknown {
+  switch (kind) {
+    case 'number':
+      return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+    case 'boolean': {
+      const normalized = value.toLowerCase();
+      if (['true', 'yes', '1'].includes(normalized)) return true;
+      if (['false', 'no', '0'].includes(normalized)) return false;
+      return value;
+    }
+    case 'date':
+      // XLSX stores dates as serial day numbers.
+      return /^\d+(\.\d+)?$/.test(value) ? excelSerialToIsoDate(Number(value)) : value;
+    case 'skills':
+      return splitEntries(value).map(([skillCode, skillName, minProficiency]) => ({
+        skillCode,
+        skillName,
+        ...(minProficiency && { minProficiency: minProficiency.toUpperCase() }),
+      }));
+    case 'requirements':
+      return splitEntries(value).map(([requirementType, requirementText]) => ({ requirementType, requirementText }));
+    default:
+      return value;
+  }
+}
+
+function splitEntries(value: string): string[][] {
+  return value
+    .split(';')
+    .map(entry => entry.trim())
+    .filter(entry => entry !== '')
+    .map(entry => entry.split('|').map(part => part.trim()));
+}
@@ -0,0 +1,110 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { VacancyStatus } from '@prisma/client';
+import { SchedulerService } from '../../common/scheduler/scheduler.service';
+import { DomainEventBus } from '../../common/events/domain-event-bus.service';
+import { DomainEvents } from '../../common/events/domain-events';
+import { AuditService } from '../auth/audit.service';
+import { LifecycleVacancy, VacancyRepository } from './vacancy.repository';
+
+const LIFECYCLE_INTERVAL = 5 * 60 * 1000;
+const BATCH_SIZE = 100;
+
+const EXPIRED_REASON = 'The vacancy expired before a decision was made';
+const FILLED_REASON = 'All positions for this vacancy have been filled';
+
+/**
+ * Ends OPEN vacancies that passed expiresAt or reached vacancyCount hires. Pending applications are rejected
+ * on behalf of the employer, with the reason recorded in their status history.
+ */
+@Injectable()
+export class VacancyLifecycleJobs implements OnModuleInit {
+  constructor(
+    private readonly scheduler: SchedulerService,
+    private readonly vacancyRepository: VacancyRepository,
+    private readonly auditService: AuditService,
+    private readonly eventBus: DomainEventBus,
+  ) {}
+
+  onModuleInit() {
+    this.scheduler.register({
+      name: 'vacancy-expiry',
+      intervalMs: LIFECYCLE_INTERVAL,
+      run: () => this.expireVacancies(),
+    });
+    this.scheduler.register({
+      name: 'vacancy-auto-close',
+      intervalMs: LIFECYCLE_INTERVAL,
+      run: () => this.closeFilledVacancies(),
+    });
+  }
+
+  async expireVacancies(): Promise<Record<string, number>> {
+    const vacancies = await this.vacancyRepository.findExpiredOpenVacancies(new Date(), BATCH_SIZE);
+
+    let expired = 0;
+    let applicationsRejected = 0;
+    for (const vacancy of vacancies) {
+      const rejected = await this.endVacancy(vacancy, VacancyStatus.EXPIRED, EXPIRED_REASON);
+      if (rejected === null) continue;
+      expired++;
+      applicationsRejected += rejected;
+    }
+    return { expired, applicationsRejected };
+  }
+
+  async closeFilledVacancies(): Promise<Record<string, number>> {
+    const vacancies = await this.vacancyRepository.findFilledOpenVacancies(BATCH_SIZE);
+
+    let closed = 0;
+    let applicationsRejected = 0;
+    for (const vacancy of vacancies) {
+      const rejected = await this.endVacancy(vacancy, VacancyStatus.CLOSED, FILLED_REASON);
+      if (rejected === null) continue;
+      closed++;
+      applicationsRejected += rejected;
+    }
+    return { closed, applicationsRejected };
+  }
+
+  private async endVacancy(
+    vacancy: LifecycleVacancy,
+    status: typeof VacancyStatus.EXPIRED | typeof VacancyStatus.CLOSED,
+    reason: string,
+  ): Promise<number | null> {
+    const rejected = await this.vacancyRepository.endVacancy(vacancy.id, status, vacancy.employer.userId, reason);
+    // The employer closed it, or another run got there first.
+    if (rejected === null) return null;
+
+    await this.auditService.log(status === VacancyStatus.EXPIRED ? 'VACANCY_EXPIRED' : 'VACANCY_AUTO_CLOSED', {
+      resourceType: 'VACANCY',
+      resourceId: vacancy.id,
+      before: { status: VacancyStatus.OPEN },
+      after: { status },
+      reason,
+      details: {
+        vacancyId: vacancy.id,
+        employerId: vacancy.employerId,
+        jobTitle: vacancy.jobTitle,
+        applicationsRejected: rejected.length,
+      },
+    });
+
+    this.eventBus.publish(status === VacancyStatus.EXPIRED ? DomainEvents.VACANCY_EXPIRED : DomainEvents.VACANCY_CLOSED, {
+      vacancyId: vacancy.id,
+      employerId: vacancy.employerId,
+      status,
+    });
+
+    for (const application of rejected) {
+      this.eventBus.publish(DomainEvents.APPLICATION_AUTO_REJECTED, {
+        applicationId: application.id,
+        userId: application.userId,
+        vacancyId: vacancy.id,
+        jobTitle: vacancy.jobTitle,
+        reason,
+      });
+    }
+
+    return rejected.length;
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeaders, ApiParam } from '@nestjs/swagger';
+import { VacancyService } from './vacancy.service';
+import { ApproveVacancyDto, ListModerationQueueDto, ModerationNotesDto } from './dto/vacancy.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Request } from 'express';
+
+interface RequestWithUser extends Request {
+  user: {
+    id: string;
+    email: string;
+    role: string;
+    sessionId: string;
+    familyId: string;
+  };
+}
+
+@ApiTags('Vacancy Moderation')
+@Controller('api/v1/admin/vacancies/moderation')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions('vacancy:moderate')
+@ApiBearerAuth()
+@ApiHeaders([{ name: 'authorization', description: 'Bearer token' }])
+export class VacancyModerationController {
+  constructor(private readonly vacancyService: VacancyService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List vacancies waiting for moderation, oldest first' })
+  @ApiResponse({ status: 200, description: 'Moderation queue retrieved successfully' })
+  async listQueue(@Query() dto: ListModerationQueueDto, @Req() req: RequestWithUser) {
+    return this.vacancyService.listModerationQueue(req.user.id, dto, this.extractIp(req));
+  }
+
+  @Post(':vacancyId/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Approve and publish a vacancy' })
+  @ApiParam({ name: 'vacancyId', description: 'Vacancy UUID' })
+  @ApiResponse({ status: 200, description: 'Vacancy approved and published' })
+  @ApiResponse({ status: 409, description: 'Vacancy is not waiting for moderation' })
+  async approve(
+    @Param('vacancyId', ParseUUIDPipe) vacancyId: string,
+    @Body() dto: ApproveVacancyDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.vacancyService.approveVacancy(req.user.id, vacancyId, dto.notes, this.extractIp(req));
+  }
+
+  @Post(':vacancyId/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject a vacancy' })
+  @ApiParam({ name: 'vacancyId', description: 'Vacancy UUID' })
+  @ApiResponse({ status: 200, description: 'Vacancy rejected' })
+  @ApiResponse({ status: 409, description: 'Vacancy is not waiting for moderation' })
+  async reject(
+    @Param('vacancyId', ParseUUIDPipe) vacancyId: string,
+    @Body() dto: ModerationNotesDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.vacancyService.rejectVacancy(req.user.id, vacancyId, dto.notes, this.extractIp(req));
+  }
+
+  @Post(':vacancyId/request-changes')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Send a vacancy back to the employer for changes' })
+  @ApiParam({ name: 'vacancyId', description: 'Vacancy UUID' })
+  @ApiResponse({ status: 200, description: 'Vacancy returned to draft' })
+  @ApiResponse({ status: 409, description: 'Vacancy is not waiting for moderation' })
+  async requestChanges(
+    @Param('vacancyId', ParseUUIDPipe) vacancyId: string,
+    @Body() dto: ModerationNotesDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.vacancyService.requestVacancyChanges(req.user.id, vacancyId, dto.notes, this.extractIp(req));
+  }
+
+  private extractIp(req: RequestWithUser): string {
+    return req.ip || req.socket.remoteAddress || 'unknown';
+  }
+}
@@ -0,0 +1,95 @@
+import { ModeratedVacancy, evaluateVacancyModeration, summarizeModerationFlags } from './vacancy-moderation.rules';
+
+const CLEAN_CONTEXT = { employerVerified: true, changesRequested: false };
+
+function vacancy(overrides: Partial<ModeratedVacancy> = {}): ModeratedVacancy {
+  return {
+    jobTitle: 'Warehouse operator',
+    jobDescription: 'Receiving and shipping goods in a Tashkent warehouse.',
+    salaryMin: 4_000_000,
+    salaryMax: 6_000_000,
+    salaryIsNegotiable: false,
+    requirements: [{ requirementText: 'Forklift licence' }],
+    ...overrides,
+  };
+}
+
+function codes(target: ModeratedVacancy, context = CLEAN_CONTEXT) {
+  return evaluateVacancyModeration(target, context).map(flag => flag.code);
+}
+
+describe('evaluateVacancyModeration', () => {
+  it('passes a complete vacancy from a verified employer', () => {
+    expect(evaluateVacancyModeration(vacancy(), CLEAN_CONTEXT)).toEqual([]);
+  });
+
+  describe('salary', () => {
+    it('flags a vacancy without salary', () => {
+      expect(codes(vacancy({ salaryMin: 0, salaryMax: 0 }))).toEqual(['MISSING_SALARY']);
+    });
+
+    it('accepts a negotiable salary or a single bound', () => {
+      expect(codes(vacancy({ salaryMin: 0, salaryMax: 0, salaryIsNegotiable: true }))).toEqual([]);
+      expect(codes(vacancy({ salaryMin: 0 }))).toEqual([]);
+    });
+  });
+
+  describe('banned keywords', () => {
+    it.each([
+      'A registration fee is required before the interview',
+      'Training Fee: 200 000 sum',
+      'Pay  to\napply today',
+      'Требуется предоплата за обучение',
+      'Вступительный взнос обязателен',
+      "Oldindan to'lov talab qilinadi",
+    ])('flags %p', text => {
+      expect(codes(vacancy({ jobDescription: text }))).toEqual(['BANNED_KEYWORD']);
+    });
+
+    it.each([
+      'No preregistration feedback is collected',
+      'Предоплатами занимается бухгалтерия',
+      'Experience with crypto investments analysis',
+    ])('ignores %p, where the phrase is only part of a longer word', text => {
+      expect(codes(vacancy({ jobDescription: text }))).toEqual([]);
+    });
+
+    it('checks the title and requirements too', () => {
+      expect(codes(vacancy({ jobTitle: 'Pyramid scheme manager' }))).toEqual(['BANNED_KEYWORD']);
+      expect(codes(vacancy({ requirements: [{ requirementText: 'Deposit required' }] }))).toEqual(['BANNED_KEYWORD']);
+    });
+
+    it('reports the keyword that matched', () => {
+      const [flag] = evaluateVacancyModeration(vacancy({ jobDescription: 'Upfront payment needed' }), CLEAN_CONTEXT);
+      expect(flag.match).toBe('upfront payment');
+    });
+  });
+
+  describe('discriminatory phrases', () => {
+    it.each([
+      ['Men only', 'Restricts applicants by gender'],
+      ['Candidates not older than 35', 'Restricts applicants by age'],
+      ['Aged 20-30', 'Restricts applicants by age'],
+      ['Pleasant appearance', 'Requires a physical appearance'],
+      ['Только женщины', 'Restricts applicants by gender'],
+      ['Не старше 40 лет', 'Restricts applicants by age'],
+    ])('flags %p', (text, message) => {
+      const flags = evaluateVacancyModeration(vacancy({ jobDescription: text }), CLEAN_CONTEXT);
+      expect(flags).toEqual([expect.objectContaining({ code: 'DISCRIMINATORY_PHRASE', message })]);
+    });
+  });
+
+  it('flags unverified employers and resubmissions after requested changes', () => {
+    expect(codes(vacancy(), { employerVerified: false, changesRequested: true }))
+      .toEqual(['UNVERIFIED_EMPLOYER', 'CHANGES_REQUESTED']);
+  });
+});
+
+describe('summarizeModerationFlags', () => {
+  it('joins the messages with their matches', () => {
+    expect(summarizeModerationFlags([
+      { code: 'BANNED_KEYWORD', message: 'Contains a banned keyword', match: 'training fee' },
+      { code: 'UNVERIFIED_EMPLOYER', message: 'Employer has not completed verification' },
+    ])).toBe('Contains a banned keyword: "training fee"; Employer has not completed verification');
+  });
+});
@@ -0,0 +1,108 @@
+export type ModerationFlagCode =
+  | 'MISSING_SALARY'
+  | 'BANNED_KEYWORD'
+  | 'DISCRIMINATORY_PHRASE'
+  | 'UNVERIFIED_EMPLOYER'
+  | 'CHANGES_REQUESTED';
+
+export interface ModerationFlag {
+  code: ModerationFlagCode;
+  message: string;
+  match?: string;
+}
+
+export interface ModeratedVacancy {
+  jobTitle: string;
+  jobDescription: string;
+  salaryMin: number;
+  salaryMax: number;
+  salaryIsNegotiable: boolean;
+  requirements: { requirementText: string }[];
+}
+
+// Typical signs of job scams and fee-charging agencies. Matched case-insensitively as whole phrases.
+export const BANNED_KEYWORDS = [
+  'registration fee',
+  'application fee',
+  'training fee',
+  'upfront payment',
+  'pay to apply',
+  'deposit required',
+  'pyramid scheme',
+  'crypto investment',
+  'предоплата',
+  'вступительный взнос',
+  "oldindan to'lov",
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// `\b` only knows ASCII word characters, so Cyrillic phrases need explicit letter and digit lookarounds.
+const BANNED_KEYWORD_PATTERNS = BANNED_KEYWORDS.map(keyword => ({
+  keyword,
+  pattern: new RegExp(
+    `(?<![\\p{L}\\p{N}_])${keyword.split(/\s+/).map(escapeRegExp).join('\\s+')}(?![\\p{L}\\p{N}_])`,
+    'iu',
+  ),
+}));
+
+// Requirements on protected characteristics that a vacancy may not state.
+export const DISCRIMINATORY_PATTERNS: { pattern: RegExp; message: string }[] = [
+  { pattern: /\b(men|males?) only\b|\bonly (men|males?)\b/i, message: 'Restricts applicants by gender' },
+  { pattern: /\b(women|females?) only\b|\bonly (women|females?)\b/i, message: 'Restricts applicants by gender' },
+  { pattern: /\b(under|not older than|no older than|younger than)\s+\d{2}\b/i, message: 'Restricts applicants by age' },
+  { pattern: /\bage(d)?\s+\d{2}\s*(-|to)\s*\d{2}\b/i, message: 'Restricts applicants by age' },
+  { pattern: /\b(attractive|good-looking|pleasant appearance)\b/i, message: 'Requires a physical appearance' },
+  { pattern: /\b(slavic|european) appearance\b/i, message: 'Restricts applicants by ethnicity' },
+  { pattern: /\bno (pregnant|married)\b/i, message: 'Restricts applicants by family status' },
+  { pattern: /только (мужчины|женщины)/i, message: 'Restricts applicants by gender' },
+  { pattern: /не старше\s+\d{2}/i, message: 'Restricts applicants by age' },
+  { pattern: /славянской внешности/i, message: 'Restricts applicants by ethnicity' },
+];
+
+/**
+ * Checks a vacancy before it goes live. Any flag sends it to the admin moderation queue instead of publishing.
+ */
+export function evaluateVacancyModeration(
+  vacancy: ModeratedVacancy,
+  context: { employerVerified: boolean; changesRequested: boolean },
+): ModerationFlag[] {
+  const flags: ModerationFlag[] = [];
+
+  if (!vacancy.salaryIsNegotiable && !(vacancy.salaryMin > 0) && !(vacancy.salaryMax > 0)) {
+    flags.push({ code: 'MISSING_SALARY', message: 'No salary range is given and the salary is not negotiable' });
+  }
+
+  const text = [vacancy.jobTitle, vacancy.jobDescription, ...vacancy.requirements.map(r => r.requirementText)]
+    .filter(Boolean)
+    .join('\n');
+
+  for (const { keyword, pattern } of BANNED_KEYWORD_PATTERNS) {
+    if (pattern.test(text)) {
+      flags.push({ code: 'BANNED_KEYWORD', message: 'Contains a banned keyword', match: keyword });
+    }
+  }
+
+  for (const { pattern, message } of DISCRIMINATORY_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match) {
+      flags.push({ code: 'DISCRIMINATORY_PHRASE', message, match: match[0] });
+    }
+  }
+
+  if (!context.employerVerified) {
+    flags.push({ code: 'UNVERIFIED_EMPLOYER', message: 'Employer has not completed verification' });
+  }
+
+  if (context.changesRequested) {
+    flags.push({ code: 'CHANGES_REQUESTED', message: 'Resubmitted after a moderator requested changes' });
+  }
+
+  return flags;
+}
+
+export function summarizeModerationFlags(flags: ModerationFlag[]): string {
+  return flags.map(flag => (flag.match ? `${flag.message}: "${flag.match}"` : flag.message)).join('; ');
+}
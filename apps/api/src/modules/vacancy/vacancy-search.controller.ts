@@ -0,0 +1,51 @@
+import { Controller, Get, Param, ParseUUIDPipe, Query, Req, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { Request } from 'express';
+import { VacancySearchService } from './vacancy-search.service';
+import { GetJobDto, SearchVacanciesDto } from './dto/vacancy-search.dto';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
+
+interface RequestWithOptionalUser extends Request {
+  user?: {
+    id: string;
+  };
+}
+
+@ApiTags('Job Search')
+@Controller('api/v1/jobs')
+export class VacancySearchController {
+  constructor(private readonly vacancySearchService: VacancySearchService) {}
+
+  @Get('search')
+  @RateLimit(60, 60)
+  @ApiOperation({ summary: 'Search open vacancies with ranking, filters and facet counts' })
+  @ApiResponse({ status: 200, description: 'Search results retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid filters or cursor' })
+  async search(@Query() dto: SearchVacanciesDto) {
+    return this.vacancySearchService.search(dto);
+  }
+
+  @Get(':vacancyId')
+  @UseGuards(OptionalJwtAuthGuard)
+  @RateLimit(120, 60)
+  @ApiOperation({ summary: 'Get an open vacancy and count the view' })
+  @ApiParam({ name: 'vacancyId', description: 'Vacancy UUID' })
+  @ApiResponse({ status: 200, description: 'Vacancy retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Vacancy is not open or does not exist' })
+  async getJob(
+    @Param('vacancyId', ParseUUIDPipe) vacancyId: string,
+    @Query() dto: GetJobDto,
+    @Req() req: RequestWithOptionalUser,
+  ) {
+    return this.vacancySearchService.getJob(
+      vacancyId,
+      { userId: req.user?.id, ipAddress: this.extractIp(req) },
+      dto.source,
+    );
+  }
+
+  private extractIp(req: Request): string {
+    return req.ip || req.socket.remoteAddress || 'unknown';
+  }
+}
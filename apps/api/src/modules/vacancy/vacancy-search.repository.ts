@@ -0,0 +1,232 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma/prisma.service';
+import { ComplianceStatus, EducationLevel, JobType, Prisma, RemoteType, VacancyStatus } from '@prisma/client';
+
+export interface VacancySearchFilters {
+  query?: string;
+  jobTypes?: JobType[];
+  remoteTypes?: RemoteType[];
+  educationLevels?: EducationLevel[];
+  salaryMin?: number;
+  salaryMax?: number;
+  salaryCurrency?: string;
+  city?: string;
+  state?: string;
+  experienceYears?: number;
+  skills?: string[];
+  industry?: string;
+}
+
+// Keyset position of the last row of a page; rank is only set for text queries.
+export interface VacancySearchCursor {
+  rank: string | null;
+  publishedAt: string;
+  id: string;
+}
+
+export interface VacancySearchRow {
+  id: string;
+  jobTitle: string;
+  jobCode: string;
+  jobDescription: string;
+  jobType: JobType;
+  salaryMin: Prisma.Decimal;
+  salaryMax: Prisma.Decimal;
+  salaryCurrency: string;
+  salaryIsNegotiable: boolean;
+  locationCity: string;
+  locationState: string;
+  isRemote: boolean;
+  remoteType: RemoteType | null;
+  experienceMinYears: number | null;
+  educationMinLevel: EducationLevel | null;
+  employerId: string;
+  companyName: string;
+  industry: string;
+  rank: Prisma.Decimal | null;
+  publishedAt: Date;
+  expiresAt: Date | null;
+}
+
+export interface FacetRow {
+  facet: string;
+  value: string | null;
+  count: number;
+}
+
+const FACET_LIMIT = 20;
+
+// Same expression as idx_vacancy_fts so the GIN index is used.
+const FTS_DOCUMENT = Prisma.sql`to_tsvector('simple', coalesce(v.job_title, '') || ' ' || coalesce(v.job_code, '') || ' ' || coalesce(v.job_description, ''))`;
+
+/**
+ * Worker-facing search over OPEN, compliance-approved vacancies. Raw SQL, because ranking, keyset pagination
+ * over the rank and the facet aggregates are not expressible through the Prisma query API.
+ */
+@Injectable()
+export class VacancySearchRepository {
+  constructor(private readonly prisma: PrismaService) { }
+
+  async search(filters: VacancySearchFilters, limit: number, cursor?: VacancySearchCursor): Promise<VacancySearchRow[]> {
+    const rankExpression = filters.query
+      ? Prisma.sql`ROUND(ts_rank(${FTS_DOCUMENT}, plainto_tsquery('simple', ${filters.query}))::numeric, 6)`
+      : Prisma.sql`NULL::numeric`;
+
+    let cursorFilter = Prisma.empty;
+    if (cursor && filters.query) {
+      cursorFilter = Prisma.sql`WHERE (m.rank, m.published_at, m.id) < (CAST(${cursor.rank} AS numeric), CAST(${cursor.publishedAt} AS timestamp), CAST(${cursor.id} AS uuid))`;
+    } else if (cursor) {
+      cursorFilter = Prisma.sql`WHERE (m.published_at, m.id) < (CAST(${cursor.publishedAt} AS timestamp), CAST(${cursor.id} AS uuid))`;
+    }
+
+    return this.prisma.$queryRaw<VacancySearchRow[]>`
+      WITH matched AS (
+        SELECT v.id, ${rankExpression} AS rank, COALESCE(v.published_at, v.created_at) AS published_at
+        FROM vacancies v
+        JOIN employers e ON e.id = v.employer_id
+        WHERE ${this.buildWhere(filters)}
+      )
+      SELECT
+        v.id,
+        v.job_title AS "jobTitle",
+        v.job_code AS "jobCode",
+        v.job_description AS "jobDescription",
+        v.job_type AS "jobType",
+        v.salary_min AS "salaryMin",
+        v.salary_max AS "salaryMax",
+        v.salary_currency AS "salaryCurrency",
+        v.salary_is_negotiable AS "salaryIsNegotiable",
+        v.location_city AS "locationCity",
+        v.location_state AS "locationState",
+        v.is_remote AS "isRemote",
+        v.remote_type AS "remoteType",
+        v.experience_min_years AS "experienceMinYears",
+        v.education_min_level AS "educationMinLevel",
+        e.id AS "employerId",
+        e.company_name AS "companyName",
+        e.industry,
+        m.rank,
+        m.published_at AS "publishedAt",
+        v.expires_at AS "expiresAt"
+      FROM matched m
+      JOIN vacancies v ON v.id = m.id
+      JOIN employers e ON e.id = v.employer_id
+      ${cursorFilter}
+      ORDER BY m.rank DESC NULLS LAST, m.published_at DESC, m.id DESC
+      LIMIT ${limit}
+    `;
+  }
+
+  /**
+   * Total matches plus the top values of each facet, all over the filtered set.
+   */
+  async countFacets(filters: VacancySearchFilters): Promise<FacetRow[]> {
+    return this.prisma.$queryRaw<FacetRow[]>`
+      WITH matched AS (
+        SELECT v.id, v.job_type, v.remote_type, v.education_min_level, v.location_city, v.location_state, e.industry
+        FROM vacancies v
+        JOIN employers e ON e.id = v.employer_id
+        WHERE ${this.buildWhere(filters)}
+      )
+      SELECT 'total' AS facet, NULL AS value, COUNT(*)::int AS count FROM matched
+      UNION ALL
+      (SELECT 'jobType', job_type::text, COUNT(*)::int FROM matched GROUP BY 2 ORDER BY 3 DESC LIMIT ${FACET_LIMIT})
+      UNION ALL
+      (SELECT 'remoteType', remote_type::text, COUNT(*)::int FROM matched WHERE remote_type IS NOT NULL GROUP BY 2 ORDER BY 3 DESC LIMIT ${FACET_LIMIT})
+      UNION ALL
+      (SELECT 'educationMinLevel', education_min_level::text, COUNT(*)::int FROM matched WHERE education_min_level IS NOT NULL GROUP BY 2 ORDER BY 3 DESC LIMIT ${FACET_LIMIT})
+      UNION ALL
+      (SELECT 'city', location_city, COUNT(*)::int FROM matched GROUP BY 2 ORDER BY 3 DESC LIMIT ${FACET_LIMIT})
+      UNION ALL
+      (SELECT 'state', location_state, COUNT(*)::int FROM matched GROUP BY 2 ORDER BY 3 DESC LIMIT ${FACET_LIMIT})
+      UNION ALL
+      (SELECT 'industry', industry, COUNT(*)::int FROM matched GROUP BY 2 ORDER BY 3 DESC LIMIT ${FACET_LIMIT})
+      UNION ALL
+      (
+        SELECT 'skills', s.skill_code, COUNT(DISTINCT m.id)::int
+        FROM matched m
+        JOIN vacancy_skills s ON s.vacancy_id = m.id AND s.deleted_at IS NULL
+        GROUP BY 2 ORDER BY 3 DESC LIMIT ${FACET_LIMIT}
+      )
+    `;
+  }
+
+  async findPublicVacancy(vacancyId: string) {
+    return this.prisma.vacancy.findFirst({
+      where: {
+        id: vacancyId,
+        status: VacancyStatus.OPEN,
+        complianceStatus: ComplianceStatus.APPROVED,
+        deletedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        employer: { deletedAt: null },
+      },
+      include: {
+        employer: { select: { id: true, companyName: true, industry: true } },
+        skills: { where: { deletedAt: null } },
+        requirements: { where: { deletedAt: null } },
+      },
+    });
+  }
+
+  async findSkillCodes(vacancyIds: string[]): Promise<{ vacancyId: string; skillCode: string }[]> {
+    if (vacancyIds.length === 0) return [];
+    return this.prisma.vacancySkill.findMany({
+      where: { vacancyId: { in: vacancyIds }, deletedAt: null },
+      select: { vacancyId: true, skillCode: true },
+    });
+  }
+
+  private buildWhere(filters: VacancySearchFilters): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [
+      Prisma.sql`v.status = 'OPEN'::"VacancyStatus"`,
+      Prisma.sql`v.compliance_status = 'APPROVED'::"ComplianceStatus"`,
+      Prisma.sql`v.deleted_at IS NULL`,
+      Prisma.sql`(v.expires_at IS NULL OR v.expires_at > NOW())`,
+      Prisma.sql`e.deleted_at IS NULL`,
+    ];
+
+    if (filters.query) {
+      conditions.push(Prisma.sql`${FTS_DOCUMENT} @@ plainto_tsquery('simple', ${filters.query})`);
+    }
+    if (filters.jobTypes?.length) {
+      conditions.push(Prisma.sql`v.job_type = ANY(CAST(${filters.jobTypes} AS "JobType"[]))`);
+    }
+    if (filters.remoteTypes?.length) {
+      conditions.push(Prisma.sql`v.remote_type = ANY(CAST(${filters.remoteTypes} AS "RemoteType"[]))`);
+    }
+    if (filters.educationLevels?.length) {
+      conditions.push(Prisma.sql`v.education_min_level = ANY(CAST(${filters.educationLevels} AS "EducationLevel"[]))`);
+    }
+    // Salary filters match on range overlap.
+    if (filters.salaryMin !== undefined) {
+      conditions.push(Prisma.sql`v.salary_max >= ${filters.salaryMin}`);
+    }
+    if (filters.salaryMax !== undefined) {
+      conditions.push(Prisma.sql`v.salary_min <= ${filters.salaryMax}`);
+    }
+    if (filters.salaryCurrency) {
+      conditions.push(Prisma.sql`v.salary_currency = ${filters.salaryCurrency.toUpperCase()}`);
+    }
+    if (filters.city) {
+      conditions.push(Prisma.sql`LOWER(v.location_city) = LOWER(${filters.city})`);
+    }
+    if (filters.state) {
+      conditions.push(Prisma.sql`LOWER(v.location_state) = LOWER(${filters.state})`);
+    }
+    if (filters.experienceYears !== undefined) {
+      conditions.push(Prisma.sql`(v.experience_min_years IS NULL OR v.experience_min_years <= ${filters.experienceYears})`);
+    }
+    if (filters.skills?.length) {
+      conditions.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM vacancy_skills s
+        WHERE s.vacancy_id = v.id AND s.deleted_at IS NULL AND UPPER(s.skill_code) = ANY(${filters.skills})
+      )`);
+    }
+    if (filters.industry) {
+      conditions.push(Prisma.sql`LOWER(e.industry) = LOWER(${filters.industry})`);
+    }
+
+    return Prisma.join(conditions, ' AND ');
+  }
+}
@@ -0,0 +1,175 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { TrafficSource } from '@prisma/client';
+import { resolvePlace } from '../../common/geo/uzbekistan-gazetteer';
+import { VacancySearchCursor, VacancySearchFilters, VacancySearchRepository, VacancySearchRow } from './vacancy-search.repository';
+import { VacancyViewer, VacancyViewsService } from './vacancy-views.service';
+import {
+  FacetCountDto,
+  JobDetailDto,
+  SearchVacanciesDto,
+  VacancySearchItemDto,
+  VacancySearchResponseDto,
+} from './dto/vacancy-search.dto';
+
+const SNIPPET_LENGTH = 280;
+const FACET_NAMES = ['jobType', 'remoteType', 'educationMinLevel', 'city', 'state', 'industry', 'skills'];
+
+@Injectable()
+export class VacancySearchService {
+  constructor(
+    private readonly searchRepository: VacancySearchRepository,
+    private readonly vacancyViewsService: VacancyViewsService,
+  ) {}
+
+  async search(dto: SearchVacanciesDto): Promise<VacancySearchResponseDto> {
+    const filters = this.toFilters(dto);
+    const limit = Math.min(dto.limit || 20, 50);
+    const cursor = dto.cursor ? this.decodeCursor(dto.cursor, !!filters.query) : undefined;
+
+    // One extra row tells whether another page exists.
+    const [rows, facetRows] = await Promise.all([
+      this.searchRepository.search(filters, limit + 1, cursor),
+      this.searchRepository.countFacets(filters),
+    ]);
+
+    const page = rows.slice(0, limit);
+    const skills = await this.searchRepository.findSkillCodes(page.map(row => row.id));
+
+    const facets: Record<string, FacetCountDto[]> = Object.fromEntries(FACET_NAMES.map(name => [name, []]));
+    let totalCount = 0;
+    for (const row of facetRows) {
+      if (row.facet === 'total') {
+        totalCount = row.count;
+      } else if (row.value !== null) {
+        facets[row.facet].push({ value: row.value, count: row.count });
+      }
+    }
+
+    const last = page[page.length - 1];
+    return {
+      items: page.map(row => this.toSearchItem(row, skills.filter(skill => skill.vacancyId === row.id).map(skill => skill.skillCode))),
+      nextCursor: rows.length > limit && last ? this.encodeCursor(last) : undefined,
+      totalCount,
+      facets,
+    };
+  }
+
+  async getJob(vacancyId: string, viewer: VacancyViewer, source: TrafficSource = TrafficSource.DIRECT): Promise<JobDetailDto> {
+    const vacancy = await this.searchRepository.findPublicVacancy(vacancyId);
+    if (!vacancy) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'VACANCY_NOT_FOUND', message: 'Vacancy not found' },
+      });
+    }
+
+    await this.vacancyViewsService.recordView(vacancy.id, viewer, source);
+
+    return {
+      id: vacancy.id,
+      jobTitle: vacancy.jobTitle,
+      jobCode: vacancy.jobCode,
+      jobDescription: vacancy.jobDescription,
+      jobType: vacancy.jobType,
+      salaryMin: vacancy.salaryMin.toNumber(),
+      salaryMax: vacancy.salaryMax.toNumber(),
+      salaryCurrency: vacancy.salaryCurrency,
+      salaryIsNegotiable: vacancy.salaryIsNegotiable,
+      locationCity: vacancy.locationCity,
+      locationState: vacancy.locationState,
+      isRemote: vacancy.isRemote,
+      remoteType: vacancy.remoteType ?? undefined,
+      experienceMinYears: vacancy.experienceMinYears ?? undefined,
+      experienceMaxYears: vacancy.experienceMaxYears ?? undefined,
+      educationMinLevel: vacancy.educationMinLevel ?? undefined,
+      vacancyCount: vacancy.vacancyCount,
+      employer: vacancy.employer,
+      skills: vacancy.skills.map(skill => ({
+        skillCode: skill.skillCode,
+        skillName: skill.skillName,
+        isRequired: skill.isRequired,
+      })),
+      requirements: vacancy.requirements.map(requirement => ({
+        requirementType: requirement.requirementType,
+        requirementText: requirement.requirementText,
+        isMandatory: requirement.isMandatory,
+      })),
+      publishedAt: vacancy.publishedAt ?? vacancy.createdAt,
+      expiresAt: vacancy.expiresAt ?? undefined,
+    };
+  }
+
+  private toFilters(dto: SearchVacanciesDto): VacancySearchFilters {
+    const query = dto.q?.trim();
+    // Match the gazetteer names vacancies are stored under, so "Ташкент" finds "Tashkent".
+    const city = dto.city ? resolvePlace(dto.city, { types: ['CITY', 'DISTRICT'] })?.name ?? dto.city.trim() : undefined;
+    const state = dto.state ? resolvePlace(dto.state, { types: ['REGION'] })?.name ?? dto.state.trim() : undefined;
+
+    return {
+      query: query || undefined,
+      jobTypes: dto.jobType,
+      remoteTypes: dto.remoteType,
+      educationLevels: dto.educationMinLevel,
+      salaryMin: dto.salaryMin,
+      salaryMax: dto.salaryMax,
+      salaryCurrency: dto.salaryCurrency,
+      city,
+      state,
+      experienceYears: dto.experienceYears,
+      skills: dto.skills?.map(skill => skill.toUpperCase()),
+      industry: dto.industry?.trim() || undefined,
+    };
+  }
+
+  private encodeCursor(row: VacancySearchRow): string {
+    const cursor: VacancySearchCursor = {
+      rank: row.rank === null ? null : row.rank.toString(),
+      publishedAt: row.publishedAt.toISOString(),
+      id: row.id,
+    };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(value: string, hasQuery: boolean): VacancySearchCursor {
+    try {
+      const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as VacancySearchCursor;
+      const validRank = hasQuery ? /^\d+(\.\d+)?$/.test(String(cursor.rank)) : cursor.rank === null;
+      if (validRank && !isNaN(Date.parse(cursor.publishedAt)) && /^[0-9a-f-]{36}$/i.test(cursor.id)) {
+        return cursor;
+      }
+    } catch {
+      // Reported below.
+    }
+
+    throw new BadRequestException({
+      success: false,
+      error: { code: 'INVALID_CURSOR', message: 'Cursor is invalid or belongs to a different query' },
+    });
+  }
+
+  private toSearchItem(row: VacancySearchRow, skills: string[]): VacancySearchItemDto {
+    const description = row.jobDescription.replace(/\s+/g, ' ').trim();
+    return {
+      id: row.id,
+      jobTitle: row.jobTitle,
+      jobCode: row.jobCode,
+      snippet: description.length > SNIPPET_LENGTH ? `${description.slice(0, SNIPPET_LENGTH).trimEnd()}…` : description,
+      jobType: row.jobType,
+      salaryMin: row.salaryMin.toNumber(),
+      salaryMax: row.salaryMax.toNumber(),
+      salaryCurrency: row.salaryCurrency,
+      salaryIsNegotiable: row.salaryIsNegotiable,
+      locationCity: row.locationCity,
+      locationState: row.locationState,
+      isRemote: row.isRemote,
+      remoteType: row.remoteType ?? undefined,
+      experienceMinYears: row.experienceMinYears ?? undefined,
+      educationMinLevel: row.educationMinLevel ?? undefined,
+      employer: { id: row.employerId, companyName: row.companyName, industry: row.industry },
+      skills,
+      rank: row.rank === null ? undefined : row.rank.toNumber(),
+      publishedAt: row.publishedAt,
+      expiresAt: row.expiresAt ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,116 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeaders, ApiParam } from '@nestjs/swagger';
+import { VacancyTemplateService } from './vacancy-template.service';
+import {
+  CreateVacancyTemplateDto,
+  UpdateVacancyTemplateDto,
+  ListVacancyTemplatesDto,
+  CreateVacancyFromTemplateDto,
+} from './dto/vacancy-template.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Request } from 'express';
+
+interface RequestWithUser extends Request {
+  user: {
+    id: string;
+    email: string;
+    role: string;
+    sessionId: string;
+    familyId: string;
+  };
+}
+
+@ApiTags('Vacancy')
+@Controller('api/v1/vacancy-templates')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+@ApiHeaders([{ name: 'authorization', description: 'Bearer token' }])
+export class VacancyTemplateController {
+  constructor(private readonly templateService: VacancyTemplateService) {}
+
+  @Post()
+  @RequirePermissions('vacancy:create')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Save a vacancy template' })
+  @ApiResponse({ status: 201, description: 'Vacancy template created successfully' })
+  @ApiResponse({ status: 409, description: 'A template with this name already exists' })
+  async createTemplate(@Body() dto: CreateVacancyTemplateDto, @Req() req: RequestWithUser) {
+    return this.templateService.createTemplate(req.user.id, dto, this.extractIp(req));
+  }
+
+  @Get()
+  @RequirePermissions('vacancy:read')
+  @ApiOperation({ summary: 'List own vacancy templates' })
+  @ApiResponse({ status: 200, description: 'Vacancy templates retrieved successfully' })
+  async listTemplates(@Query() dto: ListVacancyTemplatesDto, @Req() req: RequestWithUser) {
+    return this.templateService.listTemplates(req.user.id, dto, this.extractIp(req));
+  }
+
+  @Get(':templateId')
+  @RequirePermissions('vacancy:read')
+  @ApiOperation({ summary: 'Get a vacancy template' })
+  @ApiParam({ name: 'templateId', description: 'Vacancy template UUID' })
+  @ApiResponse({ status: 200, description: 'Vacancy template retrieved successfully' })
+  async getTemplate(@Param('templateId', ParseUUIDPipe) templateId: string, @Req() req: RequestWithUser) {
+    return this.templateService.getTemplate(req.user.id, templateId, this.extractIp(req));
+  }
+
+  @Put(':templateId')
+  @RequirePermissions('vacancy:create')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Update a vacancy template' })
+  @ApiParam({ name: 'templateId', description: 'Vacancy template UUID' })
+  @ApiResponse({ status: 200, description: 'Vacancy template updated successfully' })
+  async updateTemplate(
+    @Param('templateId', ParseUUIDPipe) templateId: string,
+    @Body() dto: UpdateVacancyTemplateDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.templateService.updateTemplate(req.user.id, templateId, dto, this.extractIp(req));
+  }
+
+  @Delete(':templateId')
+  @RequirePermissions('vacancy:create')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a vacancy template' })
+  @ApiParam({ name: 'templateId', description: 'Vacancy template UUID' })
+  @ApiResponse({ status: 200, description: 'Vacancy template deleted successfully' })
+  async deleteTemplate(@Param('templateId', ParseUUIDPipe) templateId: string, @Req() req: RequestWithUser) {
+    return this.templateService.deleteTemplate(req.user.id, templateId, this.extractIp(req));
+  }
+
+  @Post(':templateId/vacancies')
+  @RequirePermissions('vacancy:create')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a draft vacancy from a template' })
+  @ApiParam({ name: 'templateId', description: 'Vacancy template UUID' })
+  @ApiResponse({ status: 201, description: 'Vacancy created successfully' })
+  @ApiResponse({ status: 400, description: 'The template is missing required vacancy fields' })
+  async createVacancyFromTemplate(
+    @Param('templateId', ParseUUIDPipe) templateId: string,
+    @Body() dto: CreateVacancyFromTemplateDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.templateService.createVacancyFromTemplate(req.user.id, templateId, dto, this.extractIp(req));
+  }
+
+  private extractIp(req: RequestWithUser): string {
+    return req.ip || req.socket.remoteAddress || 'unknown';
+  }
+}
@@ -0,0 +1,97 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma/prisma.service';
+import { Prisma, VacancyTemplate } from '@prisma/client';
+
+interface PaginatedResult<T> {
+  items: T[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+@Injectable()
+export class VacancyTemplateRepository {
+  constructor(private readonly prisma: PrismaService) { }
+
+  async findTemplateForEmployer(templateId: string, employerId: string): Promise<VacancyTemplate | null> {
+    return this.prisma.vacancyTemplate.findFirst({
+      where: { id: templateId, employerId, deletedAt: null },
+    });
+  }
+
+  async findTemplateByName(employerId: string, name: string): Promise<VacancyTemplate | null> {
+    return this.prisma.vacancyTemplate.findFirst({
+      where: { employerId, deletedAt: null, name: { equals: name, mode: 'insensitive' } },
+    });
+  }
+
+  async listTemplates(
+    employerId: string,
+    page: number,
+    pageSize: number,
+    search?: string,
+  ): Promise<PaginatedResult<VacancyTemplate>> {
+    const enforcedPageSize = Math.min(pageSize, 100);
+    const where: Prisma.VacancyTemplateWhereInput = { employerId, deletedAt: null };
+
+    if (search) {
+      where.name = { contains: search, mode: 'insensitive' };
+    }
+
+    const [items, totalCount] = await Promise.all([
+      this.prisma.vacancyTemplate.findMany({
+        where,
+        skip: (page - 1) * enforcedPageSize,
+        take: enforcedPageSize,
+        orderBy: [{ name: 'asc' }, { id: 'asc' }],
+      }),
+      this.prisma.vacancyTemplate.count({ where }),
+    ]);
+
+    return {
+      items,
+      totalCount,
+      page,
+      pageSize: enforcedPageSize,
+      totalPages: Math.ceil(totalCount / enforcedPageSize),
+    };
+  }
+
+  async createTemplate(
+    employerId: string,
+    data: { name: string; description?: string; payload: Prisma.InputJsonObject },
+    createdBy: string,
+  ): Promise<VacancyTemplate> {
+    return this.prisma.vacancyTemplate.create({
+      data: {
+        employerId,
+        name: data.name,
+        description: data.description,
+        payload: data.payload,
+        createdBy,
+      },
+    });
+  }
+
+  async updateTemplate(
+    templateId: string,
+    data: { name?: string; description?: string; payload?: Prisma.InputJsonObject },
+  ): Promise<VacancyTemplate> {
+    return this.prisma.vacancyTemplate.update({
+      where: { id: templateId },
+      data: {
+        name: data.name,
+        description: data.description,
+        payload: data.payload,
+      },
+    });
+  }
+
+  async softDeleteTemplate(templateId: string): Promise<void> {
+    await this.prisma.vacancyTemplate.update({
+      where: { id: templateId },
+      data: { deletedAt: new Date() },
+    });
+  }
+}
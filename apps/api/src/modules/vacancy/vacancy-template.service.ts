@@ -0,0 +1,242 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { Prisma, VacancyTemplate } from '@prisma/client';
+import { instanceToPlain } from 'class-transformer';
+import { AuditService } from '../auth/audit.service';
+import { EmployerService } from '../employer/employer.service';
+import { VacancyService } from './vacancy.service';
+import { VacancyRepository } from './vacancy.repository';
+import { VacancyTemplateRepository } from './vacancy-template.repository';
+import { validateVacancyInput } from './vacancy-import.parser';
+import { VacancyResponseDto } from './dto/vacancy-response.dto';
+import {
+  CreateVacancyTemplateDto,
+  UpdateVacancyTemplateDto,
+  ListVacancyTemplatesDto,
+  CreateVacancyFromTemplateDto,
+  VacancyTemplateFieldsDto,
+  VacancyTemplateResponseDto,
+  VacancyTemplateListResponseDto,
+} from './dto/vacancy-template.dto';
+
+@Injectable()
+export class VacancyTemplateService {
+  constructor(
+    private readonly templateRepository: VacancyTemplateRepository,
+    private readonly vacancyRepository: VacancyRepository,
+    private readonly vacancyService: VacancyService,
+    private readonly employerService: EmployerService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async createTemplate(
+    employerUserId: string,
+    dto: CreateVacancyTemplateDto,
+    ipAddress: string,
+  ): Promise<VacancyTemplateResponseDto> {
+    await this.employerService.verifyCanManageVacancies(employerUserId);
+
+    const employer = await this.employerService.getProfile(employerUserId, ipAddress);
+
+    await this.assertNameAvailable(employer.id, dto.name);
+    await this.validateFields(employer.id, dto.vacancy);
+
+    const template = await this.templateRepository.createTemplate(
+      employer.id,
+      { name: dto.name, description: dto.description, payload: this.toPayload(dto.vacancy) },
+      employerUserId,
+    );
+
+    await this.auditService.log('VACANCY_TEMPLATE_CREATED', {
+      userId: employerUserId,
+      ipAddress,
+      resourceType: 'VACANCY_TEMPLATE',
+      resourceId: template.id,
+      after: this.sanitizeTemplate(template),
+      details: { employerId: employer.id, name: template.name },
+    });
+
+    return this.sanitizeTemplate(template);
+  }
+
+  async listTemplates(
+    employerUserId: string,
+    dto: ListVacancyTemplatesDto,
+    ipAddress: string,
+  ): Promise<VacancyTemplateListResponseDto> {
+    const employer = await this.employerService.getProfile(employerUserId, ipAddress);
+
+    const result = await this.templateRepository.listTemplates(
+      employer.id,
+      Math.max(1, dto.page || 1),
+      Math.min(dto.pageSize || 20, 100),
+      dto.search,
+    );
+
+    return {
+      items: result.items.map(template => this.sanitizeTemplate(template)),
+      totalCount: result.totalCount,
+      page: result.page,
+      pageSize: result.pageSize,
+      totalPages: result.totalPages,
+    };
+  }
+
+  async getTemplate(employerUserId: string, templateId: string, ipAddress: string): Promise<VacancyTemplateResponseDto> {
+    const employer = await this.employerService.getProfile(employerUserId, ipAddress);
+    return this.sanitizeTemplate(await this.getTemplateOrThrow(templateId, employer.id));
+  }
+
+  async updateTemplate(
+    employerUserId: string,
+    templateId: string,
+    dto: UpdateVacancyTemplateDto,
+    ipAddress: string,
+  ): Promise<VacancyTemplateResponseDto> {
+    await this.employerService.verifyCanManageVacancies(employerUserId);
+
+    const employer = await this.employerService.getProfile(employerUserId, ipAddress);
+    const template = await this.getTemplateOrThrow(templateId, employer.id);
+
+    if (dto.name !== undefined && dto.name.toLowerCase() !== template.name.toLowerCase()) {
+      await this.assertNameAvailable(employer.id, dto.name);
+    }
+    if (dto.vacancy) {
+      await this.validateFields(employer.id, dto.vacancy);
+    }
+
+    const updated = await this.templateRepository.updateTemplate(templateId, {
+      name: dto.name,
+      description: dto.description,
+      payload: dto.vacancy && this.toPayload(dto.vacancy),
+    });
+
+    await this.auditService.log('VACANCY_TEMPLATE_UPDATED', {
+      userId: employerUserId,
+      ipAddress,
+      resourceType: 'VACANCY_TEMPLATE',
+      resourceId: templateId,
+      before: this.sanitizeTemplate(template),
+      after: this.sanitizeTemplate(updated),
+      details: { employerId: employer.id },
+    });
+
+    return this.sanitizeTemplate(updated);
+  }
+
+  async deleteTemplate(employerUserId: string, templateId: string, ipAddress: string): Promise<{ success: boolean }> {
+    await this.employerService.verifyCanManageVacancies(employerUserId);
+
+    const employer = await this.employerService.getProfile(employerUserId, ipAddress);
+    const template = await this.getTemplateOrThrow(templateId, employer.id);
+
+    await this.templateRepository.softDeleteTemplate(templateId);
+
+    await this.auditService.log('VACANCY_TEMPLATE_DELETED', {
+      userId: employerUserId,
+      ipAddress,
+      resourceType: 'VACANCY_TEMPLATE',
+      resourceId: templateId,
+      before: this.sanitizeTemplate(template),
+      details: { employerId: employer.id },
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Creates a DRAFT from the template merged with the per-vacancy values. The result has to pass the same
+   * checks as a vacancy created from scratch, so incomplete templates are rejected here rather than on save.
+   */
+  async createVacancyFromTemplate(
+    employerUserId: string,
+    templateId: string,
+    dto: CreateVacancyFromTemplateDto,
+    ipAddress: string,
+  ): Promise<VacancyResponseDto> {
+    const employer = await this.employerService.getProfile(employerUserId, ipAddress);
+    const template = await this.getTemplateOrThrow(templateId, employer.id);
+
+    const overrides = Object.fromEntries(Object.entries(dto).filter(([, value]) => value !== undefined));
+    const { dto: vacancyDto, errors } = await validateVacancyInput({
+      ...(template.payload as Prisma.JsonObject),
+      ...overrides,
+    });
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        success: false,
+        error: {
+          code: 'INCOMPLETE_TEMPLATE',
+          message: `The template cannot be turned into a vacancy: ${errors.map(error => error.message).join('; ')}`,
+        },
+      });
+    }
+
+    const vacancy = await this.vacancyService.createVacancy(employerUserId, vacancyDto, ipAddress);
+
+    await this.auditService.log('VACANCY_TEMPLATE_USED', {
+      userId: employerUserId,
+      ipAddress,
+      resourceType: 'VACANCY_TEMPLATE',
+      resourceId: templateId,
+      details: { employerId: employer.id, vacancyId: vacancy.id },
+    });
+
+    return vacancy;
+  }
+
+  private async getTemplateOrThrow(templateId: string, employerId: string): Promise<VacancyTemplate> {
+    const template = await this.templateRepository.findTemplateForEmployer(templateId, employerId);
+    if (!template) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'VACANCY_TEMPLATE_NOT_FOUND', message: 'Vacancy template not found' },
+      });
+    }
+    return template;
+  }
+
+  private async assertNameAvailable(employerId: string, name: string): Promise<void> {
+    if (await this.templateRepository.findTemplateByName(employerId, name)) {
+      throw new ConflictException({
+        success: false,
+        error: { code: 'VACANCY_TEMPLATE_NAME_TAKEN', message: 'A vacancy template with this name already exists' },
+      });
+    }
+  }
+
+  private async validateFields(employerId: string, fields: VacancyTemplateFieldsDto): Promise<void> {
+    if (fields.salaryMin !== undefined && fields.salaryMax !== undefined && fields.salaryMin > fields.salaryMax) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'INVALID_SALARY_RANGE', message: 'salaryMin must be less than or equal to salaryMax' },
+      });
+    }
+
+    if (fields.branchId) {
+      const isValidBranch = await this.vacancyRepository.validateBranchOwnership(fields.branchId, employerId);
+      if (!isValidBranch) {
+        throw new BadRequestException({
+          success: false,
+          error: { code: 'INVALID_BRANCH', message: 'Branch does not belong to this employer' },
+        });
+      }
+    }
+  }
+
+  private toPayload(fields: VacancyTemplateFieldsDto): Prisma.InputJsonObject {
+    return instanceToPlain(fields) as Prisma.InputJsonObject;
+  }
+
+  private sanitizeTemplate(template: VacancyTemplate): VacancyTemplateResponseDto {
+    return {
+      id: template.id,
+      employerId: template.employerId,
+      name: template.name,
+      description: template.description ?? undefined,
+      vacancy: template.payload as VacancyTemplateFieldsDto,
+      createdBy: template.createdBy,
+      createdAt: template.createdAt,
+      updatedAt: template.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,91 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { TrafficSource } from '@prisma/client';
+import { createHash } from 'crypto';
+import { RedisService } from '../../redis/redis.service';
+import { SchedulerService } from '../../common/scheduler/scheduler.service';
+import { VacancyRepository, VacancyViewCount } from './vacancy.repository';
+
+const SEEN_KEY_PREFIX = 'vacancy-views:seen:';
+const PENDING_KEY = 'vacancy-views:pending';
+const FLUSHING_KEY = 'vacancy-views:flushing';
+// A viewer counts once per vacancy within this window.
+const UNIQUE_VIEW_WINDOW = 24 * 60 * 60;
+const FLUSH_INTERVAL = 60 * 1000;
+
+// Moves the pending counters aside for flushing. Counters left behind by a failed flush are retried first.
+const CLAIM_PENDING_SCRIPT = `
+  if redis.call("exists", KEYS[2]) == 1 then
+    return 1
+  end
+  if redis.call("exists", KEYS[1]) == 0 then
+    return 0
+  end
+  redis.call("rename", KEYS[1], KEYS[2])
+  return 1
+`;
+
+export interface VacancyViewer {
+  userId?: string;
+  ipAddress: string;
+}
+
+/**
+ * Counts unique vacancy views. Views are deduplicated per signed-in user, or per IP address for anonymous
+ * visitors, and buffered in Redis; a scheduled job writes them to vacancy_view_stats in batches.
+ */
+@Injectable()
+export class VacancyViewsService implements OnModuleInit {
+  private readonly logger = new Logger(VacancyViewsService.name);
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly scheduler: SchedulerService,
+    private readonly vacancyRepository: VacancyRepository,
+  ) {}
+
+  onModuleInit() {
+    this.scheduler.register({
+      name: 'vacancy-view-flush',
+      intervalMs: FLUSH_INTERVAL,
+      run: () => this.flush(),
+    });
+  }
+
+  /**
+   * Returns whether the view was counted. Never throws, so tracking cannot break the page being viewed.
+   */
+  async recordView(vacancyId: string, viewer: VacancyViewer, source: TrafficSource): Promise<boolean> {
+    try {
+      const viewerKey = viewer.userId ? `user:${viewer.userId}` : `ip:${viewer.ipAddress}`;
+      const viewerHash = createHash('sha256').update(viewerKey).digest('hex').slice(0, 32);
+
+      const redis = this.redisService.getClient();
+      const first = await redis.set(`${SEEN_KEY_PREFIX}${vacancyId}:${viewerHash}`, '1', 'EX', UNIQUE_VIEW_WINDOW, 'NX');
+      if (!first) return false;
+
+      const day = new Date().toISOString().slice(0, 10);
+      await redis.hincrby(PENDING_KEY, `${vacancyId}|${day}|${source}`, 1);
+      return true;
+    } catch (error: any) {
+      this.logger.warn(`Failed to record view of vacancy ${vacancyId}: ${error.message}`);
+      return false;
+    }
+  }
+
+  async flush(): Promise<Record<string, number>> {
+    const redis = this.redisService.getClient();
+    const claimed = await redis.eval(CLAIM_PENDING_SCRIPT, 2, PENDING_KEY, FLUSHING_KEY);
+    if (!claimed) return { rows: 0, views: 0 };
+
+    const entries = await redis.hgetall(FLUSHING_KEY);
+    const counts: VacancyViewCount[] = Object.entries(entries).map(([field, value]) => {
+      const [vacancyId, day, source] = field.split('|');
+      return { vacancyId, day, source: source as TrafficSource, views: Number(value) };
+    });
+
+    await this.vacancyRepository.recordViewCounts(counts);
+    await redis.del(FLUSHING_KEY);
+
+    return { rows: counts.length, views: counts.reduce((sum, count) => sum + count.views, 0) };
+  }
+}
@@ -12,16 +12,24 @@ import {
   HttpCode,
   HttpStatus,
   ParseUUIDPipe,
+  UseInterceptors,
+  UploadedFile,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeaders, ApiParam } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeaders, ApiParam, ApiConsumes, ApiBody } from '@nestjs/swagger';
 import { VacancyService } from './vacancy.service';
 import {
   CreateVacancyDto,
   UpdateVacancyDto,
   ListVacanciesDto,
   PublishVacancyDto,
+  CloneVacancyDto,
+  ImportVacanciesQueryDto,
 } from './dto/vacancy.dto';
+import { MAX_IMPORT_FILE_SIZE, UploadedSpreadsheet } from './vacancy-import.parser';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
 import { Request } from 'express';
 
 interface RequestWithUser extends Request {
@@ -36,13 +44,14 @@ interface RequestWithUser extends Request {
 
 @ApiTags('Vacancy')
 @Controller('api/v1/vacancies')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
 @ApiHeaders([{ name: 'authorization', description: 'Bearer token' }])
 export class VacancyController {
   constructor(private readonly vacancyService: VacancyService) {}
 
   @Post()
+  @RequirePermissions('vacancy:create')
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ summary: 'Create a new vacancy' })
   @ApiResponse({ status: 201, description: 'Vacancy created successfully' })
@@ -50,7 +59,24 @@ export class VacancyController {
     return this.vacancyService.createVacancy(req.user.id, dto, this.extractIp(req));
   }
 
+  @Post('import')
+  @RequirePermissions('vacancy:create')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_SIZE, files: 1 } }))
+  @ApiOperation({ summary: 'Import draft vacancies from a CSV or XLSX file' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ schema: { type: 'object', properties: { file: { type: 'string', format: 'binary' } } } })
+  @ApiResponse({ status: 200, description: 'Per-row import report and the projected open vacancy quota' })
+  async importVacancies(
+    @UploadedFile() file: UploadedSpreadsheet | undefined,
+    @Query() dto: ImportVacanciesQueryDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.vacancyService.importVacancies(req.user.id, file, dto.dryRun ?? false, this.extractIp(req));
+  }
+
   @Get()
+  @RequirePermissions('vacancy:read')
   @ApiOperation({ summary: 'List own vacancies' })
   @ApiResponse({ status: 200, description: 'Vacancies list retrieved successfully' })
   async listVacancies(@Query() dto: ListVacanciesDto, @Req() req: RequestWithUser) {
@@ -58,6 +84,7 @@ export class VacancyController {
   }
 
   @Get(':vacancyId')
+  @RequirePermissions('vacancy:read')
   @ApiOperation({ summary: 'Get vacancy by ID' })
   @ApiParam({ name: 'vacancyId', description: 'Vacancy UUID' })
   @ApiResponse({ status: 200, description: 'Vacancy retrieved successfully' })
@@ -66,6 +93,7 @@ export class VacancyController {
   }
 
   @Put(':vacancyId')
+  @RequirePermissions('vacancy:update')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Update a vacancy' })
   @ApiParam({ name: 'vacancyId', description: 'Vacancy UUID' })
@@ -79,6 +107,7 @@ export class VacancyController {
   }
 
   @Post(':vacancyId/publish')
+  @RequirePermissions('vacancy:publish')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Publish a vacancy' })
   @ApiParam({ name: 'vacancyId', description: 'Vacancy UUID' })
@@ -91,7 +120,43 @@ export class VacancyController {
     return this.vacancyService.publishVacancy(req.user.id, vacancyId, dto, this.extractIp(req));
   }
 
+  @Post(':vacancyId/clone')
+  @RequirePermissions('vacancy:create')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Copy a vacancy into a new draft' })
+  @ApiParam({ name: 'vacancyId', description: 'Vacancy UUID' })
+  @ApiResponse({ status: 201, description: 'Vacancy cloned successfully' })
+  async cloneVacancy(
+    @Param('vacancyId', ParseUUIDPipe) vacancyId: string,
+    @Body() dto: CloneVacancyDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.vacancyService.cloneVacancy(req.user.id, vacancyId, dto, this.extractIp(req));
+  }
+
+  @Post(':vacancyId/feature')
+  @RequirePermissions('vacancy:publish')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Feature an open vacancy' })
+  @ApiParam({ name: 'vacancyId', description: 'Vacancy UUID' })
+  @ApiResponse({ status: 200, description: 'Vacancy featured successfully' })
+  @ApiResponse({ status: 400, description: 'Vacancy is not open or the featured postings quota is used up' })
+  async featureVacancy(@Param('vacancyId', ParseUUIDPipe) vacancyId: string, @Req() req: RequestWithUser) {
+    return this.vacancyService.setVacancyFeatured(req.user.id, vacancyId, true, this.extractIp(req));
+  }
+
+  @Delete(':vacancyId/feature')
+  @RequirePermissions('vacancy:publish')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Stop featuring a vacancy' })
+  @ApiParam({ name: 'vacancyId', description: 'Vacancy UUID' })
+  @ApiResponse({ status: 200, description: 'Vacancy unfeatured successfully' })
+  async unfeatureVacancy(@Param('vacancyId', ParseUUIDPipe) vacancyId: string, @Req() req: RequestWithUser) {
+    return this.vacancyService.setVacancyFeatured(req.user.id, vacancyId, false, this.extractIp(req));
+  }
+
   @Post(':vacancyId/close')
+  @RequirePermissions('vacancy:close')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Close a vacancy' })
   @ApiParam({ name: 'vacancyId', description: 'Vacancy UUID' })
@@ -101,6 +166,7 @@ export class VacancyController {
   }
 
   @Delete(':vacancyId')
+  @RequirePermissions('vacancy:delete')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Delete a vacancy' })
   @ApiParam({ name: 'vacancyId', description: 'Vacancy UUID' })
@@ -110,6 +176,7 @@ export class VacancyController {
   }
 
   @Get(':vacancyId/versions')
+  @RequirePermissions('vacancy:read')
   @ApiOperation({ summary: 'List vacancy versions' })
   @ApiParam({ name: 'vacancyId', description: 'Vacancy UUID' })
   @ApiResponse({ status: 200, description: 'Versions list retrieved successfully' })
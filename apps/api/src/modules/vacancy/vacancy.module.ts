@@ -1,14 +1,23 @@
 import { Module } from '@nestjs/common';
 import { VacancyController } from './vacancy.controller';
+import { VacancyModerationController } from './vacancy-moderation.controller';
+import { VacancySearchController } from './vacancy-search.controller';
+import { VacancySearchService } from './vacancy-search.service';
+import { VacancySearchRepository } from './vacancy-search.repository';
 import { VacancyService } from './vacancy.service';
 import { VacancyRepository } from './vacancy.repository';
+import { VacancyLifecycleJobs } from './vacancy-lifecycle.jobs';
+import { VacancyViewsService } from './vacancy-views.service';
+import { VacancyTemplateController } from './vacancy-template.controller';
+import { VacancyTemplateService } from './vacancy-template.service';
+import { VacancyTemplateRepository } from './vacancy-template.repository';
 import { AuthModule } from '../auth/auth.module';
 import { EmployerModule } from '../employer/employer.module';
 
 @Module({
   imports: [AuthModule, EmployerModule],
-  controllers: [VacancyController],
-  providers: [VacancyService, VacancyRepository],
+  controllers: [VacancyController, VacancyModerationController, VacancySearchController, VacancyTemplateController],
+  providers: [VacancyService, VacancyRepository, VacancySearchService, VacancySearchRepository, VacancyViewsService, VacancyLifecycleJobs, VacancyTemplateService, VacancyTemplateRepository],
   exports: [VacancyService, VacancyRepository],
 })
 export class VacancyModule {}
@@ -1,6 +1,8 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../database/prisma/prisma.service';
-import { Prisma, Vacancy, VacancySkill, VacancyRequirement, VacancyVersion, VacancyStatus, BranchStatus } from '@prisma/client';
+import { Prisma, Vacancy, VacancySkill, VacancyRequirement, VacancyVersion, VacancyStatus, BranchStatus, ComplianceStatus, ApplicationStatus, TrafficSource } from '@prisma/client';
+import { ModerationFlag } from './vacancy-moderation.rules';
+import { OPEN_VACANCY_STATUSES, PlanLimits, findPlanLimits, hasQuota, lockPlanLimits } from '../subscription/plan-quota';
 
 interface PaginatedResult<T> {
   items: T[];
@@ -10,11 +12,88 @@ interface PaginatedResult<T> {
   totalPages: number;
 }
 
+// Where a publish request lands: straight to OPEN, or PENDING_REVIEW when the moderation rules flagged it.
+export interface VacancySubmission {
+  status: VacancyStatus;
+  complianceStatus: ComplianceStatus;
+  complianceNotes: string | null;
+  flags: ModerationFlag[];
+}
+
+export interface ModerationDecision {
+  status: VacancyStatus;
+  complianceStatus: ComplianceStatus;
+  notes: string | null;
+}
+
+export interface VacancyViewCount {
+  vacancyId: string;
+  // YYYY-MM-DD, UTC
+  day: string;
+  source: TrafficSource;
+  views: number;
+}
+
+// An OPEN vacancy picked up by the lifecycle jobs.
+export interface LifecycleVacancy {
+  id: string;
+  employerId: string;
+  jobTitle: string;
+  employer: { userId: string };
+}
+
+export interface AutoRejectedApplication {
+  id: string;
+  userId: string;
+}
+
+export type VacancyWithDetails = Vacancy & { skills: VacancySkill[]; requirements: VacancyRequirement[] };
+
+export interface NewVacancy {
+  jobTitle: string;
+  jobCode: string;
+  jobDescription: string;
+  jobType: any;
+  salaryMin: number;
+  salaryMax: number;
+  salaryCurrency: string;
+  salaryIsNegotiable?: boolean;
+  locationAddress?: any;
+  locationCity: string;
+  locationState: string;
+  locationCountry: string;
+  locationPlaceCode?: string | null;
+  isRemote?: boolean;
+  remoteType?: any;
+  experienceMinYears?: number;
+  experienceMaxYears?: number;
+  educationMinLevel?: any;
+  vacancyCount?: number;
+  branchId?: string;
+  expiresAt?: Date;
+  skills?: any[];
+  requirements?: any[];
+}
+
+// Every non-terminal application status; such applications are rejected when their vacancy ends.
+const PENDING_APPLICATION_STATUSES: ApplicationStatus[] = [
+  ApplicationStatus.PENDING_REVIEW,
+  ApplicationStatus.SHORTLISTED,
+  ApplicationStatus.INTERVIEW_INVITED,
+];
+
+const LIFECYCLE_VACANCY_SELECT = {
+  id: true,
+  employerId: true,
+  jobTitle: true,
+  employer: { select: { userId: true } },
+} satisfies Prisma.VacancySelect;
+
 @Injectable()
 export class VacancyRepository {
   constructor(private readonly prisma: PrismaService) { }
 
-  async findVacancyById(vacancyId: string): Promise<Vacancy | null> {
+  async findVacancyById(vacancyId: string): Promise<VacancyWithDetails | null> {
     return this.prisma.vacancy.findUnique({
       where: { id: vacancyId, deletedAt: null },
       include: {
@@ -24,7 +103,7 @@ export class VacancyRepository {
     });
   }
 
-  async findVacancyByIdForEmployer(vacancyId: string, employerId: string): Promise<Vacancy | null> {
+  async findVacancyByIdForEmployer(vacancyId: string, employerId: string): Promise<VacancyWithDetails | null> {
     return this.prisma.vacancy.findFirst({
       where: { id: vacancyId, employerId, deletedAt: null },
       include: {
@@ -127,86 +206,88 @@ export class VacancyRepository {
     };
   }
 
-  async createVacancy(
-    employerId: string,
-    data: {
-      jobTitle: string;
-      jobCode: string;
-      jobDescription: string;
-      jobType: any;
-      salaryMin: number;
-      salaryMax: number;
-      salaryCurrency: string;
-      salaryIsNegotiable?: boolean;
-      locationAddress?: any;
-      locationCity: string;
-      locationState: string;
-      locationCountry: string;
-      isRemote?: boolean;
-      remoteType?: any;
-      experienceMinYears?: number;
-      experienceMaxYears?: number;
-      educationMinLevel?: any;
-      vacancyCount?: number;
-      branchId?: string;
-      expiresAt?: Date;
-      skills?: any[];
-      requirements?: any[];
-    },
-  ): Promise<Vacancy> {
-    return this.prisma.$transaction(async (tx) => {
-      const vacancy = await tx.vacancy.create({
-        data: {
-          employerId,
-          jobTitle: data.jobTitle,
-          jobCode: data.jobCode,
-          jobDescription: data.jobDescription,
-          jobType: data.jobType,
-          salaryMin: new Prisma.Decimal(data.salaryMin),
-          salaryMax: new Prisma.Decimal(data.salaryMax),
-          salaryCurrency: data.salaryCurrency,
-          salaryIsNegotiable: data.salaryIsNegotiable || false,
-          locationAddress: data.locationAddress,
-          locationCity: data.locationCity,
-          locationState: data.locationState,
-          locationCountry: data.locationCountry,
-          isRemote: data.isRemote || false,
-          remoteType: data.remoteType,
-          experienceMinYears: data.experienceMinYears,
-          experienceMaxYears: data.experienceMaxYears,
-          educationMinLevel: data.educationMinLevel,
-          vacancyCount: data.vacancyCount || 1,
-          branchId: data.branchId,
-          expiresAt: data.expiresAt,
-          status: VacancyStatus.DRAFT,
-        },
-      });
+  /**
+   * The plan's open vacancy limit and how many vacancies currently take a slot under it.
+   */
+  async getOpenVacancyUsage(employerId: string): Promise<{ limits: PlanLimits; openVacancies: number }> {
+    const [limits, openVacancies] = await Promise.all([
+      findPlanLimits(this.prisma, employerId),
+      this.prisma.vacancy.count({ where: { employerId, deletedAt: null, status: { in: OPEN_VACANCY_STATUSES } } }),
+    ]);
+    return { limits, openVacancies };
+  }
 
-      if (data.skills && data.skills.length > 0) {
-        await tx.vacancySkill.createMany({
-          data: data.skills.map(s => ({
-            vacancyId: vacancy.id,
-            skillCode: s.skillCode,
-            skillName: s.skillName,
-            isRequired: s.isRequired !== false,
-            minProficiency: s.minProficiency,
-          })),
-        });
-      }
+  async createVacancy(employerId: string, data: NewVacancy): Promise<Vacancy> {
+    const [vacancy] = await this.createVacancies(employerId, [data]);
+    return vacancy;
+  }
 
-      if (data.requirements && data.requirements.length > 0) {
-        await tx.vacancyRequirement.createMany({
-          data: data.requirements.map(r => ({
-            vacancyId: vacancy.id,
-            requirementType: r.requirementType,
-            requirementText: r.requirementText,
-            isMandatory: r.isMandatory !== false,
-          })),
-        });
+  /**
+   * Creates several DRAFT vacancies in one transaction.
+   */
+  async createVacancies(employerId: string, items: NewVacancy[]): Promise<Vacancy[]> {
+    return this.prisma.$transaction(async (tx) => {
+      const vacancies: Vacancy[] = [];
+      for (const data of items) {
+        vacancies.push(await this.insertVacancy(tx, employerId, data));
       }
+      return vacancies;
+    });
+  }
 
-      return vacancy;
+  private async insertVacancy(tx: Prisma.TransactionClient, employerId: string, data: NewVacancy): Promise<Vacancy> {
+    const vacancy = await tx.vacancy.create({
+      data: {
+        employerId,
+        jobTitle: data.jobTitle,
+        jobCode: data.jobCode,
+        jobDescription: data.jobDescription,
+        jobType: data.jobType,
+        salaryMin: new Prisma.Decimal(data.salaryMin),
+        salaryMax: new Prisma.Decimal(data.salaryMax),
+        salaryCurrency: data.salaryCurrency,
+        salaryIsNegotiable: data.salaryIsNegotiable || false,
+        locationAddress: data.locationAddress,
+        locationCity: data.locationCity,
+        locationState: data.locationState,
+        locationCountry: data.locationCountry,
+        locationPlaceCode: data.locationPlaceCode,
+        isRemote: data.isRemote || false,
+        remoteType: data.remoteType,
+        experienceMinYears: data.experienceMinYears,
+        experienceMaxYears: data.experienceMaxYears,
+        educationMinLevel: data.educationMinLevel,
+        vacancyCount: data.vacancyCount || 1,
+        branchId: data.branchId,
+        expiresAt: data.expiresAt,
+        status: VacancyStatus.DRAFT,
+      },
     });
+
+    if (data.skills && data.skills.length > 0) {
+      await tx.vacancySkill.createMany({
+        data: data.skills.map(s => ({
+          vacancyId: vacancy.id,
+          skillCode: s.skillCode,
+          skillName: s.skillName,
+          isRequired: s.isRequired !== false,
+          minProficiency: s.minProficiency,
+        })),
+      });
+    }
+
+    if (data.requirements && data.requirements.length > 0) {
+      await tx.vacancyRequirement.createMany({
+        data: data.requirements.map(r => ({
+          vacancyId: vacancy.id,
+          requirementType: r.requirementType,
+          requirementText: r.requirementText,
+          isMandatory: r.isMandatory !== false,
+        })),
+      });
+    }
+
+    return vacancy;
   }
 
   async updateVacancy(
@@ -220,6 +301,7 @@ export class VacancyRepository {
       locationAddress?: any;
       locationCity?: string;
       locationState?: string;
+      locationPlaceCode?: string | null;
       isRemote?: boolean;
       remoteType?: any;
       experienceMinYears?: number;
@@ -243,6 +325,7 @@ export class VacancyRepository {
       if (data.locationAddress !== undefined) updateData.locationAddress = data.locationAddress;
       if (data.locationCity !== undefined) updateData.locationCity = data.locationCity;
       if (data.locationState !== undefined) updateData.locationState = data.locationState;
+      if (data.locationPlaceCode !== undefined) updateData.locationPlaceCode = data.locationPlaceCode;
       if (data.isRemote !== undefined) updateData.isRemote = data.isRemote;
       if (data.remoteType !== undefined) updateData.remoteType = data.remoteType;
       if (data.experienceMinYears !== undefined) updateData.experienceMinYears = data.experienceMinYears;
@@ -302,7 +385,12 @@ export class VacancyRepository {
     });
   }
 
-  async publishVacancy(vacancyId: string, createdBy: string, changeSummary?: string): Promise<Vacancy> {
+  async publishVacancy(
+    vacancyId: string,
+    createdBy: string,
+    changeSummary: string | undefined,
+    submission: VacancySubmission,
+  ): Promise<Vacancy> {
     return this.prisma.$transaction(async (tx) => {
       const currentVacancy = await tx.vacancy.findUnique({
         where: { id: vacancyId },
@@ -316,6 +404,19 @@ export class VacancyRepository {
         throw new Error('VACANCY_NOT_FOUND');
       }
 
+      const limits = await lockPlanLimits(tx, currentVacancy.employerId);
+      const openCount = await tx.vacancy.count({
+        where: {
+          employerId: currentVacancy.employerId,
+          id: { not: vacancyId },
+          deletedAt: null,
+          status: { in: OPEN_VACANCY_STATUSES },
+        },
+      });
+      if (!hasQuota(limits.maxOpenVacancies, openCount)) {
+        throw new Error(`MAX_VACANCIES_REACHED: The ${limits.name} plan allows ${limits.maxOpenVacancies} open vacancies`);
+      }
+
       const currentVersion = await tx.vacancyVersion.findFirst({
         where: { vacancyId, isCurrent: true },
       });
@@ -368,15 +469,20 @@ export class VacancyRepository {
           changeSummary,
           isCurrent: true,
           createdBy,
+          moderationStatus: submission.complianceStatus,
+          moderationFlags: submission.flags as unknown as Prisma.InputJsonValue,
+          moderatedAt: submission.status === VacancyStatus.OPEN ? new Date() : undefined,
         },
       });
 
       const vacancy = await tx.vacancy.update({
         where: { id: vacancyId },
         data: {
-          status: VacancyStatus.OPEN,
-          publishedAt: new Date(),
+          status: submission.status,
+          publishedAt: submission.status === VacancyStatus.OPEN ? new Date() : undefined,
           currentVersion: nextVersionNumber,
+          complianceStatus: submission.complianceStatus,
+          complianceNotes: submission.complianceNotes,
         },
         include: {
           skills: { where: { deletedAt: null } },
@@ -388,6 +494,43 @@ export class VacancyRepository {
     });
   }
 
+  /**
+   * Features or unfeatures an OPEN vacancy. Only open vacancies count towards the featured postings quota.
+   */
+  async setVacancyFeatured(vacancyId: string, featured: boolean): Promise<VacancyWithDetails> {
+    return this.prisma.$transaction(async (tx) => {
+      const current = await tx.vacancy.findUnique({ where: { id: vacancyId }, select: { employerId: true } });
+      if (!current) {
+        throw new Error('VACANCY_NOT_FOUND');
+      }
+
+      if (featured) {
+        const limits = await lockPlanLimits(tx, current.employerId);
+        const featuredCount = await tx.vacancy.count({
+          where: {
+            employerId: current.employerId,
+            id: { not: vacancyId },
+            deletedAt: null,
+            status: VacancyStatus.OPEN,
+            isFeatured: true,
+          },
+        });
+        if (!hasQuota(limits.maxFeaturedVacancies, featuredCount)) {
+          throw new Error(`MAX_FEATURED_VACANCIES_REACHED: The ${limits.name} plan allows ${limits.maxFeaturedVacancies} featured vacancies`);
+        }
+      }
+
+      return tx.vacancy.update({
+        where: { id: vacancyId },
+        data: { isFeatured: featured, featuredAt: featured ? new Date() : null },
+        include: {
+          skills: { where: { deletedAt: null } },
+          requirements: { where: { deletedAt: null } },
+        },
+      });
+    });
+  }
+
   async closeVacancy(vacancyId: string): Promise<Vacancy> {
     return this.prisma.vacancy.update({
       where: { id: vacancyId },
@@ -402,6 +545,217 @@ export class VacancyRepository {
     });
   }
 
+  async listModerationQueue(page: number, pageSize: number, employerId?: string) {
+    const enforcedPageSize = Math.min(pageSize, 100);
+    const where: Prisma.VacancyWhereInput = {
+      status: VacancyStatus.PENDING_REVIEW,
+      deletedAt: null,
+      ...(employerId && { employerId }),
+    };
+
+    const [items, totalCount] = await Promise.all([
+      this.prisma.vacancy.findMany({
+        where,
+        include: {
+          employer: { select: { id: true, companyName: true, status: true, verifiedAt: true } },
+          versions: { where: { isCurrent: true }, take: 1 },
+        },
+        // Oldest submissions first, so the queue is worked in order.
+        orderBy: [{ updatedAt: 'asc' }, { id: 'asc' }],
+        skip: (page - 1) * enforcedPageSize,
+        take: enforcedPageSize,
+      }),
+      this.prisma.vacancy.count({ where }),
+    ]);
+
+    return {
+      items,
+      totalCount,
+      page,
+      pageSize: enforcedPageSize,
+      totalPages: Math.ceil(totalCount / enforcedPageSize),
+    };
+  }
+
+  /**
+   * Applies a moderator decision to a vacancy that is still PENDING_REVIEW and records it on the submitted
+   * version. Returns null when another moderator decided first.
+   */
+  async recordModerationDecision(
+    vacancyId: string,
+    moderatorId: string,
+    decision: ModerationDecision,
+  ): Promise<(Vacancy & { employer: { userId: string } }) | null> {
+    return this.prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const updated = await tx.vacancy.updateMany({
+        where: { id: vacancyId, status: VacancyStatus.PENDING_REVIEW, deletedAt: null },
+        data: {
+          status: decision.status,
+          complianceStatus: decision.complianceStatus,
+          complianceNotes: decision.notes,
+          publishedAt: decision.status === VacancyStatus.OPEN ? now : undefined,
+          closedAt: decision.status === VacancyStatus.CANCELLED ? now : undefined,
+        },
+      });
+      if (updated.count === 0) return null;
+
+      await tx.vacancyVersion.updateMany({
+        where: { vacancyId, isCurrent: true },
+        data: {
+          moderationStatus: decision.complianceStatus,
+          moderationNotes: decision.notes,
+          moderatedBy: moderatorId,
+          moderatedAt: now,
+        },
+      });
+
+      return tx.vacancy.findUnique({
+        where: { id: vacancyId },
+        include: {
+          skills: { where: { deletedAt: null } },
+          requirements: { where: { deletedAt: null } },
+          employer: { select: { userId: true } },
+        },
+      });
+    });
+  }
+
+  async findExpiredOpenVacancies(now: Date, take: number): Promise<LifecycleVacancy[]> {
+    return this.prisma.vacancy.findMany({
+      where: { status: VacancyStatus.OPEN, deletedAt: null, expiresAt: { lte: now } },
+      select: LIFECYCLE_VACANCY_SELECT,
+      orderBy: { expiresAt: 'asc' },
+      take,
+    });
+  }
+
+  /**
+   * OPEN vacancies with at least vacancyCount hired applications.
+   */
+  async findFilledOpenVacancies(take: number): Promise<LifecycleVacancy[]> {
+    const rows = await this.prisma.$queryRaw<{ id: string }[]>`
+      SELECT v.id
+      FROM vacancies v
+      WHERE v.status = 'OPEN'::"VacancyStatus"
+        AND v.deleted_at IS NULL
+        AND (
+          SELECT COUNT(*) FROM applications a
+          WHERE a.vacancy_id = v.id AND a.status = 'HIRED'::"ApplicationStatus" AND a.deleted_at IS NULL
+        ) >= v.vacancy_count
+      LIMIT ${take}
+    `;
+    if (rows.length === 0) return [];
+
+    return this.prisma.vacancy.findMany({
+      where: { id: { in: rows.map(row => row.id) } },
+      select: LIFECYCLE_VACANCY_SELECT,
+    });
+  }
+
+  /**
+   * Moves a vacancy that is still OPEN to EXPIRED or CLOSED and rejects its pending applications, versioning each
+   * one like an employer decision would. Returns null when the vacancy is no longer OPEN.
+   */
+  async endVacancy(
+    vacancyId: string,
+    status: typeof VacancyStatus.EXPIRED | typeof VacancyStatus.CLOSED,
+    changedBy: string,
+    reason: string,
+  ): Promise<AutoRejectedApplication[] | null> {
+    return this.prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const updated = await tx.vacancy.updateMany({
+        where: { id: vacancyId, status: VacancyStatus.OPEN, deletedAt: null },
+        data: { status, closedAt: now },
+      });
+      if (updated.count === 0) return null;
+
+      const rejected = await tx.$queryRaw<{ id: string; userId: string; versionNumber: number; cvSnapshotId: string }[]>`
+        UPDATE applications
+        SET status = 'REJECTED'::"ApplicationStatus",
+            reviewed_at = ${now},
+            current_version = current_version + 1,
+            updated_at = ${now}
+        WHERE vacancy_id = CAST(${vacancyId} AS uuid)
+          AND status = ANY(CAST(${PENDING_APPLICATION_STATUSES} AS "ApplicationStatus"[]))
+          AND deleted_at IS NULL
+        RETURNING id, user_id AS "userId", current_version AS "versionNumber", cv_snapshot_id AS "cvSnapshotId"
+      `;
+      if (rejected.length === 0) return [];
+
+      const applicationIds = rejected.map(application => application.id);
+      const snapshots = await tx.cvSnapshot.findMany({
+        where: { id: { in: Array.from(new Set(rejected.map(application => application.cvSnapshotId))) } },
+        select: { id: true, snapshotData: true },
+      });
+      const snapshotData = new Map(snapshots.map(snapshot => [snapshot.id, snapshot.snapshotData]));
+
+      await tx.applicationStatusHistory.createMany({
+        data: rejected.map(application => ({
+          applicationId: application.id,
+          versionNumber: application.versionNumber,
+          status: ApplicationStatus.REJECTED,
+          changedBy,
+          reason,
+        })),
+      });
+
+      await tx.applicationVersion.updateMany({
+        where: { applicationId: { in: applicationIds }, isCurrent: true },
+        data: { isCurrent: false },
+      });
+
+      await tx.applicationVersion.createMany({
+        data: rejected.map(application => ({
+          applicationId: application.id,
+          versionNumber: application.versionNumber,
+          cvSnapshotId: application.cvSnapshotId,
+          snapshotData: (snapshotData.get(application.cvSnapshotId) ?? {}) as Prisma.InputJsonValue,
+          statusAtTime: ApplicationStatus.REJECTED,
+          isCurrent: true,
+        })),
+      });
+
+      return rejected.map(application => ({ id: application.id, userId: application.userId }));
+    });
+  }
+
+  /**
+   * Adds flushed view counters to the daily stats and to Vacancy.viewCount in one statement each.
+   */
+  async recordViewCounts(counts: VacancyViewCount[]): Promise<void> {
+    if (counts.length === 0) return;
+
+    const vacancyIds = counts.map(count => count.vacancyId);
+    const days = counts.map(count => count.day);
+    const sources = counts.map(count => count.source);
+    const views = counts.map(count => count.views);
+    const rows = Prisma.sql`unnest(
+      CAST(${vacancyIds} AS uuid[]),
+      CAST(${days} AS date[]),
+      CAST(${sources} AS "TrafficSource"[]),
+      CAST(${views} AS int[])
+    ) AS t(vacancy_id, day, source, views)`;
+
+    await this.prisma.$transaction([
+      this.prisma.$executeRaw`
+        INSERT INTO vacancy_view_stats (vacancy_id, day, source, views, updated_at)
+        SELECT t.vacancy_id, t.day, t.source, t.views, NOW()
+        FROM ${rows}
+        WHERE EXISTS (SELECT 1 FROM vacancies v WHERE v.id = t.vacancy_id)
+        ON CONFLICT (vacancy_id, day, source)
+        DO UPDATE SET views = vacancy_view_stats.views + EXCLUDED.views, updated_at = NOW()
+      `,
+      this.prisma.$executeRaw`
+        UPDATE vacancies v
+        SET view_count = v.view_count + totals.views
+        FROM (SELECT t.vacancy_id, SUM(t.views)::int AS views FROM ${rows} GROUP BY t.vacancy_id) totals
+        WHERE v.id = totals.vacancy_id
+      `,
+    ]);
+  }
+
   async softDeleteVacancy(vacancyId: string): Promise<void> {
     await this.prisma.vacancy.update({
       where: { id: vacancyId },
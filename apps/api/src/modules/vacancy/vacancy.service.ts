@@ -1,21 +1,45 @@
-import { Injectable, ForbiddenException, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, ForbiddenException, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
 import { AuditService } from '../auth/audit.service';
-import { VacancyRepository } from './vacancy.repository';
+import { ModerationDecision, NewVacancy, VacancyRepository } from './vacancy.repository';
 import { EmployerService } from '../employer/employer.service';
+import { DomainEventBus } from '../../common/events/domain-event-bus.service';
+import { DomainEvents } from '../../common/events/domain-events';
+import { normalizeLocation } from '../../common/geo/uzbekistan-gazetteer';
+import { parseCsv, parseXlsx, SpreadsheetParseError } from '../../common/utils/spreadsheet';
 import {
   CreateVacancyDto,
   UpdateVacancyDto,
   ListVacanciesDto,
   PublishVacancyDto,
+  ListModerationQueueDto,
+  CloneVacancyDto,
 } from './dto/vacancy.dto';
-import { VacancyResponseDto, VacancyListResponseDto, PublishResponseDto, CloseResponseDto, VacancyVersionResponseDto } from './dto/vacancy-response.dto';
-import { VacancyStatus } from '@prisma/client';
+import {
+  VacancyResponseDto,
+  VacancyListResponseDto,
+  PublishResponseDto,
+  CloseResponseDto,
+  VacancyVersionResponseDto,
+  ModerationQueueResponseDto,
+  VacancyImportResponseDto,
+  VacancyImportRowDto,
+} from './dto/vacancy-response.dto';
+import { ComplianceStatus, Vacancy, VacancyStatus } from '@prisma/client';
+import { ModerationFlag, evaluateVacancyModeration, summarizeModerationFlags } from './vacancy-moderation.rules';
+import {
+  MAX_IMPORT_ROWS,
+  UploadedSpreadsheet,
+  VacancyImportSheet,
+  readVacancyImportSheet,
+  validateVacancyInput,
+} from './vacancy-import.parser';
 
 const VALID_STATUS_TRANSITIONS: Record<VacancyStatus, VacancyStatus[]> = {
-  [VacancyStatus.DRAFT]: [VacancyStatus.OPEN],
+  [VacancyStatus.DRAFT]: [VacancyStatus.OPEN, VacancyStatus.PENDING_REVIEW],
   [VacancyStatus.OPEN]: [VacancyStatus.CLOSED, VacancyStatus.EXPIRED],
   [VacancyStatus.CLOSED]: [],
-  [VacancyStatus.PENDING_REVIEW]: [],
+  // Moderator decisions: approve, request changes, reject.
+  [VacancyStatus.PENDING_REVIEW]: [VacancyStatus.OPEN, VacancyStatus.DRAFT, VacancyStatus.CANCELLED],
   [VacancyStatus.EXPIRED]: [],
   [VacancyStatus.CANCELLED]: [],
 };
@@ -26,6 +50,7 @@ export class VacancyService {
     private readonly vacancyRepository: VacancyRepository,
     private readonly auditService: AuditService,
     private readonly employerService: EmployerService,
+    private readonly eventBus: DomainEventBus,
   ) {}
 
   private validateStatusTransition(currentStatus: VacancyStatus, targetStatus: VacancyStatus): void {
@@ -67,51 +92,23 @@ export class VacancyService {
     dto: CreateVacancyDto,
     ipAddress: string,
   ): Promise<VacancyResponseDto> {
-    await this.employerService.verifyCompliance(employerUserId);
+    await this.employerService.verifyCanManageVacancies(employerUserId);
 
     this.validateSalary(dto.salaryMin, dto.salaryMax);
 
     const employer = await this.employerService.getProfile(employerUserId, ipAddress);
 
     if (dto.branchId) {
-      const isValidBranch = await this.vacancyRepository.validateBranchOwnership(dto.branchId, employer.id);
-      if (!isValidBranch) {
-        throw new BadRequestException({
-          success: false,
-          error: { code: 'INVALID_BRANCH', message: 'Branch does not belong to this employer' },
-        });
-      }
+      await this.validateBranch(dto.branchId, employer.id);
     }
 
-    const vacancy = await this.vacancyRepository.createVacancy(employer.id, {
-      jobTitle: dto.jobTitle,
-      jobCode: dto.jobCode,
-      jobDescription: dto.jobDescription,
-      jobType: dto.jobType,
-      salaryMin: dto.salaryMin,
-      salaryMax: dto.salaryMax,
-      salaryCurrency: dto.salaryCurrency,
-      salaryIsNegotiable: dto.salaryIsNegotiable,
-      locationAddress: dto.locationAddress,
-      locationCity: dto.locationCity,
-      locationState: dto.locationState,
-      locationCountry: dto.locationCountry,
-      isRemote: dto.isRemote,
-      remoteType: dto.remoteType,
-      experienceMinYears: dto.experienceMinYears,
-      experienceMaxYears: dto.experienceMaxYears,
-      educationMinLevel: dto.educationMinLevel,
-      vacancyCount: dto.vacancyCount,
-      branchId: dto.branchId,
-      expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : undefined,
-      skills: dto.skills,
-      requirements: dto.requirements,
-    });
+    const vacancy = await this.vacancyRepository.createVacancy(employer.id, this.toNewVacancy(dto));
 
     await this.auditService.log('VACANCY_CREATED', {
       userId: employerUserId,
       targetUserId: employerUserId,
       ipAddress,
+      after: this.sanitizeVacancy(vacancy),
       details: {
         vacancyId: vacancy.id,
         employerId: employer.id,
@@ -123,6 +120,170 @@ export class VacancyService {
     return this.sanitizeVacancy(vacancy);
   }
 
+  /**
+   * Copies a vacancy, including its skills and requirements, into a new DRAFT. The expiry date is not copied.
+   */
+  async cloneVacancy(
+    employerUserId: string,
+    vacancyId: string,
+    dto: CloneVacancyDto,
+    ipAddress: string,
+  ): Promise<VacancyResponseDto> {
+    await this.employerService.verifyCanManageVacancies(employerUserId);
+
+    const employer = await this.employerService.getProfile(employerUserId, ipAddress);
+
+    const source = await this.vacancyRepository.findVacancyByIdForEmployer(vacancyId, employer.id);
+    if (!source) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'VACANCY_NOT_FOUND', message: 'Vacancy not found' },
+      });
+    }
+
+    // The source branch may have been closed since, so it is checked again.
+    const branchId = dto.branchId ?? source.branchId ?? undefined;
+    if (branchId) {
+      await this.validateBranch(branchId, employer.id);
+    }
+
+    const vacancy = await this.vacancyRepository.createVacancy(employer.id, {
+      jobTitle: dto.jobTitle ?? source.jobTitle,
+      jobCode: dto.jobCode ?? source.jobCode,
+      jobDescription: source.jobDescription,
+      jobType: source.jobType,
+      salaryMin: source.salaryMin.toNumber(),
+      salaryMax: source.salaryMax.toNumber(),
+      salaryCurrency: source.salaryCurrency,
+      salaryIsNegotiable: source.salaryIsNegotiable,
+      locationAddress: source.locationAddress ?? undefined,
+      locationCity: source.locationCity,
+      locationState: source.locationState,
+      locationCountry: source.locationCountry,
+      locationPlaceCode: source.locationPlaceCode,
+      isRemote: source.isRemote,
+      remoteType: source.remoteType,
+      experienceMinYears: source.experienceMinYears ?? undefined,
+      experienceMaxYears: source.experienceMaxYears ?? undefined,
+      educationMinLevel: source.educationMinLevel,
+      vacancyCount: source.vacancyCount,
+      branchId,
+      skills: source.skills,
+      requirements: source.requirements,
+    });
+
+    await this.auditService.log('VACANCY_CLONED', {
+      userId: employerUserId,
+      ipAddress,
+      resourceType: 'VACANCY',
+      resourceId: vacancy.id,
+      after: this.sanitizeVacancy(vacancy),
+      details: { vacancyId: vacancy.id, sourceVacancyId: vacancyId, employerId: employer.id },
+    });
+
+    return this.sanitizeVacancy(vacancy);
+  }
+
+  /**
+   * Creates DRAFT vacancies from a CSV or XLSX sheet. Every row is checked like a single create; vacancies are
+   * only created when all rows are valid, otherwise the report lists what to fix. The report also projects the
+   * valid rows against the plan's open vacancy limit, which is enforced when the drafts are published.
+   */
+  async importVacancies(
+    employerUserId: string,
+    file: UploadedSpreadsheet | undefined,
+    dryRun: boolean,
+    ipAddress: string,
+  ): Promise<VacancyImportResponseDto> {
+    await this.employerService.verifyCanManageVacancies(employerUserId);
+
+    const employer = await this.employerService.getProfile(employerUserId, ipAddress);
+    const sheet = this.readImportFile(file);
+
+    const branchChecks = new Map<string, Promise<boolean>>();
+    const rows: VacancyImportRowDto[] = [];
+    const drafts: NewVacancy[] = [];
+
+    for (const { rowNumber, input } of sheet.rows) {
+      const { dto, errors } = await validateVacancyInput(input);
+
+      if (errors.length === 0) {
+        try {
+          this.validateSalary(dto.salaryMin, dto.salaryMax);
+        } catch (error) {
+          if (!(error instanceof BadRequestException)) throw error;
+          const { code, message } = (error.getResponse() as { error: { code: string; message: string } }).error;
+          errors.push({ code, message });
+        }
+      }
+
+      if (dto.branchId && !errors.some(error => error.field === 'branchId')) {
+        if (!branchChecks.has(dto.branchId)) {
+          branchChecks.set(dto.branchId, this.vacancyRepository.validateBranchOwnership(dto.branchId, employer.id));
+        }
+        if (!(await branchChecks.get(dto.branchId))) {
+          errors.push({ field: 'branchId', code: 'INVALID_BRANCH', message: 'Branch does not belong to this employer' });
+        }
+      }
+
+      rows.push({
+        row: rowNumber,
+        jobCode: typeof input.jobCode === 'string' ? input.jobCode : undefined,
+        status: errors.length === 0 ? 'VALID' : 'INVALID',
+        errors,
+      });
+      if (errors.length === 0) {
+        drafts.push(this.toNewVacancy(dto));
+      }
+    }
+
+    const invalidRows = rows.length - drafts.length;
+    const { limits, openVacancies } = await this.vacancyRepository.getOpenVacancyUsage(employer.id);
+    const limit = limits.maxOpenVacancies;
+    const projected = openVacancies + drafts.length;
+    const publishQuota = {
+      plan: limits.name,
+      limit,
+      used: openVacancies,
+      remaining: limit === null ? null : Math.max(0, limit - openVacancies),
+      projected,
+      exceedsLimit: limit !== null && projected > limit,
+    };
+
+    let created: Vacancy[] = [];
+    if (!dryRun && invalidRows === 0) {
+      created = await this.vacancyRepository.createVacancies(employer.id, drafts);
+      created.forEach((vacancy, index) => {
+        rows[index].status = 'CREATED';
+        rows[index].vacancyId = vacancy.id;
+      });
+    }
+
+    await this.auditService.log('VACANCIES_IMPORTED', {
+      userId: employerUserId,
+      ipAddress,
+      details: {
+        employerId: employer.id,
+        fileName: file?.originalname,
+        dryRun,
+        totalRows: rows.length,
+        invalidRows,
+        vacancyIds: created.map(vacancy => vacancy.id),
+        publishQuota,
+      },
+    });
+
+    return {
+      dryRun,
+      totalRows: rows.length,
+      validRows: drafts.length,
+      invalidRows,
+      createdCount: created.length,
+      publishQuota,
+      rows,
+    };
+  }
+
   async getVacancy(
     employerUserId: string,
     vacancyId: string,
@@ -184,7 +345,7 @@ export class VacancyService {
     dto: UpdateVacancyDto,
     ipAddress: string,
   ): Promise<VacancyResponseDto> {
-    await this.employerService.verifyCompliance(employerUserId);
+    await this.employerService.verifyCanManageVacancies(employerUserId);
 
     const employer = await this.employerService.getProfile(employerUserId, ipAddress);
 
@@ -196,7 +357,13 @@ export class VacancyService {
       });
     }
 
-    this.validateStatusTransition(vacancy.status, VacancyStatus.DRAFT);
+    // Vacancies under review or live are locked; changes after a moderator's request happen back in DRAFT.
+    if (vacancy.status !== VacancyStatus.DRAFT) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'VACANCY_NOT_EDITABLE', message: `Only draft vacancies can be edited (current status: ${vacancy.status})` },
+      });
+    }
 
     if (dto.salaryMin !== undefined || dto.salaryMax !== undefined) {
       this.validateSalary(
@@ -206,15 +373,13 @@ export class VacancyService {
     }
 
     if (dto.branchId && dto.branchId !== vacancy.branchId) {
-      const isValidBranch = await this.vacancyRepository.validateBranchOwnership(dto.branchId, employer.id);
-      if (!isValidBranch) {
-        throw new BadRequestException({
-          success: false,
-          error: { code: 'INVALID_BRANCH', message: 'Branch does not belong to this employer' },
-        });
-      }
+      await this.validateBranch(dto.branchId, employer.id);
     }
 
+    const location = dto.locationCity !== undefined || dto.locationState !== undefined
+      ? normalizeLocation(dto.locationCity ?? vacancy.locationCity, dto.locationState ?? vacancy.locationState)
+      : undefined;
+
     const updated = await this.vacancyRepository.updateVacancy(vacancyId, {
       jobTitle: dto.jobTitle,
       jobDescription: dto.jobDescription,
@@ -222,8 +387,9 @@ export class VacancyService {
       salaryMax: dto.salaryMax,
       salaryIsNegotiable: dto.salaryIsNegotiable,
       locationAddress: dto.locationAddress,
-      locationCity: dto.locationCity,
-      locationState: dto.locationState,
+      locationCity: location?.city,
+      locationState: location?.state,
+      locationPlaceCode: location?.placeCode,
       isRemote: dto.isRemote,
       remoteType: dto.remoteType,
       experienceMinYears: dto.experienceMinYears,
@@ -239,6 +405,8 @@ export class VacancyService {
     await this.auditService.log('VACANCY_UPDATED', {
       userId: employerUserId,
       ipAddress,
+      before: this.sanitizeVacancy(vacancy),
+      after: this.sanitizeVacancy(updated),
       details: {
         vacancyId,
         employerId: employer.id,
@@ -246,16 +414,26 @@ export class VacancyService {
       },
     });
 
+    this.eventBus.publish(DomainEvents.VACANCY_UPDATED, {
+      vacancyId,
+      employerId: employer.id,
+      status: updated.status,
+    });
+
     return this.sanitizeVacancy(updated);
   }
 
+  /**
+   * Publishes a draft, or sends it to the moderation queue when the moderation rules flag it or the employer
+   * is not verified yet.
+   */
   async publishVacancy(
     employerUserId: string,
     vacancyId: string,
     dto: PublishVacancyDto,
     ipAddress: string,
   ): Promise<PublishResponseDto> {
-    await this.employerService.verifyCompliance(employerUserId);
+    const { verified } = await this.employerService.verifyCanManageVacancies(employerUserId);
 
     const employer = await this.employerService.getProfile(employerUserId, ipAddress);
 
@@ -267,8 +445,6 @@ export class VacancyService {
       });
     }
 
-    this.validateStatusTransition(vacancy.status, VacancyStatus.OPEN);
-
     if (vacancy.status === VacancyStatus.OPEN) {
       throw new BadRequestException({
         success: false,
@@ -276,20 +452,78 @@ export class VacancyService {
       });
     }
 
-    const published = await this.vacancyRepository.publishVacancy(vacancyId, employerUserId, dto.changeSummary);
+    if (vacancy.status === VacancyStatus.PENDING_REVIEW) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'VACANCY_IN_REVIEW', message: 'Vacancy is already waiting for moderation' },
+      });
+    }
+
+    const flags = evaluateVacancyModeration(
+      {
+        jobTitle: vacancy.jobTitle,
+        jobDescription: vacancy.jobDescription,
+        salaryMin: vacancy.salaryMin.toNumber(),
+        salaryMax: vacancy.salaryMax.toNumber(),
+        salaryIsNegotiable: vacancy.salaryIsNegotiable,
+        requirements: vacancy.requirements,
+      },
+      { employerVerified: verified, changesRequested: vacancy.complianceStatus === ComplianceStatus.CHANGES_REQUESTED },
+    );
+    const needsReview = flags.length > 0;
+    const targetStatus = needsReview ? VacancyStatus.PENDING_REVIEW : VacancyStatus.OPEN;
+
+    this.validateStatusTransition(vacancy.status, targetStatus);
+
+    let published: Vacancy;
+    try {
+      published = await this.vacancyRepository.publishVacancy(vacancyId, employerUserId, dto.changeSummary, {
+        status: targetStatus,
+        complianceStatus: needsReview ? ComplianceStatus.REVIEW_REQUIRED : ComplianceStatus.APPROVED,
+        complianceNotes: needsReview ? summarizeModerationFlags(flags) : null,
+        flags,
+      });
+    } catch (error: any) {
+      if (error.message?.includes('MAX_VACANCIES_REACHED')) {
+        throw new BadRequestException({
+          success: false,
+          error: { code: 'MAX_VACANCIES_REACHED', message: error.message.split(':')[1]?.trim() || 'Open vacancy limit reached' },
+        });
+      }
+      throw error;
+    }
 
-    await this.auditService.log('VACANCY_PUBLISHED', {
+    await this.auditService.log(needsReview ? 'VACANCY_SUBMITTED_FOR_REVIEW' : 'VACANCY_PUBLISHED', {
       userId: employerUserId,
       targetUserId: employerUserId,
       ipAddress,
+      before: { status: vacancy.status, currentVersion: vacancy.currentVersion },
+      after: { status: published.status, currentVersion: published.currentVersion },
+      reason: dto.changeSummary,
       details: {
         vacancyId,
         employerId: employer.id,
         jobTitle: vacancy.jobTitle,
         version: published.currentVersion,
+        moderationFlags: flags.map(flag => flag.code),
       },
     });
 
+    if (needsReview) {
+      return {
+        message: 'Vacancy submitted for moderation',
+        vacancy: this.sanitizeVacancy(published),
+        versionNumber: published.currentVersion,
+        moderationFlags: flags,
+      };
+    }
+
+    this.eventBus.publish(DomainEvents.VACANCY_PUBLISHED, {
+      vacancyId,
+      employerId: employer.id,
+      status: published.status,
+    });
+
     return {
       message: 'Vacancy published successfully',
       vacancy: this.sanitizeVacancy(published),
@@ -297,12 +531,66 @@ export class VacancyService {
     };
   }
 
+  /**
+   * Marks an open vacancy as a featured posting, within the featured postings quota of the employer's plan.
+   */
+  async setVacancyFeatured(
+    employerUserId: string,
+    vacancyId: string,
+    featured: boolean,
+    ipAddress: string,
+  ): Promise<VacancyResponseDto> {
+    await this.employerService.verifyCanManageVacancies(employerUserId);
+
+    const employer = await this.employerService.getProfile(employerUserId, ipAddress);
+
+    const vacancy = await this.vacancyRepository.findVacancyByIdForEmployer(vacancyId, employer.id);
+    if (!vacancy) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'VACANCY_NOT_FOUND', message: 'Vacancy not found' },
+      });
+    }
+
+    if (featured && vacancy.status !== VacancyStatus.OPEN) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'VACANCY_NOT_OPEN', message: `Only open vacancies can be featured (current status: ${vacancy.status})` },
+      });
+    }
+
+    let updated: Vacancy;
+    try {
+      updated = await this.vacancyRepository.setVacancyFeatured(vacancyId, featured);
+    } catch (error: any) {
+      if (error.message?.includes('MAX_FEATURED_VACANCIES_REACHED')) {
+        throw new BadRequestException({
+          success: false,
+          error: { code: 'MAX_FEATURED_VACANCIES_REACHED', message: error.message.split(':')[1]?.trim() || 'Featured vacancy limit reached' },
+        });
+      }
+      throw error;
+    }
+
+    await this.auditService.log(featured ? 'VACANCY_FEATURED' : 'VACANCY_UNFEATURED', {
+      userId: employerUserId,
+      ipAddress,
+      resourceType: 'VACANCY',
+      resourceId: vacancyId,
+      before: { isFeatured: vacancy.isFeatured },
+      after: { isFeatured: updated.isFeatured },
+      details: { vacancyId, employerId: employer.id },
+    });
+
+    return this.sanitizeVacancy(updated);
+  }
+
   async closeVacancy(
     employerUserId: string,
     vacancyId: string,
     ipAddress: string,
   ): Promise<CloseResponseDto> {
-    await this.employerService.verifyCompliance(employerUserId);
+    await this.employerService.verifyCanManageVacancies(employerUserId);
 
     const employer = await this.employerService.getProfile(employerUserId, ipAddress);
 
@@ -321,6 +609,8 @@ export class VacancyService {
     await this.auditService.log('VACANCY_CLOSED', {
       userId: employerUserId,
       ipAddress,
+      before: { status: vacancy.status },
+      after: { status: closed.status },
       details: {
         vacancyId,
         employerId: employer.id,
@@ -328,6 +618,12 @@ export class VacancyService {
       },
     });
 
+    this.eventBus.publish(DomainEvents.VACANCY_CLOSED, {
+      vacancyId,
+      employerId: employer.id,
+      status: closed.status,
+    });
+
     return {
       message: 'Vacancy closed successfully',
       vacancy: this.sanitizeVacancy(closed),
@@ -339,7 +635,7 @@ export class VacancyService {
     vacancyId: string,
     ipAddress: string,
   ): Promise<{ message: string; vacancyId: string }> {
-    await this.employerService.verifyCompliance(employerUserId);
+    await this.employerService.verifyCanManageVacancies(employerUserId);
 
     const employer = await this.employerService.getProfile(employerUserId, ipAddress);
 
@@ -363,6 +659,7 @@ export class VacancyService {
     await this.auditService.log('VACANCY_DELETED', {
       userId: employerUserId,
       ipAddress,
+      before: this.sanitizeVacancy(vacancy),
       details: {
         vacancyId,
         employerId: employer.id,
@@ -411,6 +708,241 @@ export class VacancyService {
     };
   }
 
+  async listModerationQueue(
+    adminUserId: string,
+    dto: ListModerationQueueDto,
+    ipAddress: string,
+  ): Promise<ModerationQueueResponseDto> {
+    const result = await this.vacancyRepository.listModerationQueue(
+      Math.max(1, dto.page || 1),
+      Math.min(dto.pageSize || 20, 100),
+      dto.employerId,
+    );
+
+    await this.auditService.log('VACANCY_MODERATION_QUEUE_LISTED', {
+      userId: adminUserId,
+      ipAddress,
+      details: { employerId: dto.employerId, count: result.totalCount },
+    });
+
+    return {
+      items: result.items.map(vacancy => {
+        const [version] = vacancy.versions;
+        return {
+          vacancy: this.sanitizeVacancy(vacancy),
+          employer: {
+            id: vacancy.employer.id,
+            companyName: vacancy.employer.companyName,
+            status: vacancy.employer.status,
+            verified: vacancy.employer.verifiedAt !== null,
+          },
+          moderationFlags: (version?.moderationFlags as unknown as ModerationFlag[]) ?? [],
+          submittedAt: version?.createdAt,
+        };
+      }),
+      totalCount: result.totalCount,
+      page: result.page,
+      pageSize: result.pageSize,
+      totalPages: result.totalPages,
+    };
+  }
+
+  async approveVacancy(adminUserId: string, vacancyId: string, notes: string | undefined, ipAddress: string) {
+    return this.moderateVacancy(adminUserId, vacancyId, ipAddress, {
+      status: VacancyStatus.OPEN,
+      complianceStatus: ComplianceStatus.APPROVED,
+      notes: notes ?? null,
+    });
+  }
+
+  async rejectVacancy(adminUserId: string, vacancyId: string, notes: string, ipAddress: string) {
+    return this.moderateVacancy(adminUserId, vacancyId, ipAddress, {
+      status: VacancyStatus.CANCELLED,
+      complianceStatus: ComplianceStatus.REJECTED,
+      notes,
+    });
+  }
+
+  // Sends the vacancy back to DRAFT; the next publish goes through review again.
+  async requestVacancyChanges(adminUserId: string, vacancyId: string, notes: string, ipAddress: string) {
+    return this.moderateVacancy(adminUserId, vacancyId, ipAddress, {
+      status: VacancyStatus.DRAFT,
+      complianceStatus: ComplianceStatus.CHANGES_REQUESTED,
+      notes,
+    });
+  }
+
+  private async moderateVacancy(
+    adminUserId: string,
+    vacancyId: string,
+    ipAddress: string,
+    decision: ModerationDecision,
+  ): Promise<{ message: string; vacancy: VacancyResponseDto }> {
+    const vacancy = await this.vacancyRepository.findVacancyById(vacancyId);
+    if (!vacancy) {
+      throw new NotFoundException({
+        success: false,
+        error: { code: 'VACANCY_NOT_FOUND', message: 'Vacancy not found' },
+      });
+    }
+
+    if (vacancy.status !== VacancyStatus.PENDING_REVIEW) {
+      this.throwNotInReview();
+    }
+    this.validateStatusTransition(vacancy.status, decision.status);
+
+    // Another moderator may have decided between the read above and this write.
+    const moderated = await this.vacancyRepository.recordModerationDecision(vacancyId, adminUserId, decision);
+    if (!moderated) {
+      this.throwNotInReview();
+    }
+
+    const outcome = decision.complianceStatus as 'APPROVED' | 'REJECTED' | 'CHANGES_REQUESTED';
+
+    await this.auditService.log(`VACANCY_MODERATION_${outcome}`, {
+      userId: adminUserId,
+      ipAddress,
+      resourceType: 'VACANCY',
+      resourceId: vacancyId,
+      before: { status: vacancy.status, complianceStatus: vacancy.complianceStatus },
+      after: { status: moderated.status, complianceStatus: moderated.complianceStatus },
+      reason: decision.notes ?? undefined,
+      details: {
+        vacancyId,
+        employerId: vacancy.employerId,
+        version: moderated.currentVersion,
+      },
+    });
+
+    this.eventBus.publish(DomainEvents.VACANCY_MODERATED, {
+      vacancyId,
+      employerId: vacancy.employerId,
+      employerUserId: moderated.employer.userId,
+      jobTitle: vacancy.jobTitle,
+      decision: outcome,
+      notes: decision.notes ?? undefined,
+    });
+
+    if (moderated.status === VacancyStatus.OPEN) {
+      this.eventBus.publish(DomainEvents.VACANCY_PUBLISHED, {
+        vacancyId,
+        employerId: vacancy.employerId,
+        status: moderated.status,
+      });
+    }
+
+    return {
+      message: {
+        APPROVED: 'Vacancy approved and published',
+        REJECTED: 'Vacancy rejected',
+        CHANGES_REQUESTED: 'Changes requested from the employer',
+      }[outcome],
+      vacancy: this.sanitizeVacancy(moderated),
+    };
+  }
+
+  private async validateBranch(branchId: string, employerId: string): Promise<void> {
+    const isValidBranch = await this.vacancyRepository.validateBranchOwnership(branchId, employerId);
+    if (!isValidBranch) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'INVALID_BRANCH', message: 'Branch does not belong to this employer' },
+      });
+    }
+  }
+
+  private toNewVacancy(dto: CreateVacancyDto): NewVacancy {
+    const location = normalizeLocation(dto.locationCity, dto.locationState);
+    return {
+      jobTitle: dto.jobTitle,
+      jobCode: dto.jobCode,
+      jobDescription: dto.jobDescription,
+      jobType: dto.jobType,
+      salaryMin: dto.salaryMin,
+      salaryMax: dto.salaryMax,
+      salaryCurrency: dto.salaryCurrency,
+      salaryIsNegotiable: dto.salaryIsNegotiable,
+      locationAddress: dto.locationAddress,
+      locationCity: location.city,
+      locationState: location.state,
+      locationCountry: dto.locationCountry,
+      locationPlaceCode: location.placeCode,
+      isRemote: dto.isRemote,
+      remoteType: dto.remoteType,
+      experienceMinYears: dto.experienceMinYears,
+      experienceMaxYears: dto.experienceMaxYears,
+      educationMinLevel: dto.educationMinLevel,
+      vacancyCount: dto.vacancyCount,
+      branchId: dto.branchId,
+      expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : undefined,
+      skills: dto.skills,
+      requirements: dto.requirements,
+    };
+  }
+
+  private readImportFile(file: UploadedSpreadsheet | undefined): VacancyImportSheet {
+    if (!file) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'FILE_REQUIRED', message: 'Upload a CSV or XLSX file in the file field' },
+      });
+    }
+
+    const extension = file.originalname.toLowerCase().split('.').pop();
+    let table: string[][];
+    try {
+      if (extension === 'csv') {
+        table = parseCsv(file.buffer.toString('utf8'));
+      } else if (extension === 'xlsx') {
+        table = parseXlsx(file.buffer);
+      } else {
+        throw new BadRequestException({
+          success: false,
+          error: { code: 'UNSUPPORTED_FILE_TYPE', message: 'Only .csv and .xlsx files can be imported' },
+        });
+      }
+    } catch (error) {
+      if (!(error instanceof SpreadsheetParseError)) throw error;
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'INVALID_IMPORT_FILE', message: error.message },
+      });
+    }
+
+    const sheet = readVacancyImportSheet(table);
+    if (sheet.unknownColumns.length > 0 || sheet.missingColumns.length > 0) {
+      const problems = [
+        sheet.missingColumns.length > 0 && `missing columns: ${sheet.missingColumns.join(', ')}`,
+        sheet.unknownColumns.length > 0 && `unknown columns: ${sheet.unknownColumns.join(', ')}`,
+      ].filter(Boolean);
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'INVALID_IMPORT_HEADER', message: `The header row has ${problems.join('; ')}` },
+      });
+    }
+    if (sheet.rows.length === 0) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'EMPTY_IMPORT', message: 'The file has no vacancy rows' },
+      });
+    }
+    if (sheet.rows.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'IMPORT_TOO_LARGE', message: `At most ${MAX_IMPORT_ROWS} vacancies can be imported at once` },
+      });
+    }
+
+    return sheet;
+  }
+
+  private throwNotInReview(): never {
+    throw new ConflictException({
+      success: false,
+      error: { code: 'VACANCY_NOT_IN_REVIEW', message: 'Vacancy is not waiting for moderation' },
+    });
+  }
+
   private sanitizeVacancy(vacancy: any): VacancyResponseDto {
     return {
       id: vacancy.id,
@@ -428,6 +960,7 @@ export class VacancyService {
       locationCity: vacancy.locationCity,
       locationState: vacancy.locationState,
       locationCountry: vacancy.locationCountry,
+      locationPlaceCode: vacancy.locationPlaceCode,
       isRemote: vacancy.isRemote,
       remoteType: vacancy.remoteType,
       experienceMinYears: vacancy.experienceMinYears,
@@ -436,6 +969,7 @@ export class VacancyService {
       vacancyCount: vacancy.vacancyCount,
       currentVersion: vacancy.currentVersion,
       status: vacancy.status,
+      isFeatured: vacancy.isFeatured,
       expiresAt: vacancy.expiresAt,
       publishedAt: vacancy.publishedAt,
       closedAt: vacancy.closedAt,
@@ -456,6 +990,11 @@ export class VacancyService {
       snapshotData: version.snapshotData,
       changeSummary: version.changeSummary,
       isCurrent: version.isCurrent,
+      moderationStatus: version.moderationStatus,
+      moderationFlags: version.moderationFlags,
+      moderationNotes: version.moderationNotes,
+      moderatedBy: version.moderatedBy,
+      moderatedAt: version.moderatedAt,
       createdBy: version.createdBy,
       createdAt: version.createdAt,
     };
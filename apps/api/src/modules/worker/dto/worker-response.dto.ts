@@ -1,5 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { Gender, GovVerifyStatus, UserStatus, JobType, ProficiencyLevel } from '@prisma/client';
+import { Gender, GovVerifyStatus, UserStatus, JobType, ProficiencyLevel, RemoteType } from '@prisma/client';
 
 export class WorkerProfileResponseDto {
   @ApiProperty()
@@ -297,3 +297,41 @@ export class WorkerCvResponseDto {
   @ApiProperty()
   verifiedAt?: Date;
 }
+
+export class WorkerPreferencesResponseDto {
+  @ApiProperty()
+  userId: string;
+
+  @ApiPropertyOptional()
+  expectedSalaryMin?: number;
+
+  @ApiPropertyOptional()
+  expectedSalaryMax?: number;
+
+  @ApiPropertyOptional()
+  salaryCurrency?: string;
+
+  @ApiProperty({ type: [String] })
+  preferredCities: string[];
+
+  @ApiProperty({ type: [String] })
+  preferredRegions: string[];
+
+  @ApiProperty()
+  willingToRelocate: boolean;
+
+  @ApiPropertyOptional()
+  commuteRadiusKm?: number;
+
+  @ApiPropertyOptional({ enum: RemoteType })
+  remoteType?: RemoteType;
+
+  @ApiProperty({ enum: JobType, isArray: true })
+  jobTypes: JobType[];
+
+  @ApiPropertyOptional()
+  availableFrom?: Date;
+
+  @ApiPropertyOptional()
+  updatedAt?: Date;
+}
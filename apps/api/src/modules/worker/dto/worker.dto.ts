@@ -1,7 +1,7 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsString, IsOptional, IsEmail, IsEnum, IsUUID, IsNumber, Min, Max, IsDateString, IsArray, IsBoolean, IsObject, IsDecimal } from 'class-validator';
+import { IsString, IsOptional, IsEmail, IsEnum, IsUUID, IsNumber, Min, Max, IsDateString, IsArray, IsBoolean, IsObject, IsDecimal, Matches, ArrayMaxSize, MaxLength, ValidateIf } from 'class-validator';
 import { Type } from 'class-transformer';
-import { Gender, JobType, ProficiencyLevel } from '@prisma/client';
+import { Gender, JobType, ProficiencyLevel, RemoteType } from '@prisma/client';
 
 export class UpdateContactDto {
   @ApiPropertyOptional()
@@ -309,3 +309,70 @@ export class ViewWorkerCvDto {
   @IsUUID()
   workerId: string;
 }
+
+export class UpdatePreferencesDto {
+  @ApiPropertyOptional({ nullable: true, description: 'null clears the value' })
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  expectedSalaryMin?: number | null;
+
+  @ApiPropertyOptional({ nullable: true, description: 'null clears the value' })
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  expectedSalaryMax?: number | null;
+
+  @ApiPropertyOptional({ example: 'UZS' })
+  @IsOptional()
+  @IsString()
+  @Matches(/^[A-Za-z]{3}$/, { message: 'salaryCurrency must be a 3-letter ISO code' })
+  salaryCurrency?: string;
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  preferredCities?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  preferredRegions?: string[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  willingToRelocate?: boolean;
+
+  @ApiPropertyOptional({ description: 'Maximum acceptable commute distance in kilometres' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(500)
+  commuteRadiusKm?: number;
+
+  @ApiPropertyOptional({ enum: RemoteType })
+  @IsOptional()
+  @IsEnum(RemoteType)
+  remoteType?: RemoteType;
+
+  @ApiPropertyOptional({ enum: JobType, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(JobType, { each: true })
+  jobTypes?: JobType[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  availableFrom?: string;
+}
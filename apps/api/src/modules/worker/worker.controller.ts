@@ -28,10 +28,11 @@ import {
   ListExperienceDto,
   ListSkillsDto,
   ViewWorkerCvDto,
+  UpdatePreferencesDto,
 } from './dto/worker.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { RolesGuard } from '../auth/guards/roles.guard';
-import { Roles } from '../auth/decorators/roles.decorator';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
 import { Request } from 'express';
 
 interface RequestWithUser extends Request {
@@ -46,13 +47,14 @@ interface RequestWithUser extends Request {
 
 @ApiTags('Worker')
 @Controller('api/v1/workers')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
 @ApiHeaders([{ name: 'authorization', description: 'Bearer token' }])
 export class WorkerController {
   constructor(private readonly workerService: WorkerService) {}
 
   @Get('me/profile')
+  @RequirePermissions('worker_profile:read')
   @ApiOperation({ summary: 'Get own worker profile' })
   @ApiResponse({ status: 200, description: 'Profile retrieved successfully' })
   async getMyProfile(@Req() req: RequestWithUser) {
@@ -60,6 +62,7 @@ export class WorkerController {
   }
 
   @Put('me/contact')
+  @RequirePermissions('worker_profile:update')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Update own contact information (phone/email only)' })
   @ApiResponse({ status: 200, description: 'Contact updated successfully' })
@@ -68,6 +71,7 @@ export class WorkerController {
   }
 
   @Get('me/education')
+  @RequirePermissions('worker_profile:read')
   @ApiOperation({ summary: 'List own education records' })
   @ApiResponse({ status: 200, description: 'Education list retrieved successfully' })
   async listMyEducation(@Query() dto: ListEducationDto, @Req() req: RequestWithUser) {
@@ -75,6 +79,7 @@ export class WorkerController {
   }
 
   @Post('me/education')
+  @RequirePermissions('worker_profile:update')
   @ApiOperation({ summary: 'Add education record (triggers CV snapshot)' })
   @ApiResponse({ status: 201, description: 'Education created successfully' })
   async createMyEducation(@Body() dto: CreateEducationDto, @Req() req: RequestWithUser) {
@@ -82,6 +87,7 @@ export class WorkerController {
   }
 
   @Put('me/education/:id')
+  @RequirePermissions('worker_profile:update')
   @ApiOperation({ summary: 'Update education record (triggers CV snapshot)' })
   @ApiResponse({ status: 200, description: 'Education updated successfully' })
   async updateMyEducation(
@@ -93,6 +99,7 @@ export class WorkerController {
   }
 
   @Delete('me/education/:id')
+  @RequirePermissions('worker_profile:update')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Delete education record (triggers CV snapshot)' })
   @ApiResponse({ status: 200, description: 'Education deleted successfully' })
@@ -101,6 +108,7 @@ export class WorkerController {
   }
 
   @Get('me/experience')
+  @RequirePermissions('worker_profile:read')
   @ApiOperation({ summary: 'List own experience records' })
   @ApiResponse({ status: 200, description: 'Experience list retrieved successfully' })
   async listMyExperience(@Query() dto: ListExperienceDto, @Req() req: RequestWithUser) {
@@ -108,6 +116,7 @@ export class WorkerController {
   }
 
   @Post('me/experience')
+  @RequirePermissions('worker_profile:update')
   @ApiOperation({ summary: 'Add experience record (triggers CV snapshot)' })
   @ApiResponse({ status: 201, description: 'Experience created successfully' })
   async createMyExperience(@Body() dto: CreateExperienceDto, @Req() req: RequestWithUser) {
@@ -115,6 +124,7 @@ export class WorkerController {
   }
 
   @Put('me/experience/:id')
+  @RequirePermissions('worker_profile:update')
   @ApiOperation({ summary: 'Update experience record (triggers CV snapshot)' })
   @ApiResponse({ status: 200, description: 'Experience updated successfully' })
   async updateMyExperience(
@@ -126,6 +136,7 @@ export class WorkerController {
   }
 
   @Delete('me/experience/:id')
+  @RequirePermissions('worker_profile:update')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Delete experience record (triggers CV snapshot)' })
   @ApiResponse({ status: 200, description: 'Experience deleted successfully' })
@@ -134,6 +145,7 @@ export class WorkerController {
   }
 
   @Get('me/skills')
+  @RequirePermissions('worker_profile:read')
   @ApiOperation({ summary: 'List own skills' })
   @ApiResponse({ status: 200, description: 'Skills list retrieved successfully' })
   async listMySkills(@Query() dto: ListSkillsDto, @Req() req: RequestWithUser) {
@@ -141,6 +153,7 @@ export class WorkerController {
   }
 
   @Post('me/skills')
+  @RequirePermissions('worker_profile:update')
   @ApiOperation({ summary: 'Add skill (triggers CV snapshot)' })
   @ApiResponse({ status: 201, description: 'Skill created successfully' })
   async createMySkill(@Body() dto: CreateSkillDto, @Req() req: RequestWithUser) {
@@ -148,6 +161,7 @@ export class WorkerController {
   }
 
   @Put('me/skills/:id')
+  @RequirePermissions('worker_profile:update')
   @ApiOperation({ summary: 'Update skill (triggers CV snapshot)' })
   @ApiResponse({ status: 200, description: 'Skill updated successfully' })
   async updateMySkill(
@@ -159,6 +173,7 @@ export class WorkerController {
   }
 
   @Delete('me/skills/:id')
+  @RequirePermissions('worker_profile:update')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Delete skill (triggers CV snapshot)' })
   @ApiResponse({ status: 200, description: 'Skill deleted successfully' })
@@ -166,7 +181,26 @@ export class WorkerController {
     return this.workerService.deleteSkill(req.user.id, id, this.extractIp(req));
   }
 
+  @Get('me/preferences')
+  @RequirePermissions('worker_profile:read')
+  @ApiOperation({ summary: 'Get own job preferences' })
+  @ApiResponse({ status: 200, description: 'Preferences retrieved successfully' })
+  async getMyPreferences(@Req() req: RequestWithUser) {
+    return this.workerService.getPreferences(req.user.id);
+  }
+
+  @Put('me/preferences')
+  @RequirePermissions('worker_profile:update')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Update own job preferences (salary, location, remote, job types, availability)' })
+  @ApiResponse({ status: 200, description: 'Preferences updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid salary range or missing currency' })
+  async updateMyPreferences(@Body() dto: UpdatePreferencesDto, @Req() req: RequestWithUser) {
+    return this.workerService.updatePreferences(req.user.id, dto, this.extractIp(req));
+  }
+
   @Post('me/snapshots')
+  @RequirePermissions('worker_profile:update')
   @ApiOperation({ summary: 'Generate CV snapshot' })
   @ApiResponse({ status: 201, description: 'Snapshot generated successfully' })
   async generateSnapshot(@Body() dto: GenerateSnapshotDto, @Req() req: RequestWithUser) {
@@ -174,6 +208,7 @@ export class WorkerController {
   }
 
   @Get('me/snapshots')
+  @RequirePermissions('worker_profile:read')
   @ApiOperation({ summary: 'List CV snapshots' })
   @ApiResponse({ status: 200, description: 'Snapshots list retrieved successfully' })
   async listSnapshots(
@@ -185,6 +220,7 @@ export class WorkerController {
   }
 
   @Get('me/snapshots/current')
+  @RequirePermissions('worker_profile:read')
   @ApiOperation({ summary: 'Get current CV snapshot' })
   @ApiResponse({ status: 200, description: 'Current snapshot retrieved successfully' })
   async getCurrentSnapshot(@Req() req: RequestWithUser) {
@@ -192,8 +228,7 @@ export class WorkerController {
   }
 
   @Post('employer/cv')
-  @UseGuards(RolesGuard)
-  @Roles('EMPLOYER')
+  @RequirePermissions('worker_cv:read')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'View worker CV (employer only - read current snapshot)' })
   @ApiResponse({ status: 200, description: 'CV retrieved successfully' })
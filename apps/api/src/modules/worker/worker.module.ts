@@ -3,9 +3,10 @@ import { WorkerController } from './worker.controller';
 import { WorkerService } from './worker.service';
 import { WorkerRepository } from './worker.repository';
 import { AuthModule } from '../auth/auth.module';
+import { SubscriptionModule } from '../subscription/subscription.module';
 
 @Module({
-  imports: [AuthModule],
+  imports: [AuthModule, SubscriptionModule],
   controllers: [WorkerController],
   providers: [WorkerService, WorkerRepository],
   exports: [WorkerService, WorkerRepository],
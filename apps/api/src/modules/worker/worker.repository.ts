@@ -1,6 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../database/prisma/prisma.service';
-import { Prisma, WorkerProfile, WorkerEducation, WorkerExperience, WorkerSkill, CvSnapshot, User } from '@prisma/client';
+import { Prisma, WorkerProfile, WorkerEducation, WorkerExperience, WorkerSkill, WorkerPreferences, CvSnapshot, User, JobType, RemoteType } from '@prisma/client';
 import * as crypto from 'crypto';
 
 interface PaginatedResult<T> {
@@ -294,6 +294,31 @@ export class WorkerRepository {
     });
   }
 
+  async findPreferences(userId: string): Promise<WorkerPreferences | null> {
+    return this.prisma.workerPreferences.findUnique({
+      where: { userId },
+    });
+  }
+
+  async upsertPreferences(userId: string, data: {
+    expectedSalaryMin?: number | null;
+    expectedSalaryMax?: number | null;
+    salaryCurrency?: string;
+    preferredCities?: string[];
+    preferredRegions?: string[];
+    willingToRelocate?: boolean;
+    commuteRadiusKm?: number;
+    remoteType?: RemoteType;
+    jobTypes?: JobType[];
+    availableFrom?: Date;
+  }): Promise<WorkerPreferences> {
+    return this.prisma.workerPreferences.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+  }
+
   async getCurrentSnapshot(userId: string): Promise<CvSnapshot | null> {
     return this.prisma.cvSnapshot.findFirst({
       where: { userId, isCurrent: true, deletedAt: null },
@@ -372,6 +397,7 @@ export class WorkerRepository {
           snapshotData,
           sha256Hash,
           previousHash: previousHash || null,
+          ...(await this.govVerifyStamp(tx, userId)),
           sourceApi,
           isCurrent: true,
         },
@@ -447,6 +473,7 @@ export class WorkerRepository {
           snapshotData,
           sha256Hash,
           previousHash: previousHash || null,
+          ...(await this.govVerifyStamp(tx, userId)),
           sourceApi,
           isCurrent: true,
         },
@@ -525,6 +552,7 @@ export class WorkerRepository {
           snapshotData,
           sha256Hash,
           previousHash: previousHash || null,
+          ...(await this.govVerifyStamp(tx, userId)),
           sourceApi,
           isCurrent: true,
         },
@@ -546,4 +574,16 @@ export class WorkerRepository {
       where: { userId: workerId, isCurrent: true, deletedAt: null },
     });
   }
+
+  // New snapshots carry the profile's gov verification so a CV edit does not reset it to PENDING.
+  private async govVerifyStamp(
+    tx: Prisma.TransactionClient,
+    userId: string,
+  ): Promise<Pick<CvSnapshot, 'govVerifyStatus' | 'govVerifyAt'> | Record<string, never>> {
+    const profile = await tx.workerProfile.findUnique({
+      where: { userId },
+      select: { govVerifyStatus: true, govVerifyAt: true },
+    });
+    return profile ?? {};
+  }
 }
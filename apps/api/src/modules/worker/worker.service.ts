@@ -1,6 +1,10 @@
 import { Injectable, ForbiddenException, NotFoundException, BadRequestException } from '@nestjs/common';
 import { AuditService } from '../auth/audit.service';
 import { WorkerRepository } from './worker.repository';
+import { DomainEventBus } from '../../common/events/domain-event-bus.service';
+import { DomainEvents } from '../../common/events/domain-events';
+import { SubscriptionService } from '../subscription/subscription.service';
+import { resolvePlace } from '../../common/geo/uzbekistan-gazetteer';
 import {
   UpdateContactDto,
   CreateEducationDto,
@@ -14,6 +18,7 @@ import {
   ListExperienceDto,
   ListSkillsDto,
   ViewWorkerCvDto,
+  UpdatePreferencesDto,
 } from './dto/worker.dto';
 import { JobType, ProficiencyLevel } from '@prisma/client';
 
@@ -22,6 +27,8 @@ export class WorkerService {
   constructor(
     private readonly workerRepository: WorkerRepository,
     private readonly auditService: AuditService,
+    private readonly eventBus: DomainEventBus,
+    private readonly subscriptionService: SubscriptionService,
   ) {}
 
   async getProfile(userId: string, requesterId: string, requesterRole: string, ipAddress: string) {
@@ -78,6 +85,9 @@ export class WorkerService {
     await this.auditService.log('WORKER_CONTACT_UPDATED', {
       userId,
       ipAddress,
+      resourceId: userId,
+      before: { phone: oldPhone },
+      after: { phone: updatedUser.phone },
       details: {
         fieldChanged: hasPhone ? 'phone' : 'none',
         oldPhone,
@@ -128,6 +138,7 @@ export class WorkerService {
     await this.auditService.log('WORKER_EDUCATION_CREATED', {
       userId,
       ipAddress,
+      after: education,
       details: { 
         educationId: education.id, 
         institutionName: dto.institutionName,
@@ -135,6 +146,8 @@ export class WorkerService {
       },
     });
 
+    this.eventBus.publish(DomainEvents.WORKER_EDUCATION_CHANGED, { workerId: userId });
+
     return this.mapEducationToResponse(education);
   }
 
@@ -175,12 +188,16 @@ export class WorkerService {
     await this.auditService.log('WORKER_EDUCATION_UPDATED', {
       userId,
       ipAddress,
+      before: education,
+      after: updated,
       details: {
         educationId,
         snapshotGenerated: !result.isDuplicate,
       },
     });
 
+    this.eventBus.publish(DomainEvents.WORKER_EDUCATION_CHANGED, { workerId: userId });
+
     return this.mapEducationToResponse(updated);
   }
 
@@ -206,12 +223,15 @@ export class WorkerService {
     await this.auditService.log('WORKER_EDUCATION_DELETED', {
       userId,
       ipAddress,
+      before: education,
       details: { 
         educationId,
         snapshotGenerated: !result.isDuplicate,
       },
     });
 
+    this.eventBus.publish(DomainEvents.WORKER_EDUCATION_CHANGED, { workerId: userId });
+
     return { message: 'Education deleted successfully', educationId };
   }
 
@@ -253,6 +273,7 @@ export class WorkerService {
     await this.auditService.log('WORKER_EXPERIENCE_CREATED', {
       userId,
       ipAddress,
+      after: experience,
       details: { 
         experienceId: experience.id, 
         employerName: dto.employerName,
@@ -260,6 +281,8 @@ export class WorkerService {
       },
     });
 
+    this.eventBus.publish(DomainEvents.WORKER_EXPERIENCE_CHANGED, { workerId: userId });
+
     return this.mapExperienceToResponse(experience);
   }
 
@@ -301,12 +324,16 @@ export class WorkerService {
     await this.auditService.log('WORKER_EXPERIENCE_UPDATED', {
       userId,
       ipAddress,
+      before: experience,
+      after: updated,
       details: {
         experienceId,
         snapshotGenerated: !result.isDuplicate,
       },
     });
 
+    this.eventBus.publish(DomainEvents.WORKER_EXPERIENCE_CHANGED, { workerId: userId });
+
     return this.mapExperienceToResponse(updated);
   }
 
@@ -332,12 +359,15 @@ export class WorkerService {
     await this.auditService.log('WORKER_EXPERIENCE_DELETED', {
       userId,
       ipAddress,
+      before: experience,
       details: { 
         experienceId,
         snapshotGenerated: !result.isDuplicate,
       },
     });
 
+    this.eventBus.publish(DomainEvents.WORKER_EXPERIENCE_CHANGED, { workerId: userId });
+
     return { message: 'Experience deleted successfully', experienceId };
   }
 
@@ -374,6 +404,7 @@ export class WorkerService {
     await this.auditService.log('WORKER_SKILL_CREATED', {
       userId,
       ipAddress,
+      after: skill,
       details: { 
         skillId: skill.id, 
         skillName: dto.skillName,
@@ -381,6 +412,8 @@ export class WorkerService {
       },
     });
 
+    this.eventBus.publish(DomainEvents.WORKER_SKILLS_CHANGED, { workerId: userId });
+
     return this.mapSkillToResponse(skill);
   }
 
@@ -417,12 +450,16 @@ export class WorkerService {
     await this.auditService.log('WORKER_SKILL_UPDATED', {
       userId,
       ipAddress,
+      before: skill,
+      after: updated,
       details: {
         skillId,
         snapshotGenerated: !result.isDuplicate,
       },
     });
 
+    this.eventBus.publish(DomainEvents.WORKER_SKILLS_CHANGED, { workerId: userId });
+
     return this.mapSkillToResponse(updated);
   }
 
@@ -448,15 +485,79 @@ export class WorkerService {
     await this.auditService.log('WORKER_SKILL_DELETED', {
       userId,
       ipAddress,
+      before: skill,
       details: { 
         skillId,
         snapshotGenerated: !result.isDuplicate,
       },
     });
 
+    this.eventBus.publish(DomainEvents.WORKER_SKILLS_CHANGED, { workerId: userId });
+
     return { message: 'Skill deleted successfully', skillId };
   }
 
+  async getPreferences(userId: string) {
+    const preferences = await this.workerRepository.findPreferences(userId);
+    return this.mapPreferencesToResponse(preferences ?? { userId });
+  }
+
+  async updatePreferences(
+    userId: string,
+    dto: UpdatePreferencesDto,
+    ipAddress: string,
+  ) {
+    const existing = await this.workerRepository.findPreferences(userId);
+
+    const salaryMin = dto.expectedSalaryMin !== undefined
+      ? dto.expectedSalaryMin
+      : existing?.expectedSalaryMin?.toNumber() ?? null;
+    const salaryMax = dto.expectedSalaryMax !== undefined
+      ? dto.expectedSalaryMax
+      : existing?.expectedSalaryMax?.toNumber() ?? null;
+    const currency = dto.salaryCurrency?.toUpperCase() ?? existing?.salaryCurrency ?? null;
+
+    if (salaryMin !== null && salaryMax !== null && salaryMin > salaryMax) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'INVALID_SALARY_RANGE', message: 'expectedSalaryMin cannot exceed expectedSalaryMax' },
+      });
+    }
+
+    if ((salaryMin !== null || salaryMax !== null) && !currency) {
+      throw new BadRequestException({
+        success: false,
+        error: { code: 'SALARY_CURRENCY_REQUIRED', message: 'salaryCurrency is required when an expected salary is set' },
+      });
+    }
+
+    const preferences = await this.workerRepository.upsertPreferences(userId, {
+      expectedSalaryMin: dto.expectedSalaryMin,
+      expectedSalaryMax: dto.expectedSalaryMax,
+      salaryCurrency: dto.salaryCurrency?.toUpperCase(),
+      preferredCities: dto.preferredCities ? this.normalizePlaceList(dto.preferredCities, 'CITY') : undefined,
+      preferredRegions: dto.preferredRegions ? this.normalizePlaceList(dto.preferredRegions, 'REGION') : undefined,
+      willingToRelocate: dto.willingToRelocate,
+      commuteRadiusKm: dto.commuteRadiusKm !== undefined ? Math.round(dto.commuteRadiusKm) : undefined,
+      remoteType: dto.remoteType,
+      jobTypes: dto.jobTypes ? [...new Set(dto.jobTypes)] as JobType[] : undefined,
+      availableFrom: dto.availableFrom ? new Date(dto.availableFrom) : undefined,
+    });
+
+    await this.auditService.log('WORKER_PREFERENCES_UPDATED', {
+      userId,
+      ipAddress,
+      resourceId: userId,
+      before: existing,
+      after: preferences,
+      details: { fieldsChanged: Object.keys(dto).filter(key => (dto as any)[key] !== undefined) },
+    });
+
+    this.eventBus.publish(DomainEvents.WORKER_PREFERENCES_CHANGED, { workerId: userId });
+
+    return this.mapPreferencesToResponse(preferences);
+  }
+
   async generateSnapshot(userId: string, dto: GenerateSnapshotDto, ipAddress: string) {
     const currentSnapshot = await this.workerRepository.getCurrentSnapshot(userId);
 
@@ -549,6 +650,8 @@ export class WorkerService {
       });
     }
 
+    await this.subscriptionService.recordCvView(employerId, dto.workerId);
+
     const [education, experience, skills] = await Promise.all([
       this.workerRepository.listEducation(dto.workerId, 1, 100),
       this.workerRepository.listExperience(dto.workerId, 1, 100),
@@ -657,6 +760,40 @@ export class WorkerService {
     };
   }
 
+  private mapPreferencesToResponse(preferences: any) {
+    return {
+      userId: preferences.userId,
+      expectedSalaryMin: preferences.expectedSalaryMin?.toNumber?.() ?? preferences.expectedSalaryMin ?? null,
+      expectedSalaryMax: preferences.expectedSalaryMax?.toNumber?.() ?? preferences.expectedSalaryMax ?? null,
+      salaryCurrency: preferences.salaryCurrency ?? null,
+      preferredCities: preferences.preferredCities ?? [],
+      preferredRegions: preferences.preferredRegions ?? [],
+      willingToRelocate: preferences.willingToRelocate ?? false,
+      commuteRadiusKm: preferences.commuteRadiusKm ?? null,
+      remoteType: preferences.remoteType ?? null,
+      jobTypes: preferences.jobTypes ?? [],
+      availableFrom: preferences.availableFrom ?? null,
+      updatedAt: preferences.updatedAt ?? null,
+    };
+  }
+
+  // Stores gazetteer names where the place is known so the same city typed in Cyrillic or Latin is kept once.
+  private normalizePlaceList(places: string[], kind: 'CITY' | 'REGION'): string[] {
+    const seen = new Set<string>();
+    const result: string[] = [];
+    for (const place of places) {
+      const trimmed = place.trim();
+      if (!trimmed) continue;
+
+      const resolved = resolvePlace(trimmed, { types: kind === 'CITY' ? ['CITY', 'DISTRICT'] : ['REGION'] });
+      const name = resolved?.name ?? trimmed;
+      if (seen.has(name.toLowerCase())) continue;
+      seen.add(name.toLowerCase());
+      result.push(name);
+    }
+    return result;
+  }
+
   private mapSnapshotToResponse(snapshot: any) {
     return {
       id: snapshot.id,